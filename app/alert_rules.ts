@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Evaluates alert rules by comparing the latest scheduled import
+ * with the previous one, and creates the email digest of the matches.
+ */
+
+import {
+  compareImportedSites,
+  ImportedSite,
+  SiteChange,
+} from './import_comparison';
+import {SiteColumnId} from './site_columns';
+
+/**
+ * The approval status of disapproved sites, as written to import sheets.
+ */
+const NEEDS_ATTENTION_STATUS = 'Needs attention';
+
+/**
+ * The maximum number of sites listed per match in the digest.
+ */
+const MAX_LISTED_SITES = 20;
+
+/**
+ * A rule that is checked after each scheduled import.
+ */
+export type AlertRule =
+  // Matches sites whose approval status changes to "Needs attention".
+  | {type: 'SITE_DISAPPROVED'}
+  // Matches when more than `maxSites` sites of a child publisher need
+  // attention, while they didn't in the previous import.
+  | {type: 'CHILD_NEEDS_ATTENTION'; childNetworkCode: string; maxSites: number}
+  // Matches sites that get a disapproval reason of the given type, e.g.
+  // "Ownership".
+  | {type: 'NEW_DISAPPROVAL_REASON_TYPE'; reasonType: string};
+
+/**
+ * A rule that matched, with the sites it matched.
+ */
+export interface AlertMatch {
+  rule: AlertRule;
+  sites: ImportedSite[];
+}
+
+/**
+ * The subject and body of an alert email.
+ */
+export interface AlertDigest {
+  subject: string;
+  body: string;
+}
+
+/**
+ * Returns a description of an alert rule for display.
+ * @param rule The rule to describe.
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'SITE_DISAPPROVED':
+      return 'A site moves to "Needs attention"';
+    case 'CHILD_NEEDS_ATTENTION':
+      return (
+        `Child network code ${rule.childNetworkCode} has more than ` +
+        `${rule.maxSites} sites needing attention`
+      );
+    default:
+      return `A site gets a new "${rule.reasonType}" disapproval reason`;
+  }
+}
+
+/**
+ * Adds the columns that alert rules are evaluated on to the columns of an
+ * import, so that user-chosen columns can't silently disable alerts.
+ * @param columnIds The columns of the import.
+ * @param rules The alert rules.
+ * @return The columns, followed by the missing columns that the rules need.
+ */
+export function addAlertRuleColumns(
+  columnIds: SiteColumnId[],
+  rules: AlertRule[],
+): SiteColumnId[] {
+  const requiredColumnIds: SiteColumnId[] = ['approvalStatus', 'statusDetails'];
+  if (
+    rules.some(({type}) => type === 'CHILD_NEEDS_ATTENTION') &&
+    !columnIds.includes('childPublisher')
+  ) {
+    requiredColumnIds.push('childNetworkCode');
+  }
+  if (rules.some(({type}) => type === 'NEW_DISAPPROVAL_REASON_TYPE')) {
+    requiredColumnIds.push('disapprovalReasonTypes');
+  }
+  return [
+    ...columnIds,
+    ...requiredColumnIds.filter((columnId) => !columnIds.includes(columnId)),
+  ];
+}
+
+/**
+ * Returns the sites of a child publisher that need attention.
+ * @param sites The sites of an import.
+ * @param childNetworkCode The child network code of the child publisher.
+ */
+function getSitesNeedingAttention(
+  sites: ImportedSite[],
+  childNetworkCode: string,
+): ImportedSite[] {
+  return sites.filter(
+    (site) =>
+      site.childNetworkCode === childNetworkCode &&
+      site.approvalStatus === NEEDS_ATTENTION_STATUS,
+  );
+}
+
+/**
+ * Returns the sites matched by a rule.
+ * @param rule The rule to evaluate.
+ * @param changes The changes between the previous and the latest import.
+ * @param previousSites The sites of the previous import.
+ * @param currentSites The sites of the latest import.
+ */
+function getMatchingSites(
+  rule: AlertRule,
+  changes: SiteChange[],
+  previousSites: ImportedSite[],
+  currentSites: ImportedSite[],
+): ImportedSite[] {
+  switch (rule.type) {
+    case 'SITE_DISAPPROVED':
+      return changes
+        .filter(
+          (change) =>
+            change.type === 'CHANGED' &&
+            change.site.approvalStatus === NEEDS_ATTENTION_STATUS &&
+            change.previousSite?.approvalStatus !== NEEDS_ATTENTION_STATUS,
+        )
+        .map(({site}) => site);
+    case 'CHILD_NEEDS_ATTENTION': {
+      const sites = getSitesNeedingAttention(
+        currentSites,
+        rule.childNetworkCode,
+      );
+      const previousCount = getSitesNeedingAttention(
+        previousSites,
+        rule.childNetworkCode,
+      ).length;
+      // Only alert when the threshold is crossed, not after every import.
+      return sites.length > rule.maxSites && previousCount <= rule.maxSites
+        ? sites
+        : [];
+    }
+    default: {
+      // Reason types aren't compared by `compareImportedSites`, so the sites
+      // are compared here.
+      const previousSitesById = new Map(
+        previousSites.map((site) => [site.siteId, site]),
+      );
+      return currentSites.filter(
+        (site) =>
+          site.disapprovalReasonTypes.includes(rule.reasonType) &&
+          !previousSitesById
+            .get(site.siteId)
+            ?.disapprovalReasonTypes.includes(rule.reasonType),
+      );
+    }
+  }
+}
+
+/**
+ * Evaluates alert rules against the latest import.
+ * @param rules The rules to evaluate.
+ * @param previousSites The sites of the previous import. Empty if there was no
+ *     previous import.
+ * @param currentSites The sites of the latest import.
+ * @return The rules that matched, in the order of the rules.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  previousSites: ImportedSite[],
+  currentSites: ImportedSite[],
+): AlertMatch[] {
+  const changes = compareImportedSites(previousSites, currentSites);
+  return rules
+    .map((rule) => ({
+      rule,
+      sites: getMatchingSites(rule, changes, previousSites, currentSites),
+    }))
+    .filter(({sites}) => sites.length);
+}
+
+/**
+ * Creates the email digest of the rules that matched after an import.
+ * @param sheetTitle The title of the sheet of the import.
+ * @param matches The rules that matched.
+ * @return The subject and plain text body of the email.
+ */
+export function createAlertDigest(
+  sheetTitle: string,
+  matches: AlertMatch[],
+): AlertDigest {
+  const sections = matches.map(({rule, sites}) => {
+    const lines = sites
+      .slice(0, MAX_LISTED_SITES)
+      .map(
+        (site) =>
+          `- ${site.url || `Site ${site.siteId}`}` +
+          (site.approvalStatus ? ` (${site.approvalStatus})` : ''),
+      );
+    if (sites.length > MAX_LISTED_SITES) {
+      lines.push(`- and ${sites.length - MAX_LISTED_SITES} more`);
+    }
+    return [
+      `${describeAlertRule(rule)}: ${sites.length} site(s)`,
+      ...lines,
+    ].join('\n');
+  });
+  return {
+    subject: `GAM Sites Toolkit: ${matches.length} alert(s) for ${sheetTitle}`,
+    body: [
+      `The latest import into "${sheetTitle}" matched the following alerts.`,
+      ...sections,
+    ].join('\n\n'),
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  addAlertRuleColumns,
+  createAlertDigest,
+  evaluateAlertRules,
+} from './alert_rules';
+import {ImportedSite} from './import_comparison';
+
+describe('alert rules', () => {
+  const createSite = (
+    siteId: string,
+    approvalStatus = 'Ready',
+    childNetworkCode = '',
+    disapprovalReasonTypes: string[] = [],
+  ): ImportedSite => ({
+    siteId,
+    url: `url${siteId}`,
+    childNetworkCode,
+    approvalStatus,
+    disapprovalReasons: [],
+    disapprovalReasonTypes,
+  });
+
+  describe('evaluateAlertRules', () => {
+    it('matches sites that move to needs attention', () => {
+      const site = createSite('1', 'Needs attention');
+      expect(
+        evaluateAlertRules(
+          [{type: 'SITE_DISAPPROVED'}],
+          [createSite('1'), createSite('2', 'Needs attention')],
+          [site, createSite('2', 'Needs attention'), createSite('3')],
+        ),
+      ).toEqual([{rule: {type: 'SITE_DISAPPROVED'}, sites: [site]}]);
+    });
+
+    it('matches child publishers that cross the threshold', () => {
+      const rule = {
+        type: 'CHILD_NEEDS_ATTENTION' as const,
+        childNetworkCode: '1234',
+        maxSites: 1,
+      };
+      const currentSites = [
+        createSite('1', 'Needs attention', '1234'),
+        createSite('2', 'Needs attention', '1234'),
+        createSite('3', 'Needs attention', '5678'),
+      ];
+      expect(
+        evaluateAlertRules(
+          [rule],
+          [createSite('1', 'Needs attention', '1234')],
+          currentSites,
+        ),
+      ).toEqual([{rule, sites: currentSites.slice(0, 2)}]);
+    });
+
+    it('ignores child publishers already above the threshold', () => {
+      const sites = [
+        createSite('1', 'Needs attention', '1234'),
+        createSite('2', 'Needs attention', '1234'),
+      ];
+      expect(
+        evaluateAlertRules(
+          [
+            {
+              type: 'CHILD_NEEDS_ATTENTION',
+              childNetworkCode: '1234',
+              maxSites: 1,
+            },
+          ],
+          sites,
+          sites,
+        ),
+      ).toEqual([]);
+    });
+
+    it('matches sites with a new disapproval reason type', () => {
+      const rule = {
+        type: 'NEW_DISAPPROVAL_REASON_TYPE' as const,
+        reasonType: 'Ownership',
+      };
+      const changedSite = createSite('1', 'Needs attention', '', ['Ownership']);
+      const addedSite = createSite('3', 'Needs attention', '', ['Ownership']);
+      expect(
+        evaluateAlertRules(
+          [rule],
+          [
+            createSite('1', 'Needs attention', '', ['Content']),
+            createSite('2', 'Needs attention', '', ['Ownership']),
+          ],
+          [
+            changedSite,
+            createSite('2', 'Needs attention', '', ['Ownership']),
+            addedSite,
+          ],
+        ),
+      ).toEqual([{rule, sites: [changedSite, addedSite]}]);
+    });
+  });
+
+  describe('addAlertRuleColumns', () => {
+    it('adds the approval status and status details columns', () => {
+      expect(
+        addAlertRuleColumns(
+          ['url', 'statusDetails', 'siteId'],
+          [{type: 'SITE_DISAPPROVED'}],
+        ),
+      ).toEqual(['url', 'statusDetails', 'siteId', 'approvalStatus']);
+    });
+
+    it('adds the columns needed by child and reason type rules', () => {
+      expect(
+        addAlertRuleColumns(
+          ['siteId'],
+          [
+            {type: 'CHILD_NEEDS_ATTENTION', childNetworkCode: '1', maxSites: 1},
+            {type: 'NEW_DISAPPROVAL_REASON_TYPE', reasonType: 'Ownership'},
+          ],
+        ),
+      ).toEqual([
+        'siteId',
+        'approvalStatus',
+        'statusDetails',
+        'childNetworkCode',
+        'disapprovalReasonTypes',
+      ]);
+    });
+
+    it('keeps the child publisher column for child rules', () => {
+      expect(
+        addAlertRuleColumns(
+          ['siteId', 'childPublisher', 'approvalStatus', 'statusDetails'],
+          [{type: 'CHILD_NEEDS_ATTENTION', childNetworkCode: '1', maxSites: 1}],
+        ),
+      ).toEqual([
+        'siteId',
+        'childPublisher',
+        'approvalStatus',
+        'statusDetails',
+      ]);
+    });
+  });
+
+  describe('createAlertDigest', () => {
+    it('lists the sites of each matched rule', () => {
+      expect(
+        createAlertDigest('Scheduled Import', [
+          {
+            rule: {type: 'SITE_DISAPPROVED'},
+            sites: [createSite('1', 'Needs attention')],
+          },
+        ]),
+      ).toEqual({
+        subject: 'GAM Sites Toolkit: 1 alert(s) for Scheduled Import',
+        body:
+          'The latest import into "Scheduled Import" matched the following ' +
+          'alerts.\n\n' +
+          'A site moves to "Needs attention": 1 site(s)\n' +
+          '- url1 (Needs attention)',
+      });
+    });
+
+    it('limits the number of listed sites', () => {
+      const sites = Array.from({length: 25}, (_, i) => createSite(`${i}`));
+      const {body} = createAlertDigest('Scheduled Import', [
+        {rule: {type: 'SITE_DISAPPROVED'}, sites},
+      ]);
+      expect(body).toContain('- url19 (Ready)\n- and 5 more');
+    });
+  });
+});
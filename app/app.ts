@@ -21,28 +21,215 @@
  */
 
 import {AdManagerClient} from 'gam_apps_script/ad_manager_client';
-import {Statement} from 'gam_apps_script/typings/statement';
-import {DataHandler} from './data_handler';
+import {
+  addAlertRuleColumns,
+  AlertMatch,
+  AlertRule,
+  createAlertDigest,
+  describeAlertRule,
+  evaluateAlertRules,
+} from './alert_rules';
+import {DataHandler, NoSitesFoundError} from './data_handler';
+import {
+  isChildNetworkCodeList,
+  parseChildNetworkCodes,
+} from './child_network_codes';
+import {
+  CHILD_PUBLISHER_HEADERS,
+  createRowForChildPublisher,
+} from './child_publishers';
+import {
+  createReasonSummaryRows,
+  summarizeDisapprovalReasons,
+} from './disapproval_reasons';
+import {DocumentSettings} from './document_settings';
+import {
+  compareImportedSites,
+  parseImportedSites,
+  SiteChange,
+} from './import_comparison';
+import {createImportDashboard} from './import_dashboard';
+import {
+  ChildSiteCounts,
+  compareImportSnapshots,
+  countChildSites,
+  countSites,
+  createImportTrends,
+  createSnapshotRows,
+  getApprovalStatusCounts,
+  getImportSnapshots,
+  IMPORT_HISTORY_HEADERS,
+  IMPORT_HISTORY_SHEET_TITLE,
+  ImportSnapshot,
+} from './import_history';
+import {
+  getSavedQueryOutputFormats,
+  MANAGE_SAVED_QUERIES_MENU_ITEM,
+  MAX_SAVED_QUERIES,
+  putSavedQuery,
+  SavedQuery,
+} from './saved_queries';
+import {classifyError} from './retry_policy';
+import {mergeSiteRows} from './sheet_sync';
+import {
+  BoundStatement,
+  BoundValue,
+  describeStatement,
+  StatementBuilder,
+} from './statement_builder';
+import {
+  createSiteQuery,
+  parseApprovalStatusDateRange,
+  parseApprovalStatuses,
+  SITE_QUERY_APPROVAL_STATUSES,
+  SiteQueryFilters,
+} from './site_query';
+import {
+  createRowsForSite,
+  findUnresolvedChildNetworkCodes,
+  hasUnresolvedChildPublisher,
+  DISAPPROVAL_REASON_TYPE_LABELS,
+  formatChildPublisher,
+  getSiteColumnHeader,
+  getSiteColumnHeaders,
+  hasReasonColumns,
+  SITE_COLUMN_IDS,
+  SITE_ID_HEADER,
+  SITE_URL_HEADER,
+  SiteColumnId,
+  validateSiteColumns,
+} from './site_columns';
+import {MailHandler} from './mail_handler';
 import {SpreadsheetHandler} from './spreadsheet_handler';
-import {Site} from './typings/ad_manager_api';
-import {Menu, UserInterfaceHandler} from './user_interface_handler';
-import {ChildPublisherMap, UserSettings} from './user_settings';
+import {Company, Site, SiteAction} from './typings/ad_manager_api';
+import {createTransientError} from './transient_error';
+import {TriggerHandler} from './trigger_handler';
+import {
+  ImportFunctionNames,
+  Menu,
+  UserInterfaceHandler,
+} from './user_interface_handler';
+import {
+  ChildPublisherImportJob,
+  ChildPublisherMap,
+  ImportJob,
+  ScheduledImport,
+  UserSettings,
+} from './user_settings';
+import {
+  ImportEvent,
+  ImportNotification,
+  Notifier,
+  WebhookNotifier,
+} from './webhook_notifier';
 
 const MENU_ITEM_IMPORT_ALL_SITES = 'onImportAllSitesSelected';
 const MENU_ITEM_IMPORT_FIRST_PARTY_SITES = 'onImportFirstPartySitesSelected';
 const MENU_ITEM_IMPORT_CHILD_SITES = 'onImportChildSitesSelected';
+const MENU_ITEM_IMPORT_CHILD_ACCOUNT_HEALTH =
+  'onImportChildAccountHealthSelected';
+const MENU_ITEM_IMPORT_DISAPPROVAL_REASONS =
+  'onImportDisapprovalReasonsSelected';
 const MENU_ITEM_IMPORT_SITES_BY_CHILD_NETWORK_CODE =
   'onImportSitesByChildNetworkCodeSelected';
+const MENU_ITEM_IMPORT_SITES_BY_CHILD_NETWORK_CODES =
+  'onImportSitesByChildNetworkCodesSelected';
+const MENU_ITEM_IMPORT_SITES_BY_APPROVAL_STATUS =
+  'onImportSitesByApprovalStatusSelected';
 const MENU_ITEM_IMPORT_SITES_BY_CUSTOM_QUERY =
   'onImportSitesByCustomQuerySelected';
+const MENU_ITEM_REFRESH_ACTIVE_SHEET = 'onRefreshActiveSheetSelected';
+const MENU_ITEM_RESUME_IMPORT = 'onResumeImportSelected';
+const MENU_ITEM_IMPORT_CHILD_PUBLISHERS = 'onImportChildPublishersSelected';
+const MENU_ITEM_SUBMIT_SITES_FOR_APPROVAL = 'onSubmitSitesForApprovalSelected';
+const MENU_ITEM_DEACTIVATE_SITES = 'onDeactivateSitesSelected';
+const MENU_ITEM_CREATE_SITES = 'onCreateSitesSelected';
+const MENU_ITEM_COMPARE_IMPORTS = 'onCompareImportsSelected';
+const MENU_ITEM_SHOW_TRENDS = 'onShowTrendsSelected';
 const MENU_ITEM_SHOW_API_VERSION_PROMPT = 'showApiVersionPrompt';
 const MENU_ITEM_SHOW_NETWORK_CODE_PROMPT = 'showNetworkCodePrompt';
+const MENU_ITEM_SCHEDULE_DAILY_IMPORT = 'onScheduleDailyImportSelected';
+const MENU_ITEM_SCHEDULE_WEEKLY_IMPORT = 'onScheduleWeeklyImportSelected';
+const MENU_ITEM_REMOVE_SCHEDULED_IMPORT = 'onRemoveScheduledImportSelected';
+const MENU_ITEM_CHOOSE_SITE_COLUMNS = 'onChooseSiteColumnsSelected';
+const MENU_ITEM_REFRESH_CHILD_PUBLISHER_CACHE =
+  'onRefreshChildPublisherCacheSelected';
+const MENU_ITEM_TOGGLE_IMPORT_DASHBOARD = 'onToggleImportDashboardSelected';
+const MENU_ITEM_TOGGLE_CHILD_TRENDS = 'onToggleChildTrendsSelected';
+const MENU_ITEM_ADD_SITE_DISAPPROVED_ALERT =
+  'onAddSiteDisapprovedAlertSelected';
+const MENU_ITEM_ADD_CHILD_NEEDS_ATTENTION_ALERT =
+  'onAddChildNeedsAttentionAlertSelected';
+const MENU_ITEM_ADD_REASON_TYPE_ALERT = 'onAddReasonTypeAlertSelected';
+const MENU_ITEM_SHOW_ALERTS = 'onShowAlertsSelected';
+const MENU_ITEM_REMOVE_ALERTS = 'onRemoveAlertsSelected';
+const MENU_ITEM_ADD_WEBHOOK = 'onAddWebhookSelected';
+const MENU_ITEM_SHOW_WEBHOOKS = 'onShowWebhooksSelected';
+const MENU_ITEM_REMOVE_WEBHOOKS = 'onRemoveWebhooksSelected';
+const MENU_ITEM_MANAGE_SAVED_QUERIES = 'onManageSavedQueriesSelected';
+// Followed by the position of the saved query in the menu, see
+// `getSavedQueryMenuItem`.
+const MENU_ITEM_SAVED_QUERY_PREFIX = 'onSavedQuerySelected';
+
+const TRIGGER_RUN_SCHEDULED_IMPORT = 'runScheduledImport';
+const TRIGGER_CONTINUE_SCHEDULED_IMPORT = 'continueScheduledImport';
 
 const CONFIRM_IMPORT_DIALOG_MESSAGE =
   'Imported data will be visible to anyone with access to this Google Sheets ' +
   'file regardless of whether or not they have access to the data within ' +
   'Google Ad Manager. Do you wish to continue?';
 
+const CHILD_NETWORK_CODE_HEADER = 'Child Network Code';
+const SELECTED_HEADER = 'Selected';
+const ACTION_RESULT_HEADER = 'Action Result';
+
+const IMPORT_METADATA_KEY = 'gam_sites_toolkit_import';
+
+const IMPORT_BATCH_SIZE = 500;
+// Keeps each request of the import dialog, and the lock it holds, short.
+const IMPORT_PAGES_PER_REQUEST = 4;
+const MAX_SHEET_TITLE_LENGTH = 100;
+const MAX_SITES_PER_SHEET = 100_000;
+// Spreadsheets are limited to 10 million cells, so imports never need more
+// sheets. Bounds the lookup of the sheets of an import.
+const MAX_SHEETS_PER_IMPORT = 100;
+const SCHEDULED_IMPORT_BATCH_SIZE = 500;
+const SCHEDULED_IMPORT_HOUR = 6;
+// Leaves a margin below the Apps Script limit of 6 minutes per execution.
+const MAX_EXECUTION_TIME_MS = 4.5 * 60 * 1000;
+const CONTINUATION_DELAY_MS = 60 * 1000;
+const IMPORT_JOB_LOCK_TIMEOUT_MS = 60 * 1000;
+// Keeps the note about child publishers that weren't found readable.
+const MAX_LISTED_UNRESOLVED_CHILD_NETWORK_CODES = 20;
+// Apps Script stores at most 9 KB per property value. An import job is stored
+// in a single property, so imports whose job would be longer are refused,
+// leaving room for the progress that is added to the job during the import.
+const MAX_IMPORT_JOB_LENGTH = 8 * 1024;
+
+const SITE_ACTION_BATCH_SIZE = 100;
+const SITE_CREATION_BATCH_SIZE = 50;
+const CHILD_PUBLISHER_BATCH_SIZE = 500;
+
+// Dashboard charts are placed next to the tables, one below the other.
+const DASHBOARD_CHART_COLUMN = 5;
+const DASHBOARD_CHART_HEIGHT_ROWS = 20;
+
+const VALID_SHEET_TITLE_PATTERN = new RegExp(
+  `^.{0,${MAX_SHEET_TITLE_LENGTH}}$`,
+);
+
+const VALID_WEBHOOK_URL_PATTERN = /^https:\/\/\S+$/;
+
+const VALID_SITE_URL_PATTERN = /^(https?:\/\/)?[a-z0-9-]+(\.[a-z0-9-]+)+\/?$/i;
+
+/**
+ * The result messages written to the sheet for each type of site action.
+ */
+const SITE_ACTION_RESULTS: {[actionType in SiteAction['xsi:type']]: string} = {
+  'SubmitSiteForApproval': 'Submitted for approval',
+  'DeactivateSite': 'Deactivated',
+};
+
 let userSettings: UserSettings;
 
 let userInterfaceHandler: UserInterfaceHandler;
@@ -51,6 +238,11 @@ let dataHandler: DataHandler;
 
 let spreadsheetHandler: SpreadsheetHandler;
 
+let triggerHandler: TriggerHandler;
+let mailHandler: MailHandler;
+let documentSettings: DocumentSettings;
+let notifier: Notifier;
+
 /**
  * Returns the user settings, creating them if they don't exist.
  */
@@ -106,6 +298,57 @@ function getSpreadsheetHandler(activeSpreadsheet = SpreadsheetApp.getActive()) {
   return spreadsheetHandler;
 }
 
+/**
+ * Returns the trigger handler, creating it if it doesn't exist.
+ */
+function getTriggerHandler() {
+  if (!triggerHandler) {
+    triggerHandler = new TriggerHandler();
+  }
+  return triggerHandler;
+}
+
+/**
+ * Returns the mail handler, creating it if it doesn't exist.
+ */
+function getMailHandler() {
+  if (!mailHandler) {
+    mailHandler = new MailHandler();
+  }
+  return mailHandler;
+}
+
+/**
+ * Returns the document settings, creating them if they don't exist.
+ */
+function getDocumentSettings() {
+  if (!documentSettings) {
+    documentSettings = new DocumentSettings();
+  }
+  return documentSettings;
+}
+
+/**
+ * Returns the notifier, creating it if it doesn't exist.
+ */
+function getNotifier(documentSettings = getDocumentSettings()) {
+  if (!notifier) {
+    notifier = new WebhookNotifier(documentSettings.webhookUrls);
+  }
+  return notifier;
+}
+
+/**
+ * Returns the name of the menu function that runs a saved query. Menu items
+ * can only call global functions by name, so each saved query is run by the
+ * function of its position in the menu, which looks up the name of the saved
+ * query recorded when the menu was built.
+ * @param position The position of the saved query in the menu.
+ */
+function getSavedQueryMenuItem(position: number): string {
+  return `${MENU_ITEM_SAVED_QUERY_PREFIX}${position}`;
+}
+
 /**
  * Creates the menu for the application.
  * @param userInterfaceHandler The user interface handler to use.
@@ -113,21 +356,85 @@ function getSpreadsheetHandler(activeSpreadsheet = SpreadsheetApp.getActive()) {
 export function createMenu(
   userInterfaceHandler = getUserInterfaceHandler(),
   userSettings = getUserSettings(),
+  documentSettings = getDocumentSettings(),
 ) {
   const networkCode = userSettings.networkCode ?? 'Not set';
   const apiVersion = userSettings.adManagerApiVersion;
+  const scheduledImportFrequency = userSettings.scheduledImport?.frequency;
+  const scheduledImportDescription = scheduledImportFrequency
+    ? scheduledImportFrequency === 'DAILY'
+      ? 'Daily'
+      : 'Weekly'
+    : 'Off';
+  const importDashboardDescription = userSettings.importDashboard
+    ? 'On'
+    : 'Off';
+  const childTrendsDescription = userSettings.childTrends ? 'On' : 'Off';
+  const alertCount = userSettings.alertRules?.length ?? 0;
+  const savedQueryNames = documentSettings.savedQueries
+    .slice(0, MAX_SAVED_QUERIES)
+    .map(({name}) => name);
+  userSettings.savedQueryMenu = savedQueryNames;
+  const savedQueriesMenu: Menu = {};
+  savedQueryNames.forEach((name, i) => {
+    savedQueriesMenu[name] = getSavedQueryMenuItem(i);
+  });
+  savedQueriesMenu[MANAGE_SAVED_QUERIES_MENU_ITEM] =
+    MENU_ITEM_MANAGE_SAVED_QUERIES;
   const menu = {
     'Import Sites': {
       'All': MENU_ITEM_IMPORT_ALL_SITES,
       'First Party': MENU_ITEM_IMPORT_FIRST_PARTY_SITES,
       'Children': MENU_ITEM_IMPORT_CHILD_SITES,
+      'Children with Account Health': MENU_ITEM_IMPORT_CHILD_ACCOUNT_HEALTH,
+      'Disapproval Reasons': MENU_ITEM_IMPORT_DISAPPROVAL_REASONS,
       'By Child Network Code': MENU_ITEM_IMPORT_SITES_BY_CHILD_NETWORK_CODE,
+      'By Child Network Codes': MENU_ITEM_IMPORT_SITES_BY_CHILD_NETWORK_CODES,
+      'By Approval Status': MENU_ITEM_IMPORT_SITES_BY_APPROVAL_STATUS,
       'By Custom Query': MENU_ITEM_IMPORT_SITES_BY_CUSTOM_QUERY,
+      'Refresh Active Sheet': MENU_ITEM_REFRESH_ACTIVE_SHEET,
+      'Resume Interrupted Import': MENU_ITEM_RESUME_IMPORT,
+    },
+    'Saved Queries': savedQueriesMenu,
+    'Import Child Publishers': MENU_ITEM_IMPORT_CHILD_PUBLISHERS,
+    'Site Actions': {
+      'Submit Selected Sites for Approval': MENU_ITEM_SUBMIT_SITES_FOR_APPROVAL,
+      'Deactivate Selected Sites': MENU_ITEM_DEACTIVATE_SITES,
+      'Create Sites from Active Sheet': MENU_ITEM_CREATE_SITES,
+    },
+    'Reports': {
+      'Compare Imports': MENU_ITEM_COMPARE_IMPORTS,
+      'Trends': MENU_ITEM_SHOW_TRENDS,
     },
     'Settings': {
       [`Network Code (${networkCode})`]: MENU_ITEM_SHOW_NETWORK_CODE_PROMPT,
       [`Ad Manager API Version (${apiVersion})`]:
         MENU_ITEM_SHOW_API_VERSION_PROMPT,
+      [`Scheduled Import (${scheduledImportDescription})`]: {
+        'Schedule Daily Import': MENU_ITEM_SCHEDULE_DAILY_IMPORT,
+        'Schedule Weekly Import': MENU_ITEM_SCHEDULE_WEEKLY_IMPORT,
+        'Remove Scheduled Import': MENU_ITEM_REMOVE_SCHEDULED_IMPORT,
+      },
+      'Site Columns': MENU_ITEM_CHOOSE_SITE_COLUMNS,
+      'Refresh Child Publisher Cache': MENU_ITEM_REFRESH_CHILD_PUBLISHER_CACHE,
+      [`Import Dashboard (${importDashboardDescription})`]:
+        MENU_ITEM_TOGGLE_IMPORT_DASHBOARD,
+      [`Child Publisher Trends (${childTrendsDescription})`]:
+        MENU_ITEM_TOGGLE_CHILD_TRENDS,
+      [`Alerts (${alertCount})`]: {
+        'Alert When Sites Are Disapproved':
+          MENU_ITEM_ADD_SITE_DISAPPROVED_ALERT,
+        'Alert When a Child Needs Attention':
+          MENU_ITEM_ADD_CHILD_NEEDS_ATTENTION_ALERT,
+        'Alert on New Disapproval Reason Type': MENU_ITEM_ADD_REASON_TYPE_ALERT,
+        'Show Alerts': MENU_ITEM_SHOW_ALERTS,
+        'Remove All Alerts': MENU_ITEM_REMOVE_ALERTS,
+      },
+      'Webhooks': {
+        'Add Webhook': MENU_ITEM_ADD_WEBHOOK,
+        'Show Webhooks': MENU_ITEM_SHOW_WEBHOOKS,
+        'Remove All Webhooks': MENU_ITEM_REMOVE_WEBHOOKS,
+      },
     },
   };
   userInterfaceHandler.createMenu('GAM Sites Toolkit', menu);
@@ -141,12 +448,48 @@ export function registerMenuFunctions(scope: Record<string, Function>): void {
   scope[MENU_ITEM_IMPORT_ALL_SITES] = onImportAllSitesSelected;
   scope[MENU_ITEM_IMPORT_FIRST_PARTY_SITES] = onImportFirstPartySitesSelected;
   scope[MENU_ITEM_IMPORT_CHILD_SITES] = onImportChildSitesSelected;
+  scope[MENU_ITEM_IMPORT_CHILD_ACCOUNT_HEALTH] =
+    onImportChildAccountHealthSelected;
+  scope[MENU_ITEM_IMPORT_DISAPPROVAL_REASONS] =
+    onImportDisapprovalReasonsSelected;
   scope[MENU_ITEM_IMPORT_SITES_BY_CHILD_NETWORK_CODE] =
     onImportSitesByChildNetworkCodeSelected;
+  scope[MENU_ITEM_IMPORT_SITES_BY_CHILD_NETWORK_CODES] =
+    onImportSitesByChildNetworkCodesSelected;
+  scope[MENU_ITEM_IMPORT_SITES_BY_APPROVAL_STATUS] =
+    onImportSitesByApprovalStatusSelected;
   scope[MENU_ITEM_IMPORT_SITES_BY_CUSTOM_QUERY] =
     onImportSitesByCustomQuerySelected;
+  scope[MENU_ITEM_REFRESH_ACTIVE_SHEET] = onRefreshActiveSheetSelected;
+  scope[MENU_ITEM_RESUME_IMPORT] = onResumeImportSelected;
+  scope[MENU_ITEM_IMPORT_CHILD_PUBLISHERS] = onImportChildPublishersSelected;
+  scope[MENU_ITEM_SUBMIT_SITES_FOR_APPROVAL] = onSubmitSitesForApprovalSelected;
+  scope[MENU_ITEM_DEACTIVATE_SITES] = onDeactivateSitesSelected;
+  scope[MENU_ITEM_CREATE_SITES] = onCreateSitesSelected;
+  scope[MENU_ITEM_COMPARE_IMPORTS] = onCompareImportsSelected;
+  scope[MENU_ITEM_SHOW_TRENDS] = onShowTrendsSelected;
   scope[MENU_ITEM_SHOW_API_VERSION_PROMPT] = showApiVersionPrompt;
   scope[MENU_ITEM_SHOW_NETWORK_CODE_PROMPT] = showNetworkCodePrompt;
+  scope[MENU_ITEM_SCHEDULE_DAILY_IMPORT] = onScheduleDailyImportSelected;
+  scope[MENU_ITEM_SCHEDULE_WEEKLY_IMPORT] = onScheduleWeeklyImportSelected;
+  scope[MENU_ITEM_REMOVE_SCHEDULED_IMPORT] = onRemoveScheduledImportSelected;
+  scope[MENU_ITEM_CHOOSE_SITE_COLUMNS] = onChooseSiteColumnsSelected;
+  scope[MENU_ITEM_REFRESH_CHILD_PUBLISHER_CACHE] =
+    onRefreshChildPublisherCacheSelected;
+  scope[MENU_ITEM_TOGGLE_IMPORT_DASHBOARD] = onToggleImportDashboardSelected;
+  scope[MENU_ITEM_TOGGLE_CHILD_TRENDS] = onToggleChildTrendsSelected;
+  scope[MENU_ITEM_ADD_SITE_DISAPPROVED_ALERT] =
+    onAddSiteDisapprovedAlertSelected;
+  scope[MENU_ITEM_ADD_CHILD_NEEDS_ATTENTION_ALERT] =
+    onAddChildNeedsAttentionAlertSelected;
+  scope[MENU_ITEM_ADD_REASON_TYPE_ALERT] = onAddReasonTypeAlertSelected;
+  scope[MENU_ITEM_SHOW_ALERTS] = onShowAlertsSelected;
+  scope[MENU_ITEM_REMOVE_ALERTS] = onRemoveAlertsSelected;
+  scope[MENU_ITEM_ADD_WEBHOOK] = onAddWebhookSelected;
+  scope[MENU_ITEM_SHOW_WEBHOOKS] = onShowWebhooksSelected;
+  scope[MENU_ITEM_REMOVE_WEBHOOKS] = onRemoveWebhooksSelected;
+  scope[MENU_ITEM_MANAGE_SAVED_QUERIES] = onManageSavedQueriesSelected;
+  registerSavedQueryMenuFunctions(scope);
 }
 
 /**
@@ -155,12 +498,157 @@ export function registerMenuFunctions(scope: Record<string, Function>): void {
 export enum SiteImportOutputFormat {
   FIRST_PARTY = 'first_party',
   CHILD = 'child',
+  // Child sites joined with the account health of their child publisher.
+  CHILD_ACCOUNT_HEALTH = 'child_account_health',
   COMBINED = 'combined',
+  // One row per disapproval reason of each site.
+  REASONS = 'reasons',
+}
+
+/**
+ * Describes the import that produced a sheet, stored in the sheet's developer
+ * metadata so that the sheet can be refreshed later.
+ */
+export interface ImportMetadata {
+  query: string;
+  // The values bound to the query. Missing for scheduled imports, whose query
+  // is entered by the user, and for sheets imported by older versions.
+  values?: BoundValue[];
+  outputFormat: SiteImportOutputFormat;
+  // For refreshes, the sheet that the imported rows are merged into.
+  refreshTargetSheet: string | null;
+  // Missing for sheets imported by older versions, which use the default
+  // columns of the output format.
+  columns?: SiteColumnId[];
+}
+
+/**
+ * Returns the import metadata of a sheet.
+ * @param sheetName The name of the sheet.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The import metadata, or null if the sheet wasn't created by an
+ *     import.
+ */
+function getImportMetadata(
+  sheetName: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+): ImportMetadata | null {
+  const metadata = spreadsheetHandler.getSheetMetadata(
+    sheetName,
+    IMPORT_METADATA_KEY,
+  );
+  return metadata ? (JSON.parse(metadata) as ImportMetadata) : null;
+}
+
+/**
+ * Returns the columns that an import writes unless the user chose other
+ * columns.
+ * @param outputFormat The format of the output sheet.
+ */
+function getDefaultSiteColumns(
+  outputFormat: SiteImportOutputFormat,
+): SiteColumnId[] {
+  if (outputFormat === SiteImportOutputFormat.FIRST_PARTY) {
+    return ['url', 'approvalStatus', 'statusDetails', 'siteId'];
+  } else if (outputFormat === SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH) {
+    return [
+      'url',
+      'childPublisher',
+      'approvalStatus',
+      'statusDetails',
+      'childAccountStatus',
+      'childDelegationType',
+      'childSellerId',
+      'childOnboardingTasks',
+      'siteId',
+    ];
+  } else if (outputFormat === SiteImportOutputFormat.REASONS) {
+    return [
+      'url',
+      'childPublisher',
+      'approvalStatus',
+      'reasonType',
+      'reason',
+      'siteId',
+    ];
+  } else {
+    return [
+      'url',
+      'childPublisher',
+      'approvalStatus',
+      'statusDetails',
+      'siteId',
+    ];
+  }
+}
+
+/**
+ * Returns the columns of an import.
+ * @param importInfo The import metadata or job of the import.
+ */
+function getImportColumns(importInfo: {
+  outputFormat: SiteImportOutputFormat;
+  columns?: SiteColumnId[];
+}): SiteColumnId[] {
+  return importInfo.columns ?? getDefaultSiteColumns(importInfo.outputFormat);
+}
+
+/**
+ * Writes the headers and import metadata to an empty import sheet.
+ * @param sheetTitle The title of the sheet.
+ * @param metadata The import metadata to store.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function prepareImportSheet(
+  sheetTitle: string,
+  metadata: ImportMetadata,
+  spreadsheetHandler = getSpreadsheetHandler(),
+) {
+  spreadsheetHandler.insertValuesIntoSheet(sheetTitle, [
+    getSiteColumnHeaders(getImportColumns(metadata)),
+  ]);
+  spreadsheetHandler.setSheetMetadata(
+    sheetTitle,
+    IMPORT_METADATA_KEY,
+    JSON.stringify(metadata),
+  );
+}
+
+/**
+ * Returns the title of a sheet of an import that is split across several
+ * sheets.
+ * @param sheetTitle The title of the first sheet of the import.
+ * @param part The 1-based number of the sheet.
+ */
+function getPartSheetTitle(sheetTitle: string, part: number): string {
+  return part === 1 ? sheetTitle : `${sheetTitle} (Part ${part})`;
+}
+
+/**
+ * Returns the titles of the existing sheets of an import, starting with the
+ * first sheet.
+ * @param sheetTitle The title of the first sheet of the import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function getPartSheetTitles(
+  sheetTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+): string[] {
+  const sheetTitles = [sheetTitle];
+  while (
+    sheetTitles.length < MAX_SHEETS_PER_IMPORT &&
+    spreadsheetHandler.hasSheet(
+      getPartSheetTitle(sheetTitle, sheetTitles.length + 1),
+    )
+  ) {
+    sheetTitles.push(getPartSheetTitle(sheetTitle, sheetTitles.length + 1));
+  }
+  return sheetTitles;
 }
 
 /**
  * Starts the process of importing sites.
- * @param query The PQL query to use to filter sites.
+ * @param statement The PQL statement to use to filter sites.
  * @param dialogTitle The title of the dialog to show.
  * @param dialogMessage The message to show in the dialog.
  * @param sheetTitle The title of the sheet to create.
@@ -169,9 +657,15 @@ export enum SiteImportOutputFormat {
  * @param dataHandler The data handler to use.
  * @param userInterfaceHandler The user interface handler to use.
  * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param refreshTargetSheet The sheet to merge the imported rows into once the
+ *     import finishes, if this import refreshes an existing sheet.
+ * @param columns The columns to import. Defaults to the columns chosen by the
+ *     user, or else to the default columns of the output format.
+ * @param childNetworkCodes The child network codes the import is limited to,
+ *     if those without sites are to be reported once the import finishes.
  */
 function startSitesImport(
-  query: string,
+  statement: BoundStatement,
   dialogTitle: string,
   dialogMessage: string | null,
   sheetTitle: string,
@@ -180,14 +674,55 @@ function startSitesImport(
   dataHandler = getDataHandler(),
   userInterfaceHandler = getUserInterfaceHandler(),
   spreadsheetHandler = getSpreadsheetHandler(),
+  refreshTargetSheet: string | null = null,
+  columns = userSettings.siteColumns ?? getDefaultSiteColumns(outputFormat),
+  childNetworkCodes: string[] | null = null,
 ) {
-  const {statements, totalResults} =
-    dataHandler.getStatementsAndTotalResultsForSitesStatement({
-      query,
-    });
+  const totalResults = dataHandler.getTotalResultsForSitesStatement(statement);
+  const job: ImportJob = {
+    ...statement,
+    outputFormat,
+    columns,
+    sheetTitle,
+    batchSize: IMPORT_BATCH_SIZE,
+    totalResults,
+    lastId: 0,
+    importedResults: 0,
+    ...(childNetworkCodes && {
+      childNetworkCodesWithoutSites: childNetworkCodes,
+    }),
+  };
+  if (JSON.stringify(job).length > MAX_IMPORT_JOB_LENGTH) {
+    userInterfaceHandler.showAlert(
+      'The query has too many values to store the progress of the import. ' +
+        'Please import fewer values at once.',
+    );
+    return;
+  }
+  const sheetCount = Math.ceil(totalResults / MAX_SITES_PER_SHEET);
+  if (refreshTargetSheet && sheetCount > 1) {
+    userInterfaceHandler.showAlert(
+      `The sheet can't be refreshed in place, as the import returns more ` +
+        `than ${MAX_SITES_PER_SHEET} sites. Please start a new import.`,
+    );
+    return;
+  }
   let message = dialogMessage
     ? `${dialogMessage} (${totalResults} results)\n\n`
     : `Total results: ${totalResults}\n\n`;
+  if (sheetCount > 1) {
+    message +=
+      `The results exceed the limit of ${MAX_SITES_PER_SHEET} sites per ` +
+      `sheet, so they will be split into ${sheetCount} sheets in order of ` +
+      `their site ID: "${sheetTitle}" followed by ` +
+      `"${getPartSheetTitle(sheetTitle, 2)}" and so on.\n\n`;
+  }
+  const interruptedJob = userSettings.importJob;
+  if (interruptedJob) {
+    message +=
+      `The interrupted import into "${interruptedJob.sheetTitle}" will be ` +
+      'discarded.\n\n';
+  }
   message += CONFIRM_IMPORT_DIALOG_MESSAGE;
   const userConfirmed = userInterfaceHandler.showYesNoDialog(
     dialogTitle,
@@ -196,30 +731,86 @@ function startSitesImport(
   if (!userConfirmed) {
     return;
   }
-  const timeString = new Date().toLocaleString();
-  spreadsheetHandler.createSheet(sheetTitle);
-  let headers;
-  if (outputFormat === SiteImportOutputFormat.FIRST_PARTY) {
-    headers = ['Site URL', 'Approval Status', 'Status Details'];
-  } else {
-    headers = [
-      'Site URL',
-      'Child Publisher',
-      'Approval Status',
-      'Status Details',
-    ];
+  if (interruptedJob) {
+    cancelSitesImport(
+      interruptedJob.sheetTitle,
+      spreadsheetHandler,
+      userSettings,
+    );
   }
-  spreadsheetHandler.insertValuesIntoSheet(sheetTitle, [headers]);
+  spreadsheetHandler.createSheet(sheetTitle);
+  prepareImportSheet(
+    sheetTitle,
+    {...statement, outputFormat, refreshTargetSheet, columns},
+    spreadsheetHandler,
+  );
+  userSettings.importJob = job;
+  showImportJobDialog(dialogTitle, job, userInterfaceHandler);
+}
+
+/**
+ * Shows the import dialog for the remaining sites of an import job.
+ * @param dialogTitle The title of the dialog to show.
+ * @param job The import job.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+function showImportJobDialog(
+  dialogTitle: string,
+  job: ImportJob,
+  userInterfaceHandler = getUserInterfaceHandler(),
+) {
   userInterfaceHandler.showImportSitesDialog(
     dialogTitle,
-    sheetTitle,
-    outputFormat,
-    statements,
-    totalResults,
-    `Total results: ${totalResults}`,
+    job.sheetTitle,
+    job.importedResults,
+    job.totalResults,
+    `Total results: ${job.totalResults}`,
   );
 }
 
+/**
+ * Resumes an import that was interrupted, e.g. because its dialog was closed.
+ * The import continues after the last imported site, or after the last
+ * imported child publisher if no site import was interrupted.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onResumeImportSelected(
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const job = userSettings.importJob;
+  const childPublisherJob = job ? null : userSettings.childPublisherImportJob;
+  const sheetTitle = job?.sheetTitle ?? childPublisherJob?.sheetTitle;
+  if (!sheetTitle) {
+    userInterfaceHandler.showAlert('There is no interrupted import to resume.');
+    return;
+  }
+  if (!spreadsheetHandler.hasSheet(sheetTitle)) {
+    if (job) {
+      userSettings.importJob = null;
+    } else {
+      userSettings.childPublisherImportJob = null;
+    }
+    userInterfaceHandler.showAlert(
+      `The sheet "${sheetTitle}" of the interrupted import no longer ` +
+        'exists. Please start a new import.',
+    );
+    return;
+  }
+  if (job) {
+    showImportJobDialog('Resume Import', job, userInterfaceHandler);
+  } else {
+    showChildPublisherImportJobDialog(
+      'Resume Import',
+      childPublisherJob!,
+      userInterfaceHandler,
+    );
+  }
+}
+
 /**
  * Starts an import of all sites.
  * @param userSettings The user settings to use.
@@ -235,7 +826,7 @@ export function onImportAllSitesSelected(
 ): void {
   const timeString = new Date().toLocaleString();
   startSitesImport(
-    '',
+    new StatementBuilder().build(),
     'Import All Sites',
     null,
     `[${userSettings.networkCode}] All Sites (${timeString})`,
@@ -262,7 +853,7 @@ export function onImportFirstPartySitesSelected(
 ): void {
   const timeString = new Date().toLocaleString();
   startSitesImport(
-    "WHERE childNetworkCode = ''",
+    new StatementBuilder().where('childNetworkCode', '=', '').build(),
     'Import First Party Sites',
     null,
     `[${userSettings.networkCode}] First Party Sites (${timeString})`,
@@ -289,7 +880,7 @@ export function onImportChildSitesSelected(
 ): void {
   const timeString = new Date().toLocaleString();
   startSitesImport(
-    "WHERE childNetworkCode != ''",
+    new StatementBuilder().where('childNetworkCode', '!=', '').build(),
     'Import Child Sites',
     null,
     `[${userSettings.networkCode}] Child Sites (${timeString})`,
@@ -301,6 +892,69 @@ export function onImportChildSitesSelected(
   );
 }
 
+/**
+ * Starts an import of child sites together with the account health of their
+ * child publishers, e.g. to find approved sites of deactivated accounts.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onImportChildAccountHealthSelected(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const timeString = new Date().toLocaleString();
+  startSitesImport(
+    new StatementBuilder().where('childNetworkCode', '!=', '').build(),
+    'Import Child Sites with Account Health',
+    null,
+    `[${userSettings.networkCode}] Child Account Health (${timeString})`,
+    SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH,
+    userSettings,
+    dataHandler,
+    userInterfaceHandler,
+    spreadsheetHandler,
+    null,
+    // The account health columns are needed even if the user chose other
+    // columns.
+    getDefaultSiteColumns(SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH),
+  );
+}
+
+/**
+ * Starts an import of the disapproval reasons of disapproved sites, with one
+ * row per reason. A summary of the reasons is added once the import finishes.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onImportDisapprovalReasonsSelected(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const timeString = new Date().toLocaleString();
+  startSitesImport(
+    new StatementBuilder().where('approvalStatus', '=', 'DISAPPROVED').build(),
+    'Import Disapproval Reasons',
+    null,
+    `[${userSettings.networkCode}] Disapproval Reasons (${timeString})`,
+    SiteImportOutputFormat.REASONS,
+    userSettings,
+    dataHandler,
+    userInterfaceHandler,
+    spreadsheetHandler,
+    null,
+    // The reason columns are needed even if the user chose other columns.
+    getDefaultSiteColumns(SiteImportOutputFormat.REASONS),
+  );
+}
+
 /**
  * Starts an import of sites by child network code.
  * @param userSettings The user settings to use.
@@ -320,7 +974,9 @@ export function onImportSitesByChildNetworkCodeSelected(
     (childNetworkCode: string) => {
       const timeString = new Date().toLocaleString();
       startSitesImport(
-        `WHERE childNetworkCode = '${childNetworkCode}'`,
+        new StatementBuilder()
+          .where('childNetworkCode', '=', childNetworkCode)
+          .build(),
         'Import Sites',
         `Child Network Code: ${childNetworkCode}`,
         `[${userSettings.networkCode}] Child Sites (${childNetworkCode}) (${timeString})`,
@@ -340,207 +996,2819 @@ export function onImportSitesByChildNetworkCodeSelected(
 }
 
 /**
- * Starts an import of sites by custom PQL query.
+ * Starts an import of the sites of a list of child network codes into one
+ * sheet. The codes are either entered in the prompt or read from a range.
  * @param userSettings The user settings to use.
  * @param dataHandler The data handler to use.
  * @param spreadsheetHandler The spreadsheet handler to use.
  * @param userInterfaceHandler The user interface handler to use.
  */
-export function onImportSitesByCustomQuerySelected(
+export function onImportSitesByChildNetworkCodesSelected(
   userSettings = getUserSettings(),
   dataHandler = getDataHandler(),
   spreadsheetHandler = getSpreadsheetHandler(),
   userInterfaceHandler = getUserInterfaceHandler(),
 ): void {
-  userInterfaceHandler.showInputPrompt('PQL Query', /.*/, (query: string) => {
-    const timeString = new Date().toLocaleString();
-    startSitesImport(
-      query,
-      'Import Sites by Custom Query',
-      `Query: ${query}`,
-      `[${userSettings.networkCode}] ${query} (${timeString})`,
-      SiteImportOutputFormat.COMBINED,
-      userSettings,
-      dataHandler,
-      userInterfaceHandler,
-      spreadsheetHandler,
-    );
-  });
+  userInterfaceHandler.showInputPrompt(
+    'Child network codes separated by commas, or the name or A1 notation of ' +
+      'the range with the codes (e.g. "Children!A2:A")',
+    /\S/,
+    (input: string) => {
+      let childNetworkCodes: string[];
+      try {
+        childNetworkCodes = parseChildNetworkCodes(
+          isChildNetworkCodeList(input)
+            ? [input]
+            : spreadsheetHandler.getRangeValues(input).flat(),
+        );
+      } catch (e) {
+        userInterfaceHandler.showAlert(getErrorMessage(e));
+        return;
+      }
+      importSitesByChildNetworkCodes(
+        childNetworkCodes,
+        userSettings,
+        dataHandler,
+        spreadsheetHandler,
+        userInterfaceHandler,
+      );
+    },
+    () => {
+      userInterfaceHandler.showAlert('No child network codes entered.');
+    },
+  );
 }
 
 /**
- * Shows the network code prompt.
+ * Starts an import of the sites of a list of child network codes into one
+ * sheet, after reporting the codes that aren't among the child publishers of
+ * the network. The codes without sites are reported once the import finishes.
+ * @param childNetworkCodes The child network codes.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
  * @param userInterfaceHandler The user interface handler to use.
+ */
+function importSitesByChildNetworkCodes(
+  childNetworkCodes: string[],
+  userSettings: UserSettings,
+  dataHandler: DataHandler,
+  spreadsheetHandler: SpreadsheetHandler,
+  userInterfaceHandler: UserInterfaceHandler,
+) {
+  const childPublishers = getChildPublishers(userSettings, dataHandler);
+  const unknownCodes = childNetworkCodes.filter(
+    (code) => !childPublishers[code],
+  );
+  let report = '';
+  if (unknownCodes.length) {
+    report +=
+      `Not found among the child publishers: ${unknownCodes.join(', ')}\n` +
+      '(Import the child publishers if they have changed.)\n\n';
+  }
+  const statement = new StatementBuilder()
+    .whereIn('childNetworkCode', childNetworkCodes)
+    .build();
+  if (dataHandler.getSiteCount(statement) === 0) {
+    userInterfaceHandler.showAlert(
+      `${report}No sites were found for the child network codes.`,
+    );
+    return;
+  }
+  const timeString = new Date().toLocaleString();
+  startSitesImport(
+    statement,
+    'Import Sites by Child Network Codes',
+    `${report}Child Network Codes: ${childNetworkCodes.length}`,
+    `[${userSettings.networkCode}] Child Sites ` +
+      `(${childNetworkCodes.length} Child Network Codes) (${timeString})`,
+    SiteImportOutputFormat.CHILD,
+    userSettings,
+    dataHandler,
+    userInterfaceHandler,
+    spreadsheetHandler,
+    null,
+    undefined,
+    childNetworkCodes,
+  );
+}
+
+/**
+ * Starts an import of the sites with the given approval statuses, optionally
+ * limited to those whose approval status changed within a date range. Both are
+ * entered in prompts.
  * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
  * @param userInterfaceHandler The user interface handler to use.
  */
-export function showNetworkCodePrompt(
-  userInterfaceHandler = getUserInterfaceHandler(),
+export function onImportSitesByApprovalStatusSelected(
   userSettings = getUserSettings(),
-) {
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const allowedStatuses = SITE_QUERY_APPROVAL_STATUSES.map(({value}) => value);
   userInterfaceHandler.showInputPrompt(
-    'Network Code',
-    /^[0-9]+$/,
-    (newValue: string) => {
-      userSettings.networkCode = newValue;
-      createMenu(userInterfaceHandler, userSettings);
+    `Approval statuses separated by commas (${allowedStatuses.join(', ')})`,
+    /\S/,
+    (statusInput: string) => {
+      userInterfaceHandler.showInputPrompt(
+        'Only import sites whose approval status changed in the last number ' +
+          'of days (e.g. "30"), since a date (e.g. "2024-03-01") or between ' +
+          'two dates (e.g. "2024-03-01 to 2024-03-31"). Leave empty to ' +
+          'import sites regardless of the date.',
+        /.*/,
+        (dateInput: string) => {
+          let statement: BoundStatement;
+          let filters: SiteQueryFilters;
+          try {
+            filters = {
+              approvalStatuses: parseApprovalStatuses(statusInput),
+              childNetworkCodes: [],
+              urlContains: '',
+              ...parseApprovalStatusDateRange(dateInput),
+            };
+            statement = createSiteQuery(filters);
+          } catch (e) {
+            userInterfaceHandler.showAlert(getErrorMessage(e));
+            return;
+          }
+          const statuses = filters.approvalStatuses.join(', ');
+          let dialogMessage = `Approval statuses: ${statuses}`;
+          if (filters.approvalStatusDateFrom || filters.approvalStatusDateTo) {
+            dialogMessage +=
+              '\nApproval status changed: ' +
+              `${filters.approvalStatusDateFrom || 'any time'} to ` +
+              `${filters.approvalStatusDateTo || 'today'}`;
+          }
+          const timeString = new Date().toLocaleString();
+          startSitesImport(
+            statement,
+            'Import Sites by Approval Status',
+            dialogMessage,
+            `[${userSettings.networkCode}] ${statuses} Sites (${timeString})`,
+            SiteImportOutputFormat.COMBINED,
+            userSettings,
+            dataHandler,
+            userInterfaceHandler,
+            spreadsheetHandler,
+          );
+        },
+      );
     },
-    (invalidValue: string) => {
-      userInterfaceHandler.showAlert(`Invalid network code: ${invalidValue}`);
-      showNetworkCodePrompt(userInterfaceHandler, userSettings);
+    () => {
+      userInterfaceHandler.showAlert('No approval status entered.');
     },
   );
 }
 
 /**
- * Shows the API version prompt.
- * @param userInterfaceHandler The user interface handler to use.
- * @param userSettings The user settings to use.
+ * Shows the query builder dialog to import sites by custom query.
  * @param userInterfaceHandler The user interface handler to use.
  */
-export function showApiVersionPrompt(
+export function onImportSitesByCustomQuerySelected(
   userInterfaceHandler = getUserInterfaceHandler(),
-  userSettings = getUserSettings(),
+): void {
+  userInterfaceHandler.showQueryBuilderDialog(SITE_QUERY_APPROVAL_STATUSES);
+}
+
+/**
+ * Returns the query of the filters of the query builder and the number of
+ * sites it matches.
+ * @param filters The filters chosen in the query builder.
+ * @param dataHandler The data handler to use.
+ * @return The query and its number of results.
+ */
+export function previewSiteQuery(
+  filters: SiteQueryFilters,
+  dataHandler = getDataHandler(),
+): {query: string; totalResults: number} {
+  const statement = createSiteQuery(filters);
+  return {
+    query: describeStatement(statement),
+    totalResults: dataHandler.getSiteCount(statement),
+  };
+}
+
+/**
+ * Starts an import of the sites matching the filters of the query builder.
+ * @param filters The filters chosen in the query builder.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function importSitesByQuery(
+  filters: SiteQueryFilters,
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const statement = createSiteQuery(filters);
+  const query = describeStatement(statement);
+  const timeString = new Date().toLocaleString();
+  startSitesImport(
+    statement,
+    'Import Sites by Custom Query',
+    `Query: ${query || '(all sites)'}`,
+    `[${userSettings.networkCode}] ${query || 'All Sites'} (${timeString})`,
+    SiteImportOutputFormat.COMBINED,
+    userSettings,
+    dataHandler,
+    userInterfaceHandler,
+    spreadsheetHandler,
+  );
+}
+
+/**
+ * Starts the import of a saved query, when it's selected from the menu. The
+ * saved query is looked up by the name recorded when the menu was built, since
+ * other users may have reordered the saved queries since then.
+ * @param position The position of the saved query in the menu.
+ * @param documentSettings The document settings to use.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onSavedQuerySelected(
+  position: number,
+  documentSettings = getDocumentSettings(),
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const name = userSettings.savedQueryMenu?.[position];
+  const savedQuery = documentSettings.savedQueries.find(
+    (savedQuery) => savedQuery.name === name,
+  );
+  if (!savedQuery) {
+    // Another user may have renamed or deleted the saved query since the menu
+    // was built.
+    createMenu(userInterfaceHandler, userSettings, documentSettings);
+    userInterfaceHandler.showAlert(
+      name === undefined
+        ? 'The saved query no longer exists.'
+        : `The saved query "${name}" no longer exists. The menu has been ` +
+            'updated.',
+    );
+    return;
+  }
+  const statement = createSiteQuery(savedQuery.filters);
+  const query = describeStatement(statement);
+  const timeString = new Date().toLocaleString();
+  startSitesImport(
+    statement,
+    `Import ${savedQuery.name}`,
+    `Query: ${query || '(all sites)'}`,
+    `[${userSettings.networkCode}] ${savedQuery.name} (${timeString})`,
+    savedQuery.outputFormat,
+    userSettings,
+    dataHandler,
+    userInterfaceHandler,
+    spreadsheetHandler,
+    null,
+    savedQuery.columns ?? undefined,
+  );
+}
+
+/**
+ * The menu functions of the saved queries, one per position in the menu up to
+ * `MAX_SAVED_QUERIES`.
+ */
+const SAVED_QUERY_MENU_FUNCTIONS = Array.from(
+  {length: MAX_SAVED_QUERIES},
+  (_, position) => () => {
+    onSavedQuerySelected(position);
+  },
+);
+
+/**
+ * Registers the menu functions of the saved queries onto the provided object.
+ * @param scope The object to register functions onto.
+ */
+function registerSavedQueryMenuFunctions(scope: Record<string, Function>) {
+  SAVED_QUERY_MENU_FUNCTIONS.forEach((menuFunction, position) => {
+    scope[getSavedQueryMenuItem(position)] = menuFunction;
+  });
+}
+
+// The build only makes exported functions global, so the generated menu
+// functions of the saved queries are made global when the script is loaded.
+registerSavedQueryMenuFunctions(
+  globalThis as unknown as Record<string, Function>,
+);
+
+/**
+ * Shows the dialog to create, edit, rename and delete saved queries.
+ * @param documentSettings The document settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onManageSavedQueriesSelected(
+  documentSettings = getDocumentSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  userInterfaceHandler.showSavedQueriesDialog(
+    documentSettings.savedQueries,
+    SITE_QUERY_APPROVAL_STATUSES,
+    getSavedQueryOutputFormats(),
+    SITE_COLUMN_IDS.map((id) => ({id, header: getSiteColumnHeader(id)})),
+  );
+}
+
+/**
+ * Adds or replaces a saved query and rebuilds the menu.
+ * @param previousName The name of the saved query to replace, or null to add
+ *     the saved query.
+ * @param savedQuery The saved query, as entered in the dialog.
+ * @param documentSettings The document settings to use.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @return The updated saved queries.
+ */
+export function saveSavedQuery(
+  previousName: string | null,
+  savedQuery: SavedQuery,
+  documentSettings = getDocumentSettings(),
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): SavedQuery[] {
+  const savedQueries = putSavedQuery(
+    documentSettings.savedQueries,
+    previousName,
+    savedQuery,
+  );
+  documentSettings.savedQueries = savedQueries;
+  createMenu(userInterfaceHandler, userSettings, documentSettings);
+  return savedQueries;
+}
+
+/**
+ * Deletes a saved query and rebuilds the menu.
+ * @param name The name of the saved query.
+ * @param documentSettings The document settings to use.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @return The remaining saved queries.
+ */
+export function deleteSavedQuery(
+  name: string,
+  documentSettings = getDocumentSettings(),
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): SavedQuery[] {
+  const savedQueries = documentSettings.savedQueries.filter(
+    (savedQuery) => savedQuery.name !== name,
+  );
+  documentSettings.savedQueries = savedQueries;
+  createMenu(userInterfaceHandler, userSettings, documentSettings);
+  return savedQueries;
+}
+
+/**
+ * Returns the message of an error, or the error itself if it isn't an `Error`.
+ * @param e The error that was thrown.
+ */
+function getErrorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Returns the 1-based index of the column with the given header, adding the
+ * header after the last column if the sheet doesn't have it yet.
+ * @param sheetName The name of the sheet.
+ * @param headers The headers of the sheet. Updated if the header is added.
+ * @param header The header of the column.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The 1-based index of the column.
+ */
+function getOrAddColumn(
+  sheetName: string,
+  headers: string[],
+  header: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+): number {
+  let columnIndex = headers.indexOf(header);
+  if (columnIndex === -1) {
+    headers.push(header);
+    columnIndex = headers.length - 1;
+    spreadsheetHandler.insertValuesIntoSheet(
+      sheetName,
+      [[header]],
+      1,
+      columnIndex + 1,
+    );
+  }
+  return columnIndex + 1;
+}
+
+/**
+ * Re-imports the sites of the active sheet using the query and output format
+ * that originally produced it. The imported rows are merged into the sheet
+ * once the import finishes.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onRefreshActiveSheetSelected(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const sheetName = spreadsheetHandler.getActiveSheetName();
+  const metadata = getImportMetadata(sheetName, spreadsheetHandler);
+  if (!metadata) {
+    userInterfaceHandler.showAlert(
+      'The active sheet was not created by a site import and cannot be ' +
+        'refreshed.',
+    );
+    return;
+  }
+  const columns = getImportColumns(metadata);
+  if (hasReasonColumns(columns)) {
+    userInterfaceHandler.showAlert(
+      'Sheets with one row per disapproval reason cannot be refreshed. ' +
+        'Please start a new import.',
+    );
+    return;
+  }
+  const suffix = ` (Refresh ${new Date().toLocaleString()})`;
+  startSitesImport(
+    {query: metadata.query, values: metadata.values ?? []},
+    'Refresh Sheet',
+    `Sheet: ${sheetName}`,
+    // Shortens long sheet names, as sheet titles are limited in length.
+    sheetName.slice(0, MAX_SHEET_TITLE_LENGTH - suffix.length) + suffix,
+    metadata.outputFormat,
+    userSettings,
+    dataHandler,
+    userInterfaceHandler,
+    spreadsheetHandler,
+    sheetName,
+    // Keeps the columns of the sheet, even if the user chose other columns
+    // since.
+    columns,
+  );
+}
+
+/**
+ * Merges the rows of a refresh import into the sheet being refreshed. Only the
+ * imported columns are updated, so columns added by the user to the right of
+ * the imported data are kept.
+ * @param importSheetName The name of the sheet holding the refreshed rows.
+ * @param targetSheetName The name of the sheet being refreshed.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function mergeRefreshedSites(
+  importSheetName: string,
+  targetSheetName: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+) {
+  const [headers, ...importedRows] =
+    spreadsheetHandler.getSheetValues(importSheetName);
+  const numColumns = headers.length;
+  const siteIdColumnIndex = headers.map(String).indexOf(SITE_ID_HEADER);
+  const existingRows = spreadsheetHandler
+    .getSheetValues(targetSheetName)
+    .slice(1)
+    .map((row) => row.slice(0, numColumns));
+  const result = mergeSiteRows(existingRows, importedRows, siteIdColumnIndex);
+  if (result.rows.length) {
+    spreadsheetHandler.insertValuesIntoSheet(targetSheetName, result.rows, 2);
+  }
+  const timeString = new Date().toLocaleString();
+  spreadsheetHandler.markRemovedRows(
+    targetSheetName,
+    2,
+    numColumns,
+    result.removed.map((removed) =>
+      removed ? `Not returned by the import refreshed at ${timeString}` : '',
+    ),
+  );
+  spreadsheetHandler.showToast(
+    `${result.updatedCount} sites updated, ${result.addedCount} added and ` +
+      `${result.removedCount} marked as removed.`,
+  );
+}
+
+/**
+ * Returns the names of the sheets created by site imports that can be
+ * compared, excluding the sheets of refreshes that are still in progress and
+ * sheets with one row per disapproval reason.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function getImportSheetNames(
+  spreadsheetHandler = getSpreadsheetHandler(),
+): string[] {
+  return spreadsheetHandler.getSheetNames().filter((sheetName) => {
+    const metadata = getImportMetadata(sheetName, spreadsheetHandler);
+    return (
+      metadata &&
+      !metadata.refreshTargetSheet &&
+      !hasReasonColumns(getImportColumns(metadata))
+    );
+  });
+}
+
+/**
+ * Returns the snapshots of the imports of the network recorded in the history
+ * sheet, oldest first.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function getRecordedImportSnapshots(
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+): ImportSnapshot[] {
+  if (!spreadsheetHandler.hasSheet(IMPORT_HISTORY_SHEET_TITLE)) {
+    return [];
+  }
+  return getImportSnapshots(
+    spreadsheetHandler.getSheetValues(IMPORT_HISTORY_SHEET_TITLE),
+    userSettings.networkCode ?? '',
+  );
+}
+
+/**
+ * Shows the dialog to compare two import sheets or two recorded snapshots.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onCompareImportsSelected(
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const sheetNames = getImportSheetNames(spreadsheetHandler);
+  const snapshots = getRecordedImportSnapshots(
+    userSettings,
+    spreadsheetHandler,
+  ).map(({timestamp, query}) => ({timestamp, query}));
+  if (sheetNames.length < 2 && snapshots.length < 2) {
+    userInterfaceHandler.showAlert(
+      'At least two site imports or two recorded snapshots are needed for a ' +
+        'comparison.',
+    );
+    return;
+  }
+  userInterfaceHandler.showCompareImportsDialog(sheetNames, snapshots);
+}
+
+/**
+ * Asks for a child network code and shows the trends of the approval statuses
+ * of its sites, or of the whole network if no code is entered.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onShowTrendsSelected(
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  userInterfaceHandler.showInputPrompt(
+    'Child Network Code (leave empty for the whole network)',
+    /^[0-9]*$/,
+    (childNetworkCode: string) => {
+      showTrends(
+        childNetworkCode,
+        userSettings,
+        spreadsheetHandler,
+        userInterfaceHandler,
+      );
+    },
+    (invalidChildNetworkCode: string) => {
+      userInterfaceHandler.showAlert(
+        `Invalid child network code: ${invalidChildNetworkCode}`,
+      );
+    },
+  );
+}
+
+/**
+ * Writes the trends of the approval statuses to a trends sheet, replacing any
+ * previous trends of the same network or child publisher, and charts them.
+ * @param childNetworkCode The child network code, or an empty string for the
+ *     whole network.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+function showTrends(
+  childNetworkCode: string,
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+) {
+  const trends = spreadsheetHandler.hasSheet(IMPORT_HISTORY_SHEET_TITLE)
+    ? createImportTrends(
+        spreadsheetHandler.getSheetValues(IMPORT_HISTORY_SHEET_TITLE),
+        userSettings.networkCode ?? '',
+        childNetworkCode,
+      )
+    : null;
+  if (!trends) {
+    userInterfaceHandler.showAlert(
+      childNetworkCode
+        ? `No imports of child network code ${childNetworkCode} have been ` +
+            'recorded yet. Turn on "Settings" > "Child Publisher Trends" to ' +
+            'record them.'
+        : 'No imports have been recorded yet.',
+    );
+    return;
+  }
+  const sheetTitle = childNetworkCode
+    ? `Trends (${childNetworkCode})`
+    : 'Trends';
+  if (spreadsheetHandler.hasSheet(sheetTitle)) {
+    spreadsheetHandler.deleteSheet(sheetTitle);
+  }
+  spreadsheetHandler.createSheet(sheetTitle, false);
+  spreadsheetHandler.insertValuesIntoSheet(sheetTitle, trends.rows);
+  spreadsheetHandler.insertChart(
+    sheetTitle,
+    'LINE',
+    trends.chartRange,
+    childNetworkCode
+      ? `Approval Statuses of Child Network Code ${childNetworkCode}`
+      : 'Approval Statuses',
+    1,
+    trends.rows[0].length + 2,
+  );
+  spreadsheetHandler.activateSheet(sheetTitle);
+}
+
+/**
+ * Returns a description of a change between two imports.
+ * @param change The change to describe.
+ */
+function describeSiteChange(change: SiteChange): string {
+  switch (change.type) {
+    case 'ADDED':
+      return 'Added';
+    case 'REMOVED':
+      return 'Removed';
+    default:
+      return change.site.approvalStatus !== change.previousSite?.approvalStatus
+        ? 'Approval status changed'
+        : 'Disapproval reasons changed';
+  }
+}
+
+/**
+ * Compares two import sheets and writes the differences to a new sheet.
+ * @param baselineSheet The name of the earlier import sheet.
+ * @param comparisonSheet The name of the later import sheet.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The number of changed sites.
+ */
+export function compareImports(
+  baselineSheet: string,
+  comparisonSheet: string,
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+): number {
+  const changes = compareImportedSites(
+    parseImportedSites(spreadsheetHandler.getSheetValues(baselineSheet)),
+    parseImportedSites(spreadsheetHandler.getSheetValues(comparisonSheet)),
+  );
+  const childPublishers = getChildPublishers(userSettings, dataHandler);
+  const headers = [
+    'Change',
+    SITE_ID_HEADER,
+    SITE_URL_HEADER,
+    'Child Publisher',
+    'Previous Approval Status',
+    'Approval Status',
+    'New Disapproval Reasons',
+    'Resolved Disapproval Reasons',
+  ];
+  const rows = changes.map((change) => [
+    describeSiteChange(change),
+    change.site.siteId,
+    change.site.url,
+    formatChildPublisher(change.site.childNetworkCode, childPublishers),
+    change.previousSite?.approvalStatus ?? '',
+    change.type === 'REMOVED' ? '' : change.site.approvalStatus,
+    change.addedDisapprovalReasons.join(', '),
+    change.removedDisapprovalReasons.join(', '),
+  ]);
+  const timeString = new Date().toLocaleString();
+  const sheetTitle = `[${userSettings.networkCode}] Import Comparison (${timeString})`;
+  spreadsheetHandler.createSheet(sheetTitle, false);
+  spreadsheetHandler.insertValuesIntoSheet(sheetTitle, [headers, ...rows]);
+  spreadsheetHandler.setNote(
+    sheetTitle,
+    1,
+    1,
+    `Earlier import: ${baselineSheet}\nLater import: ${comparisonSheet}`,
+  );
+  spreadsheetHandler.activateSheet(sheetTitle);
+  return changes.length;
+}
+
+/**
+ * Compares the counts of two recorded snapshots and writes the counts that
+ * changed to a new sheet. Snapshots only hold counts per approval status, so
+ * unlike `compareImports` the changes of individual sites can't be listed.
+ * @param baselineTimestamp The timestamp of the earlier snapshot.
+ * @param comparisonTimestamp The timestamp of the later snapshot.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The number of changed counts.
+ * @throws An error if a snapshot isn't recorded.
+ */
+export function compareSnapshots(
+  baselineTimestamp: string,
+  comparisonTimestamp: string,
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+): number {
+  const snapshots = getRecordedImportSnapshots(
+    userSettings,
+    spreadsheetHandler,
+  );
+  const getSnapshot = (timestamp: string) => {
+    const snapshot = snapshots.find((s) => s.timestamp === timestamp);
+    if (!snapshot) {
+      throw new Error(`No snapshot from ${timestamp} is recorded.`);
+    }
+    return snapshot;
+  };
+  const changes = compareImportSnapshots(
+    getSnapshot(baselineTimestamp),
+    getSnapshot(comparisonTimestamp),
+  );
+  const childPublishers = changes.some(({childNetworkCode}) => childNetworkCode)
+    ? getChildPublishers(userSettings, dataHandler)
+    : {};
+  const headers = [
+    'Child Publisher',
+    'Approval Status',
+    'Earlier Count',
+    'Later Count',
+    'Change',
+  ];
+  const rows = changes.map((change) => [
+    change.childNetworkCode
+      ? formatChildPublisher(change.childNetworkCode, childPublishers)
+      : 'All Sites',
+    change.approvalStatus,
+    String(change.previousCount),
+    String(change.count),
+    String(change.count - change.previousCount),
+  ]);
+  const timeString = new Date().toLocaleString();
+  const sheetTitle = `[${userSettings.networkCode}] Snapshot Comparison (${timeString})`;
+  spreadsheetHandler.createSheet(sheetTitle, false);
+  spreadsheetHandler.insertValuesIntoSheet(sheetTitle, [headers, ...rows]);
+  spreadsheetHandler.setNote(
+    sheetTitle,
+    1,
+    1,
+    `Earlier snapshot: ${baselineTimestamp}\n` +
+      `Later snapshot: ${comparisonTimestamp}`,
+  );
+  spreadsheetHandler.activateSheet(sheetTitle);
+  return changes.length;
+}
+
+/**
+ * Starts an import of all child publisher (MCM) companies into a new sheet.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onImportChildPublishersSelected(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const dialogTitle = 'Import Child Publishers';
+  const totalResults = dataHandler.getChildPublisherCount();
+  if (totalResults === 0) {
+    userInterfaceHandler.showAlert('No child publishers found.');
+    return;
+  }
+  const userConfirmed = userInterfaceHandler.showYesNoDialog(
+    dialogTitle,
+    `Total results: ${totalResults}\n\n${CONFIRM_IMPORT_DIALOG_MESSAGE}`,
+  );
+  if (!userConfirmed) {
+    return;
+  }
+  const timeString = new Date().toLocaleString();
+  const sheetTitle = `[${userSettings.networkCode}] Child Publishers (${timeString})`;
+  spreadsheetHandler.createSheet(sheetTitle, false);
+  spreadsheetHandler.insertValuesIntoSheet(sheetTitle, [
+    CHILD_PUBLISHER_HEADERS,
+  ]);
+  spreadsheetHandler.activateSheet(sheetTitle);
+  const job: ChildPublisherImportJob = {
+    sheetTitle,
+    totalResults,
+    lastId: 0,
+    importedResults: 0,
+  };
+  userSettings.childPublisherImportJob = job;
+  showChildPublisherImportJobDialog(dialogTitle, job, userInterfaceHandler);
+}
+
+/**
+ * The callable functions of child publisher imports.
+ */
+const CHILD_PUBLISHER_IMPORT_FUNCTION_NAMES: ImportFunctionNames = {
+  importPage: 'importChildPublishersPage',
+  finish: 'finishChildPublishersImport',
+  keepPartial: 'keepPartialChildPublishersImport',
+};
+
+/**
+ * Shows the import dialog for a stored child publisher import job.
+ * @param dialogTitle The title of the dialog.
+ * @param job The child publisher import job.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+function showChildPublisherImportJobDialog(
+  dialogTitle: string,
+  job: ChildPublisherImportJob,
+  userInterfaceHandler = getUserInterfaceHandler(),
+) {
+  userInterfaceHandler.showImportDialog(
+    dialogTitle,
+    job.sheetTitle,
+    CHILD_PUBLISHER_IMPORT_FUNCTION_NAMES,
+    job.importedResults,
+    job.totalResults,
+    `Total results: ${job.totalResults}`,
+  );
+}
+
+/**
+ * Imports the next pages of child publisher companies of the stored import
+ * job, up to `IMPORT_PAGES_PER_REQUEST` pages per call. Pages are ordered by
+ * ID, so that child publishers added or removed during the import don't shift
+ * the following pages.
+ * @param sheetTitle The title of the sheet, which identifies the import.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param lock The lock that prevents a page from being imported twice.
+ * @return The number of child publishers imported and whether the import is
+ *     done.
+ * @throws The error of the failed page, marked as transient if retrying the
+ *     page may succeed.
+ */
+export function importChildPublishersPage(
+  sheetTitle: string,
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  lock = LockService.getUserLock(),
+): SitesPageResult {
+  lock.waitLock(IMPORT_JOB_LOCK_TIMEOUT_MS);
+  try {
+    const job = userSettings.childPublisherImportJob;
+    if (job?.sheetTitle !== sheetTitle) {
+      throw new Error('The import is no longer active.');
+    }
+    const result: SitesPageResult = {sitesLoaded: 0, done: false};
+    for (
+      let page = 0;
+      page < IMPORT_PAGES_PER_REQUEST && !result.done;
+      page++
+    ) {
+      let companies: Company[];
+      try {
+        companies = dataHandler.getChildPublisherCompanies(
+          job.lastId,
+          CHILD_PUBLISHER_BATCH_SIZE,
+        );
+      } catch (e) {
+        throw classifyError(e) === 'RETRYABLE' ? createTransientError(e) : e;
+      }
+      if (companies.length) {
+        spreadsheetHandler.insertValuesIntoSheet(
+          sheetTitle,
+          companies.map(createRowForChildPublisher),
+          job.importedResults + 2,
+        );
+        job.importedResults += companies.length;
+        job.lastId = Number(companies[companies.length - 1].id);
+        // Store the progress after every page, so that the pages written so
+        // far aren't imported again if a later page fails.
+        userSettings.childPublisherImportJob = job;
+      }
+      result.sitesLoaded += companies.length;
+      // A short page means that there are no more child publishers after it.
+      result.done = companies.length < CHILD_PUBLISHER_BATCH_SIZE;
+    }
+    return result;
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+/**
+ * Finishes a child publisher import and shows its sheet.
+ * @param sheetTitle The title of the sheet, which identifies the import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ */
+export function finishChildPublishersImport(
+  sheetTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+): void {
+  if (userSettings.childPublisherImportJob?.sheetTitle === sheetTitle) {
+    userSettings.childPublisherImportJob = null;
+  }
+  spreadsheetHandler.activateSheet(sheetTitle);
+}
+
+/**
+ * Ends a child publisher import that failed before all child publishers were
+ * loaded, keeping the ones imported so far. The sheet gets a note that marks
+ * it as incomplete.
+ * @param sheetTitle The title of the sheet, which identifies the import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ */
+export function keepPartialChildPublishersImport(
+  sheetTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+): void {
+  const job = userSettings.childPublisherImportJob;
+  if (job?.sheetTitle !== sheetTitle) {
+    throw new Error('The import is no longer active.');
+  }
+  userSettings.childPublisherImportJob = null;
+  spreadsheetHandler.setNote(
+    sheetTitle,
+    1,
+    1,
+    `Incomplete import: ${job.importedResults} of about ` +
+      `${job.totalResults} child publishers were imported before the import ` +
+      `failed. Companies with an ID greater than ${job.lastId} are missing.`,
+  );
+  spreadsheetHandler.activateSheet(sheetTitle);
+}
+
+/**
+ * Returns the child publishers of the network from the cache, fetching and
+ * caching them if they aren't cached. Imports thus fetch the child publishers
+ * at most once rather than for each page of sites.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ */
+function getChildPublishers(
+  userSettings: UserSettings,
+  dataHandler: DataHandler,
+): ChildPublisherMap {
+  let childPublishers = userSettings.childPublishers;
+  if (!childPublishers) {
+    childPublishers = dataHandler.fetchChildPublishers();
+    userSettings.childPublishers = childPublishers;
+  }
+  return childPublishers;
+}
+
+/**
+ * Fetches the child publishers again and replaces the cached ones, e.g. after
+ * child publishers were added or renamed.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onRefreshChildPublisherCacheSelected(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const childPublishers = dataHandler.fetchChildPublishers();
+  userSettings.childPublishers = childPublishers;
+  userInterfaceHandler.showAlert(
+    `Child publishers cached: ${Object.keys(childPublishers).length}`,
+  );
+}
+
+/**
+ * A batch of sheet rows to perform a site action on.
+ */
+export interface SiteActionBatch {
+  actionType: SiteAction['xsi:type'];
+  // The 1-based column that results are written to.
+  resultColumn: number;
+  rows: Array<{row: number; siteId: number}>;
+}
+
+/**
+ * Starts a site action on the sites selected in the active sheet. Sites are
+ * selected either by checking them in a "Selected" column or, if the sheet has
+ * no such column, by selecting their rows.
+ * @param actionType The type of site action to perform.
+ * @param dialogTitle The title of the dialog to show.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+function startSiteAction(
+  actionType: SiteAction['xsi:type'],
+  dialogTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+) {
+  const sheetName = spreadsheetHandler.getActiveSheetName();
+  const values = spreadsheetHandler.getSheetValues(sheetName);
+  const headers = (values[0] ?? []).map(String);
+  const siteIdColumnIndex = headers.indexOf(SITE_ID_HEADER);
+  if (siteIdColumnIndex === -1) {
+    userInterfaceHandler.showAlert(
+      `The active sheet has no "${SITE_ID_HEADER}" column. Select a sheet ` +
+        'created by a site import and try again.',
+    );
+    return;
+  }
+  const selectedColumnIndex = headers.indexOf(SELECTED_HEADER);
+  let rowNumbers: number[];
+  if (selectedColumnIndex === -1) {
+    rowNumbers = spreadsheetHandler.getSelectedRowNumbers();
+  } else {
+    rowNumbers = values
+      .map((rowValues, i) =>
+        rowValues[selectedColumnIndex] === true ? i + 1 : 0,
+      )
+      .filter(Boolean);
+  }
+  const rows = rowNumbers
+    // skip the header row and anything outside of the data range
+    .filter((row) => row > 1 && row <= values.length)
+    .map((row) => ({row, siteId: Number(values[row - 1][siteIdColumnIndex])}))
+    .filter(({siteId}) => Number.isInteger(siteId) && siteId > 0);
+  if (!rows.length) {
+    userInterfaceHandler.showAlert(
+      'No sites selected. Select the rows of the sites to update, or check ' +
+        `them in a "${SELECTED_HEADER}" column.`,
+    );
+    return;
+  }
+  const userConfirmed = userInterfaceHandler.showYesNoDialog(
+    dialogTitle,
+    `${rows.length} selected site(s) will be updated in Google Ad Manager. ` +
+      'Do you wish to continue?',
+  );
+  if (!userConfirmed) {
+    return;
+  }
+  const resultColumn = getOrAddColumn(
+    sheetName,
+    headers,
+    ACTION_RESULT_HEADER,
+    spreadsheetHandler,
+  );
+  const batches: SiteActionBatch[] = [];
+  for (let i = 0; i < rows.length; i += SITE_ACTION_BATCH_SIZE) {
+    batches.push({
+      actionType,
+      resultColumn,
+      rows: rows.slice(i, i + SITE_ACTION_BATCH_SIZE),
+    });
+  }
+  userInterfaceHandler.showBatchOperationDialog(
+    dialogTitle,
+    sheetName,
+    'performSiteActionForRows',
+    batches,
+    rows.length,
+    `Sheet: ${sheetName}`,
+  );
+}
+
+/**
+ * Submits the selected sites in the active sheet for approval.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onSubmitSitesForApprovalSelected(
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  startSiteAction(
+    'SubmitSiteForApproval',
+    'Submit Sites for Approval',
+    spreadsheetHandler,
+    userInterfaceHandler,
+  );
+}
+
+/**
+ * Deactivates the selected sites in the active sheet.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onDeactivateSitesSelected(
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  startSiteAction(
+    'DeactivateSite',
+    'Deactivate Sites',
+    spreadsheetHandler,
+    userInterfaceHandler,
+  );
+}
+
+/**
+ * A batch of sheet rows to create sites for.
+ */
+export interface CreateSitesBatch {
+  // The 1-based columns that site IDs and results are written to.
+  siteIdColumn: number;
+  resultColumn: number;
+  rows: Array<{row: number; url: string; childNetworkCode: string}>;
+}
+
+/**
+ * Normalizes a site URL to the form Ad Manager stores, i.e. in lower case and
+ * without its scheme and trailing slash.
+ * @param url The URL of the site.
+ */
+function normalizeSiteUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/\/$/, '');
+}
+
+/**
+ * Returns a key that identifies a site by its normalized URL and child network
+ * code.
+ * @param url The URL of the site.
+ * @param childNetworkCode The child network code of the site, if any.
+ */
+function getSiteKey(url: string, childNetworkCode: string | undefined): string {
+  return `${normalizeSiteUrl(url)}|${childNetworkCode ?? ''}`;
+}
+
+/**
+ * Creates sites for the URLs in the active sheet. The sheet must have a
+ * "Site URL" column and may have a "Child Network Code" column. Rows that
+ * already have a site ID are skipped, as are invalid and duplicated rows.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onCreateSitesSelected(
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const sheetName = spreadsheetHandler.getActiveSheetName();
+  const values = spreadsheetHandler.getSheetValues(sheetName);
+  const headers = (values[0] ?? []).map(String);
+  const urlColumnIndex = headers.indexOf(SITE_URL_HEADER);
+  if (urlColumnIndex === -1) {
+    userInterfaceHandler.showAlert(
+      `The active sheet has no "${SITE_URL_HEADER}" column.`,
+    );
+    return;
+  }
+  const childNetworkCodeColumnIndex = headers.indexOf(
+    CHILD_NETWORK_CODE_HEADER,
+  );
+  const siteIdColumnIndex = headers.indexOf(SITE_ID_HEADER);
+  const rowsToCreate: CreateSitesBatch['rows'] = [];
+  const skippedRows: Array<{row: number; reason: string}> = [];
+  const siteKeys = new Set<string>();
+  values.forEach((rowValues, i) => {
+    const row = i + 1;
+    const url = String(rowValues[urlColumnIndex] ?? '').trim();
+    const childNetworkCode =
+      childNetworkCodeColumnIndex === -1
+        ? ''
+        : String(rowValues[childNetworkCodeColumnIndex] ?? '').trim();
+    const siteId =
+      siteIdColumnIndex === -1
+        ? ''
+        : String(rowValues[siteIdColumnIndex] ?? '').trim();
+    if (row === 1 || !url || siteId) {
+      return;
+    }
+    const siteKey = getSiteKey(url, childNetworkCode);
+    if (!VALID_SITE_URL_PATTERN.test(url)) {
+      skippedRows.push({row, reason: 'Skipped: invalid URL'});
+    } else if (!/^[0-9]*$/.test(childNetworkCode)) {
+      skippedRows.push({row, reason: 'Skipped: invalid child network code'});
+    } else if (siteKeys.has(siteKey)) {
+      skippedRows.push({row, reason: 'Skipped: duplicate row'});
+    } else {
+      siteKeys.add(siteKey);
+      rowsToCreate.push({row, url: normalizeSiteUrl(url), childNetworkCode});
+    }
+  });
+  if (!rowsToCreate.length && !skippedRows.length) {
+    userInterfaceHandler.showAlert('No new site URLs found in the sheet.');
+    return;
+  }
+  const userConfirmed = userInterfaceHandler.showYesNoDialog(
+    'Create Sites',
+    `${rowsToCreate.length} site(s) will be created in Google Ad Manager and ` +
+      `${skippedRows.length} invalid or duplicated row(s) will be skipped. ` +
+      'Do you wish to continue?',
+  );
+  if (!userConfirmed) {
+    return;
+  }
+  const siteIdColumn = getOrAddColumn(
+    sheetName,
+    headers,
+    SITE_ID_HEADER,
+    spreadsheetHandler,
+  );
+  const resultColumn = getOrAddColumn(
+    sheetName,
+    headers,
+    ACTION_RESULT_HEADER,
+    spreadsheetHandler,
+  );
+  for (const {row, reason} of skippedRows) {
+    spreadsheetHandler.insertValuesIntoSheet(
+      sheetName,
+      [[reason]],
+      row,
+      resultColumn,
+    );
+  }
+  if (!rowsToCreate.length) {
+    return;
+  }
+  const batches: CreateSitesBatch[] = [];
+  for (let i = 0; i < rowsToCreate.length; i += SITE_CREATION_BATCH_SIZE) {
+    batches.push({
+      siteIdColumn,
+      resultColumn,
+      rows: rowsToCreate.slice(i, i + SITE_CREATION_BATCH_SIZE),
+    });
+  }
+  userInterfaceHandler.showBatchOperationDialog(
+    'Create Sites',
+    sheetName,
+    'createSitesForRows',
+    batches,
+    rowsToCreate.length,
+    `Sheet: ${sheetName}`,
+  );
+}
+
+/**
+ * Shows the network code prompt.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param userSettings The user settings to use.
+ * @param documentSettings The document settings to use.
+ */
+export function showNetworkCodePrompt(
+  userInterfaceHandler = getUserInterfaceHandler(),
+  userSettings = getUserSettings(),
+  documentSettings = getDocumentSettings(),
+) {
+  userInterfaceHandler.showInputPrompt(
+    'Network Code',
+    /^[0-9]+$/,
+    (newValue: string) => {
+      userSettings.networkCode = newValue;
+      createMenu(userInterfaceHandler, userSettings, documentSettings);
+    },
+    (invalidValue: string) => {
+      userInterfaceHandler.showAlert(`Invalid network code: ${invalidValue}`);
+      showNetworkCodePrompt(
+        userInterfaceHandler,
+        userSettings,
+        documentSettings,
+      );
+    },
+  );
+}
+
+/**
+ * Shows the API version prompt.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param userSettings The user settings to use.
+ * @param documentSettings The document settings to use.
+ */
+export function showApiVersionPrompt(
+  userInterfaceHandler = getUserInterfaceHandler(),
+  userSettings = getUserSettings(),
+  documentSettings = getDocumentSettings(),
+) {
+  userInterfaceHandler.showInputPrompt(
+    'Ad Manager API Version',
+    /^v\d{6}$/,
+    (newValue: string) => {
+      userSettings.adManagerApiVersion = newValue;
+      createMenu(userInterfaceHandler, userSettings, documentSettings);
+    },
+    (invalidValue: string) => {
+      userInterfaceHandler.showAlert(`Invalid API version: ${invalidValue}`);
+      showApiVersionPrompt(
+        userInterfaceHandler,
+        userSettings,
+        documentSettings,
+      );
+    },
+  );
+}
+
+/**
+ * Schedules an import that runs unattended from a time-driven trigger. Any
+ * existing schedule is replaced. The user picks a saved query, or all sites,
+ * and the sheet that each import replaces.
+ * @param frequency How often the import runs.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param documentSettings The document settings to use.
+ */
+function scheduleImport(
+  frequency: ScheduledImport['frequency'],
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  triggerHandler = getTriggerHandler(),
+  documentSettings = getDocumentSettings(),
+) {
+  const savedQueries = documentSettings.savedQueries;
+  const savedQueryNames = savedQueries.map(({name}) => name);
+  userInterfaceHandler.showInputPrompt(
+    'Saved query to import (leave empty to import all sites)' +
+      (savedQueryNames.length ? `: ${savedQueryNames.join(', ')}` : ''),
+    /.*/,
+    (name: string) => {
+      const savedQuery = savedQueries.find(
+        (savedQuery) => savedQuery.name.toLowerCase() === name.toLowerCase(),
+      );
+      if (name && !savedQuery) {
+        userInterfaceHandler.showAlert(
+          `No saved query named "${name}". Add it under "Saved Queries" > ` +
+            `"${MANAGE_SAVED_QUERIES_MENU_ITEM}" first.`,
+        );
+        return;
+      }
+      let statement: BoundStatement;
+      try {
+        statement = savedQuery
+          ? createSiteQuery(savedQuery.filters)
+          : {query: '', values: []};
+      } catch (e) {
+        userInterfaceHandler.showAlert(`Invalid query: ${getErrorMessage(e)}`);
+        return;
+      }
+      const defaultSheetTitle = `[${userSettings.networkCode}] Scheduled Import`;
+      userInterfaceHandler.showInputPrompt(
+        `Sheet to import into (leave empty for "${defaultSheetTitle}")`,
+        VALID_SHEET_TITLE_PATTERN,
+        (sheetTitle: string) => {
+          sheetTitle ||= defaultSheetTitle;
+          if (
+            spreadsheetHandler.hasSheet(sheetTitle) &&
+            userSettings.scheduledImport?.sheetTitle !== sheetTitle &&
+            !userInterfaceHandler.showYesNoDialog(
+              'Schedule Import',
+              `The sheet "${sheetTitle}" will be replaced by each import. ` +
+                'Do you wish to continue?',
+            )
+          ) {
+            return;
+          }
+          triggerHandler.deleteTriggers(TRIGGER_RUN_SCHEDULED_IMPORT);
+          if (frequency === 'DAILY') {
+            triggerHandler.scheduleDaily(
+              TRIGGER_RUN_SCHEDULED_IMPORT,
+              SCHEDULED_IMPORT_HOUR,
+            );
+          } else {
+            triggerHandler.scheduleWeekly(
+              TRIGGER_RUN_SCHEDULED_IMPORT,
+              SCHEDULED_IMPORT_HOUR,
+            );
+          }
+          userSettings.scheduledImport = {
+            frequency,
+            ...statement,
+            outputFormat:
+              savedQuery?.outputFormat ?? SiteImportOutputFormat.COMBINED,
+            columns: savedQuery?.columns ?? null,
+            sheetTitle,
+          };
+          createMenu(userInterfaceHandler, userSettings, documentSettings);
+          const schedule = frequency === 'DAILY' ? 'every day' : 'every Monday';
+          userInterfaceHandler.showAlert(
+            `${savedQuery ? savedQuery.name : 'All sites'} will be imported ` +
+              `${schedule} into the sheet "${sheetTitle}".`,
+          );
+        },
+        (invalidValue: string) => {
+          userInterfaceHandler.showAlert(`Invalid sheet name: ${invalidValue}`);
+        },
+      );
+    },
+  );
+}
+
+/**
+ * Schedules a daily import.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onScheduleDailyImportSelected(
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  triggerHandler = getTriggerHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  scheduleImport(
+    'DAILY',
+    userSettings,
+    spreadsheetHandler,
+    userInterfaceHandler,
+    triggerHandler,
+    documentSettings,
+  );
+}
+
+/**
+ * Schedules a weekly import.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onScheduleWeeklyImportSelected(
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  triggerHandler = getTriggerHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  scheduleImport(
+    'WEEKLY',
+    userSettings,
+    spreadsheetHandler,
+    userInterfaceHandler,
+    triggerHandler,
+    documentSettings,
+  );
+}
+
+/**
+ * Removes the scheduled import, including any run that is in progress.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onRemoveScheduledImportSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  triggerHandler = getTriggerHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  triggerHandler.deleteTriggers(TRIGGER_RUN_SCHEDULED_IMPORT);
+  triggerHandler.deleteTriggers(TRIGGER_CONTINUE_SCHEDULED_IMPORT);
+  userSettings.scheduledImport = null;
+  userSettings.scheduledImportJob = null;
+  createMenu(userInterfaceHandler, userSettings, documentSettings);
+  userInterfaceHandler.showAlert('The scheduled import has been removed.');
+}
+
+/**
+ * Shows the dialog to choose and order the columns of site imports.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onChooseSiteColumnsSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  userInterfaceHandler.showSiteColumnsDialog(
+    SITE_COLUMN_IDS.map((id) => ({id, header: getSiteColumnHeader(id)})),
+    userSettings.siteColumns ??
+      getDefaultSiteColumns(SiteImportOutputFormat.COMBINED),
+  );
+}
+
+/**
+ * Stores the columns of site imports chosen by the user. Sheets that were
+ * already imported keep their columns when they are refreshed.
+ * @param columnIds The IDs of the columns in order, or null to use the default
+ *     columns of each import.
+ * @param userSettings The user settings to use.
+ */
+export function saveSiteColumns(
+  columnIds: string[] | null,
+  userSettings = getUserSettings(),
+): void {
+  userSettings.siteColumns = columnIds ? validateSiteColumns(columnIds) : null;
+}
+
+/**
+ * Turns the dashboard sheet that is created after each import on or off.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onToggleImportDashboardSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  userSettings.importDashboard = !userSettings.importDashboard;
+  createMenu(userInterfaceHandler, userSettings, documentSettings);
+  userInterfaceHandler.showAlert(
+    userSettings.importDashboard
+      ? 'A dashboard sheet will be created after each import.'
+      : 'Dashboard sheets will no longer be created after imports.',
+  );
+}
+
+/**
+ * Turns the recording of the counts per child publisher of each import on or
+ * off. They are off by default, as they add a row per child publisher to the
+ * import history.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onToggleChildTrendsSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  userSettings.childTrends = !userSettings.childTrends;
+  createMenu(userInterfaceHandler, userSettings, documentSettings);
+  userInterfaceHandler.showAlert(
+    userSettings.childTrends
+      ? 'Imports will record the trends of each child publisher.'
+      : 'Imports will no longer record the trends of child publishers.',
+  );
+}
+
+/**
+ * Adds a rule to the alerts that are checked after each scheduled import,
+ * unless the same rule was already added.
+ * @param rule The rule to add.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+function addAlertRule(
+  rule: AlertRule,
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+) {
+  const rules = userSettings.alertRules ?? [];
+  if (
+    !rules.some(
+      (existingRule) => JSON.stringify(existingRule) === JSON.stringify(rule),
+    )
+  ) {
+    userSettings.alertRules = [...rules, rule];
+    createMenu(userInterfaceHandler, userSettings, documentSettings);
+  }
+  userInterfaceHandler.showAlert(
+    `Alert added: ${describeAlertRule(rule)}. Alerts are checked after each ` +
+      'scheduled import and sent to you by email.' +
+      (userSettings.scheduledImport
+        ? ''
+        : ' Schedule an import for the alerts to be checked.'),
+  );
+}
+
+/**
+ * Adds an alert for sites that move to "Needs attention".
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onAddSiteDisapprovedAlertSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  addAlertRule(
+    {type: 'SITE_DISAPPROVED'},
+    userSettings,
+    userInterfaceHandler,
+    documentSettings,
+  );
+}
+
+/**
+ * Asks for a child network code and a number of sites, and adds an alert for
+ * when more sites of the child publisher need attention.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onAddChildNeedsAttentionAlertSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  userInterfaceHandler.showInputPrompt(
+    'Child network code and maximum number of sites needing attention, ' +
+      'e.g. "1234, 10"',
+    /^[0-9]+\s*,\s*[0-9]+$/,
+    (input: string) => {
+      const [childNetworkCode, maxSites] = input
+        .split(',')
+        .map((value) => value.trim());
+      addAlertRule(
+        {
+          type: 'CHILD_NEEDS_ATTENTION',
+          childNetworkCode,
+          maxSites: Number(maxSites),
+        },
+        userSettings,
+        userInterfaceHandler,
+        documentSettings,
+      );
+    },
+    (invalidInput: string) => {
+      userInterfaceHandler.showAlert(`Invalid input: ${invalidInput}`);
+    },
+  );
+}
+
+/**
+ * Asks for a disapproval reason type and adds an alert for sites that get a
+ * disapproval reason of that type.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onAddReasonTypeAlertSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  const reasonTypes = Object.values(DISAPPROVAL_REASON_TYPE_LABELS);
+  userInterfaceHandler.showInputPrompt(
+    `Disapproval Reason Type (${reasonTypes.join(', ')})`,
+    new RegExp(`^(${reasonTypes.join('|')})$`, 'i'),
+    (input: string) => {
+      const reasonType = reasonTypes.find(
+        (label) => label.toLowerCase() === input.toLowerCase(),
+      )!;
+      addAlertRule(
+        {type: 'NEW_DISAPPROVAL_REASON_TYPE', reasonType},
+        userSettings,
+        userInterfaceHandler,
+        documentSettings,
+      );
+    },
+    (invalidInput: string) => {
+      userInterfaceHandler.showAlert(
+        `Invalid disapproval reason type: ${invalidInput}`,
+      );
+    },
+  );
+}
+
+/**
+ * Shows the alerts that are checked after each scheduled import.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onShowAlertsSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const rules = userSettings.alertRules ?? [];
+  userInterfaceHandler.showAlert(
+    rules.length
+      ? 'Alerts checked after each scheduled import:\n' +
+          rules.map((rule) => `- ${describeAlertRule(rule)}`).join('\n')
+      : 'No alerts have been added.',
+  );
+}
+
+/**
+ * Removes all alerts.
+ * @param userSettings The user settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ * @param documentSettings The document settings to use.
+ */
+export function onRemoveAlertsSelected(
+  userSettings = getUserSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+  documentSettings = getDocumentSettings(),
+): void {
+  userSettings.alertRules = null;
+  createMenu(userInterfaceHandler, userSettings, documentSettings);
+  userInterfaceHandler.showAlert('All alerts have been removed.');
+}
+
+/**
+ * Asks for the URL of a webhook, e.g. of a Google Chat space, that is notified
+ * when imports finish, fail or raise alerts. Webhooks are shared by all users
+ * of the spreadsheet.
+ * @param documentSettings The document settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onAddWebhookSelected(
+  documentSettings = getDocumentSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  userInterfaceHandler.showInputPrompt(
+    'Webhook URL (https://...)',
+    VALID_WEBHOOK_URL_PATTERN,
+    (url: string) => {
+      const webhookUrls = documentSettings.webhookUrls;
+      if (!webhookUrls.includes(url)) {
+        documentSettings.webhookUrls = [...webhookUrls, url];
+      }
+      userInterfaceHandler.showAlert(
+        'The webhook will be notified when imports finish, fail or raise ' +
+          'alerts.',
+      );
+    },
+    (invalidInput: string) => {
+      userInterfaceHandler.showAlert(`Invalid webhook URL: ${invalidInput}`);
+    },
+  );
+}
+
+/**
+ * Shows the webhooks that are notified about imports.
+ * @param documentSettings The document settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onShowWebhooksSelected(
+  documentSettings = getDocumentSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  const webhookUrls = documentSettings.webhookUrls;
+  userInterfaceHandler.showAlert(
+    webhookUrls.length
+      ? 'Webhooks notified about imports:\n' +
+          webhookUrls.map((url) => `- ${url}`).join('\n')
+      : 'No webhooks have been added.',
+  );
+}
+
+/**
+ * Removes all webhooks.
+ * @param documentSettings The document settings to use.
+ * @param userInterfaceHandler The user interface handler to use.
+ */
+export function onRemoveWebhooksSelected(
+  documentSettings = getDocumentSettings(),
+  userInterfaceHandler = getUserInterfaceHandler(),
+): void {
+  documentSettings.webhookUrls = [];
+  userInterfaceHandler.showAlert('All webhooks have been removed.');
+}
+
+/**
+ * Returns the title of the sheet that holds the previous scheduled import.
+ * @param sheetTitle The title of the sheet of the scheduled import.
+ */
+function getPreviousImportSheetTitle(sheetTitle: string): string {
+  return `${sheetTitle} (Previous)`;
+}
+
+/**
+ * Keeps a hidden copy of all sheets of a scheduled import before they are
+ * overwritten, so that alert rules can compare the next import with it. Any
+ * older copy is replaced.
+ * @param sheetTitle The title of the first sheet of the scheduled import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function keepPreviousImport(
+  sheetTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+) {
+  const previousSheetTitle = getPreviousImportSheetTitle(sheetTitle);
+  if (spreadsheetHandler.hasSheet(previousSheetTitle)) {
+    for (const partSheetTitle of getPartSheetTitles(
+      previousSheetTitle,
+      spreadsheetHandler,
+    )) {
+      spreadsheetHandler.deleteSheet(partSheetTitle);
+    }
+  }
+  getPartSheetTitles(sheetTitle, spreadsheetHandler).forEach(
+    (partSheetTitle, i) => {
+      spreadsheetHandler.copySheet(
+        partSheetTitle,
+        getPartSheetTitle(previousSheetTitle, i + 1),
+      );
+    },
+  );
+}
+
+/**
+ * Compares a completed scheduled import with the previous one and emails a
+ * digest of the alert rules that matched. Nothing is checked if there is no
+ * previous import.
+ * @param sheetTitle The title of the first sheet of the scheduled import.
+ * @param userSettings The user settings to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param mailHandler The mail handler to use.
+ * @return The rules that matched.
+ */
+function checkAlertRules(
+  sheetTitle: string,
+  userSettings = getUserSettings(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  mailHandler = getMailHandler(),
+): AlertMatch[] {
+  const rules = userSettings.alertRules;
+  const previousSheetTitle = getPreviousImportSheetTitle(sheetTitle);
+  if (!rules?.length || !spreadsheetHandler.hasSheet(previousSheetTitle)) {
+    return [];
+  }
+  const readSites = (firstSheetTitle: string) =>
+    getPartSheetTitles(firstSheetTitle, spreadsheetHandler).flatMap(
+      (partSheetTitle) =>
+        parseImportedSites(spreadsheetHandler.getSheetValues(partSheetTitle)),
+    );
+  const matches = evaluateAlertRules(
+    rules,
+    readSites(previousSheetTitle),
+    readSites(sheetTitle),
+  );
+  if (matches.length) {
+    const {subject, body} = createAlertDigest(sheetTitle, matches);
+    mailHandler.sendEmail(subject, body);
+  }
+  return matches;
+}
+
+/**
+ * Notifies the webhooks about an import. Errors are logged rather than thrown,
+ * so that a failing webhook doesn't fail the import.
+ * @param event The event to notify.
+ * @param job The import job.
+ * @param sheetTitle The title of the sheet to link to.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param notifier The notifier to use.
+ * @param details The alerts or the error of the event.
+ */
+function notifyImport(
+  event: ImportEvent,
+  job: ImportJob,
+  sheetTitle: string,
+  spreadsheetHandler: SpreadsheetHandler,
+  notifier: Notifier,
+  details: Pick<ImportNotification, 'alerts' | 'error'> = {},
+) {
+  try {
+    notifier.notify({
+      event,
+      sheetTitle,
+      sheetUrl: spreadsheetHandler.getSheetUrl(sheetTitle),
+      query: describeStatement(job),
+      counts: getApprovalStatusCounts(job.statusCounts),
+      ...details,
+    });
+  } catch (e) {
+    console.error(`Failed to send notification: ${getErrorMessage(e)}`);
+  }
+}
+
+/**
+ * Runs the scheduled import. Called by a time-driven trigger. An unfinished
+ * previous run is replaced.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param deadline The time by which the execution should stop importing.
+ * @param mailHandler The mail handler to use.
+ * @param notifier The notifier to use.
+ */
+export function runScheduledImport(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  triggerHandler = getTriggerHandler(),
+  deadline = Date.now() + MAX_EXECUTION_TIME_MS,
+  mailHandler = getMailHandler(),
+  notifier = getNotifier(),
+): void {
+  const scheduledImport = userSettings.scheduledImport;
+  if (!scheduledImport) {
+    triggerHandler.deleteTriggers(TRIGGER_RUN_SCHEDULED_IMPORT);
+    return;
+  }
+  triggerHandler.deleteTriggers(TRIGGER_CONTINUE_SCHEDULED_IMPORT);
+  // Schedules created by older versions have no values bound to the query.
+  const {query, values = [], outputFormat, sheetTitle} = scheduledImport;
+  let columns =
+    scheduledImport.columns ??
+    userSettings.siteColumns ??
+    getDefaultSiteColumns(outputFormat);
+  if (userSettings.alertRules?.length) {
+    columns = addAlertRuleColumns(columns, userSettings.alertRules);
+  }
+  const job: ImportJob = {
+    query,
+    values,
+    outputFormat,
+    columns,
+    sheetTitle,
+    batchSize: SCHEDULED_IMPORT_BATCH_SIZE,
+    totalResults: 0,
+    lastId: 0,
+    importedResults: 0,
+  };
+  notifyScheduledImportFailure(job, spreadsheetHandler, notifier, () => {
+    try {
+      job.totalResults = dataHandler.getTotalResultsForSitesStatement({
+        query,
+        values,
+      });
+    } catch (e) {
+      if (!(e instanceof NoSitesFoundError)) {
+        throw e;
+      }
+    }
+    if (spreadsheetHandler.hasSheet(sheetTitle)) {
+      if (userSettings.alertRules?.length) {
+        keepPreviousImport(sheetTitle, spreadsheetHandler);
+      }
+      spreadsheetHandler.clearSheet(sheetTitle);
+    } else {
+      spreadsheetHandler.createSheet(sheetTitle, false);
+    }
+    prepareImportSheet(
+      sheetTitle,
+      {query, values, outputFormat, refreshTargetSheet: null, columns},
+      spreadsheetHandler,
+    );
+    processScheduledImportJob(
+      job,
+      userSettings,
+      dataHandler,
+      spreadsheetHandler,
+      triggerHandler,
+      deadline,
+      mailHandler,
+      notifier,
+    );
+  });
+}
+
+/**
+ * Continues a scheduled import that didn't finish within a single execution.
+ * Called by a one-off time-driven trigger.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param deadline The time by which the execution should stop importing.
+ * @param mailHandler The mail handler to use.
+ * @param notifier The notifier to use.
+ */
+export function continueScheduledImport(
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+  triggerHandler = getTriggerHandler(),
+  deadline = Date.now() + MAX_EXECUTION_TIME_MS,
+  mailHandler = getMailHandler(),
+  notifier = getNotifier(),
+): void {
+  triggerHandler.deleteTriggers(TRIGGER_CONTINUE_SCHEDULED_IMPORT);
+  const job = userSettings.scheduledImportJob;
+  if (!job) {
+    return;
+  }
+  notifyScheduledImportFailure(job, spreadsheetHandler, notifier, () => {
+    processScheduledImportJob(
+      job,
+      userSettings,
+      dataHandler,
+      spreadsheetHandler,
+      triggerHandler,
+      deadline,
+      mailHandler,
+      notifier,
+    );
+  });
+}
+
+/**
+ * Runs a scheduled import and notifies the webhooks if any of its steps
+ * fails, since nobody watches the trigger that runs it.
+ * @param job The import job of the scheduled import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param notifier The notifier to use.
+ * @param run Runs the scheduled import.
+ * @throws The error of the failed step.
+ */
+function notifyScheduledImportFailure(
+  job: ImportJob,
+  spreadsheetHandler: SpreadsheetHandler,
+  notifier: Notifier,
+  run: () => void,
 ) {
-  userInterfaceHandler.showInputPrompt(
-    'Ad Manager API Version',
-    /^v\d{6}$/,
-    (newValue: string) => {
-      userSettings.adManagerApiVersion = newValue;
-      createMenu(userInterfaceHandler, userSettings);
-    },
-    (invalidValue: string) => {
-      userInterfaceHandler.showAlert(`Invalid API version: ${invalidValue}`);
-      showApiVersionPrompt(userInterfaceHandler, userSettings);
+  try {
+    run();
+  } catch (e) {
+    notifyImport(
+      'IMPORT_FAILED',
+      job,
+      job.sheetTitle,
+      spreadsheetHandler,
+      notifier,
+      {error: getErrorMessage(e)},
+    );
+    throw e;
+  }
+}
+
+/**
+ * Imports pages of sites for a scheduled import until either all sites have
+ * been imported or the deadline is reached, in which case the progress is
+ * stored and a trigger is created to continue the import.
+ * @param job The import job to process.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param triggerHandler The trigger handler to use.
+ * @param deadline The time by which the execution should stop importing.
+ * @param mailHandler The mail handler to use.
+ * @param notifier The notifier to use.
+ */
+function processScheduledImportJob(
+  job: ImportJob,
+  userSettings: UserSettings,
+  dataHandler: DataHandler,
+  spreadsheetHandler: SpreadsheetHandler,
+  triggerHandler: TriggerHandler,
+  deadline: number,
+  mailHandler: MailHandler,
+  notifier: Notifier,
+) {
+  let done = false;
+  while (!done) {
+    if (Date.now() >= deadline) {
+      userSettings.scheduledImportJob = job;
+      triggerHandler.scheduleAfter(
+        TRIGGER_CONTINUE_SCHEDULED_IMPORT,
+        CONTINUATION_DELAY_MS,
+      );
+      return;
+    }
+    ({done} = importNextSitesPage(
+      job,
+      userSettings,
+      dataHandler,
+      spreadsheetHandler,
+    ));
+    // Store the progress after every page, so that an execution that is cut
+    // short can be continued from the last imported site.
+    userSettings.scheduledImportJob = job;
+  }
+  userSettings.scheduledImportJob = null;
+  recordImportSnapshot(job, spreadsheetHandler, userSettings);
+  // Sheets beyond the ones used by this import are left over from a previous
+  // import that returned more sites.
+  const sheetCount = Math.ceil(job.importedResults / MAX_SITES_PER_SHEET);
+  getPartSheetTitles(job.sheetTitle, spreadsheetHandler).forEach(
+    (sheetTitle, i) => {
+      if (i === 0) {
+        return;
+      } else if (i < sheetCount) {
+        spreadsheetHandler.showSheet(sheetTitle);
+      } else {
+        spreadsheetHandler.deleteSheet(sheetTitle);
+      }
     },
   );
+  reportMissingChildSites(job, job.sheetTitle, spreadsheetHandler);
+  notifyImport(
+    'IMPORT_FINISHED',
+    job,
+    job.sheetTitle,
+    spreadsheetHandler,
+    notifier,
+  );
+  const matches = checkAlertRules(
+    job.sheetTitle,
+    userSettings,
+    spreadsheetHandler,
+    mailHandler,
+  );
+  if (matches.length) {
+    notifyImport('ALERT', job, job.sheetTitle, spreadsheetHandler, notifier, {
+      alerts: matches.map(({rule, sites}) => ({
+        description: describeAlertRule(rule),
+        sites: sites.length,
+      })),
+    });
+  }
 }
 
 /**
- * Creates a row for a site.
- * @param site The site to create a row for.
- * @param childPublishers A map of child publishers.
- * @param outputFormat The format of the output sheet.
- * @return An array of strings representing the row.
+ * The result of importing a page of sites.
  */
-function createRowForSite(
-  site: Site,
-  childPublishers: ChildPublisherMap,
-  outputFormat: SiteImportOutputFormat,
-): string[] {
-  const isChildSite = Boolean(site.childNetworkCode);
-  let childPublisherEntry;
-  if (isChildSite) {
-    const childPublisher = childPublishers[site.childNetworkCode];
-    const childPublisherName =
-      childPublisher?.name ?? '[Child Publisher Name Not Found]';
-    childPublisherEntry = `${childPublisherName} (${site.childNetworkCode})`;
-  } else {
-    childPublisherEntry = '[First Party]';
-  }
-
-  let approvalStatusEntry;
-  switch (site.approvalStatus) {
-    case 'DRAFT':
-      approvalStatusEntry = isChildSite
-        ? 'Requires review'
-        : 'Not sent for review';
-      break;
-    case 'APPROVED':
-      approvalStatusEntry = 'Ready';
-      break;
-    case 'DISAPPROVED':
-      approvalStatusEntry = 'Needs attention';
-      break;
-    case 'UNCHECKED':
-    case 'REQUIRES_REVIEW':
-      approvalStatusEntry = 'Getting ready';
-      break;
-    default:
-      approvalStatusEntry = 'Unknown';
-      break;
+export interface SitesPageResult {
+  sitesLoaded: number;
+  // Whether there are no more sites to import.
+  done: boolean;
+}
+
+/**
+ * Imports the page of sites that follows the last imported site of an import
+ * job, appends them to the job's sheet and advances the job. Once a sheet
+ * holds the maximum number of sites, the following sites are written to a new
+ * sheet. Sheets with one row per disapproval reason can hold more rows than
+ * sites.
+ * @param job The import job, which is updated with the progress.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The number of sites imported and whether the import is done.
+ */
+function importNextSitesPage(
+  job: ImportJob,
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+): SitesPageResult {
+  const part = Math.floor(job.importedResults / MAX_SITES_PER_SHEET) + 1;
+  const sitesInPart = job.importedResults % MAX_SITES_PER_SHEET;
+  // Jobs started by older versions wrote one row per site.
+  const rowsInPart = sitesInPart === 0 ? 0 : (job.rowsInPart ?? sitesInPart);
+  // Pages never span two sheets.
+  const pageSize = Math.min(job.batchSize, MAX_SITES_PER_SHEET - sitesInPart);
+  const sites =
+    dataHandler.getSitesAfterId(
+      {query: job.query, values: job.values ?? []},
+      job.lastId,
+      pageSize,
+    ).results ?? [];
+  if (sites.length) {
+    const sheetTitle = getPartSheetTitle(job.sheetTitle, part);
+    if (part > 1 && sitesInPart === 0) {
+      if (spreadsheetHandler.hasSheet(sheetTitle)) {
+        spreadsheetHandler.clearSheet(sheetTitle);
+      } else {
+        spreadsheetHandler.createSheet(sheetTitle);
+      }
+      prepareImportSheet(
+        sheetTitle,
+        {
+          query: job.query,
+          values: job.values,
+          outputFormat: job.outputFormat,
+          refreshTargetSheet: null,
+          columns: job.columns,
+        },
+        spreadsheetHandler,
+      );
+    }
+    const childPublishers = getChildPublishers(userSettings, dataHandler);
+    const rows = sites.flatMap((site) =>
+      createRowsForSite(site, childPublishers, getImportColumns(job)),
+    );
+    if (userSettings.childTrends) {
+      countChildSitesOfPage(job, sites, userSettings);
+    }
+    const unresolvedSites = sites.filter((site) =>
+      hasUnresolvedChildPublisher(site, childPublishers),
+    );
+    if (unresolvedSites.length) {
+      // One more code than is listed is kept, to tell whether there are more.
+      job.unresolvedChildNetworkCodes = findUnresolvedChildNetworkCodes(
+        unresolvedSites,
+        childPublishers,
+        job.unresolvedChildNetworkCodes,
+        MAX_LISTED_UNRESOLVED_CHILD_NETWORK_CODES + 1,
+      );
+      job.unresolvedChildSiteCount =
+        (job.unresolvedChildSiteCount ?? 0) + unresolvedSites.length;
+    }
+    if (job.childNetworkCodesWithoutSites) {
+      const childNetworkCodes = new Set(
+        sites.map((site) => site.childNetworkCode),
+      );
+      job.childNetworkCodesWithoutSites =
+        job.childNetworkCodesWithoutSites.filter(
+          (code) => !childNetworkCodes.has(code),
+        );
+    }
+    spreadsheetHandler.insertValuesIntoSheet(sheetTitle, rows, rowsInPart + 2);
+    job.lastId = sites[sites.length - 1].id;
+    job.importedResults += sites.length;
+    job.rowsInPart = rowsInPart + rows.length;
+    job.statusCounts = countSites(job.statusCounts, sites);
   }
-  const disapprovalReasonsEntry = (site.disapprovalReasons ?? [])
-    // only keep non-empty strings
-    .filter((r) => r.details && r.details.trim())
-    .map((r) => r.details.trim())
-    .join(', ');
+  return {
+    sitesLoaded: sites.length,
+    // A short page means that there are no more sites after it.
+    done: sites.length < pageSize,
+  };
+}
 
-  if (outputFormat === SiteImportOutputFormat.FIRST_PARTY) {
-    return [site.url, approvalStatusEntry, disapprovalReasonsEntry];
-  } else {
-    return [
-      site.url,
-      childPublisherEntry,
-      approvalStatusEntry,
-      disapprovalReasonsEntry,
-    ];
+/**
+ * Adds a page of sites to the cached counts per child publisher of an import.
+ * Counts that are missing from the cache are not started over, so that the
+ * import records no incomplete counts.
+ * @param job The import job, before the page is added to it.
+ * @param sites The sites of the page.
+ * @param userSettings The user settings to use.
+ */
+function countChildSitesOfPage(
+  job: ImportJob,
+  sites: Site[],
+  userSettings = getUserSettings(),
+) {
+  const counts = job.importedResults
+    ? userSettings.getChildSiteCounts(job.sheetTitle)
+    : null;
+  if (job.importedResults && counts?.countedResults !== job.importedResults) {
+    return;
   }
+  userSettings.setChildSiteCounts(
+    job.sheetTitle,
+    countChildSites(counts, sites),
+  );
 }
 
 /**
- * Gets sites for a given import ID and statement.
+ * Imports the next pages of sites of the stored import job, up to
+ * `IMPORT_PAGES_PER_REQUEST` pages per call. Pages are imported one after the
+ * other, as each page starts after the last site of the previous one.
  * @param sheetTitle The title of the sheet for the import process.
- * @param statement The PQL Statement to use to filter sites.
- * @param outputFormat The format of the output sheet.
  * @param userSettings The user settings to use.
  * @param dataHandler The data handler to use.
- * @return The number of sites returned.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param lock The lock that prevents a page from being imported twice, e.g.
+ *     when an import is resumed while its previous dialog is still open.
+ * @param notifier The notifier to use.
+ * @return The number of sites imported and whether the import is done.
+ * @throws The error of the failed page, marked as transient if retrying the
+ *     page may succeed. Only other errors are reported to the webhooks.
  */
-export function getSites(
+export function importSitesPage(
   sheetTitle: string,
-  statement: Statement,
-  outputFormat: SiteImportOutputFormat,
   userSettings = getUserSettings(),
   dataHandler = getDataHandler(),
   spreadsheetHandler = getSpreadsheetHandler(),
+  lock = LockService.getUserLock(),
+  notifier = getNotifier(),
+): SitesPageResult {
+  lock.waitLock(IMPORT_JOB_LOCK_TIMEOUT_MS);
+  try {
+    const job = userSettings.importJob;
+    if (job?.sheetTitle !== sheetTitle) {
+      throw new Error('The import is no longer active.');
+    }
+    const result: SitesPageResult = {sitesLoaded: 0, done: false};
+    for (
+      let page = 0;
+      page < IMPORT_PAGES_PER_REQUEST && !result.done;
+      page++
+    ) {
+      let pageResult: SitesPageResult;
+      try {
+        pageResult = importNextSitesPage(
+          job,
+          userSettings,
+          dataHandler,
+          spreadsheetHandler,
+        );
+      } catch (e) {
+        // The dialog retries pages that failed with transient errors, and
+        // reports the import as failed only once the retries are exhausted.
+        if (classifyError(e) === 'RETRYABLE') {
+          throw createTransientError(e);
+        }
+        notifyImport(
+          'IMPORT_FAILED',
+          job,
+          sheetTitle,
+          spreadsheetHandler,
+          notifier,
+          {error: getErrorMessage(e)},
+        );
+        throw e;
+      }
+      // Store the progress after every page, so that the pages written so far
+      // aren't imported again if a later page fails.
+      userSettings.importJob = job;
+      result.sitesLoaded += pageResult.sitesLoaded;
+      result.done = pageResult.done;
+    }
+    return result;
+  } finally {
+    lock.releaseLock();
+  }
+}
+
+/**
+ * Performs a site action for a batch of sheet rows and writes the result of
+ * the action for each site to its row. Errors are written to the sheet rather
+ * than thrown so that the remaining batches can still be processed.
+ * @param sheetName The name of the sheet containing the rows.
+ * @param batch The batch of rows to perform the action on.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The number of rows processed.
+ */
+export function performSiteActionForRows(
+  sheetName: string,
+  batch: SiteActionBatch,
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
 ): number {
-  const sitesPage = dataHandler.getSites(statement);
-  const childPublishers =
-    userSettings.childPublishers ?? dataHandler.fetchChildPublishers();
+  const results = getSiteActionResults(
+    batch.actionType,
+    batch.rows.map(({siteId}) => siteId),
+    new Date().toLocaleString(),
+    dataHandler,
+  );
+  spreadsheetHandler.setColumnValues(
+    sheetName,
+    batch.resultColumn,
+    new Map(batch.rows.map(({row}, i) => [row, results[i]])),
+  );
+  return batch.rows.length;
+}
 
-  const rows = sitesPage.results.map((site) =>
-    createRowForSite(site, childPublishers, outputFormat),
+/**
+ * Performs a site action and returns the outcome for each site.
+ * @param actionType The type of the action to perform.
+ * @param siteIds The IDs of the sites to perform the action on.
+ * @param timeString The time of the action, which is included in the results.
+ * @param dataHandler The data handler to use.
+ * @return The result message for each site, in the same order as the IDs.
+ */
+function getSiteActionResults(
+  actionType: SiteAction['xsi:type'],
+  siteIds: number[],
+  timeString: string,
+  dataHandler = getDataHandler(),
+): string[] {
+  const success = `${SITE_ACTION_RESULTS[actionType]} (${timeString})`;
+  let numChanges: number;
+  try {
+    numChanges = dataHandler.performSiteAction(actionType, siteIds);
+  } catch (e) {
+    if (siteIds.length === 1) {
+      return [`Error: ${getErrorMessage(e)}`];
+    }
+    // The action fails for the whole batch if any site fails, so perform it
+    // for each site on its own to find the sites that caused the error.
+    return siteIds.flatMap((siteId) =>
+      getSiteActionResults(actionType, [siteId], timeString, dataHandler),
+    );
+  }
+  if (numChanges === siteIds.length) {
+    return siteIds.map(() => success);
+  }
+  // Only the number of changed sites is returned, so look up the sites to
+  // report the status of each one.
+  const {results} = dataHandler.getSites(
+    new StatementBuilder().whereIn('id', siteIds).build(),
+  );
+  const approvalStatuses = new Map(
+    (results ?? []).map((site) => [site.id, site.approvalStatus]),
   );
+  return siteIds.map((siteId) =>
+    approvalStatuses.has(siteId)
+      ? `${success} - ${numChanges} of ${siteIds.length} sites in batch ` +
+        `changed, approval status: ${approvalStatuses.get(siteId)}`
+      : 'Error: Site not found',
+  );
+}
+
+/**
+ * Creates sites for a batch of sheet rows and writes the created site IDs, or
+ * the reason a site wasn't created, to each row. Sites whose URL and child
+ * network code already exist in Ad Manager are skipped.
+ * @param sheetName The name of the sheet containing the rows.
+ * @param batch The batch of rows to create sites for.
+ * @param dataHandler The data handler to use.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The number of rows processed.
+ */
+export function createSitesForRows(
+  sheetName: string,
+  batch: CreateSitesBatch,
+  dataHandler = getDataHandler(),
+  spreadsheetHandler = getSpreadsheetHandler(),
+): number {
+  const timeString = new Date().toLocaleString();
+  const siteIds = new Map<number, string>();
+  const results = new Map<number, string>();
+  const addResult = (row: number, siteId: number | null, result: string) => {
+    if (siteId !== null) {
+      siteIds.set(row, String(siteId));
+    }
+    results.set(row, result);
+  };
+  const existingSites = new Map<string, Site>();
+  const urls = new Set(batch.rows.map(({url}) => normalizeSiteUrl(url)));
+  for (const site of dataHandler.findSitesByUrl([...urls])) {
+    existingSites.set(getSiteKey(site.url, site.childNetworkCode), site);
+  }
+  const rowsToCreate: CreateSitesBatch['rows'] = [];
+  for (const row of batch.rows) {
+    const existingSite = existingSites.get(
+      getSiteKey(row.url, row.childNetworkCode),
+    );
+    if (existingSite) {
+      addResult(row.row, existingSite.id, 'Skipped: site already exists');
+    } else {
+      rowsToCreate.push(row);
+    }
+  }
+  const toSite = ({url, childNetworkCode}: CreateSitesBatch['rows'][0]) => ({
+    url: normalizeSiteUrl(url),
+    childNetworkCode,
+  });
+  try {
+    const createdSites = dataHandler.createSites(rowsToCreate.map(toSite));
+    rowsToCreate.forEach((row, i) => {
+      addResult(row.row, createdSites[i].id, `Created (${timeString})`);
+    });
+  } catch (e) {
+    // The API rejects the whole batch if any site is invalid, so create the
+    // sites one at a time to find out which rows caused the error.
+    for (const row of rowsToCreate) {
+      try {
+        const [createdSite] = dataHandler.createSites([toSite(row)]);
+        addResult(row.row, createdSite.id, `Created (${timeString})`);
+      } catch (e) {
+        addResult(row.row, null, `Error: ${getErrorMessage(e)}`);
+      }
+    }
+  }
+  spreadsheetHandler.setColumnValues(sheetName, batch.siteIdColumn, siteIds);
+  spreadsheetHandler.setColumnValues(sheetName, batch.resultColumn, results);
+  return batch.rows.length;
+}
+
+/**
+ * Removes the stored import job if it belongs to the given sheet.
+ * @param sheetTitle The title of the sheet for the import process.
+ * @param userSettings The user settings to use.
+ */
+function clearImportJob(sheetTitle: string, userSettings = getUserSettings()) {
+  if (userSettings.importJob?.sheetTitle === sheetTitle) {
+    userSettings.importJob = null;
+  }
+}
+
+/**
+ * Adds a snapshot of a completed import to the hidden history sheet, which is
+ * created on first use.
+ * @param job The completed import job.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ * @param now The time at which the import completed.
+ */
+function recordImportSnapshot(
+  job: ImportJob,
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+  now = new Date(),
+) {
+  if (!job.statusCounts) {
+    return;
+  }
+  let childSiteCounts: ChildSiteCounts | null = null;
+  if (userSettings.childTrends) {
+    childSiteCounts = userSettings.getChildSiteCounts(job.sheetTitle);
+    userSettings.setChildSiteCounts(job.sheetTitle, null);
+  }
+  if (!spreadsheetHandler.hasSheet(IMPORT_HISTORY_SHEET_TITLE)) {
+    spreadsheetHandler.createSheet(IMPORT_HISTORY_SHEET_TITLE);
+    spreadsheetHandler.insertValuesIntoSheet(IMPORT_HISTORY_SHEET_TITLE, [
+      IMPORT_HISTORY_HEADERS,
+    ]);
+  }
   spreadsheetHandler.insertValuesIntoSheet(
-    sheetTitle,
-    rows,
-    sitesPage.startIndex + 2,
+    IMPORT_HISTORY_SHEET_TITLE,
+    createSnapshotRows(
+      now,
+      userSettings.networkCode ?? '',
+      describeStatement(job),
+      job.statusCounts,
+      // Incomplete counts, e.g. of an import whose counts expired, are left
+      // out rather than recorded as a drop in sites.
+      childSiteCounts?.countedResults === job.importedResults
+        ? childSiteCounts.children
+        : {},
+    ),
   );
-  return sitesPage.results.length;
 }
 
 /**
  * Finishes the sites import process.
  * @param sheetTitle The title of the sheet for the import process.
  * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ * @param notifier The notifier to use.
  */
 export function finishSitesImport(
   sheetTitle: string,
   spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+  notifier = getNotifier(),
 ): void {
-  spreadsheetHandler.activateSheet(sheetTitle);
+  const job = userSettings.importJob;
+  if (job?.sheetTitle === sheetTitle) {
+    recordImportSnapshot(job, spreadsheetHandler, userSettings);
+  }
+  clearImportJob(sheetTitle, userSettings);
+  const metadata = getImportMetadata(sheetTitle, spreadsheetHandler);
+  const refreshTargetSheet = metadata?.refreshTargetSheet;
+  if (refreshTargetSheet) {
+    mergeRefreshedSites(sheetTitle, refreshTargetSheet, spreadsheetHandler);
+    spreadsheetHandler.deleteSheet(sheetTitle);
+    spreadsheetHandler.activateSheet(refreshTargetSheet);
+  } else {
+    const partSheetTitles = getPartSheetTitles(sheetTitle, spreadsheetHandler);
+    if (metadata && hasReasonColumns(getImportColumns(metadata))) {
+      createReasonSummarySheet(sheetTitle, partSheetTitles, spreadsheetHandler);
+    } else if (userSettings.importDashboard) {
+      createDashboardSheet(
+        sheetTitle,
+        partSheetTitles,
+        spreadsheetHandler,
+        userSettings,
+        dataHandler,
+      );
+    }
+    // Activate the first sheet last, so that it is the one that is shown.
+    for (const partSheetTitle of partSheetTitles.reverse()) {
+      spreadsheetHandler.activateSheet(partSheetTitle);
+    }
+  }
+  if (job?.sheetTitle === sheetTitle) {
+    const reportMessage = reportMissingChildSites(
+      job,
+      refreshTargetSheet ?? sheetTitle,
+      spreadsheetHandler,
+    );
+    if (reportMessage) {
+      spreadsheetHandler.showToast(reportMessage);
+    }
+    notifyImport(
+      'IMPORT_FINISHED',
+      job,
+      refreshTargetSheet ?? sheetTitle,
+      spreadsheetHandler,
+      notifier,
+    );
+  }
+}
+
+/**
+ * Adds a note to the first cell of an imported sheet that lists the child
+ * network codes whose child publisher names weren't found, and the requested
+ * child network codes without sites, if there are any.
+ * @param job The finished import job.
+ * @param sheetTitle The title of the sheet with the imported sites.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @return The message of the note, or null if there is nothing to report.
+ */
+function reportMissingChildSites(
+  job: ImportJob,
+  sheetTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+): string | null {
+  const messages: string[] = [];
+  const codes = job.unresolvedChildNetworkCodes ?? [];
+  if (codes.length) {
+    const listedCodes = codes.slice(
+      0,
+      MAX_LISTED_UNRESOLVED_CHILD_NETWORK_CODES,
+    );
+    const siteCount = job.unresolvedChildSiteCount ?? codes.length;
+    messages.push(
+      `Child publisher names were not found for ${siteCount} site(s) of ` +
+        `child network code(s) ${listedCodes.join(', ')}` +
+        (codes.length > listedCodes.length ? ' and others' : '') +
+        '. Refresh the child publisher cache under Settings, then refresh ' +
+        'the sheet.',
+    );
+  }
+  if (job.childNetworkCodesWithoutSites?.length) {
+    messages.push(
+      'No sites were found for child network code(s) ' +
+        `${job.childNetworkCodesWithoutSites.join(', ')}.`,
+    );
+  }
+  if (!messages.length) {
+    return null;
+  }
+  const message = messages.join('\n\n');
+  spreadsheetHandler.setNote(sheetTitle, 1, 1, message);
+  return message;
+}
+
+/**
+ * Creates a sheet that counts the sites per disapproval reason type and per
+ * reason of an import with one row per reason.
+ * @param sheetTitle The title of the first sheet of the import.
+ * @param partSheetTitles The titles of all sheets of the import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ */
+function createReasonSummarySheet(
+  sheetTitle: string,
+  partSheetTitles: string[],
+  spreadsheetHandler = getSpreadsheetHandler(),
+) {
+  const summary = summarizeDisapprovalReasons(
+    partSheetTitles.map((partSheetTitle) =>
+      spreadsheetHandler.getSheetValues(partSheetTitle),
+    ),
+  );
+  const summarySheetTitle = `${sheetTitle} (Summary)`;
+  spreadsheetHandler.createSheet(summarySheetTitle, false);
+  spreadsheetHandler.insertValuesIntoSheet(
+    summarySheetTitle,
+    createReasonSummaryRows(summary),
+  );
+}
+
+/**
+ * Creates a sheet with counts and charts of an import. The counts are formulas
+ * that reference the sheets of the import.
+ * @param sheetTitle The title of the first sheet of the import.
+ * @param partSheetTitles The titles of all sheets of the import.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ * @param dataHandler The data handler to use.
+ */
+function createDashboardSheet(
+  sheetTitle: string,
+  partSheetTitles: string[],
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+  dataHandler = getDataHandler(),
+) {
+  const dashboard = createImportDashboard(
+    partSheetTitles,
+    partSheetTitles.map((partSheetTitle) =>
+      spreadsheetHandler.getSheetValues(partSheetTitle),
+    ),
+    getChildPublishers(userSettings, dataHandler),
+  );
+  const dashboardSheetTitle = `${sheetTitle} (Dashboard)`;
+  spreadsheetHandler.createSheet(dashboardSheetTitle, false);
+  spreadsheetHandler.insertValuesIntoSheet(dashboardSheetTitle, dashboard.rows);
+  dashboard.charts.forEach((chart, i) => {
+    spreadsheetHandler.insertChart(
+      dashboardSheetTitle,
+      chart.type,
+      chart.range,
+      chart.title,
+      1 + i * DASHBOARD_CHART_HEIGHT_ROWS,
+      DASHBOARD_CHART_COLUMN,
+    );
+  });
 }
 
 /**
  * Cancels the sites import process.
  * @param sheetTitle The title of the sheet for the import process.
  * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
  */
 export function cancelSitesImport(
   sheetTitle: string,
   spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+): void {
+  clearImportJob(sheetTitle, userSettings);
+  if (spreadsheetHandler.hasSheet(sheetTitle)) {
+    for (const partSheetTitle of getPartSheetTitles(
+      sheetTitle,
+      spreadsheetHandler,
+    )) {
+      spreadsheetHandler.deleteSheet(partSheetTitle);
+    }
+  }
+}
+
+/**
+ * Ends an import that failed before all sites were loaded, keeping the sites
+ * imported so far. Each sheet of the import gets a note that marks it as
+ * incomplete. Refreshes leave their target sheet unchanged, since sites that
+ * weren't loaded would otherwise be marked as removed.
+ * @param sheetTitle The title of the sheet for the import process.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ */
+export function keepPartialSitesImport(
+  sheetTitle: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+): void {
+  const job = userSettings.importJob;
+  if (job?.sheetTitle !== sheetTitle) {
+    throw new Error('The import is no longer active.');
+  }
+  clearImportJob(sheetTitle, userSettings);
+  // The sites of a refresh stay in their own sheet, which mustn't be merged
+  // into the target sheet when it is refreshed later.
+  const metadata = getImportMetadata(sheetTitle, spreadsheetHandler);
+  if (metadata?.refreshTargetSheet) {
+    spreadsheetHandler.setSheetMetadata(
+      sheetTitle,
+      IMPORT_METADATA_KEY,
+      JSON.stringify({...metadata, refreshTargetSheet: null}),
+    );
+  }
+  const note =
+    `Incomplete import: ${job.importedResults} of about ` +
+    `${job.totalResults} sites were imported before the import failed. ` +
+    `Sites with an ID greater than ${job.lastId} are missing.`;
+  const partSheetTitles = getPartSheetTitles(sheetTitle, spreadsheetHandler);
+  for (const partSheetTitle of partSheetTitles) {
+    spreadsheetHandler.setNote(partSheetTitle, 1, 1, note);
+  }
+  // Activate the first sheet last, so that it is the one that is shown.
+  for (const partSheetTitle of partSheetTitles.reverse()) {
+    spreadsheetHandler.activateSheet(partSheetTitle);
+  }
+}
+
+/**
+ * Reports an import as failed after the import dialog retried a page that
+ * failed with a transient error without success.
+ * @param sheetTitle The title of the sheet for the import process.
+ * @param error The message of the last error.
+ * @param spreadsheetHandler The spreadsheet handler to use.
+ * @param userSettings The user settings to use.
+ * @param notifier The notifier to use.
+ */
+export function reportFailedSitesImport(
+  sheetTitle: string,
+  error: string,
+  spreadsheetHandler = getSpreadsheetHandler(),
+  userSettings = getUserSettings(),
+  notifier = getNotifier(),
 ): void {
-  spreadsheetHandler.deleteSheet(sheetTitle);
+  const job = userSettings.importJob;
+  if (job?.sheetTitle !== sheetTitle) {
+    throw new Error('The import is no longer active.');
+  }
+  notifyImport('IMPORT_FAILED', job, sheetTitle, spreadsheetHandler, notifier, {
+    error,
+  });
 }
 
 /**
  * A map of functions that can be called from the client.
  */
 let callableFunctions: {[functionName: string]: (...args: any[]) => any} = {
-  'getSites': getSites,
+  'importSitesPage': importSitesPage,
   'finishSitesImport': finishSitesImport,
   'cancelSitesImport': cancelSitesImport,
+  'keepPartialSitesImport': keepPartialSitesImport,
+  'reportFailedSitesImport': reportFailedSitesImport,
+  'performSiteActionForRows': performSiteActionForRows,
+  'createSitesForRows': createSitesForRows,
+  'compareImports': compareImports,
+  'compareSnapshots': compareSnapshots,
+  'importChildPublishersPage': importChildPublishersPage,
+  'finishChildPublishersImport': finishChildPublishersImport,
+  'keepPartialChildPublishersImport': keepPartialChildPublishersImport,
+  'saveSiteColumns': saveSiteColumns,
+  'previewSiteQuery': previewSiteQuery,
+  'importSitesByQuery': importSitesByQuery,
+  'saveSavedQuery': saveSavedQuery,
+  'deleteSavedQuery': deleteSavedQuery,
 };
 
 /**
@@ -18,25 +18,84 @@
 import {
   callFunction,
   cancelSitesImport,
+  continueScheduledImport,
+  compareImports,
+  compareSnapshots,
   createMenu,
+  deleteSavedQuery,
+  createSitesForRows,
   finishSitesImport,
-  getSites,
+  finishChildPublishersImport,
+  importChildPublishersPage,
+  keepPartialChildPublishersImport,
+  importSitesPage,
+  keepPartialSitesImport,
+  reportFailedSitesImport,
+  onAddChildNeedsAttentionAlertSelected,
+  onAddReasonTypeAlertSelected,
+  onAddSiteDisapprovedAlertSelected,
+  onChooseSiteColumnsSelected,
+  onCompareImportsSelected,
+  onCreateSitesSelected,
   onImportAllSitesSelected,
+  onImportChildAccountHealthSelected,
+  onImportChildPublishersSelected,
   onImportChildSitesSelected,
+  onImportDisapprovalReasonsSelected,
   onImportFirstPartySitesSelected,
+  onImportSitesByApprovalStatusSelected,
   onImportSitesByChildNetworkCodeSelected,
+  onImportSitesByChildNetworkCodesSelected,
   onImportSitesByCustomQuerySelected,
+  onManageSavedQueriesSelected,
+  onSavedQuerySelected,
+  importSitesByQuery,
+  previewSiteQuery,
+  onDeactivateSitesSelected,
+  onRefreshActiveSheetSelected,
+  onRefreshChildPublisherCacheSelected,
+  onRemoveAlertsSelected,
+  onAddWebhookSelected,
+  onShowWebhooksSelected,
+  onRemoveWebhooksSelected,
+  onResumeImportSelected,
+  onRemoveScheduledImportSelected,
+  onScheduleDailyImportSelected,
+  onScheduleWeeklyImportSelected,
+  onShowAlertsSelected,
+  onShowTrendsSelected,
+  onSubmitSitesForApprovalSelected,
+  onToggleChildTrendsSelected,
+  onToggleImportDashboardSelected,
+  performSiteActionForRows,
   registerMenuFunctions,
+  runScheduledImport,
+  saveSavedQuery,
+  saveSiteColumns,
   showApiVersionPrompt,
   showNetworkCodePrompt,
   SiteImportOutputFormat,
   TEST_ONLY,
 } from './app';
-import {DataHandler} from './data_handler';
+import {DataHandler, NoSitesFoundError} from './data_handler';
+import {DocumentSettings} from './document_settings';
+import {IMPORT_HISTORY_HEADERS} from './import_history';
+import {MailHandler} from './mail_handler';
+import {MAX_SAVED_QUERIES, SavedQuery} from './saved_queries';
 import {SpreadsheetHandler} from './spreadsheet_handler';
-import {AdManagerDateTime} from './typings/ad_manager_api';
+import {createSiteQuery} from './site_query';
+import {describeStatement} from './statement_builder';
+import {
+  AdManagerDateTime,
+  Company,
+  Site,
+  StatementResult,
+} from './typings/ad_manager_api';
+import {isTransientError} from './transient_error';
+import {TriggerHandler} from './trigger_handler';
 import {UserInterfaceHandler} from './user_interface_handler';
 import {UserSettings} from './user_settings';
+import {Notifier} from './webhook_notifier';
 
 const {setCallableFunctions} = TEST_ONLY;
 
@@ -45,23 +104,59 @@ describe('app', () => {
   let mockUserSettings: jasmine.SpyObj<UserSettings>;
   let mockDataHandler: jasmine.SpyObj<DataHandler>;
   let mockSpreadsheetHandler: jasmine.SpyObj<SpreadsheetHandler>;
+  let mockTriggerHandler: jasmine.SpyObj<TriggerHandler>;
+  let mockLock: jasmine.SpyObj<GoogleAppsScript.Lock.Lock>;
+  let mockMailHandler: jasmine.SpyObj<MailHandler>;
+  let mockDocumentSettings: jasmine.SpyObj<DocumentSettings>;
+  let mockNotifier: jasmine.SpyObj<Notifier>;
+
+  const importJob = {
+    query: 'WHERE childNetworkCode = :childNetworkCode',
+    values: [
+      {
+        key: 'childNetworkCode',
+        value: {'xsi:type': 'TextValue' as const, value: ''},
+      },
+    ],
+    outputFormat: SiteImportOutputFormat.CHILD,
+    sheetTitle: 'All Sites',
+    batchSize: 100,
+    totalResults: 250,
+    lastId: 100,
+    importedResults: 100,
+  };
 
   beforeEach(() => {
     mockUserInterfaceHandler = jasmine.createSpyObj('UserInterfaceHandler', [
       'createMenu',
       'showYesNoDialog',
       'showImportSitesDialog',
+      'showImportDialog',
+      'showBatchOperationDialog',
+      'showCompareImportsDialog',
+      'showSiteColumnsDialog',
+      'showQueryBuilderDialog',
+      'showSavedQueriesDialog',
       'showInputPrompt',
       'showAlert',
     ]);
     mockUserSettings = jasmine.createSpyObj('UserSettings', [
       'networkCode',
       'adManagerApiVersion',
+      'getChildSiteCounts',
+      'setChildSiteCounts',
     ]);
     mockDataHandler = jasmine.createSpyObj('DataHandler', [
       'fetchChildPublishers',
-      'getStatementsAndTotalResultsForSitesStatement',
+      'getTotalResultsForSitesStatement',
+      'getSiteCount',
+      'getSitesAfterId',
       'getSites',
+      'getChildPublisherCount',
+      'getChildPublisherCompanies',
+      'performSiteAction',
+      'findSitesByUrl',
+      'createSites',
     ]);
     mockSpreadsheetHandler = jasmine.createSpyObj('SpreadsheetHandler', [
       'createSheet',
@@ -69,7 +164,38 @@ describe('app', () => {
       'renameSheet',
       'activateSheet',
       'deleteSheet',
+      'hasSheet',
+      'clearSheet',
+      'showSheet',
+      'getSheetValues',
+      'getRangeValues',
+      'getSheetNames',
+      'getActiveSheetName',
+      'getSelectedRowNumbers',
+      'setSheetMetadata',
+      'getSheetMetadata',
+      'markRemovedRows',
+      'showToast',
+      'setNote',
+      'setColumnValues',
+      'insertChart',
+      'copySheet',
+      'getSheetUrl',
     ]);
+    mockTriggerHandler = jasmine.createSpyObj('TriggerHandler', [
+      'scheduleDaily',
+      'scheduleWeekly',
+      'scheduleAfter',
+      'deleteTriggers',
+    ]);
+    mockLock = jasmine.createSpyObj('Lock', ['waitLock', 'releaseLock']);
+    mockMailHandler = jasmine.createSpyObj('MailHandler', ['sendEmail']);
+    mockDocumentSettings = jasmine.createSpyObj('DocumentSettings', [
+      'webhookUrls',
+      'savedQueries',
+    ]);
+    mockDocumentSettings.savedQueries = [];
+    mockNotifier = jasmine.createSpyObj('Notifier', ['notify']);
   });
 
   describe('createMenu', () => {
@@ -81,16 +207,65 @@ describe('app', () => {
           'All': 'onImportAllSitesSelected',
           'First Party': 'onImportFirstPartySitesSelected',
           'Children': 'onImportChildSitesSelected',
+          'Children with Account Health': 'onImportChildAccountHealthSelected',
+          'Disapproval Reasons': 'onImportDisapprovalReasonsSelected',
           'By Child Network Code': 'onImportSitesByChildNetworkCodeSelected',
+          'By Child Network Codes': 'onImportSitesByChildNetworkCodesSelected',
+          'By Approval Status': 'onImportSitesByApprovalStatusSelected',
           'By Custom Query': 'onImportSitesByCustomQuerySelected',
+          'Refresh Active Sheet': 'onRefreshActiveSheetSelected',
+          'Resume Interrupted Import': 'onResumeImportSelected',
+        },
+        'Saved Queries': {
+          'Manage Saved Queries': 'onManageSavedQueriesSelected',
+        },
+        'Import Child Publishers': 'onImportChildPublishersSelected',
+        'Site Actions': {
+          'Submit Selected Sites for Approval':
+            'onSubmitSitesForApprovalSelected',
+          'Deactivate Selected Sites': 'onDeactivateSitesSelected',
+          'Create Sites from Active Sheet': 'onCreateSitesSelected',
+        },
+        'Reports': {
+          'Compare Imports': 'onCompareImportsSelected',
+          'Trends': 'onShowTrendsSelected',
         },
         'Settings': {
           'Network Code (123456789)': 'showNetworkCodePrompt',
           'Ad Manager API Version (v202405)': 'showApiVersionPrompt',
+          'Scheduled Import (Off)': {
+            'Schedule Daily Import': 'onScheduleDailyImportSelected',
+            'Schedule Weekly Import': 'onScheduleWeeklyImportSelected',
+            'Remove Scheduled Import': 'onRemoveScheduledImportSelected',
+          },
+          'Site Columns': 'onChooseSiteColumnsSelected',
+          'Refresh Child Publisher Cache':
+            'onRefreshChildPublisherCacheSelected',
+          'Import Dashboard (Off)': 'onToggleImportDashboardSelected',
+          'Child Publisher Trends (Off)': 'onToggleChildTrendsSelected',
+          'Alerts (0)': {
+            'Alert When Sites Are Disapproved':
+              'onAddSiteDisapprovedAlertSelected',
+            'Alert When a Child Needs Attention':
+              'onAddChildNeedsAttentionAlertSelected',
+            'Alert on New Disapproval Reason Type':
+              'onAddReasonTypeAlertSelected',
+            'Show Alerts': 'onShowAlertsSelected',
+            'Remove All Alerts': 'onRemoveAlertsSelected',
+          },
+          'Webhooks': {
+            'Add Webhook': 'onAddWebhookSelected',
+            'Show Webhooks': 'onShowWebhooksSelected',
+            'Remove All Webhooks': 'onRemoveWebhooksSelected',
+          },
         },
       };
 
-      createMenu(mockUserInterfaceHandler, mockUserSettings);
+      createMenu(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
 
       expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledOnceWith(
         'GAM Sites Toolkit',
@@ -107,12 +282,52 @@ describe('app', () => {
         'onImportAllSitesSelected': onImportAllSitesSelected,
         'onImportFirstPartySitesSelected': onImportFirstPartySitesSelected,
         'onImportChildSitesSelected': onImportChildSitesSelected,
+        'onImportChildAccountHealthSelected':
+          onImportChildAccountHealthSelected,
+        'onImportDisapprovalReasonsSelected':
+          onImportDisapprovalReasonsSelected,
         'onImportSitesByChildNetworkCodeSelected':
           onImportSitesByChildNetworkCodeSelected,
+        'onImportSitesByChildNetworkCodesSelected':
+          onImportSitesByChildNetworkCodesSelected,
+        'onImportSitesByApprovalStatusSelected':
+          onImportSitesByApprovalStatusSelected,
         'onImportSitesByCustomQuerySelected':
           onImportSitesByCustomQuerySelected,
+        'onRefreshActiveSheetSelected': onRefreshActiveSheetSelected,
+        'onResumeImportSelected': onResumeImportSelected,
+        'onImportChildPublishersSelected': onImportChildPublishersSelected,
+        'onSubmitSitesForApprovalSelected': onSubmitSitesForApprovalSelected,
+        'onDeactivateSitesSelected': onDeactivateSitesSelected,
+        'onCreateSitesSelected': onCreateSitesSelected,
+        'onCompareImportsSelected': onCompareImportsSelected,
+        'onShowTrendsSelected': onShowTrendsSelected,
         'showApiVersionPrompt': showApiVersionPrompt,
         'showNetworkCodePrompt': showNetworkCodePrompt,
+        'onScheduleDailyImportSelected': onScheduleDailyImportSelected,
+        'onScheduleWeeklyImportSelected': onScheduleWeeklyImportSelected,
+        'onRemoveScheduledImportSelected': onRemoveScheduledImportSelected,
+        'onChooseSiteColumnsSelected': onChooseSiteColumnsSelected,
+        'onRefreshChildPublisherCacheSelected':
+          onRefreshChildPublisherCacheSelected,
+        'onToggleImportDashboardSelected': onToggleImportDashboardSelected,
+        'onToggleChildTrendsSelected': onToggleChildTrendsSelected,
+        'onAddSiteDisapprovedAlertSelected': onAddSiteDisapprovedAlertSelected,
+        'onAddChildNeedsAttentionAlertSelected':
+          onAddChildNeedsAttentionAlertSelected,
+        'onAddReasonTypeAlertSelected': onAddReasonTypeAlertSelected,
+        'onShowAlertsSelected': onShowAlertsSelected,
+        'onRemoveAlertsSelected': onRemoveAlertsSelected,
+        'onAddWebhookSelected': onAddWebhookSelected,
+        'onShowWebhooksSelected': onShowWebhooksSelected,
+        'onRemoveWebhooksSelected': onRemoveWebhooksSelected,
+        'onManageSavedQueriesSelected': onManageSavedQueriesSelected,
+        ...Object.fromEntries(
+          Array.from({length: MAX_SAVED_QUERIES}, (_, i) => [
+            `onSavedQuerySelected${i}`,
+            jasmine.any(Function),
+          ]),
+        ),
       });
     });
   });
@@ -120,12 +335,7 @@ describe('app', () => {
   describe('site import workflows', () => {
     beforeEach(() => {
       mockUserSettings.networkCode = '123456789';
-      mockDataHandler.getStatementsAndTotalResultsForSitesStatement.and.returnValue(
-        {
-          statements: [{query: 'query'}],
-          totalResults: 100,
-        },
-      );
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
       mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
       // force valid input
       mockUserInterfaceHandler.showInputPrompt.and.callFake(
@@ -142,9 +352,9 @@ describe('app', () => {
         name: 'onImportAllSitesSelected',
         functionToTest: onImportAllSitesSelected,
         expectedSheetTitleWithoutDate: '[123456789] All Sites (',
+        expectedQuery: '',
         expectedSiteImportOutputFormat: SiteImportOutputFormat.COMBINED,
         expectedDialogTitle: 'Import All Sites',
-        expectedStatements: [{query: 'query'}],
         expectedTotalResults: 100,
         expectedDialogDetails: 'Total results: 100',
       },
@@ -152,9 +362,9 @@ describe('app', () => {
         name: 'onImportFirstPartySitesSelected',
         functionToTest: onImportFirstPartySitesSelected,
         expectedSheetTitleWithoutDate: '[123456789] First Party Sites (',
+        expectedQuery: "WHERE childNetworkCode = ''",
         expectedSiteImportOutputFormat: SiteImportOutputFormat.FIRST_PARTY,
         expectedDialogTitle: 'Import First Party Sites',
-        expectedStatements: [{query: 'query'}],
         expectedTotalResults: 100,
         expectedDialogDetails: 'Total results: 100',
       },
@@ -162,9 +372,20 @@ describe('app', () => {
         name: 'onImportChildSitesSelected',
         functionToTest: onImportChildSitesSelected,
         expectedSheetTitleWithoutDate: '[123456789] Child Sites (',
+        expectedQuery: "WHERE childNetworkCode != ''",
         expectedSiteImportOutputFormat: SiteImportOutputFormat.CHILD,
         expectedDialogTitle: 'Import Child Sites',
-        expectedStatements: [{query: 'query'}],
+        expectedTotalResults: 100,
+        expectedDialogDetails: 'Total results: 100',
+      },
+      {
+        name: 'onImportChildAccountHealthSelected',
+        functionToTest: onImportChildAccountHealthSelected,
+        expectedSheetTitleWithoutDate: '[123456789] Child Account Health (',
+        expectedQuery: "WHERE childNetworkCode != ''",
+        expectedSiteImportOutputFormat:
+          SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH,
+        expectedDialogTitle: 'Import Child Sites with Account Health',
         expectedTotalResults: 100,
         expectedDialogDetails: 'Total results: 100',
       },
@@ -173,19 +394,33 @@ describe('app', () => {
         functionToTest: onImportSitesByChildNetworkCodeSelected,
         expectedSheetTitleWithoutDate:
           '[123456789] Child Sites (inputDialogResult) (',
+        expectedQuery: "WHERE childNetworkCode = 'inputDialogResult'",
         expectedSiteImportOutputFormat: SiteImportOutputFormat.CHILD,
         expectedDialogTitle: 'Import Sites',
-        expectedStatements: [{query: 'query'}],
         expectedTotalResults: 100,
         expectedDialogDetails: 'Total results: 100',
       },
       {
-        name: 'onImportSitesByCustomQuerySelected',
-        functionToTest: onImportSitesByCustomQuerySelected,
-        expectedSheetTitleWithoutDate: '[123456789] inputDialogResult (',
+        name: 'importSitesByQuery',
+        functionToTest: (
+          ...args: Parameters<typeof onImportChildSitesSelected>
+        ) => {
+          importSitesByQuery(
+            {
+              approvalStatuses: ['DISAPPROVED'],
+              childNetworkCodes: [],
+              urlContains: '',
+              approvalStatusDateFrom: '',
+              approvalStatusDateTo: '',
+            },
+            ...args,
+          );
+        },
+        expectedSheetTitleWithoutDate:
+          "[123456789] WHERE approvalStatus IN ('DISAPPROVED') (",
+        expectedQuery: "WHERE approvalStatus IN ('DISAPPROVED')",
         expectedSiteImportOutputFormat: SiteImportOutputFormat.COMBINED,
         expectedDialogTitle: 'Import Sites by Custom Query',
-        expectedStatements: [{query: 'query'}],
         expectedTotalResults: 100,
         expectedDialogDetails: 'Total results: 100',
       },
@@ -206,8 +441,7 @@ describe('app', () => {
           testCase.expectedDialogTitle,
           // don't care about the exact date/time string
           jasmine.stringContaining(testCase.expectedSheetTitleWithoutDate),
-          testCase.expectedSiteImportOutputFormat,
-          testCase.expectedStatements,
+          0,
           testCase.expectedTotalResults,
           testCase.expectedDialogDetails,
         );
@@ -216,7 +450,7 @@ describe('app', () => {
 
     showImportSitesDialogTestCases.forEach((testCase) => {
       it(`${testCase.name} throws an error when there are no results`, () => {
-        mockDataHandler.getStatementsAndTotalResultsForSitesStatement.and.throwError(
+        mockDataHandler.getTotalResultsForSitesStatement.and.throwError(
           'No sites found.',
         );
         expect(() => {
@@ -241,22 +475,180 @@ describe('app', () => {
         expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
           jasmine.any(String),
         );
-        const expectedHeaders =
+        let expectedHeaders;
+        if (
           testCase.expectedSiteImportOutputFormat ===
           SiteImportOutputFormat.FIRST_PARTY
-            ? ['Site URL', 'Approval Status', 'Status Details']
-            : [
-                'Site URL',
-                'Child Publisher',
-                'Approval Status',
-                'Status Details',
-              ];
+        ) {
+          expectedHeaders = [
+            'Site URL',
+            'Approval Status',
+            'Status Details',
+            'Site ID',
+          ];
+        } else if (
+          testCase.expectedSiteImportOutputFormat ===
+          SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH
+        ) {
+          expectedHeaders = [
+            'Site URL',
+            'Child Publisher',
+            'Approval Status',
+            'Status Details',
+            'Account Status',
+            'Delegation Type',
+            'Seller ID',
+            'Onboarding Tasks',
+            'Site ID',
+          ];
+        } else {
+          expectedHeaders = [
+            'Site URL',
+            'Child Publisher',
+            'Approval Status',
+            'Status Details',
+            'Site ID',
+          ];
+        }
         expect(
           mockSpreadsheetHandler.insertValuesIntoSheet,
         ).toHaveBeenCalledOnceWith(jasmine.any(String), [expectedHeaders]);
       });
     });
 
+    showImportSitesDialogTestCases.forEach((testCase) => {
+      it(`${testCase.name} binds the values of the query`, () => {
+        testCase.functionToTest(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockUserInterfaceHandler,
+        );
+        const [statement] =
+          mockDataHandler.getTotalResultsForSitesStatement.calls.argsFor(0);
+        expect(statement.query).not.toContain("'");
+        expect(describeStatement(statement)).toBe(testCase.expectedQuery);
+        expect(mockUserSettings.importJob).toEqual(
+          jasmine.objectContaining(statement),
+        );
+      });
+    });
+
+    showImportSitesDialogTestCases.forEach((testCase) => {
+      it(`${testCase.name} stores the import metadata`, () => {
+        testCase.functionToTest(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockUserInterfaceHandler,
+        );
+        expect(
+          mockSpreadsheetHandler.setSheetMetadata,
+        ).toHaveBeenCalledOnceWith(
+          jasmine.any(String),
+          'gam_sites_toolkit_import',
+          jasmine.stringContaining(
+            `"outputFormat":"${testCase.expectedSiteImportOutputFormat}"`,
+          ),
+        );
+      });
+    });
+
+    // The account health import always uses its own columns.
+    showImportSitesDialogTestCases
+      .filter(({name}) => name !== 'onImportChildAccountHealthSelected')
+      .forEach((testCase) => {
+        it(`${testCase.name} uses the columns chosen by the user`, () => {
+          mockUserSettings.siteColumns = [
+            'siteId',
+            'url',
+            'approvalStatusDateTime',
+          ];
+          testCase.functionToTest(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockUserInterfaceHandler,
+          );
+          expect(
+            mockSpreadsheetHandler.insertValuesIntoSheet,
+          ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+            ['Site ID', 'Site URL', 'Approval Status Updated'],
+          ]);
+          expect(mockUserSettings.importJob!.columns).toEqual([
+            'siteId',
+            'url',
+            'approvalStatusDateTime',
+          ]);
+        });
+      });
+
+    showImportSitesDialogTestCases.forEach((testCase) => {
+      it(`${testCase.name} stores the import job`, () => {
+        testCase.functionToTest(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockUserInterfaceHandler,
+        );
+        expect(mockUserSettings.importJob).toEqual({
+          query: jasmine.any(String),
+          values: jasmine.any(Array),
+          outputFormat: testCase.expectedSiteImportOutputFormat,
+          sheetTitle: jasmine.stringContaining(
+            testCase.expectedSheetTitleWithoutDate,
+          ),
+          columns: jasmine.arrayContaining(['url', 'siteId']),
+          batchSize: 500,
+          totalResults: testCase.expectedTotalResults,
+          lastId: 0,
+          importedResults: 0,
+        });
+      });
+    });
+
+    showImportSitesDialogTestCases.forEach((testCase) => {
+      it(`${testCase.name} discards an interrupted import`, () => {
+        mockUserSettings.importJob = {...importJob};
+        mockSpreadsheetHandler.hasSheet.and.callFake(
+          (name) => name === 'All Sites',
+        );
+        testCase.functionToTest(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockUserInterfaceHandler,
+        );
+        expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledWith(
+          testCase.expectedDialogTitle,
+          jasmine.stringContaining(
+            'The interrupted import into "All Sites" will be discarded.',
+          ),
+        );
+        expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledOnceWith(
+          'All Sites',
+        );
+      });
+    });
+
+    showImportSitesDialogTestCases.forEach((testCase) => {
+      it(`${testCase.name} explains how an import over the limit is split`, () => {
+        mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(
+          250_000,
+        );
+        testCase.functionToTest(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockUserInterfaceHandler,
+        );
+        expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledWith(
+          testCase.expectedDialogTitle,
+          jasmine.stringContaining('they will be split into 3 sheets'),
+        );
+      });
+    });
+
     showImportSitesDialogTestCases.forEach((testCase) => {
       it(`${testCase.name} doesn't show the import sites dialog if the user cancels`, () => {
         mockUserInterfaceHandler.showYesNoDialog.and.returnValue(false);
@@ -273,9 +665,239 @@ describe('app', () => {
     });
   });
 
+  describe('onResumeImportSelected', () => {
+    it('shows the import dialog for the pending batches', () => {
+      mockUserSettings.importJob = {...importJob};
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      onResumeImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showImportSitesDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Resume Import',
+        'All Sites',
+        100,
+        250,
+        'Total results: 250',
+      );
+    });
+
+    it('shows an alert if there is no interrupted import', () => {
+      mockUserSettings.importJob = null;
+      onResumeImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'There is no interrupted import to resume.',
+      );
+      expect(
+        mockUserInterfaceHandler.showImportSitesDialog,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('discards the import if its sheet was deleted', () => {
+      mockUserSettings.importJob = {...importJob};
+      mockSpreadsheetHandler.hasSheet.and.returnValue(false);
+      onResumeImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserSettings.importJob).toBeNull();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledTimes(1);
+      expect(
+        mockUserInterfaceHandler.showImportSitesDialog,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('resumes an interrupted child publisher import', () => {
+      mockUserSettings.importJob = null;
+      mockUserSettings.childPublisherImportJob = {
+        sheetTitle: 'Child Publishers',
+        totalResults: 1200,
+        lastId: 500,
+        importedResults: 500,
+      };
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      onResumeImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showImportDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Resume Import',
+        'Child Publishers',
+        jasmine.objectContaining({importPage: 'importChildPublishersPage'}),
+        500,
+        1200,
+        'Total results: 1200',
+      );
+    });
+  });
+
+  describe('onRefreshActiveSheetSelected', () => {
+    beforeEach(() => {
+      mockSpreadsheetHandler.getActiveSheetName.and.returnValue('sheetTitle');
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+    });
+
+    it('re-imports the sites using the stored query and format', () => {
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: importJob.query,
+          values: importJob.values,
+          outputFormat: SiteImportOutputFormat.FIRST_PARTY,
+          refreshTargetSheet: null,
+        }),
+      );
+      onRefreshActiveSheetSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).toHaveBeenCalledOnceWith({
+        query: importJob.query,
+        values: importJob.values,
+      });
+      expect(mockSpreadsheetHandler.setSheetMetadata).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('sheetTitle (Refresh '),
+        'gam_sites_toolkit_import',
+        JSON.stringify({
+          query: importJob.query,
+          values: importJob.values,
+          outputFormat: SiteImportOutputFormat.FIRST_PARTY,
+          refreshTargetSheet: 'sheetTitle',
+          columns: ['url', 'approvalStatus', 'statusDetails', 'siteId'],
+        }),
+      );
+      expect(
+        mockUserInterfaceHandler.showImportSitesDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Refresh Sheet',
+        jasmine.stringContaining('sheetTitle (Refresh '),
+        0,
+        100,
+        'Total results: 100',
+      );
+    });
+
+    it('shortens the title of the refreshed sheet if needed', () => {
+      const sheetTitle = 'x'.repeat(100);
+      mockSpreadsheetHandler.getActiveSheetName.and.returnValue(sheetTitle);
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: importJob.query,
+          outputFormat: SiteImportOutputFormat.FIRST_PARTY,
+          refreshTargetSheet: null,
+        }),
+      );
+      onRefreshActiveSheetSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      const [refreshSheetTitle] =
+        mockSpreadsheetHandler.createSheet.calls.mostRecent().args;
+      expect(refreshSheetTitle.length).toBe(100);
+      expect(refreshSheetTitle).toMatch(/^x+ \(Refresh .*\)$/);
+    });
+
+    it('keeps the columns of the sheet', () => {
+      mockUserSettings.siteColumns = ['siteId', 'url'];
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: '',
+          outputFormat: SiteImportOutputFormat.COMBINED,
+          refreshTargetSheet: null,
+          columns: ['url', 'rawApprovalStatus', 'siteId'],
+        }),
+      );
+      onRefreshActiveSheetSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+        ['Site URL', 'Approval Status (API)', 'Site ID'],
+      ]);
+    });
+
+    it("doesn't refresh a sheet with one row per disapproval reason", () => {
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: '',
+          outputFormat: SiteImportOutputFormat.REASONS,
+          refreshTargetSheet: null,
+        }),
+      );
+      onRefreshActiveSheetSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledTimes(1);
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("doesn't refresh a sheet when the import would be split", () => {
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: '',
+          outputFormat: SiteImportOutputFormat.COMBINED,
+          refreshTargetSheet: null,
+        }),
+      );
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100_001);
+      onRefreshActiveSheetSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledTimes(1);
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+    });
+
+    it('shows an alert if the sheet was not created by an import', () => {
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(null);
+      onRefreshActiveSheetSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledTimes(1);
+      expect(
+        mockUserInterfaceHandler.showImportSitesDialog,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
   describe('showNetworkCodePrompt', () => {
     it('shows an input prompt for the network code', () => {
-      showNetworkCodePrompt(mockUserInterfaceHandler, mockUserSettings);
+      showNetworkCodePrompt(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
       expect(mockUserInterfaceHandler.showInputPrompt).toHaveBeenCalledOnceWith(
         'Network Code',
         /^[0-9]+$/,
@@ -285,7 +907,11 @@ describe('app', () => {
     });
 
     it('updates the user settings when a valid network code is entered', () => {
-      showNetworkCodePrompt(mockUserInterfaceHandler, mockUserSettings);
+      showNetworkCodePrompt(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
       const successCallback =
         mockUserInterfaceHandler.showInputPrompt.calls.mostRecent().args[2];
 
@@ -300,7 +926,11 @@ describe('app', () => {
     });
 
     it('prompts again when an invalid network code is entered', () => {
-      showNetworkCodePrompt(mockUserInterfaceHandler, mockUserSettings);
+      showNetworkCodePrompt(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
       const failureCallback =
         mockUserInterfaceHandler.showInputPrompt.calls.mostRecent().args[3];
 
@@ -319,7 +949,11 @@ describe('app', () => {
 
   describe('showApiVersionPrompt', () => {
     it('shows an input prompt for the API version', () => {
-      showApiVersionPrompt(mockUserInterfaceHandler, mockUserSettings);
+      showApiVersionPrompt(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
       expect(mockUserInterfaceHandler.showInputPrompt).toHaveBeenCalledOnceWith(
         'Ad Manager API Version',
         /^v\d{6}$/,
@@ -329,7 +963,11 @@ describe('app', () => {
     });
 
     it('updates the user settings when a valid API version is entered', () => {
-      showApiVersionPrompt(mockUserInterfaceHandler, mockUserSettings);
+      showApiVersionPrompt(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
       const successCallback =
         mockUserInterfaceHandler.showInputPrompt.calls.mostRecent().args[2];
 
@@ -344,7 +982,11 @@ describe('app', () => {
     });
 
     it('prompts again when an invalid API version is entered', () => {
-      showApiVersionPrompt(mockUserInterfaceHandler, mockUserSettings);
+      showApiVersionPrompt(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
       const failureCallback =
         mockUserInterfaceHandler.showInputPrompt.calls.mostRecent().args[3];
 
@@ -361,98 +1003,3727 @@ describe('app', () => {
     });
   });
 
-  describe('getSites', () => {
+  describe('scheduled imports', () => {
+    /**
+     * Returns a page of sites with consecutive IDs.
+     * @param lastId The ID before the first site of the page.
+     * @param numSites The number of sites in the page.
+     */
+    function createSitesPage(lastId: number, numSites: number) {
+      const results: Site[] = Array.from({length: numSites}, (_, i) => ({
+        id: lastId + i + 1,
+        url: `url${lastId + i + 1}`,
+        childNetworkCode: '',
+        approvalStatus: 'APPROVED',
+        code: '',
+        approvalStatusDateTime: {} as unknown as AdManagerDateTime,
+        disapprovalReasons: [],
+      }));
+      return {results, startIndex: 0, totalResultSetSize: numSites};
+    }
+
+    const scheduledImport = {
+      frequency: 'DAILY' as const,
+      query: "WHERE childNetworkCode = ''",
+      outputFormat: SiteImportOutputFormat.COMBINED,
+      sheetTitle: '[123456789] Scheduled Import',
+    };
+
+    const savedQuery: SavedQuery = {
+      name: 'Disapproved',
+      filters: {
+        approvalStatuses: ['DISAPPROVED'],
+        childNetworkCodes: [],
+        urlContains: '',
+        approvalStatusDateFrom: '',
+        approvalStatusDateTo: '',
+      },
+      outputFormat: SiteImportOutputFormat.CHILD,
+      columns: ['siteId', 'url'],
+    };
+
+    let promptResponses: string[];
+
     beforeEach(() => {
       mockUserSettings.networkCode = '123456789';
-      mockUserSettings.childPublishers = {
-        '1234': {
-          id: '1',
-          name: 'Child Publisher',
-          childNetworkCode: '1234',
+      mockDocumentSettings.savedQueries = [savedQuery];
+      // The saved query to import and the sheet to import into.
+      promptResponses = ['disapproved', ''];
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput, onInvalidInput) => {
+          const response = promptResponses.shift()!;
+          if (validPattern!.test(response)) {
+            onValidInput!(response);
+          } else {
+            onInvalidInput!(response);
+          }
         },
-      };
-      mockDataHandler.getSites.and.returnValue({
-        results: [
-          {
-            id: 1,
-            url: 'url',
-            childNetworkCode: '1234',
-            approvalStatus: 'APPROVED',
-            code: '',
-            approvalStatusDateTime: {} as unknown as AdManagerDateTime,
-            disapprovalReasons: [],
-          },
-          {
-            id: 2,
-            url: 'url2',
-            childNetworkCode: '5678',
-            approvalStatus: 'DISAPPROVED',
-            code: '',
-            approvalStatusDateTime: {} as unknown as AdManagerDateTime,
-            disapprovalReasons: [],
-          },
-        ],
-        startIndex: 0,
-        totalResultSetSize: 2,
-      });
-    });
-
-    it('returns the number of sites in the batch', () => {
-      expect(
-        getSites(
-          'sheetTitle',
-          {'query': 'q'},
-          SiteImportOutputFormat.COMBINED,
-          mockUserSettings,
-          mockDataHandler,
-          mockSpreadsheetHandler,
-        ),
-      ).toBe(2);
+      );
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(501);
+      // 501 sites with the IDs 1 to 501
+      mockDataHandler.getSitesAfterId.and.callFake((statement, lastId) =>
+        createSitesPage(lastId, lastId === 0 ? 500 : 1),
+      );
+      mockDataHandler.fetchChildPublishers.and.returnValue({});
     });
 
-    it('writes the sites to the sheet', () => {
-      getSites(
-        'sheetTitle',
-        {'query': 'q'},
-        SiteImportOutputFormat.COMBINED,
+    it('schedules a daily import of a saved query', () => {
+      onScheduleDailyImportSelected(
         mockUserSettings,
-        mockDataHandler,
         mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
       );
-      expect(
-        mockSpreadsheetHandler.insertValuesIntoSheet,
-      ).toHaveBeenCalledOnceWith(
-        'sheetTitle',
-        [
-          ['url', 'Child Publisher (1234)', 'Ready', ''],
-          [
-            'url2',
-            '[Child Publisher Name Not Found] (5678)',
-            'Needs attention',
-            '',
-          ],
-        ],
-        2,
+      expect(mockTriggerHandler.deleteTriggers).toHaveBeenCalledOnceWith(
+        'runScheduledImport',
       );
+      expect(mockTriggerHandler.scheduleDaily).toHaveBeenCalledOnceWith(
+        'runScheduledImport',
+        jasmine.any(Number),
+      );
+      expect(mockUserSettings.scheduledImport).toEqual({
+        frequency: 'DAILY',
+        ...createSiteQuery(savedQuery.filters),
+        outputFormat: SiteImportOutputFormat.CHILD,
+        columns: ['siteId', 'url'],
+        sheetTitle: '[123456789] Scheduled Import',
+      });
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
     });
-  });
+
+    it('schedules a weekly import of all sites', () => {
+      promptResponses = ['', ''];
+      onScheduleWeeklyImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
+      );
+      expect(mockTriggerHandler.scheduleWeekly).toHaveBeenCalledOnceWith(
+        'runScheduledImport',
+        jasmine.any(Number),
+      );
+      expect(mockUserSettings.scheduledImport).toEqual({
+        frequency: 'WEEKLY',
+        query: '',
+        values: [],
+        outputFormat: SiteImportOutputFormat.COMBINED,
+        columns: null,
+        sheetTitle: '[123456789] Scheduled Import',
+      });
+    });
+
+    it('imports into the sheet chosen by the user', () => {
+      promptResponses = ['Disapproved', 'Disapproved Sites'];
+      onScheduleDailyImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.scheduledImport?.sheetTitle).toBe(
+        'Disapproved Sites',
+      );
+    });
+
+    it('asks before replacing an existing sheet', () => {
+      promptResponses = ['Disapproved', 'Sheet1'];
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(false);
+      onScheduleDailyImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledOnceWith(
+        'Schedule Import',
+        'The sheet "Sheet1" will be replaced by each import. Do you wish to ' +
+          'continue?',
+      );
+      expect(mockTriggerHandler.scheduleDaily).not.toHaveBeenCalled();
+    });
+
+    it("doesn't schedule an unknown saved query", () => {
+      promptResponses = ['Unknown'];
+      onScheduleDailyImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'No saved query named "Unknown". Add it under "Saved Queries" > ' +
+          '"Manage Saved Queries" first.',
+      );
+      expect(mockTriggerHandler.scheduleDaily).not.toHaveBeenCalled();
+    });
+
+    it("doesn't schedule an import into a sheet with an invalid name", () => {
+      promptResponses = ['Disapproved', 'x'.repeat(101)];
+      onScheduleDailyImportSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        `Invalid sheet name: ${'x'.repeat(101)}`,
+      );
+      expect(mockTriggerHandler.scheduleDaily).not.toHaveBeenCalled();
+    });
+
+    it('removes the scheduled import', () => {
+      mockUserSettings.scheduledImport = scheduledImport;
+      onRemoveScheduledImportSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockTriggerHandler,
+        mockDocumentSettings,
+      );
+      expect(mockTriggerHandler.deleteTriggers).toHaveBeenCalledWith(
+        'runScheduledImport',
+      );
+      expect(mockTriggerHandler.deleteTriggers).toHaveBeenCalledWith(
+        'continueScheduledImport',
+      );
+      expect(mockUserSettings.scheduledImport).toBeNull();
+      expect(mockUserSettings.scheduledImportJob).toBeNull();
+    });
+
+    describe('runScheduledImport', () => {
+      beforeEach(() => {
+        mockUserSettings.scheduledImport = scheduledImport;
+      });
+
+      it('imports all sites into the designated sheet', () => {
+        mockSpreadsheetHandler.hasSheet.and.callFake(
+          (name) => name === '[123456789] Scheduled Import',
+        );
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.clearSheet).toHaveBeenCalledOnceWith(
+          '[123456789] Scheduled Import',
+        );
+        expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledWith(
+          {query: "WHERE childNetworkCode = ''", values: []},
+          0,
+          500,
+        );
+        expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledWith(
+          {query: "WHERE childNetworkCode = ''", values: []},
+          500,
+          500,
+        );
+        expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledTimes(2);
+        expect(
+          mockSpreadsheetHandler.insertValuesIntoSheet,
+        ).toHaveBeenCalledWith(
+          '[123456789] Scheduled Import',
+          [['url501', '[First Party]', 'Ready', '', '501']],
+          502,
+        );
+        expect(mockUserSettings.scheduledImportJob).toBeNull();
+        expect(mockTriggerHandler.scheduleAfter).not.toHaveBeenCalled();
+      });
+
+      it('imports a saved query with its values and columns', () => {
+        const statement = createSiteQuery(savedQuery.filters);
+        mockUserSettings.scheduledImport = {
+          ...scheduledImport,
+          ...statement,
+          outputFormat: SiteImportOutputFormat.CHILD,
+          columns: ['siteId', 'url'],
+        };
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledWith(
+          statement,
+          0,
+          500,
+        );
+        expect(
+          mockSpreadsheetHandler.insertValuesIntoSheet,
+        ).toHaveBeenCalledWith(
+          '[123456789] Scheduled Import',
+          [['501', 'url501']],
+          502,
+        );
+      });
+
+      it('adds a snapshot to the import history', () => {
+        mockSpreadsheetHandler.hasSheet.and.callFake(
+          (name) => name === '[123456789] Scheduled Import',
+        );
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+          'Import History',
+        );
+        expect(
+          mockSpreadsheetHandler.insertValuesIntoSheet,
+        ).toHaveBeenCalledWith('Import History', [
+          [
+            jasmine.any(String),
+            '123456789',
+            "WHERE childNetworkCode = ''",
+            '',
+            '501',
+            '501',
+            '0',
+            '0',
+            '0',
+            '0',
+            '0',
+          ],
+        ]);
+      });
+
+      it('notifies that the import finished', () => {
+        mockSpreadsheetHandler.hasSheet.and.callFake(
+          (name) => name === '[123456789] Scheduled Import',
+        );
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+          jasmine.objectContaining({
+            event: 'IMPORT_FINISHED',
+            sheetTitle: '[123456789] Scheduled Import',
+            counts: jasmine.objectContaining({total: 501, APPROVED: 501}),
+          }),
+        );
+      });
+
+      it("doesn't fail the import if the notification fails", () => {
+        mockNotifier.notify.and.throwError('Failed to notify webhooks');
+        expect(() => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+        }).not.toThrow();
+        expect(mockUserSettings.scheduledImportJob).toBeNull();
+      });
+
+      it('notifies that the import failed if the sites cannot be counted', () => {
+        mockDataHandler.getTotalResultsForSitesStatement.and.throwError(
+          'Failed',
+        );
+        expect(() => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+        }).toThrowError('Failed');
+        expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+          jasmine.objectContaining({
+            event: 'IMPORT_FAILED',
+            sheetTitle: '[123456789] Scheduled Import',
+            error: 'Failed',
+          }),
+        );
+      });
+
+      it('notifies that the import failed if the sheet cannot be prepared', () => {
+        mockSpreadsheetHandler.createSheet.and.throwError('Failed');
+        expect(() => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+        }).toThrowError('Failed');
+        expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+          jasmine.objectContaining({
+            event: 'IMPORT_FAILED',
+            sheetTitle: '[123456789] Scheduled Import',
+            error: 'Failed',
+          }),
+        );
+      });
+
+      it('notifies that the import failed if a page fails', () => {
+        mockDataHandler.getSitesAfterId.and.throwError('Failed');
+        expect(() => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+        }).toThrowError('Failed');
+        expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+          jasmine.objectContaining({
+            event: 'IMPORT_FAILED',
+            sheetTitle: '[123456789] Scheduled Import',
+            error: 'Failed',
+          }),
+        );
+      });
+
+      it('notifies that the import failed if it cannot be finished', () => {
+        mockSpreadsheetHandler.insertValuesIntoSheet.and.callFake((name) => {
+          if (name === 'Import History') {
+            throw new Error('Failed');
+          }
+        });
+        expect(() => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+        }).toThrowError('Failed');
+        expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+          jasmine.objectContaining({
+            event: 'IMPORT_FAILED',
+            sheetTitle: '[123456789] Scheduled Import',
+            error: 'Failed',
+          }),
+        );
+      });
+
+      describe('with alerts', () => {
+        const headers = [
+          'Site URL',
+          'Approval Status',
+          'Status Details',
+          'Site ID',
+        ];
+
+        beforeEach(() => {
+          mockUserSettings.alertRules = [{type: 'SITE_DISAPPROVED'}];
+          mockSpreadsheetHandler.hasSheet.and.callFake((name) =>
+            [
+              '[123456789] Scheduled Import',
+              '[123456789] Scheduled Import (Previous)',
+            ].includes(name),
+          );
+          mockSpreadsheetHandler.getSheetValues.and.callFake((name) =>
+            name === '[123456789] Scheduled Import (Previous)'
+              ? [headers, ['url1', 'Ready', '', 1]]
+              : [headers, ['url1', 'Needs attention', 'reason', 1]],
+          );
+        });
+
+        it('keeps a copy of the previous import', () => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+          expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledOnceWith(
+            '[123456789] Scheduled Import (Previous)',
+          );
+          expect(mockSpreadsheetHandler.copySheet).toHaveBeenCalledOnceWith(
+            '[123456789] Scheduled Import',
+            '[123456789] Scheduled Import (Previous)',
+          );
+          expect(mockSpreadsheetHandler.copySheet).toHaveBeenCalledBefore(
+            mockSpreadsheetHandler.clearSheet,
+          );
+        });
+
+        it('adds the columns that the alerts need', () => {
+          mockUserSettings.scheduledImport = {
+            ...mockUserSettings.scheduledImport!,
+            columns: ['siteId', 'url'],
+          };
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+          expect(
+            mockSpreadsheetHandler.insertValuesIntoSheet,
+          ).toHaveBeenCalledWith('[123456789] Scheduled Import', [
+            ['Site ID', 'Site URL', 'Approval Status', 'Status Details'],
+          ]);
+        });
+
+        it('emails a digest of the matched alerts', () => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+          expect(mockMailHandler.sendEmail).toHaveBeenCalledOnceWith(
+            'GAM Sites Toolkit: 1 alert(s) for [123456789] Scheduled Import',
+            jasmine.stringContaining('- url1 (Needs attention)'),
+          );
+        });
+
+        it('notifies the matched alerts', () => {
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+          expect(mockNotifier.notify).toHaveBeenCalledWith(
+            jasmine.objectContaining({
+              event: 'ALERT',
+              alerts: [
+                {description: 'A site moves to "Needs attention"', sites: 1},
+              ],
+            }),
+          );
+        });
+
+        it("doesn't email if no alert matched", () => {
+          mockSpreadsheetHandler.getSheetValues.and.returnValue([
+            headers,
+            ['url1', 'Ready', '', 1],
+          ]);
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+          expect(mockMailHandler.sendEmail).not.toHaveBeenCalled();
+        });
+
+        it("doesn't check alerts without a previous import", () => {
+          mockSpreadsheetHandler.hasSheet.and.returnValue(false);
+          runScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+          expect(mockSpreadsheetHandler.copySheet).not.toHaveBeenCalled();
+          expect(mockMailHandler.sendEmail).not.toHaveBeenCalled();
+        });
+      });
+
+      it('deletes sheets left over from a larger import', () => {
+        mockSpreadsheetHandler.hasSheet.and.callFake((name) =>
+          [
+            '[123456789] Scheduled Import',
+            '[123456789] Scheduled Import (Part 2)',
+          ].includes(name),
+        );
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledOnceWith(
+          '[123456789] Scheduled Import (Part 2)',
+        );
+      });
+
+      it('creates the designated sheet if it does not exist', () => {
+        mockSpreadsheetHandler.hasSheet.and.returnValue(false);
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledWith(
+          '[123456789] Scheduled Import',
+          false,
+        );
+      });
+
+      it('stores the progress and continues later when out of time', () => {
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() - 1,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockDataHandler.getSitesAfterId).not.toHaveBeenCalled();
+        expect(mockUserSettings.scheduledImportJob).toEqual({
+          query: "WHERE childNetworkCode = ''",
+          values: [],
+          outputFormat: SiteImportOutputFormat.COMBINED,
+          columns: [
+            'url',
+            'childPublisher',
+            'approvalStatus',
+            'statusDetails',
+            'siteId',
+          ],
+          sheetTitle: '[123456789] Scheduled Import',
+          batchSize: 500,
+          totalResults: 501,
+          lastId: 0,
+          importedResults: 0,
+        });
+        expect(mockTriggerHandler.scheduleAfter).toHaveBeenCalledOnceWith(
+          'continueScheduledImport',
+          jasmine.any(Number),
+        );
+      });
+
+      it('deletes the trigger if no import is scheduled', () => {
+        mockUserSettings.scheduledImport = null;
+        runScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockTriggerHandler.deleteTriggers).toHaveBeenCalledOnceWith(
+          'runScheduledImport',
+        );
+        expect(mockDataHandler.getSitesAfterId).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('continueScheduledImport', () => {
+      it('continues the stored import job', () => {
+        mockUserSettings.scheduledImportJob = {
+          query: '',
+          outputFormat: SiteImportOutputFormat.COMBINED,
+          sheetTitle: '[123456789] Scheduled Import',
+          batchSize: 500,
+          totalResults: 501,
+          lastId: 500,
+          importedResults: 500,
+        };
+        continueScheduledImport(
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockTriggerHandler,
+          Date.now() + 60_000,
+          mockMailHandler,
+          mockNotifier,
+        );
+        expect(mockTriggerHandler.deleteTriggers).toHaveBeenCalledOnceWith(
+          'continueScheduledImport',
+        );
+        expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledOnceWith(
+          {query: '', values: []},
+          500,
+          500,
+        );
+        expect(mockUserSettings.scheduledImportJob).toBeNull();
+      });
+
+      it('notifies that the import failed', () => {
+        mockUserSettings.scheduledImportJob = {
+          query: '',
+          outputFormat: SiteImportOutputFormat.COMBINED,
+          sheetTitle: '[123456789] Scheduled Import',
+          batchSize: 500,
+          totalResults: 501,
+          lastId: 500,
+          importedResults: 500,
+        };
+        mockDataHandler.getSitesAfterId.and.throwError('Failed');
+        expect(() => {
+          continueScheduledImport(
+            mockUserSettings,
+            mockDataHandler,
+            mockSpreadsheetHandler,
+            mockTriggerHandler,
+            Date.now() + 60_000,
+            mockMailHandler,
+            mockNotifier,
+          );
+        }).toThrowError('Failed');
+        expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+          jasmine.objectContaining({
+            event: 'IMPORT_FAILED',
+            error: 'Failed',
+          }),
+        );
+      });
+    });
+  });
+
+  describe('importSitesPage', () => {
+    const sitesPage: StatementResult<Site> = {
+      results: [
+        {
+          id: 101,
+          url: 'url',
+          childNetworkCode: '1234',
+          approvalStatus: 'APPROVED',
+          code: '',
+          approvalStatusDateTime: {} as unknown as AdManagerDateTime,
+          disapprovalReasons: [],
+        },
+        {
+          id: 102,
+          url: 'url2',
+          childNetworkCode: '5678',
+          approvalStatus: 'DISAPPROVED',
+          code: '',
+          approvalStatusDateTime: {} as unknown as AdManagerDateTime,
+          disapprovalReasons: [],
+        },
+      ],
+      startIndex: 0,
+      totalResultSetSize: 2,
+    };
+
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockUserSettings.importJob = {...importJob};
+      mockUserSettings.childPublishers = {
+        '1234': {
+          id: '1',
+          name: 'Child Publisher',
+          childNetworkCode: '1234',
+        },
+      };
+      mockDataHandler.getSitesAfterId.and.returnValue(sitesPage);
+    });
+
+    it('requests the page after the last imported site', () => {
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledOnceWith(
+        {query: importJob.query, values: importJob.values},
+        100,
+        100,
+      );
+    });
+
+    it('returns the number of sites in the page', () => {
+      expect(
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        ),
+      ).toEqual({sitesLoaded: 2, done: true});
+    });
+
+    it('uses the cached child publishers', () => {
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockDataHandler.fetchChildPublishers).not.toHaveBeenCalled();
+    });
+
+    it('fetches and caches the child publishers if they are not cached', () => {
+      const childPublishers = {
+        '5678': {id: '2', name: 'Other Child', childNetworkCode: '5678'},
+      };
+      mockUserSettings.childPublishers = null;
+      mockDataHandler.fetchChildPublishers.and.returnValue(childPublishers);
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockDataHandler.fetchChildPublishers).toHaveBeenCalledTimes(1);
+      expect(mockUserSettings.childPublishers).toEqual(childPublishers);
+    });
+
+    it('writes the sites to a new sheet once a sheet is full', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        lastId: 100_000,
+        importedResults: 100_000,
+      };
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        'All Sites (Part 2)',
+      );
+      expect(mockSpreadsheetHandler.setSheetMetadata).toHaveBeenCalledOnceWith(
+        'All Sites (Part 2)',
+        'gam_sites_toolkit_import',
+        jasmine.any(String),
+      );
+      expect(mockSpreadsheetHandler.insertValuesIntoSheet).toHaveBeenCalledWith(
+        'All Sites (Part 2)',
+        jasmine.any(Array),
+        2,
+      );
+    });
+
+    it("doesn't request more sites than fit into the sheet", () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        lastId: 99_950,
+        importedResults: 99_950,
+      };
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledOnceWith(
+        {query: importJob.query, values: importJob.values},
+        99_950,
+        50,
+      );
+    });
+
+    it('is not done while pages are full', () => {
+      mockUserSettings.importJob = {...importJob, batchSize: 2};
+      expect(
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        ).done,
+      ).toBeFalse();
+    });
+
+    it('imports several pages per call while pages are full', () => {
+      mockUserSettings.importJob = {...importJob, batchSize: 2};
+      expect(
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        ),
+      ).toEqual({sitesLoaded: 8, done: false});
+      expect(mockDataHandler.getSitesAfterId).toHaveBeenCalledTimes(4);
+      expect(mockUserSettings.importJob!.importedResults).toBe(108);
+    });
+
+    it('keeps the progress of the pages imported before a page fails', () => {
+      mockUserSettings.importJob = {...importJob, batchSize: 2};
+      mockDataHandler.getSitesAfterId.and.callFake((statement, lastId) => {
+        if (lastId > 100) {
+          throw new Error('Server error');
+        }
+        return sitesPage;
+      });
+      expect(() =>
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        ),
+      ).toThrow();
+      expect(mockUserSettings.importJob!.lastId).toBe(102);
+      expect(mockUserSettings.importJob!.importedResults).toBe(102);
+    });
+
+    it('marks transient errors of a page without notifying', () => {
+      mockDataHandler.getSitesAfterId.and.throwError('Service unavailable');
+      let error: unknown;
+      try {
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        );
+      } catch (e) {
+        error = e;
+      }
+      expect(isTransientError(error)).toBeTrue();
+      expect(mockNotifier.notify).not.toHaveBeenCalled();
+    });
+
+    it('does not mark fatal errors of a page', () => {
+      mockDataHandler.getSitesAfterId.and.throwError('Permission denied');
+      let error: unknown;
+      try {
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        );
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toEqual(new Error('Permission denied'));
+      expect(isTransientError(error)).toBeFalse();
+    });
+
+    it('appends the sites to the sheet', () => {
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(
+        'All Sites',
+        [
+          ['url', 'Child Publisher (1234)', 'Ready', '', '101'],
+          [
+            'url2',
+            '[Child Publisher Name Not Found] (5678)',
+            'Needs attention',
+            '',
+            '102',
+          ],
+        ],
+        102,
+      );
+    });
+
+    it('writes the columns of the job', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        columns: ['siteId', 'rawApprovalStatus', 'childNetworkCode'],
+      };
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(
+        'All Sites',
+        [
+          ['101', 'APPROVED', '1234'],
+          ['102', 'DISAPPROVED', '5678'],
+        ],
+        102,
+      );
+    });
+
+    it('writes a row per disapproval reason after the written rows', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        columns: ['siteId', 'reason'],
+        rowsInPart: 150,
+      };
+      mockDataHandler.getSitesAfterId.and.returnValue({
+        results: [
+          {
+            id: 101,
+            url: 'url',
+            childNetworkCode: '',
+            approvalStatus: 'DISAPPROVED',
+            code: '',
+            approvalStatusDateTime: {} as unknown as AdManagerDateTime,
+            disapprovalReasons: [
+              {type: 'CONTENT', details: 'reason 1'},
+              {type: 'OTHER', details: 'reason 2'},
+            ],
+          },
+        ],
+        startIndex: 0,
+        totalResultSetSize: 1,
+      });
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(
+        'All Sites',
+        [
+          ['101', 'reason 1'],
+          ['101', 'reason 2'],
+        ],
+        152,
+      );
+      expect(mockUserSettings.importJob!.rowsInPart).toBe(152);
+    });
+
+    it('joins the sites with the account health of their child', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        outputFormat: SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH,
+      };
+      mockUserSettings.childPublishers = {
+        '1234': {
+          id: '1',
+          name: 'Child Publisher',
+          childNetworkCode: '1234',
+          accountStatus: 'CLOSED_POLICY_VIOLATION',
+          approvedDelegationType: 'MANAGE_INVENTORY',
+          sellerId: 'pub-1234',
+          onboardingTasks: [],
+        },
+      };
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(
+        'All Sites',
+        [
+          [
+            'url',
+            'Child Publisher (1234)',
+            'Ready',
+            '',
+            'Closed (policy violation)',
+            'Manage Inventory',
+            'pub-1234',
+            '',
+            '101',
+          ],
+          [
+            'url2',
+            '[Child Publisher Name Not Found] (5678)',
+            'Needs attention',
+            '',
+            '',
+            '',
+            '',
+            '',
+            '102',
+          ],
+        ],
+        102,
+      );
+    });
+
+    it('stores the progress while holding the lock', () => {
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockUserSettings.importJob).toEqual({
+        ...importJob,
+        lastId: 102,
+        importedResults: 102,
+        rowsInPart: 102,
+        unresolvedChildNetworkCodes: ['5678'],
+        unresolvedChildSiteCount: 1,
+        statusCounts: [1, 1, 0, 0, 0, 0],
+      });
+      expect(mockLock.waitLock).toHaveBeenCalledTimes(1);
+      expect(mockLock.releaseLock).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the requested child network codes without sites', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        childNetworkCodesWithoutSites: ['1234', '9999'],
+      };
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockUserSettings.importJob!.childNetworkCodesWithoutSites).toEqual(
+        ['9999'],
+      );
+    });
+
+    it('adds the sites to the counts of the import', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        statusCounts: [5, 0, 0, 0, 0, 0],
+      };
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockUserSettings.importJob!.statusCounts).toEqual([
+        6, 1, 0, 0, 0, 0,
+      ]);
+      expect(mockUserSettings.setChildSiteCounts).not.toHaveBeenCalled();
+    });
+
+    it('caches the counts per child publisher if child trends are on', () => {
+      mockUserSettings.childTrends = true;
+      mockUserSettings.getChildSiteCounts.and.returnValue({
+        children: {'1234': [100, 0, 0, 0, 0, 0]},
+        countedResults: 100,
+      });
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockUserSettings.getChildSiteCounts).toHaveBeenCalledWith(
+        'All Sites',
+      );
+      expect(mockUserSettings.setChildSiteCounts).toHaveBeenCalledOnceWith(
+        'All Sites',
+        {
+          children: {
+            '1234': [101, 0, 0, 0, 0, 0],
+            '5678': [0, 1, 0, 0, 0, 0],
+          },
+          countedResults: 102,
+        },
+      );
+    });
+
+    it("doesn't continue child publisher counts that expired", () => {
+      mockUserSettings.childTrends = true;
+      mockUserSettings.getChildSiteCounts.and.returnValue(null);
+      importSitesPage(
+        'All Sites',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+        mockNotifier,
+      );
+      expect(mockUserSettings.setChildSiteCounts).not.toHaveBeenCalled();
+    });
+
+    it('throws an error if the import is no longer active', () => {
+      mockUserSettings.importJob = null;
+      expect(() => {
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        );
+      }).toThrowError('The import is no longer active.');
+      expect(mockDataHandler.getSitesAfterId).not.toHaveBeenCalled();
+      expect(mockLock.releaseLock).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies that the import failed', () => {
+      mockDataHandler.getSitesAfterId.and.throwError('Quota exceeded');
+      expect(() => {
+        importSitesPage(
+          'All Sites',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+          mockNotifier,
+        );
+      }).toThrowError('Quota exceeded');
+      expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({
+          event: 'IMPORT_FAILED',
+          sheetTitle: 'All Sites',
+          error: 'Quota exceeded',
+        }),
+      );
+    });
+  });
+
+  describe('onImportChildAccountHealthSelected', () => {
+    it('imports the account health columns even if others were chosen', () => {
+      mockUserSettings.siteColumns = ['siteId', 'url'];
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+      onImportChildAccountHealthSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+        [
+          'Site URL',
+          'Child Publisher',
+          'Approval Status',
+          'Status Details',
+          'Account Status',
+          'Delegation Type',
+          'Seller ID',
+          'Onboarding Tasks',
+          'Site ID',
+        ],
+      ]);
+    });
+  });
+
+  describe('onImportDisapprovalReasonsSelected', () => {
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+    });
+
+    it('imports the disapproved sites with one row per reason', () => {
+      mockUserSettings.siteColumns = ['siteId', 'url'];
+      onImportDisapprovalReasonsSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).toHaveBeenCalledOnceWith({
+        query: 'WHERE approvalStatus = :approvalStatus',
+        values: [
+          {
+            key: 'approvalStatus',
+            value: {'xsi:type': 'TextValue', value: 'DISAPPROVED'},
+          },
+        ],
+      });
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+        [
+          'Site URL',
+          'Child Publisher',
+          'Approval Status',
+          'Reason Type',
+          'Reason',
+          'Site ID',
+        ],
+      ]);
+      expect(
+        mockUserInterfaceHandler.showImportSitesDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Import Disapproval Reasons',
+        jasmine.stringContaining('[123456789] Disapproval Reasons ('),
+        0,
+        100,
+        'Total results: 100',
+      );
+    });
+  });
+
+  describe('onImportSitesByChildNetworkCodesSelected', () => {
+    let input: string;
+
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockUserSettings.childPublishers = {
+        '111': {id: '1', name: 'Child 1', childNetworkCode: '111'},
+        '222': {id: '2', name: 'Child 2', childNetworkCode: '222'},
+      };
+      mockDataHandler.getSiteCount.and.returnValue(10);
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(20);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          onValidInput!(input);
+        },
+      );
+    });
+
+    const importSites = () => {
+      onImportSitesByChildNetworkCodesSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+    };
+
+    it('imports the sites of a pasted list into one sheet', () => {
+      input = '111, 222\n111';
+      importSites();
+      const [statement] =
+        mockDataHandler.getTotalResultsForSitesStatement.calls.argsFor(0);
+      expect(describeStatement(statement)).toBe(
+        "WHERE childNetworkCode IN ('111', '222')",
+      );
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining(
+          '[123456789] Child Sites (2 Child Network Codes) (',
+        ),
+      );
+      expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledOnceWith(
+        'Import Sites by Child Network Codes',
+        jasmine.stringMatching(/^Child Network Codes: 2 \(20 results\)/),
+      );
+      expect(mockUserSettings.importJob).toEqual(
+        jasmine.objectContaining({
+          outputFormat: SiteImportOutputFormat.CHILD,
+        }),
+      );
+    });
+
+    it('reads the codes from a range', () => {
+      input = 'Children!A2:A';
+      mockSpreadsheetHandler.getRangeValues.and.returnValue([
+        [111],
+        ['222'],
+        [''],
+      ]);
+      importSites();
+      expect(mockSpreadsheetHandler.getRangeValues).toHaveBeenCalledOnceWith(
+        'Children!A2:A',
+      );
+      const [statement] =
+        mockDataHandler.getTotalResultsForSitesStatement.calls.argsFor(0);
+      expect(describeStatement(statement)).toBe(
+        "WHERE childNetworkCode IN ('111', '222')",
+      );
+    });
+
+    it('counts the sites of all codes in one query', () => {
+      input = '111, 222';
+      importSites();
+      expect(mockDataHandler.getSiteCount).toHaveBeenCalledTimes(1);
+      const [statement] = mockDataHandler.getSiteCount.calls.argsFor(0);
+      expect(describeStatement(statement)).toBe(
+        "WHERE childNetworkCode IN ('111', '222')",
+      );
+    });
+
+    it('reports codes without child publisher', () => {
+      input = '111, 222, 333';
+      importSites();
+      expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledOnceWith(
+        'Import Sites by Child Network Codes',
+        jasmine.stringMatching(
+          /^Not found among the child publishers: 333\n.*\n\nChild Network Codes: 3 /,
+        ),
+      );
+    });
+
+    it('keeps the codes in the job to report those without sites', () => {
+      input = '111, 222';
+      importSites();
+      expect(mockUserSettings.importJob).toEqual(
+        jasmine.objectContaining({
+          childNetworkCodesWithoutSites: ['111', '222'],
+        }),
+      );
+    });
+
+    it("doesn't import if none of the codes have sites", () => {
+      input = '111, 222';
+      mockDataHandler.getSiteCount.and.returnValue(0);
+      importSites();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'No sites were found for the child network codes.',
+      );
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+    });
+
+    it("doesn't import if the job would be too long to store", () => {
+      input = Array.from({length: 50}, (_, i) =>
+        String(i + 1).padStart(200, '1'),
+      ).join(', ');
+      mockUserSettings.childPublishers = {};
+      importSites();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'The query has too many values to store the progress of the ' +
+          'import. Please import fewer values at once.',
+      );
+      expect(mockUserInterfaceHandler.showYesNoDialog).not.toHaveBeenCalled();
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+    });
+
+    it('shows an alert for invalid codes', () => {
+      input = 'Children!A2:A';
+      mockSpreadsheetHandler.getRangeValues.and.returnValue([['111'], ['x']]);
+      importSites();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Invalid child network codes: x',
+      );
+      expect(mockDataHandler.getSiteCount).not.toHaveBeenCalled();
+    });
+
+    it('shows an alert if the range is not found', () => {
+      input = 'Missing';
+      mockSpreadsheetHandler.getRangeValues.and.throwError(
+        'Range Missing not found.',
+      );
+      importSites();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Range Missing not found.',
+      );
+    });
+  });
+
+  describe('onImportSitesByApprovalStatusSelected', () => {
+    let inputs: string[];
+
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          onValidInput!(inputs.shift()!);
+        },
+      );
+    });
+
+    const importSites = () => {
+      onImportSitesByApprovalStatusSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+    };
+
+    it('imports the sites with the chosen statuses', () => {
+      inputs = ['disapproved, REQUIRES_REVIEW', ''];
+      importSites();
+      const [statement] =
+        mockDataHandler.getTotalResultsForSitesStatement.calls.argsFor(0);
+      expect(describeStatement(statement)).toBe(
+        "WHERE approvalStatus IN ('DISAPPROVED', 'REQUIRES_REVIEW')",
+      );
+      expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledOnceWith(
+        'Import Sites by Approval Status',
+        jasmine.stringMatching(
+          /^Approval statuses: DISAPPROVED, REQUIRES_REVIEW \(100 results\)/,
+        ),
+      );
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining(
+          '[123456789] DISAPPROVED, REQUIRES_REVIEW Sites (',
+        ),
+      );
+    });
+
+    it('filters by the date of the last approval status change', () => {
+      inputs = ['DISAPPROVED', '2024-03-01 to 2024-03-31'];
+      importSites();
+      const [statement] =
+        mockDataHandler.getTotalResultsForSitesStatement.calls.argsFor(0);
+      expect(describeStatement(statement)).toBe(
+        "WHERE approvalStatus IN ('DISAPPROVED') AND " +
+          "lastModifiedApprovalStatusDateTime >= '2024-03-01T00:00:00' AND " +
+          "lastModifiedApprovalStatusDateTime < '2024-04-01T00:00:00'",
+      );
+      expect(mockUserInterfaceHandler.showYesNoDialog).toHaveBeenCalledOnceWith(
+        'Import Sites by Approval Status',
+        jasmine.stringContaining(
+          'Approval statuses: DISAPPROVED\n' +
+            'Approval status changed: 2024-03-01 to 2024-03-31 (100 results)',
+        ),
+      );
+    });
+
+    it('shows an alert for an invalid status', () => {
+      inputs = ['REJECTED', ''];
+      importSites();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Invalid approval status: REJECTED',
+      );
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('shows an alert for an invalid date', () => {
+      inputs = ['DISAPPROVED', '2024-02-30'];
+      importSites();
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Invalid date: 2024-02-30',
+      );
+    });
+  });
+
+  describe('onRefreshChildPublisherCacheSelected', () => {
+    it('replaces the cached child publishers', () => {
+      const childPublishers = {
+        '1234': {id: '1', name: 'Child Publisher', childNetworkCode: '1234'},
+      };
+      mockUserSettings.childPublishers = {};
+      mockDataHandler.fetchChildPublishers.and.returnValue(childPublishers);
+      onRefreshChildPublisherCacheSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserSettings.childPublishers).toEqual(childPublishers);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Child publishers cached: 1',
+      );
+    });
+  });
+
+  describe('onImportChildPublishersSelected', () => {
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockDataHandler.getChildPublisherCount.and.returnValue(1200);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+    });
+
+    it('creates a sheet with headers', () => {
+      onImportChildPublishersSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('[123456789] Child Publishers ('),
+        false,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+        jasmine.arrayContaining(['Company ID', 'Account Status']),
+      ]);
+    });
+
+    it('stores the import job', () => {
+      onImportChildPublishersSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserSettings.childPublisherImportJob).toEqual({
+        sheetTitle: jasmine.stringContaining('[123456789] Child Publishers ('),
+        totalResults: 1200,
+        lastId: 0,
+        importedResults: 0,
+      });
+    });
+
+    it('shows the import dialog with the child publisher functions', () => {
+      onImportChildPublishersSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showImportDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Import Child Publishers',
+        jasmine.stringContaining('[123456789] Child Publishers ('),
+        {
+          importPage: 'importChildPublishersPage',
+          finish: 'finishChildPublishersImport',
+          keepPartial: 'keepPartialChildPublishersImport',
+        },
+        0,
+        1200,
+        'Total results: 1200',
+      );
+    });
+
+    it("doesn't import if the user cancels", () => {
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(false);
+      onImportChildPublishersSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+      expect(mockUserInterfaceHandler.showImportDialog).not.toHaveBeenCalled();
+    });
+
+    it('shows an alert if there are no child publishers', () => {
+      mockDataHandler.getChildPublisherCount.and.returnValue(0);
+      onImportChildPublishersSelected(
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'No child publishers found.',
+      );
+      expect(mockUserInterfaceHandler.showYesNoDialog).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('importChildPublishersPage', () => {
+    const childPublisherImportJob = {
+      sheetTitle: 'sheetTitle',
+      totalResults: 1200,
+      lastId: 0,
+      importedResults: 0,
+    };
+
+    /**
+     * Returns a page of child publisher companies with consecutive IDs.
+     * @param lastId The ID before the first company of the page.
+     * @param numCompanies The number of companies in the page.
+     */
+    function createCompaniesPage(lastId: number, numCompanies: number) {
+      return Array.from(
+        {length: numCompanies},
+        (_, i) =>
+          ({
+            id: String(lastId + i + 1),
+            name: 'Child Publisher',
+            childPublisher: {childNetworkCode: '1234', status: 'APPROVED'},
+          }) as unknown as Company,
+      );
+    }
+
+    beforeEach(() => {
+      mockUserSettings.childPublisherImportJob = {...childPublisherImportJob};
+    });
+
+    it('writes the child publishers to the sheet', () => {
+      mockDataHandler.getChildPublisherCompanies.and.returnValue(
+        createCompaniesPage(0, 1),
+      );
+      expect(
+        importChildPublishersPage(
+          'sheetTitle',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+        ),
+      ).toEqual({sitesLoaded: 1, done: true});
+      expect(
+        mockDataHandler.getChildPublisherCompanies,
+      ).toHaveBeenCalledOnceWith(0, 500);
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        [['1', 'Child Publisher', '1234', 'Approved', '', '', '', '', '', '']],
+        2,
+      );
+    });
+
+    it('requests each page after the last company of the previous one', () => {
+      // 501 companies with the IDs 1 to 501
+      mockDataHandler.getChildPublisherCompanies.and.callFake((lastId) =>
+        createCompaniesPage(lastId, lastId === 0 ? 500 : 1),
+      );
+      expect(
+        importChildPublishersPage(
+          'sheetTitle',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+        ),
+      ).toEqual({sitesLoaded: 501, done: true});
+      expect(
+        mockDataHandler.getChildPublisherCompanies.calls.allArgs(),
+      ).toEqual([
+        [0, 500],
+        [500, 500],
+      ]);
+      expect(mockSpreadsheetHandler.insertValuesIntoSheet).toHaveBeenCalledWith(
+        'sheetTitle',
+        [jasmine.arrayContaining(['501'])],
+        502,
+      );
+    });
+
+    it('stores the progress and stops after a few pages per call', () => {
+      mockDataHandler.getChildPublisherCompanies.and.callFake((lastId) =>
+        createCompaniesPage(lastId, 500),
+      );
+      expect(
+        importChildPublishersPage(
+          'sheetTitle',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+        ),
+      ).toEqual({sitesLoaded: 2000, done: false});
+      expect(mockUserSettings.childPublisherImportJob).toEqual({
+        ...childPublisherImportJob,
+        lastId: 2000,
+        importedResults: 2000,
+      });
+      expect(mockLock.releaseLock).toHaveBeenCalled();
+    });
+
+    it('continues after the stored progress', () => {
+      mockUserSettings.childPublisherImportJob = {
+        ...childPublisherImportJob,
+        lastId: 1234,
+        importedResults: 500,
+      };
+      mockDataHandler.getChildPublisherCompanies.and.returnValue(
+        createCompaniesPage(1234, 1),
+      );
+      importChildPublishersPage(
+        'sheetTitle',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockLock,
+      );
+      expect(
+        mockDataHandler.getChildPublisherCompanies,
+      ).toHaveBeenCalledOnceWith(1234, 500);
+      expect(mockSpreadsheetHandler.insertValuesIntoSheet).toHaveBeenCalledWith(
+        'sheetTitle',
+        jasmine.any(Array),
+        502,
+      );
+    });
+
+    it('marks transient errors of a page', () => {
+      mockDataHandler.getChildPublisherCompanies.and.throwError(
+        'Service unavailable',
+      );
+      let error: unknown;
+      try {
+        importChildPublishersPage(
+          'sheetTitle',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+        );
+      } catch (e) {
+        error = e;
+      }
+      expect(isTransientError(error)).toBeTrue();
+    });
+
+    it('throws an error if the import is no longer active', () => {
+      expect(() =>
+        importChildPublishersPage(
+          'otherSheetTitle',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+          mockLock,
+        ),
+      ).toThrowError('The import is no longer active.');
+      expect(mockLock.releaseLock).toHaveBeenCalled();
+    });
+  });
+
+  describe('finishChildPublishersImport', () => {
+    it('removes the stored import job and shows the sheet', () => {
+      mockUserSettings.childPublisherImportJob = {
+        sheetTitle: 'sheetTitle',
+        totalResults: 1,
+        lastId: 1,
+        importedResults: 1,
+      };
+      finishChildPublishersImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+      );
+      expect(mockUserSettings.childPublisherImportJob).toBeNull();
+      expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+      );
+    });
+  });
+
+  describe('keepPartialChildPublishersImport', () => {
+    it('marks the sheet as incomplete', () => {
+      mockUserSettings.childPublisherImportJob = {
+        sheetTitle: 'sheetTitle',
+        totalResults: 1200,
+        lastId: 1234,
+        importedResults: 500,
+      };
+      keepPartialChildPublishersImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+      );
+      expect(mockSpreadsheetHandler.setNote).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        1,
+        1,
+        'Incomplete import: 500 of about 1200 child publishers were imported ' +
+          'before the import failed. Companies with an ID greater than 1234 ' +
+          'are missing.',
+      );
+      expect(mockUserSettings.childPublisherImportJob).toBeNull();
+    });
+  });
+
+  describe('onShowTrendsSelected', () => {
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          onValidInput!('1234');
+        },
+      );
+      mockSpreadsheetHandler.hasSheet.and.callFake(
+        (name) => name === 'Import History',
+      );
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        [
+          'Timestamp',
+          'Network Code',
+          'Query',
+          'Child Network Code',
+          'Total',
+          'Approved',
+          'Disapproved',
+          'Requires Review',
+          'Unchecked',
+          'Draft',
+          'Unknown',
+        ],
+        ['2024-03-05T06:00:00.000Z', 123456789, '', '', 3, 2, 1, 0, 0, 0, 0],
+        ['2024-03-05T06:00:00.000Z', 123456789, '', 1234, 1, 0, 1, 0, 0, 0, 0],
+      ]);
+    });
+
+    it('charts the trends of a child publisher', () => {
+      onShowTrendsSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        'Trends (1234)',
+        false,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith('Trends (1234)', [
+        [
+          'Timestamp',
+          'Approved',
+          'Disapproved',
+          'Requires Review',
+          'Unchecked',
+          'Draft',
+          'Unknown',
+        ],
+        ['2024-03-05T06:00:00.000Z', '0', '1', '0', '0', '0', '0'],
+      ]);
+      expect(mockSpreadsheetHandler.insertChart).toHaveBeenCalledOnceWith(
+        'Trends (1234)',
+        'LINE',
+        'A1:G2',
+        'Approval Statuses of Child Network Code 1234',
+        1,
+        9,
+      );
+      expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
+        'Trends (1234)',
+      );
+    });
+
+    it('replaces previous trends', () => {
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      onShowTrendsSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledOnceWith(
+        'Trends (1234)',
+      );
+    });
+
+    it('shows an alert if no imports have been recorded', () => {
+      mockSpreadsheetHandler.hasSheet.and.returnValue(false);
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          onValidInput!('');
+        },
+      );
+      onShowTrendsSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'No imports have been recorded yet.',
+      );
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('alerts', () => {
+    it('adds an alert for disapproved sites', () => {
+      onAddSiteDisapprovedAlertSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.alertRules).toEqual([{type: 'SITE_DISAPPROVED'}]);
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('Schedule an import'),
+      );
+    });
+
+    it("doesn't add the same alert twice", () => {
+      mockUserSettings.alertRules = [{type: 'SITE_DISAPPROVED'}];
+      onAddSiteDisapprovedAlertSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.alertRules).toEqual([{type: 'SITE_DISAPPROVED'}]);
+    });
+
+    it('adds an alert for a child publisher', () => {
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          expect(validPattern!.test('1234, 10')).toBeTrue();
+          onValidInput!('1234, 10');
+        },
+      );
+      onAddChildNeedsAttentionAlertSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.alertRules).toEqual([
+        {type: 'CHILD_NEEDS_ATTENTION', childNetworkCode: '1234', maxSites: 10},
+      ]);
+    });
+
+    it('adds an alert for a disapproval reason type', () => {
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          expect(validPattern!.test('ownership')).toBeTrue();
+          onValidInput!('ownership');
+        },
+      );
+      onAddReasonTypeAlertSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.alertRules).toEqual([
+        {type: 'NEW_DISAPPROVAL_REASON_TYPE', reasonType: 'Ownership'},
+      ]);
+    });
+
+    it('shows the alerts', () => {
+      mockUserSettings.alertRules = [{type: 'SITE_DISAPPROVED'}];
+      onShowAlertsSelected(mockUserSettings, mockUserInterfaceHandler);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Alerts checked after each scheduled import:\n' +
+          '- A site moves to "Needs attention"',
+      );
+    });
+
+    it('removes all alerts', () => {
+      mockUserSettings.alertRules = [{type: 'SITE_DISAPPROVED'}];
+      onRemoveAlertsSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.alertRules).toBeNull();
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('query builder', () => {
+    const filters = {
+      approvalStatuses: [],
+      childNetworkCodes: ['1234'],
+      urlContains: '',
+      approvalStatusDateFrom: '',
+      approvalStatusDateTo: '',
+    };
+
+    it('shows the query builder dialog', () => {
+      onImportSitesByCustomQuerySelected(mockUserInterfaceHandler);
+      expect(
+        mockUserInterfaceHandler.showQueryBuilderDialog,
+      ).toHaveBeenCalledOnceWith(
+        jasmine.arrayContaining([
+          {value: 'DISAPPROVED', label: 'Needs attention'},
+        ]),
+      );
+    });
+
+    it('previews the query and its number of results', () => {
+      mockDataHandler.getSiteCount.and.returnValue(42);
+      expect(previewSiteQuery(filters, mockDataHandler)).toEqual({
+        query: "WHERE childNetworkCode IN ('1234')",
+        totalResults: 42,
+      });
+      expect(mockDataHandler.getSiteCount).toHaveBeenCalledOnceWith({
+        query: 'WHERE childNetworkCode IN (:childNetworkCode)',
+        values: [
+          {
+            key: 'childNetworkCode',
+            value: {'xsi:type': 'TextValue', value: '1234'},
+          },
+        ],
+      });
+    });
+
+    it("doesn't query invalid filters", () => {
+      expect(() =>
+        previewSiteQuery(
+          {...filters, childNetworkCodes: ['abc']},
+          mockDataHandler,
+        ),
+      ).toThrowError('Invalid child network code: abc');
+      expect(mockDataHandler.getSiteCount).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saved queries', () => {
+    const savedQuery: SavedQuery = {
+      name: 'Disapproved',
+      filters: {
+        approvalStatuses: ['DISAPPROVED'],
+        childNetworkCodes: [],
+        urlContains: '',
+        approvalStatusDateFrom: '',
+        approvalStatusDateTo: '',
+      },
+      outputFormat: SiteImportOutputFormat.CHILD,
+      columns: ['siteId', 'url'],
+    };
+
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockUserSettings.savedQueryMenu = ['Disapproved'];
+      mockDocumentSettings.savedQueries = [savedQuery];
+    });
+
+    it('adds the saved queries to the menu', () => {
+      createMenu(
+        mockUserInterfaceHandler,
+        mockUserSettings,
+        mockDocumentSettings,
+      );
+      expect(
+        mockUserInterfaceHandler.createMenu.calls.mostRecent().args[1][
+          'Saved Queries'
+        ],
+      ).toEqual({
+        'Disapproved': 'onSavedQuerySelected0',
+        'Manage Saved Queries': 'onManageSavedQueriesSelected',
+      });
+      expect(mockUserSettings.savedQueryMenu).toEqual(['Disapproved']);
+    });
+
+    it('registers a global menu function per position', () => {
+      const scope = globalThis as unknown as Record<string, unknown>;
+      for (let i = 0; i < MAX_SAVED_QUERIES; i++) {
+        expect(scope[`onSavedQuerySelected${i}`]).toEqual(
+          jasmine.any(Function),
+        );
+      }
+    });
+
+    it('imports a saved query with its format and columns', () => {
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+      onSavedQuerySelected(
+        0,
+        mockDocumentSettings,
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).toHaveBeenCalledOnceWith({
+        query: 'WHERE approvalStatus IN (:approvalStatus)',
+        values: [
+          {
+            key: 'approvalStatus',
+            value: {'xsi:type': 'TextValue', value: 'DISAPPROVED'},
+          },
+        ],
+      });
+      expect(mockUserSettings.importJob).toEqual(
+        jasmine.objectContaining({
+          outputFormat: SiteImportOutputFormat.CHILD,
+          columns: ['siteId', 'url'],
+          sheetTitle: jasmine.stringContaining('[123456789] Disapproved ('),
+        }),
+      );
+    });
+
+    it('imports the saved query named in the menu', () => {
+      mockUserSettings.savedQueryMenu = ['Other', 'Disapproved'];
+      mockDataHandler.getTotalResultsForSitesStatement.and.returnValue(100);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+      onSavedQuerySelected(
+        1,
+        mockDocumentSettings,
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserSettings.importJob).toEqual(
+        jasmine.objectContaining({
+          sheetTitle: jasmine.stringContaining('[123456789] Disapproved ('),
+        }),
+      );
+    });
+
+    it('rebuilds the menu if the saved query was renamed or deleted', () => {
+      mockUserSettings.savedQueryMenu = ['Previous Name'];
+      onSavedQuerySelected(
+        0,
+        mockDocumentSettings,
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'The saved query "Previous Name" no longer exists. The menu has been ' +
+          'updated.',
+      );
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('rebuilds the menu if the saved query was deleted', () => {
+      onSavedQuerySelected(
+        1,
+        mockDocumentSettings,
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'The saved query no longer exists.',
+      );
+      expect(
+        mockDataHandler.getTotalResultsForSitesStatement,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('shows the saved queries dialog', () => {
+      onManageSavedQueriesSelected(
+        mockDocumentSettings,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showSavedQueriesDialog,
+      ).toHaveBeenCalledOnceWith(
+        [savedQuery],
+        jasmine.arrayContaining([
+          {value: 'DISAPPROVED', label: 'Needs attention'},
+        ]),
+        jasmine.arrayContaining([
+          {value: SiteImportOutputFormat.CHILD, label: 'Child sites'},
+        ]),
+        jasmine.arrayContaining([{id: 'siteId', header: 'Site ID'}]),
+      );
+    });
+
+    it('renames a saved query and rebuilds the menu', () => {
+      const renamedSavedQuery = {...savedQuery, name: 'Needs Attention'};
+      expect(
+        saveSavedQuery(
+          'Disapproved',
+          renamedSavedQuery,
+          mockDocumentSettings,
+          mockUserSettings,
+          mockUserInterfaceHandler,
+        ),
+      ).toEqual([renamedSavedQuery]);
+      expect(mockDocumentSettings.savedQueries).toEqual([renamedSavedQuery]);
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't save an invalid saved query", () => {
+      expect(() =>
+        saveSavedQuery(
+          null,
+          savedQuery,
+          mockDocumentSettings,
+          mockUserSettings,
+          mockUserInterfaceHandler,
+        ),
+      ).toThrowError('A saved query named "Disapproved" already exists.');
+      expect(mockUserInterfaceHandler.createMenu).not.toHaveBeenCalled();
+    });
+
+    it('deletes a saved query and rebuilds the menu', () => {
+      expect(
+        deleteSavedQuery(
+          'Disapproved',
+          mockDocumentSettings,
+          mockUserSettings,
+          mockUserInterfaceHandler,
+        ),
+      ).toEqual([]);
+      expect(mockDocumentSettings.savedQueries).toEqual([]);
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('webhooks', () => {
+    beforeEach(() => {
+      mockDocumentSettings.webhookUrls = [];
+    });
+
+    it('adds a webhook', () => {
+      mockUserInterfaceHandler.showInputPrompt.and.callFake(
+        (message, validPattern, onValidInput) => {
+          expect(validPattern!.test('http://example.com')).toBeFalse();
+          onValidInput!('https://example.com/hook');
+        },
+      );
+      onAddWebhookSelected(mockDocumentSettings, mockUserInterfaceHandler);
+      expect(mockDocumentSettings.webhookUrls).toEqual([
+        'https://example.com/hook',
+      ]);
+    });
+
+    it('shows the webhooks', () => {
+      mockDocumentSettings.webhookUrls = ['https://example.com/hook'];
+      onShowWebhooksSelected(mockDocumentSettings, mockUserInterfaceHandler);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Webhooks notified about imports:\n- https://example.com/hook',
+      );
+    });
+
+    it('removes all webhooks', () => {
+      mockDocumentSettings.webhookUrls = ['https://example.com/hook'];
+      onRemoveWebhooksSelected(mockDocumentSettings, mockUserInterfaceHandler);
+      expect(mockDocumentSettings.webhookUrls).toEqual([]);
+    });
+  });
+
+  describe('onChooseSiteColumnsSelected', () => {
+    it('shows the dialog with the default columns', () => {
+      onChooseSiteColumnsSelected(mockUserSettings, mockUserInterfaceHandler);
+      expect(
+        mockUserInterfaceHandler.showSiteColumnsDialog,
+      ).toHaveBeenCalledOnceWith(
+        jasmine.arrayContaining([
+          {id: 'siteId', header: 'Site ID'},
+          {id: 'approvalStatusDateTime', header: 'Approval Status Updated'},
+        ]),
+        ['url', 'childPublisher', 'approvalStatus', 'statusDetails', 'siteId'],
+      );
+    });
+
+    it('shows the dialog with the columns chosen by the user', () => {
+      mockUserSettings.siteColumns = ['siteId', 'url'];
+      onChooseSiteColumnsSelected(mockUserSettings, mockUserInterfaceHandler);
+      expect(
+        mockUserInterfaceHandler.showSiteColumnsDialog,
+      ).toHaveBeenCalledOnceWith(jasmine.any(Array), ['siteId', 'url']);
+    });
+  });
+
+  describe('onToggleImportDashboardSelected', () => {
+    it('turns the dashboard on', () => {
+      mockUserSettings.importDashboard = false;
+      onToggleImportDashboardSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.importDashboard).toBeTrue();
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledOnceWith(
+        'GAM Sites Toolkit',
+        jasmine.objectContaining({
+          'Settings': jasmine.objectContaining({
+            'Import Dashboard (On)': 'onToggleImportDashboardSelected',
+          }),
+        }),
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'A dashboard sheet will be created after each import.',
+      );
+    });
+
+    it('turns the dashboard off', () => {
+      mockUserSettings.importDashboard = true;
+      onToggleImportDashboardSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.importDashboard).toBeFalse();
+    });
+  });
+
+  describe('onToggleChildTrendsSelected', () => {
+    it('turns the child publisher trends on', () => {
+      mockUserSettings.childTrends = false;
+      onToggleChildTrendsSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.childTrends).toBeTrue();
+      expect(mockUserInterfaceHandler.createMenu).toHaveBeenCalledOnceWith(
+        'GAM Sites Toolkit',
+        jasmine.objectContaining({
+          'Settings': jasmine.objectContaining({
+            'Child Publisher Trends (On)': 'onToggleChildTrendsSelected',
+          }),
+        }),
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'Imports will record the trends of each child publisher.',
+      );
+    });
+
+    it('turns the child publisher trends off', () => {
+      mockUserSettings.childTrends = true;
+      onToggleChildTrendsSelected(
+        mockUserSettings,
+        mockUserInterfaceHandler,
+        mockDocumentSettings,
+      );
+      expect(mockUserSettings.childTrends).toBeFalse();
+    });
+  });
+
+  describe('saveSiteColumns', () => {
+    it('stores the chosen columns', () => {
+      saveSiteColumns(['siteId', 'siteCode'], mockUserSettings);
+      expect(mockUserSettings.siteColumns).toEqual(['siteId', 'siteCode']);
+    });
+
+    it('resets the columns to the defaults', () => {
+      mockUserSettings.siteColumns = ['siteId'];
+      saveSiteColumns(null, mockUserSettings);
+      expect(mockUserSettings.siteColumns).toBeNull();
+    });
+
+    it('throws an error if the site ID column is missing', () => {
+      expect(() => {
+        saveSiteColumns(['url'], mockUserSettings);
+      }).toThrowError('The "Site ID" column is required.');
+    });
+  });
+
+  describe('onCompareImportsSelected', () => {
+    beforeEach(() => {
+      mockSpreadsheetHandler.getSheetNames.and.returnValue([
+        'Instructions',
+        'import1',
+        'import2',
+        'refresh',
+        'reasons',
+      ]);
+      mockSpreadsheetHandler.getSheetMetadata.and.callFake((sheetName) => {
+        if (sheetName === 'Instructions') {
+          return null;
+        }
+        return JSON.stringify({
+          query: '',
+          outputFormat:
+            sheetName === 'reasons'
+              ? SiteImportOutputFormat.REASONS
+              : SiteImportOutputFormat.COMBINED,
+          refreshTargetSheet: sheetName === 'refresh' ? 'import1' : null,
+        });
+      });
+    });
+
+    it('shows the compare imports dialog with the import sheets', () => {
+      onCompareImportsSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showCompareImportsDialog,
+      ).toHaveBeenCalledOnceWith(['import1', 'import2'], []);
+    });
+
+    it('shows the compare imports dialog with the recorded snapshots', () => {
+      mockUserSettings.networkCode = '123';
+      mockSpreadsheetHandler.getSheetNames.and.returnValue([]);
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        IMPORT_HISTORY_HEADERS,
+        ['2024-03-05T06:00:00.000Z', 123, 'q1', '', 3, 2, 1, 0, 0, 0, 0],
+        ['2024-03-06T06:00:00.000Z', 123, 'q2', '', 3, 3, 0, 0, 0, 0, 0],
+      ]);
+      onCompareImportsSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showCompareImportsDialog,
+      ).toHaveBeenCalledOnceWith(
+        [],
+        [
+          {timestamp: '2024-03-05T06:00:00.000Z', query: 'q1'},
+          {timestamp: '2024-03-06T06:00:00.000Z', query: 'q2'},
+        ],
+      );
+    });
+
+    it('shows an alert when there are less than two imports', () => {
+      mockSpreadsheetHandler.getSheetNames.and.returnValue(['import1']);
+      onCompareImportsSelected(
+        mockUserSettings,
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledTimes(1);
+      expect(
+        mockUserInterfaceHandler.showCompareImportsDialog,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compareImports', () => {
+    const headers = [
+      'Site URL',
+      'Child Publisher',
+      'Approval Status',
+      'Status Details',
+      'Site ID',
+    ];
+
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123456789';
+      mockDataHandler.fetchChildPublishers.and.returnValue({
+        '1234': {id: '1', name: 'Renamed Child', childNetworkCode: '1234'},
+      });
+      mockSpreadsheetHandler.getSheetValues.and.callFake((sheetName) =>
+        sheetName === 'import1'
+          ? [
+              headers,
+              ['url1', 'Child (1234)', 'Ready', '', 1],
+              ['url2', '[First Party]', 'Ready', '', 2],
+            ]
+          : [
+              headers,
+              ['url1', 'Child (1234)', 'Needs attention', 'reason', 1],
+              ['url3', '[First Party]', 'Getting ready', '', 3],
+            ],
+      );
+    });
+
+    it('writes the differences to a new sheet', () => {
+      expect(
+        compareImports(
+          'import1',
+          'import2',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+        ),
+      ).toBe(3);
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('[123456789] Import Comparison ('),
+        false,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+        [
+          'Change',
+          'Site ID',
+          'Site URL',
+          'Child Publisher',
+          'Previous Approval Status',
+          'Approval Status',
+          'New Disapproval Reasons',
+          'Resolved Disapproval Reasons',
+        ],
+        ['Added', '3', 'url3', '[First Party]', '', 'Getting ready', '', ''],
+        ['Removed', '2', 'url2', '[First Party]', 'Ready', '', '', ''],
+        [
+          'Approval status changed',
+          '1',
+          'url1',
+          'Renamed Child (1234)',
+          'Ready',
+          'Needs attention',
+          'reason',
+          '',
+        ],
+      ]);
+    });
+
+    it('shows the new sheet', () => {
+      compareImports(
+        'import1',
+        'import2',
+        mockUserSettings,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('Import Comparison'),
+      );
+    });
+  });
+
+  describe('compareSnapshots', () => {
+    beforeEach(() => {
+      mockUserSettings.networkCode = '123';
+      mockDataHandler.fetchChildPublishers.and.returnValue({
+        '1234': {id: '1', name: 'Child', childNetworkCode: '1234'},
+      });
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        IMPORT_HISTORY_HEADERS,
+        ['2024-03-05T06:00:00.000Z', 123, '', '', 3, 2, 1, 0, 0, 0, 0],
+        ['2024-03-05T06:00:00.000Z', 123, '', 1234, 1, 0, 1, 0, 0, 0, 0],
+        ['2024-03-06T06:00:00.000Z', 123, '', '', 3, 3, 0, 0, 0, 0, 0],
+        ['2024-03-06T06:00:00.000Z', 123, '', 1234, 1, 1, 0, 0, 0, 0, 0],
+      ]);
+    });
+
+    it('writes the changed counts to a new sheet', () => {
+      expect(
+        compareSnapshots(
+          '2024-03-05T06:00:00.000Z',
+          '2024-03-06T06:00:00.000Z',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+        ),
+      ).toBe(4);
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('[123] Snapshot Comparison ('),
+        false,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith(jasmine.any(String), [
+        [
+          'Child Publisher',
+          'Approval Status',
+          'Earlier Count',
+          'Later Count',
+          'Change',
+        ],
+        ['All Sites', 'Approved', '2', '3', '1'],
+        ['All Sites', 'Disapproved', '1', '0', '-1'],
+        ['Child (1234)', 'Approved', '0', '1', '1'],
+        ['Child (1234)', 'Disapproved', '1', '0', '-1'],
+      ]);
+      expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining('Snapshot Comparison'),
+      );
+    });
+
+    it('throws an error if a snapshot is not recorded', () => {
+      expect(() => {
+        compareSnapshots(
+          '2024-03-05T06:00:00.000Z',
+          '2024-03-07T06:00:00.000Z',
+          mockUserSettings,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+        );
+      }).toThrowError('No snapshot from 2024-03-07T06:00:00.000Z is recorded.');
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('site actions', () => {
+    beforeEach(() => {
+      mockSpreadsheetHandler.getActiveSheetName.and.returnValue('sheetTitle');
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        ['Site URL', 'Approval Status', 'Status Details', 'Site ID'],
+        ['url1', 'Ready', '', 1],
+        ['url2', 'Ready', '', 2],
+        ['url3', 'Ready', '', 3],
+      ]);
+      mockSpreadsheetHandler.getSelectedRowNumbers.and.returnValue([1, 2, 4]);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+    });
+
+    it('shows the batch operation dialog for the selected rows', () => {
+      onSubmitSitesForApprovalSelected(
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showBatchOperationDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Submit Sites for Approval',
+        'sheetTitle',
+        'performSiteActionForRows',
+        [
+          {
+            actionType: 'SubmitSiteForApproval',
+            resultColumn: 5,
+            rows: [
+              {row: 2, siteId: 1},
+              {row: 4, siteId: 3},
+            ],
+          },
+        ],
+        2,
+        'Sheet: sheetTitle',
+      );
+    });
+
+    it('adds a result column to the sheet', () => {
+      onDeactivateSitesSelected(
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith('sheetTitle', [['Action Result']], 1, 5);
+    });
+
+    it('uses checked rows when the sheet has a selected column', () => {
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        ['Site URL', 'Site ID', 'Selected', 'Action Result'],
+        ['url1', 1, false, ''],
+        ['url2', 2, true, ''],
+      ]);
+      onDeactivateSitesSelected(
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showBatchOperationDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Deactivate Sites',
+        'sheetTitle',
+        'performSiteActionForRows',
+        [
+          {
+            actionType: 'DeactivateSite',
+            resultColumn: 4,
+            rows: [{row: 3, siteId: 2}],
+          },
+        ],
+        1,
+        'Sheet: sheetTitle',
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('shows an alert when the sheet has no site ID column', () => {
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([['Site URL']]);
+      onDeactivateSitesSelected(
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledTimes(1);
+      expect(
+        mockUserInterfaceHandler.showBatchOperationDialog,
+      ).not.toHaveBeenCalled();
+    });
+
+    it("doesn't start the action if the user cancels", () => {
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(false);
+      onDeactivateSitesSelected(
+        mockSpreadsheetHandler,
+        mockUserInterfaceHandler,
+      );
+      expect(
+        mockUserInterfaceHandler.showBatchOperationDialog,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('performSiteActionForRows', () => {
+    const batch = {
+      actionType: 'DeactivateSite' as const,
+      resultColumn: 5,
+      rows: [
+        {row: 2, siteId: 1},
+        {row: 4, siteId: 3},
+      ],
+    };
+
+    const getWrittenResults = () => {
+      expect(mockSpreadsheetHandler.setColumnValues).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        5,
+        jasmine.any(Map),
+      );
+      return [
+        ...mockSpreadsheetHandler.setColumnValues.calls
+          .mostRecent()
+          .args[2].entries(),
+      ];
+    };
+
+    it('performs the site action and writes the result to each row', () => {
+      mockDataHandler.performSiteAction.and.returnValue(2);
+      expect(
+        performSiteActionForRows(
+          'sheetTitle',
+          batch,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+        ),
+      ).toBe(2);
+      expect(mockDataHandler.performSiteAction).toHaveBeenCalledOnceWith(
+        'DeactivateSite',
+        [1, 3],
+      );
+      expect(getWrittenResults()).toEqual([
+        [2, jasmine.stringContaining('Deactivated')],
+        [4, jasmine.stringContaining('Deactivated')],
+      ]);
+    });
+
+    it('writes the approval status of each site if not all changed', () => {
+      mockDataHandler.performSiteAction.and.returnValue(1);
+      mockDataHandler.getSites.and.returnValue({
+        totalResultSetSize: 1,
+        startIndex: 0,
+        results: [{id: 1, approvalStatus: 'DISAPPROVED'} as unknown as Site],
+      });
+      performSiteActionForRows(
+        'sheetTitle',
+        batch,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      expect(getWrittenResults()).toEqual([
+        [
+          2,
+          jasmine.stringMatching(
+            / - 1 of 2 sites in batch changed, approval status: DISAPPROVED$/,
+          ),
+        ],
+        [4, 'Error: Site not found'],
+      ]);
+    });
+
+    it('writes errors to the rows of the failing sites instead of throwing', () => {
+      mockDataHandler.performSiteAction.and.callFake((actionType, siteIds) => {
+        if (siteIds.includes(3)) {
+          throw new Error('API error');
+        }
+        return siteIds.length;
+      });
+      performSiteActionForRows(
+        'sheetTitle',
+        batch,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      expect(getWrittenResults()).toEqual([
+        [2, jasmine.stringContaining('Deactivated')],
+        [4, 'Error: API error'],
+      ]);
+      expect(mockDataHandler.performSiteAction).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('onCreateSitesSelected', () => {
+    beforeEach(() => {
+      mockSpreadsheetHandler.getActiveSheetName.and.returnValue('sheetTitle');
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        ['Site URL', 'Child Network Code'],
+        ['example.com', ''],
+        ['child.example.com', 1234],
+        ['not a url', ''],
+        ['EXAMPLE.com', ''],
+        ['', ''],
+      ]);
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(true);
+    });
+
+    it('shows the batch operation dialog for the valid rows', () => {
+      onCreateSitesSelected(mockSpreadsheetHandler, mockUserInterfaceHandler);
+      expect(
+        mockUserInterfaceHandler.showBatchOperationDialog,
+      ).toHaveBeenCalledOnceWith(
+        'Create Sites',
+        'sheetTitle',
+        'createSitesForRows',
+        [
+          {
+            siteIdColumn: 3,
+            resultColumn: 4,
+            rows: [
+              {row: 2, url: 'example.com', childNetworkCode: ''},
+              {row: 3, url: 'child.example.com', childNetworkCode: '1234'},
+            ],
+          },
+        ],
+        2,
+        'Sheet: sheetTitle',
+      );
+    });
+
+    it('writes the reason for skipped rows to the sheet', () => {
+      onCreateSitesSelected(mockSpreadsheetHandler, mockUserInterfaceHandler);
+      expect(mockSpreadsheetHandler.insertValuesIntoSheet).toHaveBeenCalledWith(
+        'sheetTitle',
+        [['Skipped: invalid URL']],
+        4,
+        4,
+      );
+      expect(mockSpreadsheetHandler.insertValuesIntoSheet).toHaveBeenCalledWith(
+        'sheetTitle',
+        [['Skipped: duplicate row']],
+        5,
+        4,
+      );
+    });
+
+    it('skips rows that already have a site ID', () => {
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        ['Site URL', 'Site ID'],
+        ['example.com', 1],
+      ]);
+      onCreateSitesSelected(mockSpreadsheetHandler, mockUserInterfaceHandler);
+      expect(mockUserInterfaceHandler.showAlert).toHaveBeenCalledOnceWith(
+        'No new site URLs found in the sheet.',
+      );
+    });
+
+    it("doesn't create sites if the user cancels", () => {
+      mockUserInterfaceHandler.showYesNoDialog.and.returnValue(false);
+      onCreateSitesSelected(mockSpreadsheetHandler, mockUserInterfaceHandler);
+      expect(
+        mockUserInterfaceHandler.showBatchOperationDialog,
+      ).not.toHaveBeenCalled();
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSitesForRows', () => {
+    const batch = {
+      siteIdColumn: 3,
+      resultColumn: 4,
+      rows: [
+        {row: 2, url: 'example.com', childNetworkCode: ''},
+        {row: 3, url: 'child.example.com', childNetworkCode: '1234'},
+      ],
+    };
+
+    beforeEach(() => {
+      mockDataHandler.findSitesByUrl.and.returnValue([]);
+    });
+
+    it('creates the sites and writes their IDs to the sheet', () => {
+      mockDataHandler.createSites.and.returnValue([
+        {id: 10} as unknown as Site,
+        {id: 11} as unknown as Site,
+      ]);
+      expect(
+        createSitesForRows(
+          'sheetTitle',
+          batch,
+          mockDataHandler,
+          mockSpreadsheetHandler,
+        ),
+      ).toBe(2);
+      expect(mockDataHandler.createSites).toHaveBeenCalledOnceWith([
+        {url: 'example.com', childNetworkCode: ''},
+        {url: 'child.example.com', childNetworkCode: '1234'},
+      ]);
+      const [[, siteIdColumn, siteIds], [, resultColumn, results]] =
+        mockSpreadsheetHandler.setColumnValues.calls.allArgs();
+      expect(siteIdColumn).toBe(3);
+      expect(siteIds).toEqual(
+        new Map([
+          [2, '10'],
+          [3, '11'],
+        ]),
+      );
+      expect(resultColumn).toBe(4);
+      expect([...results.values()]).toEqual([
+        jasmine.stringMatching(/^Created/),
+        jasmine.stringMatching(/^Created/),
+      ]);
+    });
+
+    it('writes the results of the batch with one call per column', () => {
+      mockDataHandler.createSites.and.returnValue([
+        {id: 10} as unknown as Site,
+        {id: 11} as unknown as Site,
+      ]);
+      createSitesForRows(
+        'sheetTitle',
+        batch,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      expect(mockSpreadsheetHandler.setColumnValues).toHaveBeenCalledTimes(2);
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('skips sites that already exist', () => {
+      mockDataHandler.findSitesByUrl.and.returnValue([
+        {id: 5, url: 'example.com', childNetworkCode: ''} as unknown as Site,
+      ]);
+      mockDataHandler.createSites.and.returnValue([
+        {id: 11} as unknown as Site,
+      ]);
+      createSitesForRows(
+        'sheetTitle',
+        batch,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      expect(mockDataHandler.createSites).toHaveBeenCalledOnceWith([
+        {url: 'child.example.com', childNetworkCode: '1234'},
+      ]);
+      expect(mockSpreadsheetHandler.setColumnValues).toHaveBeenCalledWith(
+        'sheetTitle',
+        4,
+        jasmine.any(Map),
+      );
+      const [, , results] =
+        mockSpreadsheetHandler.setColumnValues.calls.argsFor(1);
+      expect(results.get(2)).toBe('Skipped: site already exists');
+    });
+
+    it('looks up and creates sites by their normalized URL', () => {
+      mockDataHandler.findSitesByUrl.and.returnValue([
+        {id: 5, url: 'example.com', childNetworkCode: ''} as unknown as Site,
+      ]);
+      mockDataHandler.createSites.and.returnValue([
+        {id: 11} as unknown as Site,
+      ]);
+      createSitesForRows(
+        'sheetTitle',
+        {
+          ...batch,
+          rows: [
+            {row: 2, url: 'https://Example.com/', childNetworkCode: ''},
+            {row: 3, url: 'HTTP://Child.Example.com', childNetworkCode: '1234'},
+          ],
+        },
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      expect(mockDataHandler.findSitesByUrl).toHaveBeenCalledOnceWith([
+        'example.com',
+        'child.example.com',
+      ]);
+      expect(mockDataHandler.createSites).toHaveBeenCalledOnceWith([
+        {url: 'child.example.com', childNetworkCode: '1234'},
+      ]);
+      expect(mockSpreadsheetHandler.setColumnValues).toHaveBeenCalledWith(
+        'sheetTitle',
+        4,
+        jasmine.any(Map),
+      );
+      const [, , results] =
+        mockSpreadsheetHandler.setColumnValues.calls.argsFor(1);
+      expect(results.get(2)).toBe('Skipped: site already exists');
+    });
+
+    it('writes per-row errors when the batch fails', () => {
+      mockDataHandler.createSites.and.callFake((sites) => {
+        if (sites.length > 1 || sites[0].url === 'example.com') {
+          throw new Error('Invalid URL');
+        }
+        return [{id: 11} as unknown as Site];
+      });
+      createSitesForRows(
+        'sheetTitle',
+        batch,
+        mockDataHandler,
+        mockSpreadsheetHandler,
+      );
+      const [[, , siteIds], [, , results]] =
+        mockSpreadsheetHandler.setColumnValues.calls.allArgs();
+      expect(siteIds).toEqual(new Map([[3, '11']]));
+      expect(results.get(2)).toBe('Error: Invalid URL');
+    });
+  });
 
   describe('finishSitesImport', () => {
     it('shows the sheet with the results', () => {
-      finishSitesImport('sheetTitle', mockSpreadsheetHandler);
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+      );
+    });
+
+    it('removes the stored import job', () => {
+      mockUserSettings.importJob = {...importJob, sheetTitle: 'sheetTitle'};
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockUserSettings.importJob).toBeNull();
+    });
+
+    it('reports child publishers whose names were not found', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        sheetTitle: 'sheetTitle',
+        unresolvedChildNetworkCodes: ['5678', '9012'],
+        unresolvedChildSiteCount: 3,
+      };
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      const message =
+        'Child publisher names were not found for 3 site(s) of child network ' +
+        'code(s) 5678, 9012. Refresh the child publisher cache under ' +
+        'Settings, then refresh the sheet.';
+      expect(mockSpreadsheetHandler.setNote).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        1,
+        1,
+        message,
+      );
+      expect(mockSpreadsheetHandler.showToast).toHaveBeenCalledOnceWith(
+        message,
+      );
+    });
+
+    it('reports the requested child network codes without sites', () => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        sheetTitle: 'sheetTitle',
+        unresolvedChildNetworkCodes: ['5678'],
+        unresolvedChildSiteCount: 1,
+        childNetworkCodesWithoutSites: ['222', '333'],
+      };
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      const message =
+        'Child publisher names were not found for 1 site(s) of child network ' +
+        'code(s) 5678. Refresh the child publisher cache under Settings, ' +
+        'then refresh the sheet.\n\n' +
+        'No sites were found for child network code(s) 222, 333.';
+      expect(mockSpreadsheetHandler.setNote).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        1,
+        1,
+        message,
+      );
+      expect(mockSpreadsheetHandler.showToast).toHaveBeenCalledOnceWith(
+        message,
+      );
+    });
+
+    it('lists only the first child network codes', () => {
+      const codes = Array.from({length: 21}, (_, i) => String(1000 + i));
+      mockUserSettings.importJob = {
+        ...importJob,
+        sheetTitle: 'sheetTitle',
+        unresolvedChildNetworkCodes: codes,
+        unresolvedChildSiteCount: 500,
+      };
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.showToast).toHaveBeenCalledOnceWith(
+        jasmine.stringContaining(
+          `500 site(s) of child network code(s) ${codes
+            .slice(0, 20)
+            .join(', ')} and others.`,
+        ),
+      );
+    });
+
+    it("doesn't report child publishers if all names were found", () => {
+      mockUserSettings.importJob = {...importJob, sheetTitle: 'sheetTitle'};
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.setNote).not.toHaveBeenCalled();
+      expect(mockSpreadsheetHandler.showToast).not.toHaveBeenCalled();
+    });
+
+    it('notifies that the import finished', () => {
+      mockUserSettings.importJob = {...importJob, sheetTitle: 'sheetTitle'};
+      mockSpreadsheetHandler.getSheetUrl.and.returnValue('https://sheet');
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({
+          event: 'IMPORT_FINISHED',
+          sheetTitle: 'sheetTitle',
+          sheetUrl: 'https://sheet',
+          query: "WHERE childNetworkCode = ''",
+        }),
+      );
+    });
+
+    it('adds a snapshot of the import to the history', () => {
+      mockUserSettings.networkCode = '123456789';
+      mockUserSettings.childTrends = true;
+      mockUserSettings.importJob = {
+        ...importJob,
+        sheetTitle: 'sheetTitle',
+        statusCounts: [60, 40, 0, 0, 0, 0],
+      };
+      mockUserSettings.getChildSiteCounts.and.returnValue({
+        children: {'1234': [0, 1, 0, 0, 0, 0]},
+        countedResults: 100,
+      });
+      mockSpreadsheetHandler.hasSheet.and.callFake(
+        (name) => name === 'Import History',
+      );
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith('Import History', [
+        [
+          jasmine.any(String),
+          '123456789',
+          "WHERE childNetworkCode = ''",
+          '',
+          '100',
+          '60',
+          '40',
+          '0',
+          '0',
+          '0',
+          '0',
+        ],
+        [
+          jasmine.any(String),
+          '123456789',
+          "WHERE childNetworkCode = ''",
+          '1234',
+          '1',
+          '0',
+          '1',
+          '0',
+          '0',
+          '0',
+          '0',
+        ],
+      ]);
+      expect(mockUserSettings.setChildSiteCounts).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        null,
+      );
+    });
+
+    it('leaves out incomplete counts per child publisher', () => {
+      mockUserSettings.networkCode = '123456789';
+      mockUserSettings.childTrends = true;
+      mockUserSettings.importJob = {
+        ...importJob,
+        sheetTitle: 'sheetTitle',
+        statusCounts: [60, 40, 0, 0, 0, 0],
+      };
+      mockUserSettings.getChildSiteCounts.and.returnValue({
+        children: {'1234': [0, 1, 0, 0, 0, 0]},
+        countedResults: 1,
+      });
+      mockSpreadsheetHandler.hasSheet.and.callFake(
+        (name) => name === 'Import History',
+      );
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith('Import History', [
+        jasmine.arrayContaining(['', '100']),
+      ]);
+    });
+
+    it('keeps the stored import job of another import', () => {
+      mockUserSettings.importJob = {...importJob};
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockUserSettings.importJob).toEqual(importJob);
+    });
+
+    it('shows all sheets of a split import', () => {
+      mockSpreadsheetHandler.hasSheet.and.callFake(
+        (name) => name === 'sheetTitle (Part 2)',
+      );
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.activateSheet.calls.allArgs()).toEqual([
+        ['sheetTitle (Part 2)'],
+        ['sheetTitle'],
+      ]);
+    });
+
+    it('adds a summary of the disapproval reasons', () => {
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: '',
+          outputFormat: SiteImportOutputFormat.REASONS,
+          refreshTargetSheet: null,
+        }),
+      );
+      mockSpreadsheetHandler.getSheetValues.and.returnValue([
+        ['Reason Type', 'Reason', 'Site ID'],
+        ['Content', 'Site is down', 1],
+        ['Ownership', 'Not verified', 1],
+        ['Content', 'Site is down.', 2],
+      ]);
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+        'sheetTitle (Summary)',
+        false,
+      );
+      expect(
+        mockSpreadsheetHandler.insertValuesIntoSheet,
+      ).toHaveBeenCalledOnceWith('sheetTitle (Summary)', [
+        ['Reason Type', 'Sites'],
+        ['Content', '2'],
+        ['Ownership', '1'],
+        ['', ''],
+        ['Reason', 'Sites'],
+        ['Site is down', '2'],
+        ['Not verified', '1'],
+      ]);
       expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
         'sheetTitle',
       );
     });
+
+    it("doesn't add a summary to other imports", () => {
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify({
+          query: '',
+          outputFormat: SiteImportOutputFormat.COMBINED,
+          refreshTargetSheet: null,
+        }),
+      );
+      finishSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockDataHandler,
+        mockNotifier,
+      );
+      expect(mockSpreadsheetHandler.createSheet).not.toHaveBeenCalled();
+    });
+
+    describe('with the dashboard turned on', () => {
+      beforeEach(() => {
+        mockUserSettings.importDashboard = true;
+        mockUserSettings.childPublishers = {
+          '1234': {id: '1', name: 'Child', childNetworkCode: '1234'},
+        };
+        mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+          JSON.stringify({
+            query: '',
+            outputFormat: SiteImportOutputFormat.COMBINED,
+            refreshTargetSheet: null,
+          }),
+        );
+        mockSpreadsheetHandler.getSheetValues.and.returnValue([
+          ['Child Publisher', 'Approval Status', 'Site ID'],
+          ['Child (1234)', 'Ready', 1],
+        ]);
+      });
+
+      it('adds a dashboard with charts', () => {
+        finishSitesImport(
+          'sheetTitle',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+          mockDataHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+          'sheetTitle (Dashboard)',
+          false,
+        );
+        expect(
+          mockSpreadsheetHandler.insertValuesIntoSheet,
+        ).toHaveBeenCalledOnceWith(
+          'sheetTitle (Dashboard)',
+          jasmine.arrayContaining([
+            ['Total Sites', "=COUNTA('sheetTitle'!C2:C)", ''],
+          ]),
+        );
+        expect(mockSpreadsheetHandler.insertChart.calls.allArgs()).toEqual([
+          [
+            'sheetTitle (Dashboard)',
+            'PIE',
+            'A3:B9',
+            'Sites per Approval Status',
+            1,
+            5,
+          ],
+          [
+            'sheetTitle (Dashboard)',
+            'BAR',
+            'A13:C14',
+            'Child Publishers',
+            21,
+            5,
+          ],
+        ]);
+        expect(mockDataHandler.fetchChildPublishers).not.toHaveBeenCalled();
+      });
+
+      it("doesn't add a dashboard to imports with one row per reason", () => {
+        mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+          JSON.stringify({
+            query: '',
+            outputFormat: SiteImportOutputFormat.REASONS,
+            refreshTargetSheet: null,
+          }),
+        );
+        mockSpreadsheetHandler.getSheetValues.and.returnValue([
+          ['Reason Type', 'Reason', 'Site ID'],
+        ]);
+        finishSitesImport(
+          'sheetTitle',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+          mockDataHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.createSheet).toHaveBeenCalledOnceWith(
+          'sheetTitle (Summary)',
+          false,
+        );
+      });
+    });
+
+    describe('for a refresh', () => {
+      beforeEach(() => {
+        mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+          JSON.stringify({
+            query: '',
+            outputFormat: SiteImportOutputFormat.FIRST_PARTY,
+            refreshTargetSheet: 'targetSheet',
+          }),
+        );
+        mockSpreadsheetHandler.getSheetValues.and.callFake((sheetName) =>
+          sheetName === 'sheetTitle'
+            ? [
+                ['Site URL', 'Approval Status', 'Status Details', 'Site ID'],
+                ['url2', 'Needs attention', 'details', 2],
+                ['url3', 'Ready', '', 3],
+              ]
+            : [
+                [
+                  'Site URL',
+                  'Approval Status',
+                  'Status Details',
+                  'Site ID',
+                  'My Notes',
+                ],
+                ['url1', 'Ready', '', 1, 'note 1'],
+                ['url2', 'Ready', '', 2, 'note 2'],
+              ],
+        );
+      });
+
+      it('merges the rows into the target sheet', () => {
+        finishSitesImport(
+          'sheetTitle',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+          mockDataHandler,
+          mockNotifier,
+        );
+        expect(
+          mockSpreadsheetHandler.insertValuesIntoSheet,
+        ).toHaveBeenCalledOnceWith(
+          'targetSheet',
+          [
+            ['url1', 'Ready', '', '1'],
+            ['url2', 'Needs attention', 'details', '2'],
+            ['url3', 'Ready', '', '3'],
+          ],
+          2,
+        );
+      });
+
+      it('marks removed sites', () => {
+        finishSitesImport(
+          'sheetTitle',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+          mockDataHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.markRemovedRows).toHaveBeenCalledOnceWith(
+          'targetSheet',
+          2,
+          4,
+          [jasmine.stringContaining('Not returned by the import'), '', ''],
+        );
+      });
+
+      it('deletes the import sheet and shows the target sheet', () => {
+        finishSitesImport(
+          'sheetTitle',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+          mockDataHandler,
+          mockNotifier,
+        );
+        expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledOnceWith(
+          'sheetTitle',
+        );
+        expect(mockSpreadsheetHandler.activateSheet).toHaveBeenCalledOnceWith(
+          'targetSheet',
+        );
+      });
+    });
   });
 
   describe('cancelSitesImport', () => {
     it('calls dataHandler.cancelSitesImport', () => {
-      cancelSitesImport('sheetTitle', mockSpreadsheetHandler);
+      mockSpreadsheetHandler.hasSheet.and.callFake(
+        (name) => name === 'sheetTitle',
+      );
+      cancelSitesImport('sheetTitle', mockSpreadsheetHandler, mockUserSettings);
       expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledOnceWith(
         'sheetTitle',
       );
     });
+
+    it('deletes all sheets of a split import', () => {
+      mockSpreadsheetHandler.hasSheet.and.callFake((name) =>
+        ['sheetTitle', 'sheetTitle (Part 2)'].includes(name),
+      );
+      cancelSitesImport('sheetTitle', mockSpreadsheetHandler, mockUserSettings);
+      expect(mockSpreadsheetHandler.deleteSheet.calls.allArgs()).toEqual([
+        ['sheetTitle'],
+        ['sheetTitle (Part 2)'],
+      ]);
+    });
+
+    it('stops looking for sheets of a split import at the limit', () => {
+      mockSpreadsheetHandler.hasSheet.and.returnValue(true);
+      cancelSitesImport('sheetTitle', mockSpreadsheetHandler, mockUserSettings);
+      expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledTimes(100);
+      expect(mockSpreadsheetHandler.deleteSheet).toHaveBeenCalledWith(
+        'sheetTitle (Part 100)',
+      );
+    });
+
+    it('removes the stored import job', () => {
+      mockUserSettings.importJob = {...importJob, sheetTitle: 'sheetTitle'};
+      cancelSitesImport('sheetTitle', mockSpreadsheetHandler, mockUserSettings);
+      expect(mockUserSettings.importJob).toBeNull();
+    });
+  });
+
+  describe('keepPartialSitesImport', () => {
+    beforeEach(() => {
+      mockUserSettings.importJob = {
+        ...importJob,
+        sheetTitle: 'sheetTitle',
+        totalResults: 300,
+        importedResults: 200,
+        lastId: 1234,
+      };
+      mockSpreadsheetHandler.hasSheet.and.callFake((name) =>
+        ['sheetTitle', 'sheetTitle (Part 2)'].includes(name),
+      );
+    });
+
+    it('marks all sheets of the import as incomplete', () => {
+      keepPartialSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+      );
+      const note =
+        'Incomplete import: 200 of about 300 sites were imported before the ' +
+        'import failed. Sites with an ID greater than 1234 are missing.';
+      expect(mockSpreadsheetHandler.setNote.calls.allArgs()).toEqual([
+        ['sheetTitle', 1, 1, note],
+        ['sheetTitle (Part 2)', 1, 1, note],
+      ]);
+      expect(mockSpreadsheetHandler.deleteSheet).not.toHaveBeenCalled();
+    });
+
+    it('shows the first sheet of the import', () => {
+      keepPartialSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+      );
+      expect(mockSpreadsheetHandler.activateSheet.calls.allArgs()).toEqual([
+        ['sheetTitle (Part 2)'],
+        ['sheetTitle'],
+      ]);
+    });
+
+    it('no longer treats a refresh as a refresh', () => {
+      const metadata = {
+        query: 'query',
+        outputFormat: SiteImportOutputFormat.COMBINED,
+        refreshTargetSheet: 'targetSheet',
+      };
+      mockSpreadsheetHandler.getSheetMetadata.and.returnValue(
+        JSON.stringify(metadata),
+      );
+      keepPartialSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+      );
+      expect(mockSpreadsheetHandler.setSheetMetadata).toHaveBeenCalledOnceWith(
+        'sheetTitle',
+        jasmine.any(String),
+        JSON.stringify({...metadata, refreshTargetSheet: null}),
+      );
+    });
+
+    it('removes the stored import job', () => {
+      keepPartialSitesImport(
+        'sheetTitle',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+      );
+      expect(mockUserSettings.importJob).toBeNull();
+    });
+
+    it('throws an error if the import is no longer active', () => {
+      expect(() =>
+        keepPartialSitesImport(
+          'otherSheetTitle',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+        ),
+      ).toThrowError('The import is no longer active.');
+      expect(mockSpreadsheetHandler.setNote).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reportFailedSitesImport', () => {
+    beforeEach(() => {
+      mockUserSettings.importJob = {...importJob, sheetTitle: 'sheetTitle'};
+    });
+
+    it('notifies that the import failed', () => {
+      reportFailedSitesImport(
+        'sheetTitle',
+        'Temporary failure: Service unavailable',
+        mockSpreadsheetHandler,
+        mockUserSettings,
+        mockNotifier,
+      );
+      expect(mockNotifier.notify).toHaveBeenCalledOnceWith(
+        jasmine.objectContaining({
+          event: 'IMPORT_FAILED',
+          sheetTitle: 'sheetTitle',
+          error: 'Temporary failure: Service unavailable',
+        }),
+      );
+    });
+
+    it('throws an error if the import is no longer active', () => {
+      expect(() =>
+        reportFailedSitesImport(
+          'otherSheetTitle',
+          'error',
+          mockSpreadsheetHandler,
+          mockUserSettings,
+          mockNotifier,
+        ),
+      ).toThrowError('The import is no longer active.');
+      expect(mockNotifier.notify).not.toHaveBeenCalled();
+    });
   });
 
   describe('callFunction', () => {
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  addProcessedCount,
+  setProgressActive,
+  showError,
+  startProgress,
+} from './progress_dialog';
+
+let operationId: string;
+
+let batchFunctionName: string;
+
+let batchQueue: google.script.Parameter[] = [];
+
+let operationActive = true;
+
+let activeRequests = 0;
+
+/**
+ * Initializes the batch operation dialog.
+ * @param id The id of the operation.
+ * @param functionName The name of the callable function to run per batch.
+ * @param batches The arguments to pass to each function call.
+ * @param numItems The total number of items across all batches.
+ * @param details The details of the operation.
+ */
+export function init(
+  id: string,
+  functionName: string,
+  batches: google.script.Parameter[],
+  numItems: number,
+  details: string,
+) {
+  if (numItems === 0) {
+    onErrorProcessingBatch(new Error('Nothing to process.'));
+    return;
+  }
+  batchFunctionName = functionName;
+  startProgress('Items Processed', 'Total Items', 0, numItems, details);
+  operationActive = true;
+  operationId = id;
+  batchQueue.push(...batches);
+  processBatchQueue();
+}
+
+/**
+ * Handles an error that occurs while processing a batch.
+ * @param error The error that occurred.
+ */
+function onErrorProcessingBatch(error: unknown) {
+  console.error(error);
+  operationActive = false;
+  setProgressActive(false);
+  // clear the queue
+  batchQueue = [];
+  showError(`Error: ${error}`);
+}
+
+/**
+ * Processes the batch queue by calling the batch function for each batch.
+ */
+function processBatchQueue() {
+  while (activeRequests < 10 && batchQueue.length > 0) {
+    const batch = batchQueue.shift();
+    activeRequests++;
+    google.script.run
+      .withSuccessHandler(onBatchProcessedSuccess)
+      .withFailureHandler(onErrorProcessingBatch)
+      ['callFunction'](batchFunctionName, operationId, batch);
+  }
+}
+
+/**
+ * Triggers when a batch has been processed. Closes the dialog once all items
+ * have been processed.
+ * @param itemsProcessedInBatch The number of items processed in the batch.
+ */
+function onBatchProcessedSuccess(itemsProcessedInBatch: number) {
+  activeRequests--;
+  if (!operationActive) {
+    return;
+  }
+  addProcessedCount(itemsProcessedInBatch);
+  if (activeRequests === 0 && batchQueue.length === 0) {
+    google.script.host.close();
+  } else {
+    processBatchQueue();
+  }
+}
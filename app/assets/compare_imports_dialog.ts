@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {sanitizeHtml} from 'safevalues';
+import {setElementInnerHtml} from 'safevalues/dom';
+
+/**
+ * The imports that can be compared with each other, and the callable function
+ * that compares them.
+ */
+interface ComparisonSource {
+  label: string;
+  functionName: string;
+  // The values and labels of the imports, oldest first.
+  imports: Array<{value: string; label: string}>;
+}
+
+/**
+ * The sources with at least two imports.
+ */
+let sources: ComparisonSource[] = [];
+
+/**
+ * Initializes the compare imports dialog.
+ * @param sheetNames The names of the import sheets that can be compared.
+ * @param snapshots The recorded snapshots that can be compared, oldest first.
+ */
+export function init(
+  sheetNames: string[],
+  snapshots: Array<{timestamp: string; query: string}>,
+) {
+  sources = [
+    {
+      label: 'Import sheets',
+      functionName: 'compareImports',
+      imports: sheetNames.map((sheetName) => ({
+        value: sheetName,
+        label: sheetName,
+      })),
+    },
+    {
+      label: 'Recorded snapshots (counts only)',
+      functionName: 'compareSnapshots',
+      imports: snapshots.map(({timestamp, query}) => ({
+        value: timestamp,
+        label:
+          new Date(timestamp).toLocaleString() + (query ? ` (${query})` : ''),
+      })),
+    },
+  ].filter((source) => source.imports.length >= 2);
+  const sourceSelect = getSelect('comparison_source');
+  for (const [i, source] of sources.entries()) {
+    sourceSelect.add(new Option(source.label, String(i)));
+  }
+  sourceSelect.addEventListener('change', onSourceChanged);
+  onSourceChanged();
+  window.document
+    .getElementById('compare_button')!
+    .addEventListener('click', onCompareClicked);
+}
+
+/**
+ * Returns the selected source.
+ */
+function getSelectedSource(): ComparisonSource {
+  return sources[Number(getSelect('comparison_source').value)];
+}
+
+/**
+ * Lists the imports of the selected source.
+ */
+function onSourceChanged() {
+  const imports = getSelectedSource().imports;
+  const baselineSelect = getSelect('baseline_sheet');
+  const comparisonSelect = getSelect('comparison_sheet');
+  baselineSelect.length = 0;
+  comparisonSelect.length = 0;
+  for (const {value, label} of imports) {
+    baselineSelect.add(new Option(label, value));
+    comparisonSelect.add(new Option(label, value));
+  }
+  // Imports are listed oldest first, so compare the two most recent imports by
+  // default.
+  baselineSelect.selectedIndex = Math.max(imports.length - 2, 0);
+  comparisonSelect.selectedIndex = imports.length - 1;
+}
+
+/**
+ * Returns the select element with the given ID.
+ * @param id The ID of the element.
+ */
+function getSelect(id: string): HTMLSelectElement {
+  return window.document.getElementById(id) as HTMLSelectElement;
+}
+
+/**
+ * Starts the comparison of the selected imports.
+ */
+function onCompareClicked() {
+  const baselineImport = getSelect('baseline_sheet').value;
+  const comparisonImport = getSelect('comparison_sheet').value;
+  if (baselineImport === comparisonImport) {
+    onError('Select two different imports.');
+    return;
+  }
+  const compareButton = window.document.getElementById(
+    'compare_button',
+  ) as HTMLButtonElement;
+  compareButton.disabled = true;
+  google.script.run
+    .withSuccessHandler(() => {
+      google.script.host.close();
+    })
+    .withFailureHandler((error: unknown) => {
+      compareButton.disabled = false;
+      onError(error);
+    })
+    ['callFunction'](
+      getSelectedSource().functionName,
+      baselineImport,
+      comparisonImport,
+    );
+}
+
+/**
+ * Shows an error message in the dialog.
+ * @param error The error that occurred.
+ */
+function onError(error: unknown) {
+  console.error(error);
+  const errorElement = window.document.getElementById('error-message')!;
+  setElementInnerHtml(errorElement, sanitizeHtml(`Error: ${error}`));
+  errorElement.style.display = 'block';
+}
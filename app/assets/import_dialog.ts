@@ -15,152 +15,186 @@
  * limitations under the License.
  */
 
-import {SiteImportOutputFormat} from './app';
-import {Statement} from 'gam_apps_script/typings/statement';
-import {sanitizeHtml} from 'safevalues';
-import {setElementInnerHtml} from 'safevalues/dom';
+import {isTransientError} from '../transient_error';
+import {ImportFunctionNames} from '../user_interface_handler';
+import {
+  addProcessedCount,
+  getProcessedCount,
+  hideError,
+  setProgressActive,
+  showError,
+  startProgress,
+} from './progress_dialog';
 
 let importId: string;
 
-let outputSheetFormat: SiteImportOutputFormat;
+let functions: ImportFunctionNames;
 
-let statementQueue: Statement[] = [];
-
-let elapsedTime = 0;
-
-let importActive = true;
-
-let activeRequests = 0;
+/**
+ * The number of times a page of sites that failed with a transient error is
+ * retried before the import stops.
+ */
+const MAX_PAGE_RETRIES = 3;
 
-let sitesLoaded = 0;
+/**
+ * The delay before the first retry of a page, which doubles for each retry.
+ */
+const INITIAL_RETRY_DELAY_MS = 5000;
 
-let totalResults: number;
+let pageRetries = 0;
 
 /**
- * Initializes the import sites dialog.
+ * Initializes the import dialog.
  * @param id The id of the import process.
- * @param statements The statements to use for importing sites.
+ * @param functionNames The callable functions of the import.
+ * @param numLoaded The number of results that were imported previously.
  * @param numResults The total number of results to import.
  * @param details The details of the import.
  */
 export function init(
   id: string,
-  outputFormat: SiteImportOutputFormat,
-  statements: Statement[],
+  functionNames: ImportFunctionNames,
+  numLoaded: number,
   numResults: number,
   details: string,
 ) {
+  importId = id;
+  functions = functionNames;
   if (numResults === 0) {
-    onErrorLoadingSites(new Error('No sites found.'));
+    onErrorLoadingResults(new Error('Nothing to import.'));
     return;
   }
-  totalResults = numResults;
-  outputSheetFormat = outputFormat;
-  setElementInnerHtml(
-    window.document.getElementById('total_results')!,
-    sanitizeHtml(`Total Results: ${totalResults}`),
+  window.document
+    .getElementById('retry_button')!
+    .addEventListener('click', onRetryClicked);
+  window.document
+    .getElementById('keep_partial_button')!
+    .addEventListener('click', onKeepPartialClicked);
+  startProgress(
+    'Results Loaded',
+    'Total Results',
+    numLoaded,
+    numResults,
+    details,
   );
-  if (details) {
-    const detailsElement = window.document.getElementById('details')!;
-    setElementInnerHtml(detailsElement, sanitizeHtml(details));
-    detailsElement.style.display = 'block';
-  }
-  importActive = true;
-  importId = id;
-  statementQueue.push(...statements);
-  processStatementQueue();
-  setInterval(updateProgress, 1000);
+  loadNextPage();
 }
 
 /**
- * Updates the progress bar and other UI elements.
+ * Handles an error that occurs during the import process. The progress of the
+ * import is kept on the server, so that the import can be resumed later.
+ * @param error The error that occurred.
  */
-function updateProgress() {
-  if (!importActive || !totalResults) {
-    return;
-  }
-  elapsedTime++;
-  const minutes = Math.floor(elapsedTime / 60);
-  const seconds = elapsedTime % 60;
-  const elapsedTimeString = `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
-  setElementInnerHtml(
-    window.document.getElementById('elapsed_time')!,
-    sanitizeHtml(`Elapsed Time: ${elapsedTimeString}`),
-  );
-  const progress = (sitesLoaded / totalResults) * 100;
-  window.document.getElementById('progress-bar')!.style.width = `${progress}%`;
-  setElementInnerHtml(
-    window.document.getElementById('sites_loaded')!,
-    sanitizeHtml(`Sites Loaded: ${sitesLoaded}`),
+function onErrorLoadingResults(error: unknown) {
+  console.error(error);
+  setProgressActive(false);
+  showError(
+    `Error loading results: ${error}. Select "Import Sites" > ` +
+      '"Resume Interrupted Import" to try again.',
   );
 }
 
 /**
- * Handles an error that occurs during the import process.
+ * Loads the next page of results by calling the page function of the import.
+ */
+function loadNextPage() {
+  google.script.run
+    .withSuccessHandler(onPageLoadedSuccess)
+    .withFailureHandler(onErrorLoadingPage)
+    ['callFunction'](functions.importPage, importId);
+}
+
+/**
+ * Handles an error that occurs while loading a page of results. Pages that
+ * failed with a transient error are retried with increasing delays. Once the retries
+ * are exhausted, or right away for other errors, the failed batch is listed
+ * and the user can retry it or keep the results loaded so far.
  * @param error The error that occurred.
  */
-function onErrorLoadingSites(error: unknown) {
+function onErrorLoadingPage(error: unknown) {
   console.error(error);
-  importActive = false;
-  // clear the queue
-  statementQueue = [];
-  setElementInnerHtml(
-    window.document.getElementById('total_results')!,
-    sanitizeHtml(`Total Results:`),
-  );
-  const errorElement = window.document.getElementById('error-message')!;
-  setElementInnerHtml(
-    errorElement,
-    sanitizeHtml(`Error loading sites: ${error}`),
+  if (isTransientError(error) && pageRetries < MAX_PAGE_RETRIES) {
+    const delay = INITIAL_RETRY_DELAY_MS * 2 ** pageRetries;
+    pageRetries++;
+    showError(
+      `Error loading results: ${error}. Retrying in ${delay / 1000} ` +
+        `seconds (${pageRetries} of ${MAX_PAGE_RETRIES})...`,
+    );
+    setTimeout(loadNextPage, delay);
+    return;
+  }
+  setProgressActive(false);
+  // Other errors were already reported by the server.
+  if (isTransientError(error) && functions.reportFailure) {
+    google.script.run
+      .withFailureHandler(console.error)
+      ['callFunction'](
+        functions.reportFailure,
+        importId,
+        error instanceof Error ? error.message : String(error),
+      );
+  }
+  // Pages are loaded in order, so only the batch after the loaded results can
+  // have failed.
+  showError(
+    `Failed batch: results from #${getProcessedCount() + 1} (${error}). Retry ` +
+      'the failed batch, or keep the results loaded so far in a sheet marked ' +
+      'as incomplete.',
   );
-  errorElement.style.display = 'block';
-  google.script.run['callFunction']('cancelSitesImport', importId);
+  window.document.getElementById('failure_actions')!.style.display = 'block';
 }
 
 /**
- * Processes the statement queue by calling getSites for each statement.
+ * Retries the failed batch and continues the import from there.
  */
-function processStatementQueue() {
-  while (activeRequests < 30 && statementQueue.length > 0) {
-    const statement = statementQueue.shift() ?? {};
-    activeRequests++;
-    google.script.run
-      .withSuccessHandler(onSitesLoadedSuccess)
-      .withFailureHandler(onErrorLoadingSites)
-      ['callFunction']('getSites', importId, statement, outputSheetFormat);
-  }
+function onRetryClicked() {
+  window.document.getElementById('failure_actions')!.style.display = 'none';
+  hideError();
+  pageRetries = 0;
+  setProgressActive(true);
+  loadNextPage();
 }
 
 /**
- * Triggers when a batch of sites has been loaded. Checks if all sites have been
- * loaded.
- * @param sitesLoadedInBatch The number of sites loaded in the batch.
+ * Ends the import, keeping the results loaded so far.
  */
-function onSitesLoadedSuccess(sitesLoadedInBatch: number) {
-  activeRequests--;
-  sitesLoaded += sitesLoadedInBatch;
-  if (sitesLoaded === totalResults) {
-    onAllSitesLoaded();
+function onKeepPartialClicked() {
+  window.document.getElementById('failure_actions')!.style.display = 'none';
+  google.script.run
+    .withSuccessHandler(onImportFinishedSuccess)
+    .withFailureHandler(onErrorLoadingResults)
+    ['callFunction'](functions.keepPartial, importId);
+}
+
+/**
+ * Triggers when a page of results has been loaded. Loads the next page until
+ * there are no more pages.
+ * @param result The number of results loaded and whether the import is done.
+ */
+function onPageLoadedSuccess(result: {sitesLoaded: number; done: boolean}) {
+  pageRetries = 0;
+  hideError();
+  addProcessedCount(result.sitesLoaded);
+  if (result.done) {
+    onAllResultsLoaded();
   } else {
-    processStatementQueue();
+    loadNextPage();
   }
 }
 
 /**
- * Handles the success of the finishSitesImport call.
+ * Handles the success of the finish function of the import.
  */
 function onImportFinishedSuccess() {
   google.script.host.close();
 }
 
 /**
- * Handles the event when all sites have been loaded.
+ * Handles the event when all results have been loaded.
  */
-function onAllSitesLoaded() {
+function onAllResultsLoaded() {
   google.script.run
     .withSuccessHandler(onImportFinishedSuccess)
-    .withFailureHandler(onErrorLoadingSites)
-    ['callFunction']('finishSitesImport', importId);
+    .withFailureHandler(onErrorLoadingResults)
+    ['callFunction'](functions.finish, importId);
 }
-
-
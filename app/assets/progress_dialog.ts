@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview The progress display shared by the dialogs that process items
+ * in batches on the server: the progress bar, the elapsed time, the number of
+ * processed and total items, the details and the error message.
+ */
+
+import {sanitizeHtml} from 'safevalues';
+import {setElementInnerHtml} from 'safevalues/dom';
+
+let elapsedTime = 0;
+
+let progressActive = false;
+
+let processedLabel: string;
+
+let processedCount = 0;
+
+let totalCount: number;
+
+/**
+ * Shows the total and the details, and starts updating the progress every
+ * second.
+ * @param processed The label of the number of processed items.
+ * @param total The label of the total number of items.
+ * @param numProcessed The number of items that were processed previously.
+ * @param numTotal The total number of items.
+ * @param details The details of the operation.
+ */
+export function startProgress(
+  processed: string,
+  total: string,
+  numProcessed: number,
+  numTotal: number,
+  details: string,
+) {
+  processedLabel = processed;
+  processedCount = numProcessed;
+  totalCount = numTotal;
+  setElementInnerHtml(
+    window.document.getElementById('total_count')!,
+    sanitizeHtml(`${total}: ${totalCount}`),
+  );
+  if (details) {
+    const detailsElement = window.document.getElementById('details')!;
+    setElementInnerHtml(detailsElement, sanitizeHtml(details));
+    detailsElement.style.display = 'block';
+  }
+  progressActive = true;
+  setInterval(updateProgress, 1000);
+}
+
+/**
+ * Updates the progress bar and other UI elements.
+ */
+function updateProgress() {
+  if (!progressActive || !totalCount) {
+    return;
+  }
+  elapsedTime++;
+  const minutes = Math.floor(elapsedTime / 60);
+  const seconds = elapsedTime % 60;
+  const elapsedTimeString = `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
+  setElementInnerHtml(
+    window.document.getElementById('elapsed_time')!,
+    sanitizeHtml(`Elapsed Time: ${elapsedTimeString}`),
+  );
+  // Items may be added during the operation, so the total is only an estimate.
+  const progress = Math.min((processedCount / totalCount) * 100, 100);
+  window.document.getElementById('progress-bar')!.style.width = `${progress}%`;
+  setElementInnerHtml(
+    window.document.getElementById('processed_count')!,
+    sanitizeHtml(`${processedLabel}: ${processedCount}`),
+  );
+}
+
+/**
+ * Adds processed items to the progress.
+ * @param count The number of items that were processed.
+ */
+export function addProcessedCount(count: number) {
+  processedCount += count;
+}
+
+/**
+ * Returns the number of items processed so far.
+ */
+export function getProcessedCount(): number {
+  return processedCount;
+}
+
+/**
+ * Stops or resumes updating the progress, e.g. while the operation is stopped
+ * by an error.
+ * @param active Whether the progress is updated.
+ */
+export function setProgressActive(active: boolean) {
+  progressActive = active;
+}
+
+/**
+ * Shows an error message below the progress.
+ * @param message The message to show.
+ */
+export function showError(message: string) {
+  const errorElement = window.document.getElementById('error-message')!;
+  setElementInnerHtml(errorElement, sanitizeHtml(message));
+  errorElement.style.display = 'block';
+}
+
+/**
+ * Hides the error message.
+ */
+export function hideError() {
+  window.document.getElementById('error-message')!.style.display = 'none';
+}
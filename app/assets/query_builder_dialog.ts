@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {sanitizeHtml} from 'safevalues';
+import {setElementInnerHtml} from 'safevalues/dom';
+
+/**
+ * An approval status that can be filtered by.
+ */
+interface ApprovalStatus {
+  value: string;
+  label: string;
+}
+
+/**
+ * The filters of the query builder, as expected by the server. A type rather
+ * than an interface, so that it can be passed to `google.script.run`.
+ */
+type SiteQueryFilters = {
+  approvalStatuses: string[];
+  childNetworkCodes: string[];
+  urlContains: string;
+  approvalStatusDateFrom: string;
+  approvalStatusDateTo: string;
+};
+
+/**
+ * Initializes the query builder dialog.
+ * @param approvalStatuses The approval statuses that can be filtered by.
+ */
+export function init(approvalStatuses: ApprovalStatus[]) {
+  const statusList = window.document.getElementById('approval_statuses')!;
+  for (const {value, label} of approvalStatuses) {
+    const labelElement = window.document.createElement('label');
+    const checkbox = window.document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = value;
+    labelElement.appendChild(checkbox);
+    labelElement.appendChild(window.document.createTextNode(` ${label}`));
+    statusList.appendChild(labelElement);
+  }
+  window.document
+    .getElementById('preview_button')!
+    .addEventListener('click', onPreviewClicked);
+  window.document
+    .getElementById('import_button')!
+    .addEventListener('click', onImportClicked);
+}
+
+/**
+ * Returns the value of the input element with the given ID.
+ * @param id The ID of the element.
+ */
+function getInputValue(id: string): string {
+  return (window.document.getElementById(id) as HTMLInputElement).value;
+}
+
+/**
+ * Returns the filters entered in the dialog.
+ */
+function getFilters(): SiteQueryFilters {
+  return {
+    approvalStatuses: Array.from(
+      window.document.querySelectorAll<HTMLInputElement>(
+        '#approval_statuses input:checked',
+      ),
+    ).map((checkbox) => checkbox.value),
+    childNetworkCodes: getInputValue('child_network_codes').split(','),
+    urlContains: getInputValue('url_contains'),
+    approvalStatusDateFrom: getInputValue('approval_status_date_from'),
+    approvalStatusDateTo: getInputValue('approval_status_date_to'),
+  };
+}
+
+/**
+ * Disables or enables the buttons of the dialog while a request is running.
+ * @param disabled Whether to disable the buttons.
+ */
+function setButtonsDisabled(disabled: boolean) {
+  window.document.querySelectorAll('button').forEach((button) => {
+    button.disabled = disabled;
+  });
+}
+
+/**
+ * Shows the query of the filters and the number of sites it matches.
+ */
+function onPreviewClicked() {
+  hideError();
+  setButtonsDisabled(true);
+  google.script.run
+    .withSuccessHandler(
+      ({query, totalResults}: {query: string; totalResults: number}) => {
+        setButtonsDisabled(false);
+        window.document.getElementById('query_preview')!.textContent =
+          `${query || '(all sites)'}: ${totalResults} site(s)`;
+      },
+    )
+    .withFailureHandler((error: unknown) => {
+      setButtonsDisabled(false);
+      onError(error);
+    })
+    ['callFunction']('previewSiteQuery', getFilters());
+}
+
+/**
+ * Starts the import of the sites matching the filters. The import dialog
+ * replaces this dialog once the import is confirmed.
+ */
+function onImportClicked() {
+  hideError();
+  setButtonsDisabled(true);
+  google.script.run
+    .withSuccessHandler(() => {
+      setButtonsDisabled(false);
+    })
+    .withFailureHandler((error: unknown) => {
+      setButtonsDisabled(false);
+      onError(error);
+    })
+    ['callFunction']('importSitesByQuery', getFilters());
+}
+
+/**
+ * Hides the error message of a previous request.
+ */
+function hideError() {
+  window.document.getElementById('error-message')!.style.display = 'none';
+}
+
+/**
+ * Shows an error message in the dialog.
+ * @param error The error that occurred.
+ */
+function onError(error: unknown) {
+  console.error(error);
+  const errorElement = window.document.getElementById('error-message')!;
+  setElementInnerHtml(errorElement, sanitizeHtml(`Error: ${error}`));
+  errorElement.style.display = 'block';
+}
@@ -0,0 +1,321 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {sanitizeHtml} from 'safevalues';
+import {setElementInnerHtml} from 'safevalues/dom';
+
+/**
+ * An option of a list, e.g. an approval status that can be filtered by.
+ */
+interface ListOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * A column that can be chosen for saved queries.
+ */
+interface Column {
+  id: string;
+  header: string;
+}
+
+/**
+ * A saved query, as expected by the server. A type rather than an interface,
+ * so that it can be passed to `google.script.run`.
+ */
+type SavedQuery = {
+  name: string;
+  filters: {
+    approvalStatuses: string[];
+    childNetworkCodes: string[];
+    urlContains: string;
+    approvalStatusDateFrom: string;
+    approvalStatusDateTo: string;
+  };
+  outputFormat: string;
+  columns: string[] | null;
+};
+
+/**
+ * The saved queries, updated after each change.
+ */
+let savedQueries: SavedQuery[] = [];
+
+/**
+ * The columns that can be chosen, in their default order.
+ */
+let allColumns: Column[] = [];
+
+/**
+ * Initializes the saved queries dialog.
+ * @param initialSavedQueries The saved queries.
+ * @param approvalStatuses The approval statuses that can be filtered by.
+ * @param outputFormats The output formats that can be chosen.
+ * @param columns The columns that can be chosen, in their default order.
+ */
+export function init(
+  initialSavedQueries: SavedQuery[],
+  approvalStatuses: ListOption[],
+  outputFormats: ListOption[],
+  columns: Column[],
+) {
+  allColumns = columns;
+  const statusList = window.document.getElementById('approval_statuses')!;
+  for (const {value, label} of approvalStatuses) {
+    statusList.appendChild(createCheckbox(value, label));
+  }
+  const outputFormatSelect = getSelect('output_format');
+  for (const {value, label} of outputFormats) {
+    outputFormatSelect.appendChild(new Option(label, value));
+  }
+  const useUserColumns = getInput('use_user_columns');
+  useUserColumns.addEventListener('change', () => {
+    setColumnsDisabled(useUserColumns.checked);
+  });
+  getSelect('saved_query_select').addEventListener('change', () => {
+    hideError();
+    showSavedQuery(getSelectedSavedQuery());
+  });
+  window.document
+    .getElementById('save_button')!
+    .addEventListener('click', onSaveClicked);
+  window.document
+    .getElementById('delete_button')!
+    .addEventListener('click', onDeleteClicked);
+  updateSavedQueries(initialSavedQueries, null);
+}
+
+/**
+ * Returns the input element with the given ID.
+ * @param id The ID of the element.
+ */
+function getInput(id: string): HTMLInputElement {
+  return window.document.getElementById(id) as HTMLInputElement;
+}
+
+/**
+ * Returns the select element with the given ID.
+ * @param id The ID of the element.
+ */
+function getSelect(id: string): HTMLSelectElement {
+  return window.document.getElementById(id) as HTMLSelectElement;
+}
+
+/**
+ * Creates a labeled checkbox.
+ * @param value The value of the checkbox.
+ * @param label The label of the checkbox.
+ */
+function createCheckbox(value: string, label: string): HTMLLabelElement {
+  const labelElement = window.document.createElement('label');
+  const checkbox = window.document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.value = value;
+  labelElement.appendChild(checkbox);
+  labelElement.appendChild(window.document.createTextNode(` ${label}`));
+  return labelElement;
+}
+
+/**
+ * Returns the saved query selected in the list, or null if a new saved query
+ * is being created.
+ */
+function getSelectedSavedQuery(): SavedQuery | null {
+  const name = getSelect('saved_query_select').value;
+  return savedQueries.find((savedQuery) => savedQuery.name === name) ?? null;
+}
+
+/**
+ * Updates the list of saved queries and selects one of them.
+ * @param newSavedQueries The saved queries.
+ * @param selectedName The name of the saved query to select, or null to
+ *     create a new saved query.
+ */
+function updateSavedQueries(
+  newSavedQueries: SavedQuery[],
+  selectedName: string | null,
+) {
+  savedQueries = newSavedQueries;
+  const select = getSelect('saved_query_select');
+  select.replaceChildren(new Option('New saved query', ''));
+  for (const {name} of savedQueries) {
+    select.appendChild(new Option(name, name));
+  }
+  select.value = selectedName ?? '';
+  showSavedQuery(getSelectedSavedQuery());
+}
+
+/**
+ * Fills the form with a saved query.
+ * @param savedQuery The saved query, or null to clear the form.
+ */
+function showSavedQuery(savedQuery: SavedQuery | null) {
+  const filters = savedQuery?.filters;
+  getInput('name').value = savedQuery?.name ?? '';
+  window.document
+    .querySelectorAll<HTMLInputElement>('#approval_statuses input')
+    .forEach((checkbox) => {
+      checkbox.checked =
+        filters?.approvalStatuses.includes(checkbox.value) ?? false;
+    });
+  getInput('child_network_codes').value =
+    filters?.childNetworkCodes.join(', ') ?? '';
+  getInput('url_contains').value = filters?.urlContains ?? '';
+  getInput('approval_status_date_from').value =
+    filters?.approvalStatusDateFrom ?? '';
+  getInput('approval_status_date_to').value =
+    filters?.approvalStatusDateTo ?? '';
+  const outputFormatSelect = getSelect('output_format');
+  outputFormatSelect.value =
+    savedQuery?.outputFormat ?? outputFormatSelect.options[0].value;
+  showColumns(savedQuery?.columns ?? null);
+  window.document.getElementById('delete_button')!.style.display = savedQuery
+    ? 'inline-block'
+    : 'none';
+}
+
+/**
+ * Lists the columns, with the chosen columns first in their order.
+ * @param columnIds The IDs of the chosen columns, or null if the columns of
+ *     the user who runs the saved query are used.
+ */
+function showColumns(columnIds: string[] | null) {
+  const list = window.document.getElementById('columns')!;
+  const chosenColumns = (columnIds ?? [])
+    .map((id) => allColumns.find((column) => column.id === id))
+    .filter((column): column is Column => column !== undefined);
+  list.replaceChildren(
+    ...[
+      ...chosenColumns,
+      ...allColumns.filter((column) => !columnIds?.includes(column.id)),
+    ].map(({id, header}) => createCheckbox(id, header)),
+  );
+  list.querySelectorAll('input').forEach((checkbox) => {
+    checkbox.checked = columnIds?.includes(checkbox.value) ?? false;
+  });
+  getInput('use_user_columns').checked = columnIds === null;
+  setColumnsDisabled(columnIds === null);
+}
+
+/**
+ * Disables or enables the column checkboxes.
+ * @param disabled Whether to disable the checkboxes.
+ */
+function setColumnsDisabled(disabled: boolean) {
+  window.document
+    .querySelectorAll<HTMLInputElement>('#columns input')
+    .forEach((checkbox) => {
+      checkbox.disabled = disabled;
+    });
+}
+
+/**
+ * Returns the saved query entered in the form.
+ */
+function getSavedQuery(): SavedQuery {
+  const getCheckedValues = (selector: string) =>
+    Array.from(
+      window.document.querySelectorAll<HTMLInputElement>(
+        `${selector} input:checked`,
+      ),
+    ).map((checkbox) => checkbox.value);
+  return {
+    name: getInput('name').value,
+    filters: {
+      approvalStatuses: getCheckedValues('#approval_statuses'),
+      childNetworkCodes: getInput('child_network_codes').value.split(','),
+      urlContains: getInput('url_contains').value,
+      approvalStatusDateFrom: getInput('approval_status_date_from').value,
+      approvalStatusDateTo: getInput('approval_status_date_to').value,
+    },
+    outputFormat: getSelect('output_format').value,
+    columns: getInput('use_user_columns').checked
+      ? null
+      : getCheckedValues('#columns'),
+  };
+}
+
+/**
+ * Disables or enables the buttons of the dialog while a request is running.
+ * @param disabled Whether to disable the buttons.
+ */
+function setButtonsDisabled(disabled: boolean) {
+  window.document.querySelectorAll('button').forEach((button) => {
+    button.disabled = disabled;
+  });
+}
+
+/**
+ * Adds the saved query of the form, or replaces the selected saved query.
+ */
+function onSaveClicked() {
+  hideError();
+  setButtonsDisabled(true);
+  const previousName = getSelectedSavedQuery()?.name ?? null;
+  const savedQuery = getSavedQuery();
+  google.script.run
+    .withSuccessHandler((newSavedQueries: SavedQuery[]) => {
+      setButtonsDisabled(false);
+      updateSavedQueries(newSavedQueries, savedQuery.name.trim());
+    })
+    .withFailureHandler((error: unknown) => {
+      setButtonsDisabled(false);
+      onError(error);
+    })
+    ['callFunction']('saveSavedQuery', previousName, savedQuery);
+}
+
+/**
+ * Deletes the selected saved query.
+ */
+function onDeleteClicked() {
+  const savedQuery = getSelectedSavedQuery();
+  if (!savedQuery) {
+    return;
+  }
+  hideError();
+  setButtonsDisabled(true);
+  google.script.run
+    .withSuccessHandler((newSavedQueries: SavedQuery[]) => {
+      setButtonsDisabled(false);
+      updateSavedQueries(newSavedQueries, null);
+    })
+    .withFailureHandler((error: unknown) => {
+      setButtonsDisabled(false);
+      onError(error);
+    })
+    ['callFunction']('deleteSavedQuery', savedQuery.name);
+}
+
+/**
+ * Hides the error message of a previous request.
+ */
+function hideError() {
+  window.document.getElementById('error-message')!.style.display = 'none';
+}
+
+/**
+ * Shows an error message in the dialog.
+ * @param error The error that occurred.
+ */
+function onError(error: unknown) {
+  console.error(error);
+  const errorElement = window.document.getElementById('error-message')!;
+  setElementInnerHtml(errorElement, sanitizeHtml(`Error: ${error}`));
+  errorElement.style.display = 'block';
+}
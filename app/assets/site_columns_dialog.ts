@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {sanitizeHtml} from 'safevalues';
+import {setElementInnerHtml} from 'safevalues/dom';
+
+/**
+ * A column that can be chosen for site imports.
+ */
+interface Column {
+  id: string;
+  header: string;
+}
+
+/**
+ * Initializes the site columns dialog. The chosen columns are listed first, in
+ * their current order, followed by the remaining columns.
+ * @param columns The columns that can be chosen, in their default order.
+ * @param selectedColumnIds The IDs of the currently chosen columns in order.
+ */
+export function init(columns: Column[], selectedColumnIds: string[]) {
+  const columnsById = new Map(columns.map((column) => [column.id, column]));
+  const list = getColumnList();
+  for (const columnId of selectedColumnIds) {
+    const column = columnsById.get(columnId);
+    if (column) {
+      list.appendChild(createColumnItem(column, true));
+    }
+  }
+  for (const column of columns) {
+    if (!selectedColumnIds.includes(column.id)) {
+      list.appendChild(createColumnItem(column, false));
+    }
+  }
+  window.document
+    .getElementById('save_button')!
+    .addEventListener('click', () => {
+      saveColumns(getSelectedColumnIds());
+    });
+  window.document
+    .getElementById('reset_button')!
+    .addEventListener('click', () => {
+      saveColumns(null);
+    });
+}
+
+/**
+ * Returns the list element holding the columns.
+ */
+function getColumnList(): HTMLUListElement {
+  return window.document.getElementById('column_list') as HTMLUListElement;
+}
+
+/**
+ * Creates the list item of a column, with a checkbox to choose the column and
+ * buttons to move it up or down.
+ * @param column The column.
+ * @param selected Whether the column is currently chosen.
+ */
+function createColumnItem(column: Column, selected: boolean): HTMLLIElement {
+  const item = window.document.createElement('li');
+  item.dataset['columnId'] = column.id;
+
+  const label = window.document.createElement('label');
+  const checkbox = window.document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.checked = selected;
+  label.appendChild(checkbox);
+  label.appendChild(window.document.createTextNode(` ${column.header}`));
+  item.appendChild(label);
+
+  const upButton = createMoveButton('arrow_upward', 'Move up');
+  upButton.addEventListener('click', () => {
+    if (item.previousElementSibling) {
+      getColumnList().insertBefore(item, item.previousElementSibling);
+    }
+  });
+  item.appendChild(upButton);
+
+  const downButton = createMoveButton('arrow_downward', 'Move down');
+  downButton.addEventListener('click', () => {
+    if (item.nextElementSibling) {
+      getColumnList().insertBefore(item.nextElementSibling, item);
+    }
+  });
+  item.appendChild(downButton);
+  return item;
+}
+
+/**
+ * Creates an icon button that moves a column.
+ * @param icon The name of the Material icon.
+ * @param title The tooltip of the button.
+ */
+function createMoveButton(icon: string, title: string): HTMLButtonElement {
+  const button = window.document.createElement('button');
+  button.className = 'mdl-button mdl-js-button mdl-button--icon';
+  button.title = title;
+  const iconElement = window.document.createElement('i');
+  iconElement.className = 'material-icons';
+  iconElement.textContent = icon;
+  button.appendChild(iconElement);
+  return button;
+}
+
+/**
+ * Returns the IDs of the chosen columns in their order in the list.
+ */
+function getSelectedColumnIds(): string[] {
+  return Array.from(getColumnList().querySelectorAll('li'))
+    .filter((item) => item.querySelector('input')!.checked)
+    .map((item) => item.dataset['columnId']!);
+}
+
+/**
+ * Saves the chosen columns and closes the dialog.
+ * @param columnIds The IDs of the chosen columns, or null to use the default
+ *     columns.
+ */
+function saveColumns(columnIds: string[] | null) {
+  const buttons = window.document.querySelectorAll('button');
+  buttons.forEach((button) => {
+    button.disabled = true;
+  });
+  google.script.run
+    .withSuccessHandler(() => {
+      google.script.host.close();
+    })
+    .withFailureHandler((error: unknown) => {
+      buttons.forEach((button) => {
+        button.disabled = false;
+      });
+      onError(error);
+    })
+    ['callFunction']('saveSiteColumns', columnIds);
+}
+
+/**
+ * Shows an error message in the dialog.
+ * @param error The error that occurred.
+ */
+function onError(error: unknown) {
+  console.error(error);
+  const errorElement = window.document.getElementById('error-message')!;
+  setElementInnerHtml(errorElement, sanitizeHtml(`Error: ${error}`));
+  errorElement.style.display = 'block';
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Parses lists of child network codes to import the sites of,
+ * which are either pasted by the user or read from a range of the spreadsheet.
+ */
+
+/**
+ * The maximum number of child network codes of an import. Each code is bound
+ * to the query, which is stored with the progress of the import in a single
+ * user property, so the number of them is limited to fit its size limit.
+ */
+export const MAX_CHILD_NETWORK_CODES = 50;
+
+const VALID_CHILD_NETWORK_CODE_PATTERN = /^[0-9]+$/;
+const CHILD_NETWORK_CODE_LIST_PATTERN = /^[0-9\s,;]+$/;
+const SEPARATOR_PATTERN = /[\s,;]+/;
+
+/**
+ * Returns whether the input of the user is a list of child network codes
+ * rather than the name or A1 notation of a range.
+ * @param input The input of the user.
+ */
+export function isChildNetworkCodeList(input: string): boolean {
+  return CHILD_NETWORK_CODE_LIST_PATTERN.test(input);
+}
+
+/**
+ * Parses child network codes separated by commas, semicolons or whitespace.
+ * @param values The values to parse, e.g. the pasted list or the cells of a
+ *     range. Empty values are skipped.
+ * @return The child network codes without duplicates, in order of their first
+ *     occurrence.
+ * @throws An error if a value isn't a child network code, or if there are no
+ *     or too many child network codes.
+ */
+export function parseChildNetworkCodes(values: unknown[]): string[] {
+  const codes = new Set<string>();
+  const invalidCodes: string[] = [];
+  for (const value of values) {
+    for (const code of String(value).split(SEPARATOR_PATTERN)) {
+      if (!code) {
+        continue;
+      }
+      if (VALID_CHILD_NETWORK_CODE_PATTERN.test(code)) {
+        codes.add(code);
+      } else {
+        invalidCodes.push(code);
+      }
+    }
+  }
+  if (invalidCodes.length) {
+    throw new Error(`Invalid child network codes: ${invalidCodes.join(', ')}`);
+  }
+  if (!codes.size) {
+    throw new Error('No child network codes found.');
+  }
+  if (codes.size > MAX_CHILD_NETWORK_CODES) {
+    throw new Error(
+      `There can be at most ${MAX_CHILD_NETWORK_CODES} child network codes, ` +
+        `but ${codes.size} were found.`,
+    );
+  }
+  return [...codes];
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  isChildNetworkCodeList,
+  MAX_CHILD_NETWORK_CODES,
+  parseChildNetworkCodes,
+} from './child_network_codes';
+
+describe('child network codes', () => {
+  describe('isChildNetworkCodeList', () => {
+    it('accepts codes separated by commas and whitespace', () => {
+      expect(isChildNetworkCodeList('123, 456\n789;10')).toBeTrue();
+    });
+
+    it('rejects ranges', () => {
+      expect(isChildNetworkCodeList('Children!A2:A')).toBeFalse();
+      expect(isChildNetworkCodeList('ChildNetworkCodes')).toBeFalse();
+    });
+  });
+
+  describe('parseChildNetworkCodes', () => {
+    it('parses a pasted list', () => {
+      expect(parseChildNetworkCodes(['123, 456\n 789;10'])).toEqual([
+        '123',
+        '456',
+        '789',
+        '10',
+      ]);
+    });
+
+    it('parses cell values and skips empty cells', () => {
+      expect(parseChildNetworkCodes([123, '', '456', ' '])).toEqual([
+        '123',
+        '456',
+      ]);
+    });
+
+    it('removes duplicates', () => {
+      expect(parseChildNetworkCodes(['123', 456, '123,456'])).toEqual([
+        '123',
+        '456',
+      ]);
+    });
+
+    it('throws an error for invalid codes', () => {
+      expect(() => parseChildNetworkCodes(['123', 'abc', '4.5'])).toThrowError(
+        'Invalid child network codes: abc, 4.5',
+      );
+    });
+
+    it('throws an error without codes', () => {
+      expect(() => parseChildNetworkCodes(['', ' , '])).toThrowError(
+        'No child network codes found.',
+      );
+    });
+
+    it('throws an error for too many codes', () => {
+      const values = Array.from(
+        {length: MAX_CHILD_NETWORK_CODES + 1},
+        (_, i) => i,
+      );
+      expect(() => parseChildNetworkCodes(values)).toThrowError(
+        `There can be at most ${MAX_CHILD_NETWORK_CODES} child network ` +
+          `codes, but ${MAX_CHILD_NETWORK_CODES + 1} were found.`,
+      );
+    });
+  });
+});
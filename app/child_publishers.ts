@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Formats child publisher (MCM) companies as sheet rows.
+ */
+
+import {ChildPublisher, Company} from './typings/ad_manager_api';
+
+/**
+ * The headers of a child publisher sheet.
+ */
+export const CHILD_PUBLISHER_HEADERS = [
+  'Company ID',
+  'Name',
+  'Child Network Code',
+  'Invitation Status',
+  'Account Status',
+  'Approved Delegation Type',
+  'Proposed Delegation Type',
+  'Seller ID',
+  'Proposed Revenue Share',
+  'Onboarding Tasks',
+];
+
+const STATUS_LABELS: {[status in ChildPublisher['status']]: string} = {
+  'UNKNOWN': 'Unknown',
+  'PENDING': 'Pending',
+  'APPROVED': 'Approved',
+  'REJECTED': 'Rejected',
+  'WITHDRAWN': 'Withdrawn',
+};
+
+const ACCOUNT_STATUS_LABELS: {
+  [accountStatus in ChildPublisher['accountStatus']]: string;
+} = {
+  'UNKNOWN': 'Unknown',
+  'INVITED': 'Invited',
+  'DECLINED': 'Declined',
+  'PENDING_GOOGLE_APPROVAL': 'Pending Google approval',
+  'APPROVED': 'Approved',
+  'CLOSED_POLICY_VIOLATION': 'Closed (policy violation)',
+  'CLOSED_INVALID_ACTIVITY': 'Closed (invalid activity)',
+  'CLOSED_BY_PUBLISHER': 'Closed by publisher',
+  'DISAPPROVED_INELIGIBLE': 'Disapproved (ineligible)',
+  'DISAPPROVED_DUPLICATE_ACCOUNT': 'Disapproved (duplicate account)',
+  'EXPIRED': 'Expired',
+  'INACTIVE': 'Inactive',
+  'DEACTIVATED_BY_AD_MANAGER': 'Deactivated by Ad Manager',
+};
+
+const DELEGATION_TYPE_LABELS: {
+  [delegationType in ChildPublisher['approvedDelegationType']]: string;
+} = {
+  'UNKNOWN': 'Unknown',
+  'MANAGE_ACCOUNT': 'Manage Account',
+  'MANAGE_INVENTORY': 'Manage Inventory',
+};
+
+const ONBOARDING_TASK_LABELS: {
+  [task in ChildPublisher['onboardingTasks'][number]]: string;
+} = {
+  'UNKNOWN': 'Unknown',
+  'BILLING_PROFILE_CREATION': 'Create billing profile',
+  'PHONE_PIN_VERIFICATION': 'Verify phone PIN',
+  'AD_MANAGER_ACCOUNT_SETUP': 'Set up Ad Manager account',
+};
+
+/**
+ * Returns the label of an enum value. Values that are missing from the
+ * response are shown as empty cells and values added to the API after this
+ * toolkit are shown as is.
+ * @param labels The labels of the enum values.
+ * @param value The enum value.
+ */
+function getLabel<T extends string>(
+  labels: {[value in T]: string},
+  value: T | undefined,
+): string {
+  if (!value) {
+    return '';
+  }
+  return labels[value] ?? value;
+}
+
+/**
+ * Formats the account status of a child publisher.
+ * @param accountStatus The account status.
+ */
+export function formatAccountStatus(
+  accountStatus: ChildPublisher['accountStatus'] | undefined,
+): string {
+  return getLabel(ACCOUNT_STATUS_LABELS, accountStatus);
+}
+
+/**
+ * Formats the delegation type of a child publisher.
+ * @param delegationType The delegation type.
+ */
+export function formatDelegationType(
+  delegationType: ChildPublisher['approvedDelegationType'] | undefined,
+): string {
+  return getLabel(DELEGATION_TYPE_LABELS, delegationType);
+}
+
+/**
+ * Formats the outstanding onboarding tasks of a child publisher.
+ * @param tasks The onboarding tasks.
+ */
+export function formatOnboardingTasks(
+  tasks: ChildPublisher['onboardingTasks'] | undefined,
+): string {
+  return (tasks ?? [])
+    .map((task) => getLabel(ONBOARDING_TASK_LABELS, task))
+    .join(', ');
+}
+
+/**
+ * Formats a revenue share in millipercent, e.g. 85000 as "85%".
+ * @param millipercent The revenue share in millipercent.
+ */
+function formatRevenueShare(millipercent: number | undefined): string {
+  if (millipercent === undefined || millipercent === null) {
+    return '';
+  }
+  return `${millipercent / 1000}%`;
+}
+
+/**
+ * Creates a row for a child publisher company.
+ * @param company The child publisher company.
+ * @return An array of strings representing the row.
+ */
+export function createRowForChildPublisher(company: Company): string[] {
+  const childPublisher = company.childPublisher;
+  return [
+    String(company.id),
+    company.name,
+    childPublisher.childNetworkCode ?? '',
+    getLabel(STATUS_LABELS, childPublisher.status),
+    formatAccountStatus(childPublisher.accountStatus),
+    formatDelegationType(childPublisher.approvedDelegationType),
+    formatDelegationType(childPublisher.proposedDelegationType),
+    childPublisher.sellerId ?? '',
+    formatRevenueShare(childPublisher.proposedRevenueShareMillipercent),
+    formatOnboardingTasks(childPublisher.onboardingTasks),
+  ];
+}
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  CHILD_PUBLISHER_HEADERS,
+  createRowForChildPublisher,
+} from './child_publishers';
+import {ChildPublisher, Company} from './typings/ad_manager_api';
+
+/**
+ * Returns a child publisher company for testing.
+ * @param childPublisher The child publisher fields to set.
+ */
+function createCompany(childPublisher: Partial<ChildPublisher>): Company {
+  return {
+    id: '123',
+    name: 'Child Publisher',
+    childPublisher,
+  } as unknown as Company;
+}
+
+describe('createRowForChildPublisher', () => {
+  it('creates a row with human-readable labels', () => {
+    const row = createRowForChildPublisher(
+      createCompany({
+        childNetworkCode: '1234',
+        status: 'APPROVED',
+        accountStatus: 'PENDING_GOOGLE_APPROVAL',
+        approvedDelegationType: 'MANAGE_INVENTORY',
+        proposedDelegationType: 'MANAGE_ACCOUNT',
+        sellerId: 'pub-1234',
+        proposedRevenueShareMillipercent: 85000,
+        onboardingTasks: ['BILLING_PROFILE_CREATION', 'PHONE_PIN_VERIFICATION'],
+      }),
+    );
+    expect(row).toEqual([
+      '123',
+      'Child Publisher',
+      '1234',
+      'Approved',
+      'Pending Google approval',
+      'Manage Inventory',
+      'Manage Account',
+      'pub-1234',
+      '85%',
+      'Create billing profile, Verify phone PIN',
+    ]);
+    expect(row.length).toBe(CHILD_PUBLISHER_HEADERS.length);
+  });
+
+  it('leaves missing fields empty', () => {
+    expect(
+      createRowForChildPublisher(
+        createCompany({childNetworkCode: '1234', status: 'PENDING'}),
+      ),
+    ).toEqual([
+      '123',
+      'Child Publisher',
+      '1234',
+      'Pending',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+    ]);
+  });
+
+  it('shows unknown enum values as is', () => {
+    const row = createRowForChildPublisher(
+      createCompany({
+        accountStatus: 'NEW_STATUS' as ChildPublisher['accountStatus'],
+      }),
+    );
+    expect(row[4]).toBe('NEW_STATUS');
+  });
+});
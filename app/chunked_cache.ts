@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Stores JSON values in `CacheService` caches that are too large
+ * for a single entry, by splitting them across several entries.
+ */
+
+/**
+ * The maximum length of an entry. Entries are limited to 100KB, and each
+ * character takes up to three bytes in UTF-8.
+ */
+const CHUNK_LENGTH = 30000;
+
+/**
+ * Returns the key of the entry with the number of chunks of a value.
+ * @param key The key of the value.
+ */
+function getChunkCountKey(key: string): string {
+  return `${key}_chunks`;
+}
+
+/**
+ * Returns the keys of the chunks of a value.
+ * @param key The key of the value.
+ * @param chunkCount The number of chunks.
+ */
+function getChunkKeys(key: string, chunkCount: number): string[] {
+  return Array.from({length: chunkCount}, (_, i) => `${key}_${i}`);
+}
+
+/**
+ * Retrieves a value stored by `putChunkedValue`.
+ * @param cache The cache to read from.
+ * @param key The key of the value.
+ * @return The value, or null if it isn't cached, has expired or if any of its
+ *     chunks was evicted.
+ */
+export function getChunkedValue<T>(
+  cache: GoogleAppsScript.Cache.Cache,
+  key: string,
+): T | null {
+  const chunkCount = Number(cache.get(getChunkCountKey(key)));
+  if (!chunkCount) {
+    return null;
+  }
+  const chunkKeys = getChunkKeys(key, chunkCount);
+  const chunks = cache.getAll(chunkKeys);
+  if (chunkKeys.some((chunkKey) => chunks[chunkKey] === undefined)) {
+    return null;
+  }
+  return JSON.parse(
+    chunkKeys.map((chunkKey) => chunks[chunkKey]).join(''),
+  ) as T;
+}
+
+/**
+ * Stores a value as JSON, split into as many entries as needed.
+ * @param cache The cache to write to.
+ * @param key The key of the value.
+ * @param value The value to store.
+ * @param expirationInSeconds The time after which the value expires.
+ */
+export function putChunkedValue<T>(
+  cache: GoogleAppsScript.Cache.Cache,
+  key: string,
+  value: T,
+  expirationInSeconds: number,
+) {
+  const json = JSON.stringify(value);
+  const chunkCount = Math.max(1, Math.ceil(json.length / CHUNK_LENGTH));
+  const entries: {[key: string]: string} = {
+    [getChunkCountKey(key)]: String(chunkCount),
+  };
+  getChunkKeys(key, chunkCount).forEach((chunkKey, i) => {
+    entries[chunkKey] = json.slice(i * CHUNK_LENGTH, (i + 1) * CHUNK_LENGTH);
+  });
+  cache.putAll(entries, expirationInSeconds);
+}
+
+/**
+ * Removes a value stored by `putChunkedValue`.
+ * @param cache The cache to remove the value from.
+ * @param key The key of the value.
+ */
+export function removeChunkedValue(
+  cache: GoogleAppsScript.Cache.Cache,
+  key: string,
+) {
+  const chunkCountKey = getChunkCountKey(key);
+  const chunkCount = Number(cache.get(chunkCountKey));
+  cache.removeAll([chunkCountKey, ...getChunkKeys(key, chunkCount)]);
+}
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  getChunkedValue,
+  putChunkedValue,
+  removeChunkedValue,
+} from './chunked_cache';
+
+describe('chunked cache', () => {
+  let entries: Map<string, string>;
+  let mockCache: jasmine.SpyObj<GoogleAppsScript.Cache.Cache>;
+
+  beforeEach(() => {
+    entries = new Map();
+    mockCache = jasmine.createSpyObj('Cache', [
+      'get',
+      'getAll',
+      'putAll',
+      'removeAll',
+    ]);
+    mockCache.get.and.callFake((key) => entries.get(key) ?? null);
+    mockCache.getAll.and.callFake((keys) =>
+      Object.fromEntries(
+        keys
+          .filter((key) => entries.has(key))
+          .map((key) => [key, entries.get(key)]),
+      ),
+    );
+    mockCache.putAll.and.callFake((values) => {
+      for (const [key, value] of Object.entries(values)) {
+        entries.set(key, value as string);
+      }
+    });
+    mockCache.removeAll.and.callFake((keys) => {
+      keys.forEach((key) => entries.delete(key));
+    });
+  });
+
+  it('returns null if the value is not cached', () => {
+    expect(getChunkedValue(mockCache, 'key')).toBeNull();
+  });
+
+  it('stores a small value in one chunk', () => {
+    putChunkedValue(mockCache, 'key', {a: 1}, 60);
+    expect(mockCache.putAll).toHaveBeenCalledOnceWith(
+      {'key_chunks': '1', 'key_0': '{"a":1}'},
+      60,
+    );
+    expect(getChunkedValue(mockCache, 'key')).toEqual({a: 1});
+  });
+
+  it('splits a large value into several chunks', () => {
+    const value = {text: 'x'.repeat(70000)};
+    putChunkedValue(mockCache, 'key', value, 60);
+    expect(entries.get('key_chunks')).toBe('3');
+    expect(getChunkedValue(mockCache, 'key')).toEqual(value);
+  });
+
+  it('returns null if a chunk was evicted', () => {
+    putChunkedValue(mockCache, 'key', {text: 'x'.repeat(70000)}, 60);
+    entries.delete('key_1');
+    expect(getChunkedValue(mockCache, 'key')).toBeNull();
+  });
+
+  it('removes all chunks', () => {
+    putChunkedValue(mockCache, 'key', {text: 'x'.repeat(70000)}, 60);
+    removeChunkedValue(mockCache, 'key');
+    expect(entries.size).toBe(0);
+  });
+});
@@ -22,13 +22,35 @@
 import {
   Company,
   Site,
+  SiteAction,
   StatementResult,
+  UpdateResult,
 } from './typings/ad_manager_api';
-import {AdManagerServerFault} from 'gam_apps_script/ad_manager_error';
 import {AdManagerService} from 'gam_apps_script/ad_manager_service';
 import {Statement} from 'gam_apps_script/typings/statement';
+import {RetryPolicy} from './retry_policy';
+import {StatementBuilder} from './statement_builder';
 import {ChildPublisherMap} from './user_settings';
 
+/**
+ * Thrown when a statement doesn't match any sites.
+ */
+export class NoSitesFoundError extends Error {
+  constructor() {
+    super('No sites found');
+    this.name = 'NoSitesFoundError';
+  }
+}
+
+const CHILD_PUBLISHERS_STATEMENT = new StatementBuilder()
+  .where('type', '=', 'CHILD_PUBLISHER')
+  .build();
+
+/**
+ * The number of child publishers fetched per request.
+ */
+const CHILD_PUBLISHERS_PAGE_SIZE = 500;
+
 /**
  * Handles data retrieval and caching for the application.
  */
@@ -36,34 +58,102 @@ export class DataHandler {
   constructor(
     private readonly siteService: AdManagerService,
     private readonly companyService: AdManagerService,
+    private readonly retryPolicy = new RetryPolicy(),
   ) {}
 
   /**
-   * Fetches child publishers from the Ad Manager API.
+   * Performs an operation of an Ad Manager service, retrying it according to
+   * the retry policy if it fails with a retryable error.
+   * @param service The service to call.
+   * @param operation The name of the operation.
+   * @param args The arguments of the operation.
+   * @return The result of the operation.
+   */
+  private performOperation(
+    service: AdManagerService,
+    operation: string,
+    ...args: unknown[]
+  ): unknown {
+    return this.retryPolicy.run(() =>
+      service.performOperation(operation, ...args),
+    );
+  }
+
+  /**
+   * Fetches all child publishers from the Ad Manager API, in pages that are
+   * ordered by ID like the pages of site imports.
    * @return A map of child publishers, keyed by child network code.
    */
   fetchChildPublishers(): ChildPublisherMap {
-    const {results} = this.companyService.performOperation(
+    const childPublishers: ChildPublisherMap = {};
+    let lastId = 0;
+    let companies: Company[];
+    do {
+      companies = this.getChildPublisherCompanies(
+        lastId,
+        CHILD_PUBLISHERS_PAGE_SIZE,
+      );
+      for (const company of companies) {
+        childPublishers[company.childPublisher.childNetworkCode] = {
+          id: company.id,
+          name: company.name,
+          childNetworkCode: company.childPublisher.childNetworkCode,
+          accountStatus: company.childPublisher.accountStatus,
+          approvedDelegationType: company.childPublisher.approvedDelegationType,
+          sellerId: company.childPublisher.sellerId,
+          onboardingTasks: company.childPublisher.onboardingTasks,
+        };
+      }
+      if (companies.length) {
+        lastId = Number(companies[companies.length - 1].id);
+      }
+      // A short page means that there are no more child publishers after it.
+    } while (companies.length === CHILD_PUBLISHERS_PAGE_SIZE);
+    return childPublishers;
+  }
+
+  /**
+   * Gets the number of child publisher companies.
+   * @return The number of child publishers.
+   */
+  getChildPublisherCount(): number {
+    const {totalResultSetSize} = this.performOperation(
+      this.companyService,
       'getCompaniesByStatement',
       {
-        query: "WHERE type = 'CHILD_PUBLISHER'",
+        ...CHILD_PUBLISHERS_STATEMENT,
+        query: `${CHILD_PUBLISHERS_STATEMENT.query} LIMIT 1`,
       },
     ) as StatementResult<Company>;
-    if (!results) {
-      return {};
-    }
-    const childPublisherList = results.map((company) => {
-      return {
-        id: company.id,
-        name: company.name,
-        childNetworkCode: company.childPublisher.childNetworkCode,
-      };
-    });
-    const childPublishers: ChildPublisherMap = {};
-    for (const childPublisher of childPublisherList) {
-      childPublishers[childPublisher.childNetworkCode] = childPublisher;
-    }
-    return childPublishers;
+    return totalResultSetSize;
+  }
+
+  /**
+   * Gets the page of child publisher companies that follows the company with
+   * the given ID, ordered by ID.
+   * @param lastId The ID of the last company of the previous page, or 0 for
+   *     the first page.
+   * @param batchSize The number of companies per page.
+   * @return The child publisher companies.
+   */
+  getChildPublisherCompanies(lastId: number, batchSize: number): Company[] {
+    const {results} = this.getCompanies(
+      this.getStatementAfterId(CHILD_PUBLISHERS_STATEMENT, lastId, batchSize),
+    );
+    return results ?? [];
+  }
+
+  /**
+   * Gets companies for a given statement.
+   * @param statement The statement to use to filter companies.
+   * @return The page of companies.
+   */
+  private getCompanies(statement: Statement): StatementResult<Company> {
+    return this.performOperation(
+      this.companyService,
+      'getCompaniesByStatement',
+      statement,
+    ) as StatementResult<Company>;
   }
 
   /**
@@ -73,7 +163,8 @@ export class DataHandler {
    */
   private getResultSetSize(statement: Statement): number {
     const query = statement.query + ' LIMIT 1';
-    const {totalResultSetSize} = this.siteService.performOperation(
+    const {totalResultSetSize} = this.performOperation(
+      this.siteService,
       'getSitesByStatement',
       {query, values: statement.values},
     ) as StatementResult<Site>;
@@ -81,55 +172,155 @@ export class DataHandler {
   }
 
   /**
-   * Starts the sites import process.
+   * Returns the number of sites matching a statement, e.g. to preview a query.
    * @param statement The PQL Statement to use to filter sites.
-   * @param batchSize The number of sites to retrieve per batch.
-   * @param maxResults The maximum number of sites to retrieve.
-   * @return An object containing the statements and total results.
+   * @return The number of matching sites.
    */
-  public getStatementsAndTotalResultsForSitesStatement(
-    statement: Statement,
-    batchSize: number = 100,
-    maxResults: number = 100_000,
-  ): {statements: Statement[]; totalResults: number} {
+  getSiteCount(statement: Statement): number {
+    return this.getResultSetSize(statement);
+  }
+
+  /**
+   * Validates a statement for a sites import and returns its number of results.
+   * @param statement The PQL Statement to use to filter sites.
+   * @return The total number of results.
+   */
+  getTotalResultsForSitesStatement(statement: Statement): number {
     const query = statement.query.toLowerCase();
     if (query.includes('limit') || query.includes('offset')) {
       throw new Error('Limit and offset are not supported');
     }
+    if (/order\s+by/.test(query)) {
+      throw new Error('Order by is not supported');
+    }
     const totalResultSetSize = this.getResultSetSize(statement);
     if (totalResultSetSize === 0) {
-      throw new Error('No sites found');
+      throw new NoSitesFoundError();
     }
-    const statements: Statement[] = [];
-    const totalResults = Math.min(totalResultSetSize, maxResults);
-    for (let i = 0; i < totalResults; i += batchSize) {
-      statements.push({
-        query: `${statement.query} LIMIT ${batchSize} OFFSET ${i}`,
-        values: statement.values,
-      });
+    return totalResultSetSize;
+  }
+
+  /**
+   * Returns a statement for the page of sites or companies that follows the
+   * one with the given ID. Paging by ID rather than by offset means that
+   * objects which are added or removed during an import don't shift the
+   * following pages.
+   * @param statement The PQL Statement to use to filter sites or companies.
+   * @param lastId The ID of the last object of the previous page, or 0 for the
+   *     first page.
+   * @param batchSize The number of objects per page.
+   * @return The statement for the page.
+   */
+  private getStatementAfterId(
+    statement: Statement,
+    lastId: number,
+    batchSize: number,
+  ): Statement {
+    const query = statement.query.trim();
+    let whereClause: string;
+    if (!query) {
+      whereClause = 'WHERE id > :lastId';
+    } else if (/^where\s/i.test(query)) {
+      whereClause = `WHERE (${query.slice(5).trim()}) AND id > :lastId`;
+    } else {
+      throw new Error('Only WHERE clauses are supported');
     }
-    return {'statements': statements, 'totalResults': totalResults};
+    return {
+      query: `${whereClause} ORDER BY id ASC LIMIT ${batchSize}`,
+      values: [
+        ...(statement.values ?? []),
+        {
+          key: 'lastId',
+          value: {'xsi:type': 'NumberValue', value: String(lastId)},
+        },
+      ],
+    };
+  }
+
+  /**
+   * Gets the page of sites that follows the site with the given ID, ordered by
+   * ID.
+   * @param statement The PQL Statement to use to filter sites.
+   * @param lastId The ID of the last site of the previous page, or 0 for the
+   *     first page.
+   * @param batchSize The number of sites per page.
+   * @return The page of sites.
+   */
+  getSitesAfterId(
+    statement: Statement,
+    lastId: number,
+    batchSize: number,
+  ): StatementResult<Site> {
+    return this.getSites(
+      this.getStatementAfterId(statement, lastId, batchSize),
+    );
   }
 
   /**
    * Gets sites for a given import ID and statement.
    * @param statement The statement to use to filter sites.
-   * @param retries The number of times to retry the request.
    * @return The number of sites returned.
    */
-  getSites(statement: Statement, retries: number = 3): StatementResult<Site> {
-    let sitesPage: StatementResult<Site>;
-    try {
-      sitesPage = this.siteService.performOperation(
-        'getSitesByStatement',
-        statement,
-      ) as StatementResult<Site>;
-    } catch (e) {
-      if (e instanceof AdManagerServerFault && retries > 0) {
-        return this.getSites(statement, retries - 1);
-      }
-      throw e;
+  getSites(statement: Statement): StatementResult<Site> {
+    return this.performOperation(
+      this.siteService,
+      'getSitesByStatement',
+      statement,
+    ) as StatementResult<Site>;
+  }
+
+  /**
+   * Performs an action on the sites with the given IDs.
+   * @param actionType The type of site action to perform.
+   * @param siteIds The IDs of the sites to perform the action on.
+   * @return The number of sites that were changed.
+   */
+  performSiteAction(
+    actionType: SiteAction['xsi:type'],
+    siteIds: number[],
+  ): number {
+    if (!siteIds.length) {
+      return 0;
+    }
+    if (!siteIds.every((siteId) => Number.isInteger(siteId))) {
+      throw new Error('Site IDs must be integers');
+    }
+    const siteAction: SiteAction = {'xsi:type': actionType};
+    const {numChanges} = this.performOperation(
+      this.siteService,
+      'performSiteAction',
+      siteAction,
+      new StatementBuilder().whereIn('id', siteIds).build(),
+    ) as UpdateResult;
+    return numChanges;
+  }
+
+  /**
+   * Finds all sites matching any of the given URLs.
+   * @param urls The URLs of the sites to find, in lower case and without their
+   *     scheme and trailing slash, which is how Ad Manager stores them.
+   * @return The sites matching the URLs.
+   */
+  findSitesByUrl(urls: string[]): Site[] {
+    if (!urls.length) {
+      return [];
+    }
+    const {results} = this.getSites(
+      new StatementBuilder().whereIn('url', urls).build(),
+    );
+    return results ?? [];
+  }
+
+  /**
+   * Creates sites. Unlike other operations, failed requests aren't retried, as
+   * a request that timed out may still have created the sites.
+   * @param sites The sites to create.
+   * @return The created sites, in the same order as provided.
+   */
+  createSites(sites: Array<Pick<Site, 'url' | 'childNetworkCode'>>): Site[] {
+    if (!sites.length) {
+      return [];
     }
-    return sitesPage;
+    return this.siteService.performOperation('createSites', sites) as Site[];
   }
 }
@@ -17,14 +17,19 @@
 
 import {AdManagerServerFault} from 'gam_apps_script/ad_manager_error';
 import {AdManagerService} from 'gam_apps_script/ad_manager_service';
-import {DataHandler} from './data_handler';
-import {Site, StatementResult} from './typings/ad_manager_api';
+import {DataHandler, NoSitesFoundError} from './data_handler';
+import {DEFAULT_RETRY_OPTIONS, RetryPolicy} from './retry_policy';
+import {ChildPublisher, Site, StatementResult} from './typings/ad_manager_api';
 
 describe('DataHandler', () => {
   let mockSiteService: jasmine.SpyObj<AdManagerService>;
   let mockCompanyService: jasmine.SpyObj<AdManagerService>;
+  let sleeper: jasmine.Spy<(milliseconds: number) => void>;
+  let retryPolicy: RetryPolicy;
 
   beforeEach(() => {
+    sleeper = jasmine.createSpy('sleeper');
+    retryPolicy = new RetryPolicy(DEFAULT_RETRY_OPTIONS, sleeper);
     mockSiteService = jasmine.createSpyObj('AdManagerService', [
       'performOperation',
     ]);
@@ -45,45 +50,139 @@ describe('DataHandler', () => {
 
   describe('fetchChildPublishers', () => {
     it('returns a map of child publishers', () => {
+      const childPublisher: Partial<ChildPublisher> = {
+        accountStatus: 'APPROVED',
+        approvedDelegationType: 'MANAGE_INVENTORY',
+        sellerId: 'pub-1',
+        onboardingTasks: [],
+      };
       mockCompanyService.performOperation.and.returnValue({
         results: [
           {
             id: '1',
             name: 'Child Publisher 1',
-            childPublisher: {childNetworkCode: '123'},
+            childPublisher: {...childPublisher, childNetworkCode: '123'},
           },
           {
             id: '2',
             name: 'Child Publisher 2',
-            childPublisher: {childNetworkCode: '456'},
+            childPublisher: {...childPublisher, childNetworkCode: '456'},
           },
           {
             id: '3',
             name: 'Child Publisher 3',
-            childPublisher: {childNetworkCode: '789'},
+            childPublisher: {...childPublisher, childNetworkCode: '789'},
           },
         ],
         startIndex: 0,
         totalResultSetSize: 3,
       });
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
       dataHandler.fetchChildPublishers();
       expect(dataHandler.fetchChildPublishers()).toEqual({
-        '123': {id: '1', name: 'Child Publisher 1', childNetworkCode: '123'},
-        '456': {id: '2', name: 'Child Publisher 2', childNetworkCode: '456'},
-        '789': {id: '3', name: 'Child Publisher 3', childNetworkCode: '789'},
+        '123': {
+          id: '1',
+          name: 'Child Publisher 1',
+          childNetworkCode: '123',
+          ...childPublisher,
+        },
+        '456': {
+          id: '2',
+          name: 'Child Publisher 2',
+          childNetworkCode: '456',
+          ...childPublisher,
+        },
+        '789': {
+          id: '3',
+          name: 'Child Publisher 3',
+          childNetworkCode: '789',
+          ...childPublisher,
+        },
       });
     });
 
     it('uses getCompaniesByStatement to fetch child publishers', () => {
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
       dataHandler.fetchChildPublishers();
       expect(mockCompanyService.performOperation).toHaveBeenCalledOnceWith(
         'getCompaniesByStatement',
         {
-          query: "WHERE type = 'CHILD_PUBLISHER'",
+          query:
+            'WHERE (type = :type) AND id > :lastId ORDER BY id ASC LIMIT 500',
+          values: [
+            {
+              key: 'type',
+              value: {'xsi:type': 'TextValue', value: 'CHILD_PUBLISHER'},
+            },
+            {
+              key: 'lastId',
+              value: {'xsi:type': 'NumberValue', value: '0'},
+            },
+          ],
+        },
+      );
+    });
+
+    it('fetches the pages that follow a full page', () => {
+      const createCompanies = (firstId: number, count: number) =>
+        Array.from({length: count}, (_, i) => ({
+          id: String(firstId + i),
+          name: `Child Publisher ${firstId + i}`,
+          childPublisher: {childNetworkCode: String(1000 + firstId + i)},
+        }));
+      mockCompanyService.performOperation.and.returnValues(
+        {
+          results: createCompanies(1, 500),
+          startIndex: 0,
+          totalResultSetSize: 0,
         },
+        {
+          results: createCompanies(501, 2),
+          startIndex: 0,
+          totalResultSetSize: 0,
+        },
+      );
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
       );
+      const childPublishers = dataHandler.fetchChildPublishers();
+      expect(Object.keys(childPublishers).length).toBe(502);
+      expect(childPublishers['1502'].name).toBe('Child Publisher 502');
+      expect(mockCompanyService.performOperation).toHaveBeenCalledTimes(2);
+      const [, statement] =
+        mockCompanyService.performOperation.calls.argsFor(1);
+      expect(statement.values).toContain({
+        key: 'lastId',
+        value: {'xsi:type': 'NumberValue', value: '500'},
+      });
+    });
+
+    it('retries a page on server errors', () => {
+      let errorThrown = false;
+      mockCompanyService.performOperation.and.callFake(() => {
+        if (!errorThrown) {
+          errorThrown = true;
+          throw new AdManagerServerFault({message: 'error', errors: []});
+        }
+        return {results: [], startIndex: 0, totalResultSetSize: 0};
+      });
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.fetchChildPublishers()).toEqual({});
+      expect(mockCompanyService.performOperation).toHaveBeenCalledTimes(2);
     });
 
     it('returns an empty map if no child publishers are found', () => {
@@ -92,19 +191,88 @@ describe('DataHandler', () => {
         startIndex: 0,
         totalResultSetSize: 0,
       });
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
       expect(dataHandler.fetchChildPublishers()).toEqual({});
     });
   });
 
-  describe('getStatementsAndTotalResultsForSitesStatement', () => {
+  describe('getChildPublisherCount', () => {
+    it('returns the number of child publisher companies', () => {
+      mockCompanyService.performOperation.and.returnValue({
+        results: [],
+        startIndex: 0,
+        totalResultSetSize: 42,
+      });
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.getChildPublisherCount()).toBe(42);
+      expect(mockCompanyService.performOperation).toHaveBeenCalledOnceWith(
+        'getCompaniesByStatement',
+        {
+          query: 'WHERE type = :type LIMIT 1',
+          values: [
+            {
+              key: 'type',
+              value: {'xsi:type': 'TextValue', value: 'CHILD_PUBLISHER'},
+            },
+          ],
+        },
+      );
+    });
+  });
+
+  describe('getChildPublisherCompanies', () => {
+    it('requests the page after the last company', () => {
+      mockCompanyService.performOperation.and.returnValue({
+        results: [],
+        startIndex: 500,
+        totalResultSetSize: 600,
+      });
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.getChildPublisherCompanies(1234, 500)).toEqual([]);
+      expect(mockCompanyService.performOperation).toHaveBeenCalledOnceWith(
+        'getCompaniesByStatement',
+        {
+          query:
+            'WHERE (type = :type) AND id > :lastId ORDER BY id ASC LIMIT 500',
+          values: [
+            {
+              key: 'type',
+              value: {'xsi:type': 'TextValue', value: 'CHILD_PUBLISHER'},
+            },
+            {
+              key: 'lastId',
+              value: {'xsi:type': 'NumberValue', value: '1234'},
+            },
+          ],
+        },
+      );
+    });
+  });
+
+  describe('getTotalResultsForSitesStatement', () => {
     it('throws an error if the query contains limit', () => {
       const statement = {
         query: 'SELECT * FROM sites LIMIT 100',
       };
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
       expect(() => {
-        dataHandler.getStatementsAndTotalResultsForSitesStatement(statement);
+        dataHandler.getTotalResultsForSitesStatement(statement);
       }).toThrowError('Limit and offset are not supported');
     });
 
@@ -112,38 +280,158 @@ describe('DataHandler', () => {
       const statement = {
         query: 'SELECT * FROM sites OFFSET 100',
       };
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
       expect(() => {
-        dataHandler.getStatementsAndTotalResultsForSitesStatement(statement);
+        dataHandler.getTotalResultsForSitesStatement(statement);
       }).toThrowError('Limit and offset are not supported');
     });
 
-    it('returns a list of paginated statements and total results', () => {
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
-      const result = dataHandler.getStatementsAndTotalResultsForSitesStatement({
-        query: 'query',
+    it('throws an error if the query contains order by', () => {
+      const statement = {
+        query: 'WHERE status = 1 ORDER BY url',
+      };
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(() => {
+        dataHandler.getTotalResultsForSitesStatement(statement);
+      }).toThrowError('Order by is not supported');
+    });
+
+    it('returns the total results', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(
+        dataHandler.getTotalResultsForSitesStatement({query: 'query'}),
+      ).toBe(250);
+    });
+
+    it('throws a NoSitesFoundError if there are no results', () => {
+      mockSiteService.performOperation.and.returnValue({
+        results: [],
+        startIndex: 0,
+        totalResultSetSize: 0,
       });
-      expect(result.statements).toEqual([
-        {
-          query: 'query LIMIT 100 OFFSET 0',
-          values: undefined,
-        },
-        {
-          query: 'query LIMIT 100 OFFSET 100',
-          values: undefined,
-        },
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(() => {
+        dataHandler.getTotalResultsForSitesStatement({query: 'query'});
+      }).toThrowError(NoSitesFoundError);
+    });
+  });
+
+  describe('getSiteCount', () => {
+    it('returns the number of matching sites', () => {
+      mockSiteService.performOperation.and.returnValue({
+        results: [],
+        startIndex: 0,
+        totalResultSetSize: 0,
+      });
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(
+        dataHandler.getSiteCount({query: "WHERE approvalStatus = 'DRAFT'"}),
+      ).toBe(0);
+      expect(mockSiteService.performOperation).toHaveBeenCalledOnceWith(
+        'getSitesByStatement',
+        {query: "WHERE approvalStatus = 'DRAFT' LIMIT 1", values: undefined},
+      );
+    });
+
+    it('retries the request if it fails', () => {
+      mockSiteService.performOperation.and.callFake(() => {
+        if (mockSiteService.performOperation.calls.count() === 1) {
+          throw new Error('Address unavailable');
+        }
+        return {results: [], startIndex: 0, totalResultSetSize: 7};
+      });
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.getSiteCount({query: ''})).toBe(7);
+      expect(mockSiteService.performOperation).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getSitesAfterId', () => {
+    it('requests the sites after the last ID ordered by ID', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      dataHandler.getSitesAfterId({query: ''}, 123, 100);
+      expect(mockSiteService.performOperation).toHaveBeenCalledOnceWith(
+        'getSitesByStatement',
         {
-          query: 'query LIMIT 100 OFFSET 200',
-          values: undefined,
+          query: 'WHERE id > :lastId ORDER BY id ASC LIMIT 100',
+          values: [
+            {
+              key: 'lastId',
+              value: {'xsi:type': 'NumberValue', value: '123'},
+            },
+          ],
         },
-      ]);
-      expect(result.totalResults).toBe(250);
+      );
+    });
+
+    it('combines the cursor with the conditions of the query', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      dataHandler.getSitesAfterId(
+        {query: "where childNetworkCode = '' OR url = 'a'"},
+        0,
+        100,
+      );
+      expect(mockSiteService.performOperation).toHaveBeenCalledOnceWith(
+        'getSitesByStatement',
+        jasmine.objectContaining({
+          query:
+            "WHERE (childNetworkCode = '' OR url = 'a') AND id > :lastId " +
+            'ORDER BY id ASC LIMIT 100',
+        }),
+      );
+    });
+
+    it('throws an error for queries without a WHERE clause', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(() => {
+        dataHandler.getSitesAfterId({query: 'query'}, 0, 100);
+      }).toThrowError('Only WHERE clauses are supported');
     });
   });
 
   describe('getSites', () => {
     it('calls getSitesByStatement with the provided statement', () => {
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
       const statement = {
         query: 'query',
       };
@@ -170,9 +458,135 @@ describe('DataHandler', () => {
           };
         }
       });
-      const dataHandler = new DataHandler(mockSiteService, mockCompanyService);
-      dataHandler.getSites({query: 'query'}, 1);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      dataHandler.getSites({query: 'query'});
       expect(mockSiteService.performOperation).toHaveBeenCalledTimes(2);
+      expect(sleeper).toHaveBeenCalledTimes(1);
+    });
+
+    it("doesn't retry the request if it fails with a fatal error", () => {
+      mockSiteService.performOperation.and.throwError(
+        new Error('Site IDs must be integers'),
+      );
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(() => dataHandler.getSites({query: 'query'})).toThrowError(
+        'Site IDs must be integers',
+      );
+      expect(mockSiteService.performOperation).toHaveBeenCalledTimes(1);
+      expect(sleeper).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('performSiteAction', () => {
+    it('calls performSiteAction with a statement for the site IDs', () => {
+      mockSiteService.performOperation.and.returnValue({numChanges: 2});
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.performSiteAction('DeactivateSite', [1, 2])).toBe(2);
+      expect(mockSiteService.performOperation).toHaveBeenCalledOnceWith(
+        'performSiteAction',
+        {'xsi:type': 'DeactivateSite'},
+        {
+          query: 'WHERE id IN (:id, :id2)',
+          values: [
+            {key: 'id', value: {'xsi:type': 'NumberValue', value: '1'}},
+            {key: 'id2', value: {'xsi:type': 'NumberValue', value: '2'}},
+          ],
+        },
+      );
+    });
+
+    it('does not call the API when there are no site IDs', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.performSiteAction('DeactivateSite', [])).toBe(0);
+      expect(mockSiteService.performOperation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findSitesByUrl', () => {
+    it('queries sites by URL', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      dataHandler.findSitesByUrl(['example.com', "it's.example.com"]);
+      expect(mockSiteService.performOperation).toHaveBeenCalledOnceWith(
+        'getSitesByStatement',
+        {
+          query: 'WHERE url IN (:url, :url2)',
+          values: [
+            {
+              key: 'url',
+              value: {'xsi:type': 'TextValue', value: 'example.com'},
+            },
+            {
+              key: 'url2',
+              value: {'xsi:type': 'TextValue', value: "it's.example.com"},
+            },
+          ],
+        },
+      );
+    });
+
+    it('returns an empty list when no URLs are provided', () => {
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.findSitesByUrl([])).toEqual([]);
+      expect(mockSiteService.performOperation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSites', () => {
+    it('calls createSites with the provided sites', () => {
+      const sites = [{url: 'example.com', childNetworkCode: ''}];
+      mockSiteService.performOperation.and.returnValue([{id: 1, ...sites[0]}]);
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(dataHandler.createSites(sites)).toEqual([
+        {id: 1, ...sites[0]} as unknown as Site,
+      ]);
+      expect(mockSiteService.performOperation).toHaveBeenCalledOnceWith(
+        'createSites',
+        sites,
+      );
+    });
+
+    it("doesn't retry failed requests", () => {
+      mockSiteService.performOperation.and.throwError(
+        'Request failed: returned code 503',
+      );
+      const dataHandler = new DataHandler(
+        mockSiteService,
+        mockCompanyService,
+        retryPolicy,
+      );
+      expect(() =>
+        dataHandler.createSites([{url: 'example.com', childNetworkCode: ''}]),
+      ).toThrowError('Request failed: returned code 503');
+      expect(mockSiteService.performOperation).toHaveBeenCalledTimes(1);
+      expect(sleeper).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Summarizes the disapproval reasons of import sheets that have
+ * one row per disapproval reason.
+ */
+
+import {
+  REASON_HEADER,
+  REASON_TYPE_HEADER,
+  SITE_ID_HEADER,
+} from './site_columns';
+
+/**
+ * The number of sites with a disapproval reason type or reason.
+ */
+export interface ReasonCount {
+  // The reason type, or the reason as it was first seen for reasons.
+  label: string;
+  siteCount: number;
+}
+
+/**
+ * The number of sites per disapproval reason type and per reason.
+ */
+export interface ReasonSummary {
+  reasonTypes: ReasonCount[];
+  reasons: ReasonCount[];
+}
+
+/**
+ * Normalizes the text of a disapproval reason, so that reasons that only differ
+ * in case, whitespace or trailing punctuation are counted together.
+ * @param reason The text of the reason.
+ */
+export function normalizeReason(reason: string): string {
+  return reason
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.!]+$/, '');
+}
+
+/**
+ * The distinct sites per key, with the label shown for the key.
+ */
+type SitesByKey = Map<string, {label: string; siteIds: Set<string>}>;
+
+/**
+ * Adds a site to the sites of a key.
+ * @param sitesByKey The sites per key.
+ * @param key The key to add the site to.
+ * @param label The label of the key, kept from the first site.
+ * @param siteId The ID of the site.
+ */
+function addSite(
+  sitesByKey: SitesByKey,
+  key: string,
+  label: string,
+  siteId: string,
+) {
+  let entry = sitesByKey.get(key);
+  if (!entry) {
+    entry = {label, siteIds: new Set()};
+    sitesByKey.set(key, entry);
+  }
+  entry.siteIds.add(siteId);
+}
+
+/**
+ * Returns the number of sites per key, most frequent first.
+ * @param sitesByKey The sites per key.
+ */
+function getReasonCounts(sitesByKey: SitesByKey): ReasonCount[] {
+  return [...sitesByKey.values()]
+    .map(({label, siteIds}) => ({label, siteCount: siteIds.size}))
+    .sort((a, b) => b.siteCount - a.siteCount);
+}
+
+/**
+ * Counts the sites per disapproval reason type and per normalized reason.
+ * Columns are found by their headers.
+ * @param sheets The values of the sheets of an import, each including the
+ *     header row.
+ * @return The counts, most frequent first. Rows without a site ID are skipped.
+ */
+export function summarizeDisapprovalReasons(
+  sheets: unknown[][][],
+): ReasonSummary {
+  const reasonTypes: SitesByKey = new Map();
+  const reasons: SitesByKey = new Map();
+  for (const [headerRow, ...rows] of sheets) {
+    const headers = (headerRow ?? []).map(String);
+    const siteIdColumnIndex = headers.indexOf(SITE_ID_HEADER);
+    const reasonTypeColumnIndex = headers.indexOf(REASON_TYPE_HEADER);
+    const reasonColumnIndex = headers.indexOf(REASON_HEADER);
+    if (siteIdColumnIndex === -1) {
+      throw new Error(`Sheet has no "${SITE_ID_HEADER}" column.`);
+    }
+    const getValue = (row: unknown[], columnIndex: number) =>
+      columnIndex === -1 ? '' : String(row[columnIndex] ?? '').trim();
+    for (const row of rows) {
+      const siteId = getValue(row, siteIdColumnIndex);
+      if (!siteId) {
+        continue;
+      }
+      const reasonType = getValue(row, reasonTypeColumnIndex);
+      if (reasonType) {
+        addSite(reasonTypes, reasonType, reasonType, siteId);
+      }
+      const reason = getValue(row, reasonColumnIndex);
+      if (reason) {
+        addSite(reasons, normalizeReason(reason), reason, siteId);
+      }
+    }
+  }
+  return {
+    reasonTypes: getReasonCounts(reasonTypes),
+    reasons: getReasonCounts(reasons),
+  };
+}
+
+/**
+ * Creates the rows of a summary sheet: a table of the sites per reason type,
+ * followed by a table of the sites per reason.
+ * @param summary The summary of the disapproval reasons.
+ * @return An array of rows, each an array of strings.
+ */
+export function createReasonSummaryRows(summary: ReasonSummary): string[][] {
+  return [
+    [REASON_TYPE_HEADER, 'Sites'],
+    ...summary.reasonTypes.map(({label, siteCount}) => [
+      label,
+      String(siteCount),
+    ]),
+    ['', ''],
+    [REASON_HEADER, 'Sites'],
+    ...summary.reasons.map(({label, siteCount}) => [label, String(siteCount)]),
+  ];
+}
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createReasonSummaryRows,
+  normalizeReason,
+  summarizeDisapprovalReasons,
+} from './disapproval_reasons';
+
+describe('normalizeReason', () => {
+  it('ignores case, whitespace and trailing punctuation', () => {
+    expect(normalizeReason('  Site  is down.')).toBe('site is down');
+  });
+});
+
+describe('summarizeDisapprovalReasons', () => {
+  const headers = ['Site URL', 'Reason Type', 'Reason', 'Site ID'];
+
+  it('counts the sites per reason type and reason', () => {
+    expect(
+      summarizeDisapprovalReasons([
+        [
+          headers,
+          ['url1', 'Content', 'Site is down.', 1],
+          ['url1', 'Ownership', 'Not verified', 1],
+          ['url2', 'Content', 'site is down', 2],
+          ['url3', 'Content', 'Thin content', 3],
+        ],
+      ]),
+    ).toEqual({
+      reasonTypes: [
+        {label: 'Content', siteCount: 3},
+        {label: 'Ownership', siteCount: 1},
+      ],
+      reasons: [
+        {label: 'Site is down.', siteCount: 2},
+        {label: 'Not verified', siteCount: 1},
+        {label: 'Thin content', siteCount: 1},
+      ],
+    });
+  });
+
+  it('counts each site once per reason type', () => {
+    expect(
+      summarizeDisapprovalReasons([
+        [
+          headers,
+          ['url1', 'Content', 'reason 1', 1],
+          ['url1', 'Content', 'reason 2', 1],
+        ],
+      ]).reasonTypes,
+    ).toEqual([{label: 'Content', siteCount: 1}]);
+  });
+
+  it('combines the sheets of an import', () => {
+    expect(
+      summarizeDisapprovalReasons([
+        [headers, ['url1', 'Content', 'reason', 1]],
+        [headers, ['url2', 'Content', 'reason', 2]],
+      ]).reasonTypes,
+    ).toEqual([{label: 'Content', siteCount: 2}]);
+  });
+
+  it('skips rows without a reason or site ID', () => {
+    expect(
+      summarizeDisapprovalReasons([
+        [headers, ['url1', '', '', 1], ['url2', 'Content', 'reason', '']],
+      ]),
+    ).toEqual({reasonTypes: [], reasons: []});
+  });
+
+  it('throws an error if a sheet has no site ID column', () => {
+    expect(() => summarizeDisapprovalReasons([[['Reason']]])).toThrowError(
+      'Sheet has no "Site ID" column.',
+    );
+  });
+});
+
+describe('createReasonSummaryRows', () => {
+  it('creates a table per reason type and per reason', () => {
+    expect(
+      createReasonSummaryRows({
+        reasonTypes: [{label: 'Content', siteCount: 2}],
+        reasons: [{label: 'Site is down', siteCount: 2}],
+      }),
+    ).toEqual([
+      ['Reason Type', 'Sites'],
+      ['Content', '2'],
+      ['', ''],
+      ['Reason', 'Sites'],
+      ['Site is down', '2'],
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SavedQuery} from './saved_queries';
+
+/**
+ * Manages settings that are shared by all users of the spreadsheet.
+ */
+export class DocumentSettings {
+  private static readonly WEBHOOK_URLS_KEY = 'webhookUrls';
+  private static readonly SAVED_QUERIES_KEY = 'savedQueries';
+
+  constructor(
+    private readonly documentProperties = PropertiesService.getDocumentProperties(),
+  ) {}
+
+  /**
+   * Retrieves the URLs of the webhooks that are notified about imports.
+   */
+  get webhookUrls(): string[] {
+    const webhookUrls = this.documentProperties.getProperty(
+      DocumentSettings.WEBHOOK_URLS_KEY,
+    );
+    return webhookUrls ? (JSON.parse(webhookUrls) as string[]) : [];
+  }
+
+  /**
+   * Configures the URLs of the webhooks that are notified about imports.
+   *
+   * @param webhookUrls The URLs, or an empty list to remove all webhooks.
+   */
+  set webhookUrls(webhookUrls: string[]) {
+    if (webhookUrls.length) {
+      this.documentProperties.setProperty(
+        DocumentSettings.WEBHOOK_URLS_KEY,
+        JSON.stringify(webhookUrls),
+      );
+    } else {
+      this.documentProperties.deleteProperty(DocumentSettings.WEBHOOK_URLS_KEY);
+    }
+  }
+
+  /**
+   * Retrieves the saved queries, in the order of the menu.
+   */
+  get savedQueries(): SavedQuery[] {
+    const savedQueries = this.documentProperties.getProperty(
+      DocumentSettings.SAVED_QUERIES_KEY,
+    );
+    return savedQueries ? (JSON.parse(savedQueries) as SavedQuery[]) : [];
+  }
+
+  /**
+   * Configures the saved queries.
+   *
+   * @param savedQueries The saved queries, or an empty list to remove all
+   *     saved queries.
+   */
+  set savedQueries(savedQueries: SavedQuery[]) {
+    if (savedQueries.length) {
+      this.documentProperties.setProperty(
+        DocumentSettings.SAVED_QUERIES_KEY,
+        JSON.stringify(savedQueries),
+      );
+    } else {
+      this.documentProperties.deleteProperty(
+        DocumentSettings.SAVED_QUERIES_KEY,
+      );
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SiteImportOutputFormat} from './app';
+import {DocumentSettings} from './document_settings';
+
+describe('DocumentSettings', () => {
+  let mockDocumentProperties: jasmine.SpyObj<GoogleAppsScript.Properties.Properties>;
+
+  beforeEach(() => {
+    mockDocumentProperties = jasmine.createSpyObj('DocumentProperties', [
+      'getProperty',
+      'setProperty',
+      'deleteProperty',
+    ]);
+  });
+
+  describe('webhookUrls', () => {
+    it('returns an empty list when no property is set', () => {
+      mockDocumentProperties.getProperty.and.returnValue(null);
+      const settings = new DocumentSettings(mockDocumentProperties);
+      expect(settings.webhookUrls).toEqual([]);
+    });
+
+    it('returns the URLs when set', () => {
+      mockDocumentProperties.getProperty.and.returnValue(
+        '["https://example.com/hook"]',
+      );
+      const settings = new DocumentSettings(mockDocumentProperties);
+      expect(settings.webhookUrls).toEqual(['https://example.com/hook']);
+    });
+
+    it('saves property when set', () => {
+      const settings = new DocumentSettings(mockDocumentProperties);
+      settings.webhookUrls = ['https://example.com/hook'];
+      expect(mockDocumentProperties.setProperty).toHaveBeenCalledOnceWith(
+        'webhookUrls',
+        '["https://example.com/hook"]',
+      );
+    });
+
+    it('deletes property when set to an empty list', () => {
+      const settings = new DocumentSettings(mockDocumentProperties);
+      settings.webhookUrls = [];
+      expect(mockDocumentProperties.deleteProperty).toHaveBeenCalledOnceWith(
+        'webhookUrls',
+      );
+    });
+  });
+
+  describe('savedQueries', () => {
+    const savedQuery = {
+      name: 'Disapproved',
+      filters: {
+        approvalStatuses: ['DISAPPROVED' as const],
+        childNetworkCodes: [],
+        urlContains: '',
+        approvalStatusDateFrom: '',
+        approvalStatusDateTo: '',
+      },
+      outputFormat: SiteImportOutputFormat.COMBINED,
+      columns: null,
+    };
+
+    it('returns an empty list when no property is set', () => {
+      mockDocumentProperties.getProperty.and.returnValue(null);
+      const settings = new DocumentSettings(mockDocumentProperties);
+      expect(settings.savedQueries).toEqual([]);
+    });
+
+    it('saves property when set', () => {
+      const settings = new DocumentSettings(mockDocumentProperties);
+      settings.savedQueries = [savedQuery];
+      expect(mockDocumentProperties.setProperty).toHaveBeenCalledOnceWith(
+        'savedQueries',
+        JSON.stringify([savedQuery]),
+      );
+    });
+
+    it('deletes property when set to an empty list', () => {
+      const settings = new DocumentSettings(mockDocumentProperties);
+      settings.savedQueries = [];
+      expect(mockDocumentProperties.deleteProperty).toHaveBeenCalledOnceWith(
+        'savedQueries',
+      );
+    });
+  });
+});
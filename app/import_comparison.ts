@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Reads sites back from import sheets and compares two imports.
+ */
+
+/**
+ * A site as read back from an import sheet.
+ */
+export interface ImportedSite {
+  siteId: string;
+  url: string;
+  // Empty for first party sites.
+  childNetworkCode: string;
+  approvalStatus: string;
+  disapprovalReasons: string[];
+  // The labels of the disapproval reason types, e.g. "Ownership". Empty if the
+  // sheet has no reason types column.
+  disapprovalReasonTypes: string[];
+}
+
+/**
+ * A difference between two imports for a single site.
+ */
+export interface SiteChange {
+  type: 'ADDED' | 'REMOVED' | 'CHANGED';
+  site: ImportedSite;
+  // The site in the baseline import. Null for added sites.
+  previousSite: ImportedSite | null;
+  addedDisapprovalReasons: string[];
+  removedDisapprovalReasons: string[];
+}
+
+/**
+ * The headers of the columns that a sheet needs to be compared. Without them,
+ * changes of approval statuses and disapproval reasons would go unnoticed.
+ */
+const REQUIRED_HEADERS = ['Site ID', 'Approval Status', 'Status Details'];
+
+/**
+ * Parses the sites of an import sheet. Columns are found by their headers, so
+ * sheets of any output format can be read.
+ * @param values The values of the sheet, including the header row.
+ * @return The sites in the sheet. Rows without a site ID are skipped.
+ * @throws An error if a required column is missing.
+ */
+export function parseImportedSites(values: unknown[][]): ImportedSite[] {
+  const [headerRow, ...rows] = values;
+  const headers = (headerRow ?? []).map(String);
+  for (const header of REQUIRED_HEADERS) {
+    if (!headers.includes(header)) {
+      throw new Error(`Sheet has no "${header}" column.`);
+    }
+  }
+  const siteIdColumnIndex = headers.indexOf('Site ID');
+  const urlColumnIndex = headers.indexOf('Site URL');
+  const childPublisherColumnIndex = headers.indexOf('Child Publisher');
+  const childNetworkCodeColumnIndex = headers.indexOf('Child Network Code');
+  const approvalStatusColumnIndex = headers.indexOf('Approval Status');
+  const statusDetailsColumnIndex = headers.indexOf('Status Details');
+  const reasonTypesColumnIndex = headers.indexOf('Reason Types');
+  const getValue = (row: unknown[], columnIndex: number) =>
+    columnIndex === -1 ? '' : String(row[columnIndex] ?? '').trim();
+  return rows
+    .filter((row) => getValue(row, siteIdColumnIndex))
+    .map((row) => {
+      // Child publishers are written as "Name (childNetworkCode)".
+      const childNetworkCodeMatch = getValue(
+        row,
+        childPublisherColumnIndex,
+      ).match(/\((\d+)\)$/);
+      const statusDetails = getValue(row, statusDetailsColumnIndex);
+      const reasonTypes = getValue(row, reasonTypesColumnIndex);
+      return {
+        siteId: getValue(row, siteIdColumnIndex),
+        url: getValue(row, urlColumnIndex),
+        childNetworkCode:
+          childNetworkCodeMatch?.[1] ??
+          getValue(row, childNetworkCodeColumnIndex),
+        approvalStatus: getValue(row, approvalStatusColumnIndex),
+        disapprovalReasons: statusDetails ? statusDetails.split(', ') : [],
+        disapprovalReasonTypes: reasonTypes ? reasonTypes.split(', ') : [],
+      };
+    });
+}
+
+/**
+ * Compares two imports of sites, keyed by site ID.
+ * @param baselineSites The sites of the earlier import.
+ * @param comparisonSites The sites of the later import.
+ * @return The changes between the imports: added sites, followed by removed
+ *     sites, followed by sites whose approval status or disapproval reasons
+ *     changed.
+ */
+export function compareImportedSites(
+  baselineSites: ImportedSite[],
+  comparisonSites: ImportedSite[],
+): SiteChange[] {
+  const baselineSitesById = new Map(
+    baselineSites.map((site) => [site.siteId, site]),
+  );
+  const comparisonSiteIds = new Set(comparisonSites.map(({siteId}) => siteId));
+  const added: SiteChange[] = [];
+  const changed: SiteChange[] = [];
+  for (const site of comparisonSites) {
+    const previousSite = baselineSitesById.get(site.siteId);
+    if (!previousSite) {
+      added.push({
+        type: 'ADDED',
+        site,
+        previousSite: null,
+        addedDisapprovalReasons: site.disapprovalReasons,
+        removedDisapprovalReasons: [],
+      });
+      continue;
+    }
+    const addedDisapprovalReasons = site.disapprovalReasons.filter(
+      (reason) => !previousSite.disapprovalReasons.includes(reason),
+    );
+    const removedDisapprovalReasons = previousSite.disapprovalReasons.filter(
+      (reason) => !site.disapprovalReasons.includes(reason),
+    );
+    if (
+      site.approvalStatus !== previousSite.approvalStatus ||
+      addedDisapprovalReasons.length ||
+      removedDisapprovalReasons.length
+    ) {
+      changed.push({
+        type: 'CHANGED',
+        site,
+        previousSite,
+        addedDisapprovalReasons,
+        removedDisapprovalReasons,
+      });
+    }
+  }
+  const removed: SiteChange[] = baselineSites
+    .filter(({siteId}) => !comparisonSiteIds.has(siteId))
+    .map((site) => ({
+      type: 'REMOVED',
+      site,
+      previousSite: site,
+      addedDisapprovalReasons: [],
+      removedDisapprovalReasons: site.disapprovalReasons,
+    }));
+  return [...added, ...removed, ...changed];
+}
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  compareImportedSites,
+  ImportedSite,
+  parseImportedSites,
+} from './import_comparison';
+
+describe('parseImportedSites', () => {
+  it('parses sites by their column headers', () => {
+    expect(
+      parseImportedSites([
+        [
+          'Site URL',
+          'Child Publisher',
+          'Approval Status',
+          'Status Details',
+          'Site ID',
+        ],
+        ['url1', 'Child (1234)', 'Needs attention', 'reason 1, reason 2', 1],
+        ['url2', '[First Party]', 'Ready', '', 2],
+      ]),
+    ).toEqual([
+      {
+        siteId: '1',
+        url: 'url1',
+        childNetworkCode: '1234',
+        approvalStatus: 'Needs attention',
+        disapprovalReasons: ['reason 1', 'reason 2'],
+        disapprovalReasonTypes: [],
+      },
+      {
+        siteId: '2',
+        url: 'url2',
+        childNetworkCode: '',
+        approvalStatus: 'Ready',
+        disapprovalReasons: [],
+        disapprovalReasonTypes: [],
+      },
+    ]);
+  });
+
+  it('reads the child network code from its own column', () => {
+    expect(
+      parseImportedSites([
+        ['Site ID', 'Approval Status', 'Status Details', 'Child Network Code'],
+        [1, 'Ready', '', '1234'],
+      ])[0].childNetworkCode,
+    ).toBe('1234');
+  });
+
+  it('parses the disapproval reason types', () => {
+    expect(
+      parseImportedSites([
+        ['Site ID', 'Approval Status', 'Status Details', 'Reason Types'],
+        [1, 'Needs attention', '', 'Content, Ownership'],
+      ])[0].disapprovalReasonTypes,
+    ).toEqual(['Content', 'Ownership']);
+  });
+
+  it('skips rows without a site ID', () => {
+    expect(
+      parseImportedSites([
+        ['Site URL', 'Site ID', 'Approval Status', 'Status Details'],
+        ['url1', '', 'Ready', ''],
+      ]),
+    ).toEqual([]);
+  });
+
+  it('throws an error if the sheet has no site ID column', () => {
+    expect(() => parseImportedSites([['Site URL']])).toThrowError(
+      'Sheet has no "Site ID" column.',
+    );
+  });
+
+  it('throws an error if the sheet has no approval status column', () => {
+    expect(() =>
+      parseImportedSites([['Site ID', 'Status Details']]),
+    ).toThrowError('Sheet has no "Approval Status" column.');
+  });
+});
+
+describe('compareImportedSites', () => {
+  const createSite = (
+    siteId: string,
+    approvalStatus = 'Ready',
+    disapprovalReasons: string[] = [],
+  ): ImportedSite => ({
+    siteId,
+    url: `url${siteId}`,
+    childNetworkCode: '',
+    approvalStatus,
+    disapprovalReasons,
+    disapprovalReasonTypes: [],
+  });
+
+  it('returns added sites', () => {
+    const site = createSite('2');
+    expect(
+      compareImportedSites([createSite('1')], [createSite('1'), site]),
+    ).toEqual([
+      {
+        type: 'ADDED',
+        site,
+        previousSite: null,
+        addedDisapprovalReasons: [],
+        removedDisapprovalReasons: [],
+      },
+    ]);
+  });
+
+  it('returns removed sites', () => {
+    const site = createSite('2', 'Needs attention', ['reason']);
+    expect(
+      compareImportedSites([createSite('1'), site], [createSite('1')]),
+    ).toEqual([
+      {
+        type: 'REMOVED',
+        site,
+        previousSite: site,
+        addedDisapprovalReasons: [],
+        removedDisapprovalReasons: ['reason'],
+      },
+    ]);
+  });
+
+  it('returns approval status and disapproval reason changes', () => {
+    const previousSite = createSite('1', 'Ready');
+    const site = createSite('1', 'Needs attention', ['reason']);
+    expect(compareImportedSites([previousSite], [site])).toEqual([
+      {
+        type: 'CHANGED',
+        site,
+        previousSite,
+        addedDisapprovalReasons: ['reason'],
+        removedDisapprovalReasons: [],
+      },
+    ]);
+  });
+
+  it('ignores unchanged sites', () => {
+    expect(
+      compareImportedSites(
+        [createSite('1', 'Needs attention', ['reason'])],
+        [createSite('1', 'Needs attention', ['reason'])],
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Builds the dashboard of an import sheet. The counts are
+ * formulas that reference the import sheets, so that they stay up to date when
+ * the sheets are refreshed or edited.
+ */
+
+import {
+  APPROVAL_STATUS_HEADER,
+  APPROVAL_STATUS_LABELS,
+  CHILD_PUBLISHER_HEADER,
+  DISAPPROVAL_REASON_TYPE_LABELS,
+  FIRST_PARTY_LABEL,
+  formatChildPublisher,
+  REASON_TYPES_HEADER,
+  SITE_ID_HEADER,
+} from './site_columns';
+import {ChildPublisherMap} from './user_settings';
+
+/**
+ * A chart of a dashboard table.
+ */
+export interface DashboardChart {
+  type: 'PIE' | 'BAR' | 'COLUMN';
+  title: string;
+  // The range of the chart data on the dashboard, including the header row.
+  range: string;
+}
+
+/**
+ * The cells and charts of a dashboard sheet.
+ */
+export interface ImportDashboard {
+  rows: string[][];
+  charts: DashboardChart[];
+}
+
+const NEEDS_ATTENTION_LABEL = 'Needs attention';
+const DASHBOARD_COLUMNS = 3;
+// Charts only show the first rows of long tables, e.g. the child publishers
+// with the most sites needing attention.
+const MAX_CHART_ROWS = 10;
+
+/**
+ * Returns the letter of a column, e.g. "C" for the column at index 2.
+ * @param columnIndex The 0-based index of the column.
+ */
+function getColumnLetter(columnIndex: number): string {
+  let letter = '';
+  for (let n = columnIndex + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * Returns a formula reference to the values of a column, excluding its header.
+ * @param sheetTitle The title of the sheet.
+ * @param columnIndex The 0-based index of the column.
+ */
+function getColumnReference(sheetTitle: string, columnIndex: number): string {
+  const column = getColumnLetter(columnIndex);
+  return `'${sheetTitle.replace(/'/g, "''")}'!${column}2:${column}`;
+}
+
+/**
+ * Returns a formula string literal that matches a value exactly in `COUNTIF`,
+ * without treating it as a wildcard pattern or comparison.
+ * @param value The value to match.
+ */
+function toCriterion(value: string): string {
+  const escapedValue = value.replace(/[~*?]/g, '~$&').replace(/"/g, '""');
+  return `"=${escapedValue}"`;
+}
+
+/**
+ * Returns the labels of the child publishers of an import, in the order in
+ * which they are shown on the dashboard: most sites needing attention first,
+ * then most sites. Child publishers without sites are left out.
+ * @param sheets The values of the sheets of the import, each including the
+ *     header row.
+ * @param childPublisherColumnIndex The index of the child publisher column.
+ * @param statusColumnIndex The index of the approval status column, or -1.
+ * @param childPublishers A map of child publishers.
+ */
+function getChildPublisherLabels(
+  sheets: unknown[][][],
+  childPublisherColumnIndex: number,
+  statusColumnIndex: number,
+  childPublishers: ChildPublisherMap,
+): string[] {
+  const counts = new Map<string, {sites: number; needsAttention: number}>();
+  for (const childNetworkCode of Object.keys(childPublishers)) {
+    counts.set(formatChildPublisher(childNetworkCode, childPublishers), {
+      sites: 0,
+      needsAttention: 0,
+    });
+  }
+  for (const [, ...rows] of sheets) {
+    for (const row of rows) {
+      const label = String(row[childPublisherColumnIndex] ?? '').trim();
+      if (!label || label === FIRST_PARTY_LABEL) {
+        continue;
+      }
+      // Children that are not in the map are still counted, e.g. if their name
+      // could not be found.
+      const count = counts.get(label) ?? {sites: 0, needsAttention: 0};
+      count.sites++;
+      if (
+        statusColumnIndex !== -1 &&
+        row[statusColumnIndex] === NEEDS_ATTENTION_LABEL
+      ) {
+        count.needsAttention++;
+      }
+      counts.set(label, count);
+    }
+  }
+  return [...counts.entries()]
+    .filter(([, count]) => count.sites > 0)
+    .sort(
+      ([, a], [, b]) =>
+        b.needsAttention - a.needsAttention || b.sites - a.sites,
+    )
+    .map(([label]) => label);
+}
+
+/**
+ * Creates the dashboard of an import. Tables are only added if the import has
+ * the columns they are based on. Counts are formulas that add up all sheets of
+ * the import.
+ * @param sheetTitles The titles of the sheets of the import.
+ * @param sheets The values of the sheets of the import, each including the
+ *     header row. Used to find the columns and to order the child publishers.
+ * @param childPublishers A map of child publishers.
+ * @return The rows and charts of the dashboard.
+ */
+export function createImportDashboard(
+  sheetTitles: string[],
+  sheets: unknown[][][],
+  childPublishers: ChildPublisherMap,
+): ImportDashboard {
+  const headers = (sheets[0]?.[0] ?? []).map(String);
+  const siteIdColumnIndex = headers.indexOf(SITE_ID_HEADER);
+  const statusColumnIndex = headers.indexOf(APPROVAL_STATUS_HEADER);
+  const childPublisherColumnIndex = headers.indexOf(CHILD_PUBLISHER_HEADER);
+  const reasonTypesColumnIndex = headers.indexOf(REASON_TYPES_HEADER);
+  if (siteIdColumnIndex === -1) {
+    throw new Error(`Sheet has no "${SITE_ID_HEADER}" column.`);
+  }
+  const sum = (
+    createExpression: (range: (columnIndex: number) => string) => string,
+  ) =>
+    sheetTitles
+      .map((sheetTitle) =>
+        createExpression((columnIndex) =>
+          getColumnReference(sheetTitle, columnIndex),
+        ),
+      )
+      .join('+');
+  const siteCount = sum((range) => `COUNTA(${range(siteIdColumnIndex)})`);
+  const countIf = (columnIndex: number, criterion: string) =>
+    sum((range) => `COUNTIF(${range(columnIndex)},${criterion})`);
+
+  const rows: string[][] = [];
+  const charts: DashboardChart[] = [];
+  const addTable = (
+    header: string[],
+    tableRows: string[][],
+    chart?: Omit<DashboardChart, 'range'>,
+  ) => {
+    if (rows.length) {
+      rows.push(new Array(DASHBOARD_COLUMNS).fill(''));
+    }
+    const headerRow = rows.length + 1;
+    for (const row of [header, ...tableRows]) {
+      rows.push([
+        ...row,
+        ...new Array(DASHBOARD_COLUMNS - row.length).fill(''),
+      ]);
+    }
+    if (chart && tableRows.length) {
+      const lastRow = headerRow + Math.min(tableRows.length, MAX_CHART_ROWS);
+      const lastColumn = getColumnLetter(header.length - 1);
+      charts.push({...chart, range: `A${headerRow}:${lastColumn}${lastRow}`});
+    }
+  };
+
+  addTable(['Total Sites', `=${siteCount}`], []);
+  if (statusColumnIndex !== -1) {
+    addTable(
+      ['Approval Status', 'Sites'],
+      APPROVAL_STATUS_LABELS.map((label) => [
+        label,
+        `=${countIf(statusColumnIndex, toCriterion(label))}`,
+      ]),
+      {type: 'PIE', title: 'Sites per Approval Status'},
+    );
+  }
+  if (childPublisherColumnIndex !== -1) {
+    const firstPartyCount = countIf(
+      childPublisherColumnIndex,
+      toCriterion(FIRST_PARTY_LABEL),
+    );
+    addTable(
+      [
+        'First Party Share',
+        `=TEXT(IFERROR((${firstPartyCount})/(${siteCount}),0),"0%")`,
+      ],
+      [],
+    );
+    const needsAttention = toCriterion(NEEDS_ATTENTION_LABEL);
+    addTable(
+      statusColumnIndex === -1
+        ? ['Child Publisher', 'Sites']
+        : ['Child Publisher', 'Sites', 'Needs Attention'],
+      getChildPublisherLabels(
+        sheets,
+        childPublisherColumnIndex,
+        statusColumnIndex,
+        childPublishers,
+      ).map((label) => {
+        const criterion = toCriterion(label);
+        const row = [
+          label,
+          `=${countIf(childPublisherColumnIndex, criterion)}`,
+        ];
+        if (statusColumnIndex !== -1) {
+          row.push(
+            '=' +
+              sum(
+                (range) =>
+                  `COUNTIFS(${range(childPublisherColumnIndex)},${criterion},` +
+                  `${range(statusColumnIndex)},${needsAttention})`,
+              ),
+          );
+        }
+        return row;
+      }),
+      {type: 'BAR', title: 'Child Publishers'},
+    );
+  }
+  if (reasonTypesColumnIndex !== -1) {
+    addTable(
+      ['Disapproval Reason Type', 'Sites'],
+      Object.values(DISAPPROVAL_REASON_TYPE_LABELS).map((label) => [
+        label,
+        `=${countIf(reasonTypesColumnIndex, `"*${label}*"`)}`,
+      ]),
+      {type: 'COLUMN', title: 'Sites per Disapproval Reason Type'},
+    );
+  }
+  return {rows, charts};
+}
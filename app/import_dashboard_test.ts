@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createImportDashboard} from './import_dashboard';
+import {ChildPublisherMap} from './user_settings';
+
+describe('createImportDashboard', () => {
+  const childPublishers: ChildPublisherMap = {
+    '1': {id: '1', name: 'Child 1', childNetworkCode: '1'},
+    '2': {id: '2', name: 'Child 2', childNetworkCode: '2'},
+    '3': {id: '3', name: 'Child 3', childNetworkCode: '3'},
+  };
+
+  it('counts the sites of all sheets', () => {
+    const dashboard = createImportDashboard(
+      ['Sites', 'Sites (Part 2)'],
+      [[['Site URL', 'Site ID']], [['Site URL', 'Site ID']]],
+      childPublishers,
+    );
+    expect(dashboard).toEqual({
+      rows: [
+        [
+          'Total Sites',
+          "=COUNTA('Sites'!B2:B)+COUNTA('Sites (Part 2)'!B2:B)",
+          '',
+        ],
+      ],
+      charts: [],
+    });
+  });
+
+  it('counts the sites per approval status', () => {
+    const dashboard = createImportDashboard(
+      ["Bob's Sites"],
+      [[['Approval Status', 'Site ID']]],
+      childPublishers,
+    );
+    expect(dashboard.rows.slice(2, 4)).toEqual([
+      ['Approval Status', 'Sites', ''],
+      ['Ready', `=COUNTIF('Bob''s Sites'!A2:A,"=Ready")`, ''],
+    ]);
+    expect(dashboard.charts).toEqual([
+      {type: 'PIE', title: 'Sites per Approval Status', range: 'A3:B9'},
+    ]);
+  });
+
+  it('orders the child publishers by sites needing attention', () => {
+    const dashboard = createImportDashboard(
+      ['Sites'],
+      [
+        [
+          ['Site ID', 'Child Publisher', 'Approval Status'],
+          [1, 'Child 1 (1)', 'Ready'],
+          [2, 'Child 1 (1)', 'Ready'],
+          [3, 'Child 2 (2)', 'Needs attention'],
+          [4, '[Child Publisher Name Not Found] (4)', 'Ready'],
+          [5, '[First Party]', 'Needs attention'],
+        ],
+      ],
+      childPublishers,
+    );
+    const childPublisherRows = dashboard.rows.slice(12);
+    expect(childPublisherRows.map(([label]) => label)).toEqual([
+      'Child Publisher',
+      'Child 2 (2)',
+      'Child 1 (1)',
+      '[Child Publisher Name Not Found] (4)',
+    ]);
+    expect(childPublisherRows[1]).toEqual([
+      'Child 2 (2)',
+      `=COUNTIF('Sites'!B2:B,"=Child 2 (2)")`,
+      `=COUNTIFS('Sites'!B2:B,"=Child 2 (2)",'Sites'!C2:C,"=Needs attention")`,
+    ]);
+    expect(dashboard.charts[1]).toEqual({
+      type: 'BAR',
+      title: 'Child Publishers',
+      range: 'A13:C16',
+    });
+  });
+
+  it('shows the share of first party sites', () => {
+    const dashboard = createImportDashboard(
+      ['Sites'],
+      [[['Site ID', 'Child Publisher']]],
+      childPublishers,
+    );
+    expect(dashboard.rows[2]).toEqual([
+      'First Party Share',
+      `=TEXT(IFERROR((COUNTIF('Sites'!B2:B,"=[First Party]"))/` +
+        `(COUNTA('Sites'!A2:A)),0),"0%")`,
+      '',
+    ]);
+  });
+
+  it('counts the sites per disapproval reason type', () => {
+    const dashboard = createImportDashboard(
+      ['Sites'],
+      [[['Site ID', 'Reason Types']]],
+      childPublishers,
+    );
+    expect(dashboard.rows.slice(2, 4)).toEqual([
+      ['Disapproval Reason Type', 'Sites', ''],
+      ['Content', `=COUNTIF('Sites'!B2:B,"*Content*")`, ''],
+    ]);
+    expect(dashboard.charts).toEqual([
+      {
+        type: 'COLUMN',
+        title: 'Sites per Disapproval Reason Type',
+        range: 'A3:B7',
+      },
+    ]);
+  });
+
+  it('throws an error if the import has no site ID column', () => {
+    expect(() =>
+      createImportDashboard(['Sites'], [[['Site URL']]], childPublishers),
+    ).toThrowError('Sheet has no "Site ID" column.');
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Keeps a history of the approval statuses of imported sites, so
+ * that their trends can be shown. Each completed import adds a snapshot to the
+ * history sheet: a row with the counts of the whole import, followed by a row
+ * per child publisher if the user turned on child publisher trends.
+ */
+
+import {Site} from './typings/ad_manager_api';
+
+/**
+ * The title of the hidden sheet that holds the snapshots of all imports.
+ */
+export const IMPORT_HISTORY_SHEET_TITLE = 'Import History';
+
+/**
+ * The approval statuses that are counted, in the order of the count columns.
+ */
+const SNAPSHOT_APPROVAL_STATUSES: Array<Site['approvalStatus']> = [
+  'APPROVED',
+  'DISAPPROVED',
+  'REQUIRES_REVIEW',
+  'UNCHECKED',
+  'DRAFT',
+  'UNKNOWN',
+];
+
+/**
+ * The headers of the count columns, one per approval status.
+ */
+const APPROVAL_STATUS_COUNT_HEADERS = [
+  'Approved',
+  'Disapproved',
+  'Requires Review',
+  'Unchecked',
+  'Draft',
+  'Unknown',
+];
+
+/**
+ * The headers of the history sheet.
+ */
+export const IMPORT_HISTORY_HEADERS = [
+  'Timestamp',
+  'Network Code',
+  'Query',
+  'Child Network Code',
+  'Total',
+  ...APPROVAL_STATUS_COUNT_HEADERS,
+];
+
+/**
+ * The number of sites per approval status, in the order of
+ * `SNAPSHOT_APPROVAL_STATUSES`.
+ */
+export type StatusCounts = number[];
+
+/**
+ * The counts of an import per child publisher. Their size grows with the
+ * number of child publishers, so they are cached rather than stored with the
+ * import job.
+ */
+export interface ChildSiteCounts {
+  // Keyed by child network code. First party sites aren't counted.
+  children: {[childNetworkCode: string]: StatusCounts};
+  // The number of imported sites that were counted, so that counts that are
+  // incomplete, e.g. because they were evicted from the cache, are noticed.
+  countedResults: number;
+}
+
+/**
+ * Returns counts of zero for each approval status.
+ */
+function createStatusCounts(): StatusCounts {
+  return new Array<number>(SNAPSHOT_APPROVAL_STATUSES.length).fill(0);
+}
+
+/**
+ * Returns the index of the count of a site's approval status.
+ * @param site The site.
+ */
+function getStatusIndex(site: Site): number {
+  const statusIndex = SNAPSHOT_APPROVAL_STATUSES.indexOf(site.approvalStatus);
+  return statusIndex === -1
+    ? SNAPSHOT_APPROVAL_STATUSES.indexOf('UNKNOWN')
+    : statusIndex;
+}
+
+/**
+ * Adds sites to the counts of an import.
+ * @param counts The counts so far, if any.
+ * @param sites The sites to add.
+ * @return The updated counts.
+ */
+export function countSites(
+  counts: StatusCounts | undefined,
+  sites: Site[],
+): StatusCounts {
+  const result = counts ?? createStatusCounts();
+  for (const site of sites) {
+    result[getStatusIndex(site)]++;
+  }
+  return result;
+}
+
+/**
+ * Adds sites to the counts of an import per child publisher.
+ * @param counts The counts so far, or null for the first sites of an import.
+ * @param sites The sites to add.
+ * @return The updated counts.
+ */
+export function countChildSites(
+  counts: ChildSiteCounts | null,
+  sites: Site[],
+): ChildSiteCounts {
+  const result = counts ?? {children: {}, countedResults: 0};
+  for (const site of sites) {
+    if (site.childNetworkCode) {
+      result.children[site.childNetworkCode] ??= createStatusCounts();
+      result.children[site.childNetworkCode][getStatusIndex(site)]++;
+    }
+  }
+  result.countedResults += sites.length;
+  return result;
+}
+
+/**
+ * Returns the total counts of an import keyed by approval status.
+ * @param counts The counts of the imported sites, if any.
+ * @return The number of sites in total and per approval status.
+ */
+export function getApprovalStatusCounts(counts: StatusCounts | undefined): {
+  total: number;
+  [approvalStatus: string]: number;
+} {
+  const total = counts ?? [];
+  return {
+    total: total.reduce((sum, count) => sum + count, 0),
+    ...Object.fromEntries(
+      SNAPSHOT_APPROVAL_STATUSES.map((status, i) => [status, total[i] ?? 0]),
+    ),
+  };
+}
+
+/**
+ * Creates the history rows of a completed import.
+ * @param timestamp When the import completed.
+ * @param networkCode The network code the sites were imported from.
+ * @param query The query of the import.
+ * @param counts The counts of the imported sites.
+ * @param childCounts The counts per child publisher, if they are recorded.
+ * @return A row with the counts of the import, followed by a row per child
+ *     publisher, ordered by child network code.
+ */
+export function createSnapshotRows(
+  timestamp: Date,
+  networkCode: string,
+  query: string,
+  counts: StatusCounts,
+  childCounts: ChildSiteCounts['children'] = {},
+): string[][] {
+  const createRow = (childNetworkCode: string, statusCounts: number[]) => [
+    timestamp.toISOString(),
+    networkCode,
+    query,
+    childNetworkCode,
+    String(statusCounts.reduce((sum, count) => sum + count, 0)),
+    ...statusCounts.map(String),
+  ];
+  return [
+    createRow('', counts),
+    ...Object.keys(childCounts)
+      .sort()
+      .map((childNetworkCode) =>
+        createRow(childNetworkCode, childCounts[childNetworkCode]),
+      ),
+  ];
+}
+
+/**
+ * A row of the history sheet.
+ */
+interface HistoryRow {
+  timestamp: string;
+  networkCode: string;
+  query: string;
+  // Empty for the row with the counts of the whole import.
+  childNetworkCode: string;
+  // The counts in the order of `APPROVAL_STATUS_COUNT_HEADERS`.
+  counts: string[];
+}
+
+/**
+ * Reads the rows of the history sheet.
+ * @param historyValues The values of the history sheet, including the header
+ *     row.
+ * @throws An error if the sheet lacks one of the history columns.
+ */
+function parseHistoryRows(historyValues: unknown[][]): HistoryRow[] {
+  const [headerRow, ...rows] = historyValues;
+  const headers = (headerRow ?? []).map(String);
+  const getColumnIndex = (header: string) => {
+    const columnIndex = headers.indexOf(header);
+    if (columnIndex === -1) {
+      throw new Error(`History sheet has no "${header}" column.`);
+    }
+    return columnIndex;
+  };
+  const timestampColumnIndex = getColumnIndex('Timestamp');
+  const networkCodeColumnIndex = getColumnIndex('Network Code');
+  const queryColumnIndex = getColumnIndex('Query');
+  const childNetworkCodeColumnIndex = getColumnIndex('Child Network Code');
+  const countColumnIndexes = APPROVAL_STATUS_COUNT_HEADERS.map(getColumnIndex);
+  const getValue = (row: unknown[], columnIndex: number) =>
+    String(row[columnIndex] ?? '').trim();
+  return rows.map((row) => ({
+    timestamp: getValue(row, timestampColumnIndex),
+    networkCode: getValue(row, networkCodeColumnIndex),
+    query: getValue(row, queryColumnIndex),
+    childNetworkCode: getValue(row, childNetworkCodeColumnIndex),
+    counts: countColumnIndexes.map((columnIndex) => getValue(row, columnIndex)),
+  }));
+}
+
+/**
+ * The table and chart range of a trends sheet.
+ */
+export interface ImportTrends {
+  rows: string[][];
+  // The range of the chart data, including the header row.
+  chartRange: string;
+}
+
+/**
+ * Creates the trends of the approval statuses of a network or of a single
+ * child publisher from the history sheet.
+ * @param historyValues The values of the history sheet, including the header
+ *     row.
+ * @param networkCode The network code to show the trends for.
+ * @param childNetworkCode The child network code to show the trends for, or an
+ *     empty string for the whole network.
+ * @return The trends in the order in which the snapshots were added, oldest
+ *     first, or null if there are no snapshots.
+ */
+export function createImportTrends(
+  historyValues: unknown[][],
+  networkCode: string,
+  childNetworkCode: string,
+): ImportTrends | null {
+  const trendRows = parseHistoryRows(historyValues)
+    .filter(
+      (row) =>
+        row.networkCode === networkCode &&
+        row.childNetworkCode === childNetworkCode,
+    )
+    .map((row) => [row.timestamp, ...row.counts]);
+  if (!trendRows.length) {
+    return null;
+  }
+  const lastColumn = String.fromCharCode(
+    'A'.charCodeAt(0) + APPROVAL_STATUS_COUNT_HEADERS.length,
+  );
+  return {
+    rows: [['Timestamp', ...APPROVAL_STATUS_COUNT_HEADERS], ...trendRows],
+    chartRange: `A1:${lastColumn}${trendRows.length + 1}`,
+  };
+}
+
+/**
+ * The counts of a completed import, read from the history sheet.
+ */
+export interface ImportSnapshot {
+  // When the import completed, which identifies the snapshot.
+  timestamp: string;
+  query: string;
+  counts: StatusCounts;
+  // Empty if child publisher trends were off during the import.
+  children: ChildSiteCounts['children'];
+}
+
+/**
+ * Returns the snapshots of the imports of a network.
+ * @param historyValues The values of the history sheet, including the header
+ *     row.
+ * @param networkCode The network code of the imports.
+ * @return The snapshots in the order in which they were added, oldest first.
+ */
+export function getImportSnapshots(
+  historyValues: unknown[][],
+  networkCode: string,
+): ImportSnapshot[] {
+  const snapshots = new Map<string, ImportSnapshot>();
+  for (const row of parseHistoryRows(historyValues)) {
+    if (row.networkCode !== networkCode) {
+      continue;
+    }
+    const counts = row.counts.map(Number);
+    if (!row.childNetworkCode) {
+      snapshots.set(row.timestamp, {
+        timestamp: row.timestamp,
+        query: row.query,
+        counts,
+        children: {},
+      });
+    } else {
+      // The rows per child publisher follow the row of their import.
+      const snapshot = snapshots.get(row.timestamp);
+      if (snapshot) {
+        snapshot.children[row.childNetworkCode] = counts;
+      }
+    }
+  }
+  return [...snapshots.values()];
+}
+
+/**
+ * A count of sites with an approval status that differs between two
+ * snapshots.
+ */
+export interface SnapshotCountChange {
+  // Empty for the counts of the whole import.
+  childNetworkCode: string;
+  approvalStatus: string;
+  previousCount: number;
+  count: number;
+}
+
+/**
+ * Compares the counts of two snapshots. Counts per child publisher are only
+ * compared if both snapshots have them, since a missing child publisher would
+ * otherwise look like a child publisher without sites.
+ * @param baseline The earlier snapshot.
+ * @param comparison The later snapshot.
+ * @return The counts that differ, those of the whole import first, followed by
+ *     those of each child publisher ordered by child network code.
+ */
+export function compareImportSnapshots(
+  baseline: ImportSnapshot,
+  comparison: ImportSnapshot,
+): SnapshotCountChange[] {
+  const compareCounts = (
+    childNetworkCode: string,
+    previousCounts: StatusCounts,
+    counts: StatusCounts,
+  ) =>
+    APPROVAL_STATUS_COUNT_HEADERS.map((approvalStatus, i) => ({
+      childNetworkCode,
+      approvalStatus,
+      previousCount: previousCounts[i] ?? 0,
+      count: counts[i] ?? 0,
+    })).filter(({previousCount, count}) => previousCount !== count);
+  const changes = compareCounts('', baseline.counts, comparison.counts);
+  const hasChildren = (snapshot: ImportSnapshot) =>
+    Object.keys(snapshot.children).length > 0;
+  if (hasChildren(baseline) && hasChildren(comparison)) {
+    const childNetworkCodes = new Set([
+      ...Object.keys(baseline.children),
+      ...Object.keys(comparison.children),
+    ]);
+    for (const childNetworkCode of [...childNetworkCodes].sort()) {
+      changes.push(
+        ...compareCounts(
+          childNetworkCode,
+          baseline.children[childNetworkCode] ?? createStatusCounts(),
+          comparison.children[childNetworkCode] ?? createStatusCounts(),
+        ),
+      );
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,333 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  compareImportSnapshots,
+  countChildSites,
+  countSites,
+  createImportTrends,
+  createSnapshotRows,
+  getApprovalStatusCounts,
+  getImportSnapshots,
+  IMPORT_HISTORY_HEADERS,
+  ImportSnapshot,
+} from './import_history';
+import {AdManagerDateTime, Site} from './typings/ad_manager_api';
+
+describe('import history', () => {
+  /**
+   * Returns a site with the given child network code and approval status.
+   */
+  function createSite(
+    childNetworkCode: string,
+    approvalStatus: Site['approvalStatus'],
+  ): Site {
+    return {
+      id: 1,
+      url: 'url',
+      childNetworkCode,
+      approvalStatus,
+      code: '',
+      approvalStatusDateTime: {} as unknown as AdManagerDateTime,
+      disapprovalReasons: [],
+    };
+  }
+
+  describe('countSites', () => {
+    it('counts the sites per approval status', () => {
+      expect(
+        countSites(undefined, [
+          createSite('', 'APPROVED'),
+          createSite('1234', 'DISAPPROVED'),
+          createSite('1234', 'DRAFT'),
+        ]),
+      ).toEqual([1, 1, 0, 0, 1, 0]);
+    });
+
+    it('adds to previous counts', () => {
+      expect(
+        countSites([1, 0, 0, 0, 0, 0], [createSite('', 'APPROVED')]),
+      ).toEqual([2, 0, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('countChildSites', () => {
+    it('counts the sites per child publisher and approval status', () => {
+      expect(
+        countChildSites(null, [
+          createSite('', 'APPROVED'),
+          createSite('1234', 'DISAPPROVED'),
+          createSite('1234', 'DRAFT'),
+        ]),
+      ).toEqual({
+        children: {'1234': [0, 1, 0, 0, 1, 0]},
+        countedResults: 3,
+      });
+    });
+
+    it('adds to previous counts', () => {
+      expect(
+        countChildSites(
+          {children: {'1234': [1, 0, 0, 0, 0, 0]}, countedResults: 5},
+          [createSite('1234', 'APPROVED')],
+        ),
+      ).toEqual({children: {'1234': [2, 0, 0, 0, 0, 0]}, countedResults: 6});
+    });
+  });
+
+  describe('getApprovalStatusCounts', () => {
+    it('returns the counts per approval status', () => {
+      expect(getApprovalStatusCounts([2, 1, 0, 0, 0, 0])).toEqual({
+        total: 3,
+        APPROVED: 2,
+        DISAPPROVED: 1,
+        REQUIRES_REVIEW: 0,
+        UNCHECKED: 0,
+        DRAFT: 0,
+        UNKNOWN: 0,
+      });
+    });
+
+    it('returns zero counts if there are no counts', () => {
+      expect(getApprovalStatusCounts(undefined).total).toBe(0);
+    });
+  });
+
+  describe('createSnapshotRows', () => {
+    it('creates a row for the import and a row per child publisher', () => {
+      expect(
+        createSnapshotRows(
+          new Date('2024-03-05T06:00:00Z'),
+          '123456789',
+          'WHERE 1 = 1',
+          [2, 1, 0, 0, 0, 0],
+          {
+            '5678': [0, 1, 0, 0, 0, 0],
+            '1234': [1, 0, 0, 0, 0, 0],
+          },
+        ),
+      ).toEqual([
+        [
+          '2024-03-05T06:00:00.000Z',
+          '123456789',
+          'WHERE 1 = 1',
+          '',
+          '3',
+          '2',
+          '1',
+          '0',
+          '0',
+          '0',
+          '0',
+        ],
+        [
+          '2024-03-05T06:00:00.000Z',
+          '123456789',
+          'WHERE 1 = 1',
+          '1234',
+          '1',
+          '1',
+          '0',
+          '0',
+          '0',
+          '0',
+          '0',
+        ],
+        [
+          '2024-03-05T06:00:00.000Z',
+          '123456789',
+          'WHERE 1 = 1',
+          '5678',
+          '1',
+          '0',
+          '1',
+          '0',
+          '0',
+          '0',
+          '0',
+        ],
+      ]);
+    });
+
+    it('creates a single row without child publisher counts', () => {
+      expect(
+        createSnapshotRows(
+          new Date('2024-03-05T06:00:00Z'),
+          '123456789',
+          'WHERE 1 = 1',
+          [2, 1, 0, 0, 0, 0],
+        ).length,
+      ).toBe(1);
+    });
+  });
+
+  describe('createImportTrends', () => {
+    const history = [
+      IMPORT_HISTORY_HEADERS,
+      ['2024-03-05T06:00:00.000Z', 123, '', '', 3, 2, 1, 0, 0, 0, 0],
+      ['2024-03-05T06:00:00.000Z', 123, '', 1234, 1, 0, 1, 0, 0, 0, 0],
+      ['2024-03-05T06:00:00.000Z', 456, '', '', 9, 9, 0, 0, 0, 0, 0],
+      ['2024-03-06T06:00:00.000Z', 123, '', '', 3, 3, 0, 0, 0, 0, 0],
+    ];
+
+    it('returns the trends of the network', () => {
+      expect(createImportTrends(history, '123', '')).toEqual({
+        rows: [
+          [
+            'Timestamp',
+            'Approved',
+            'Disapproved',
+            'Requires Review',
+            'Unchecked',
+            'Draft',
+            'Unknown',
+          ],
+          ['2024-03-05T06:00:00.000Z', '2', '1', '0', '0', '0', '0'],
+          ['2024-03-06T06:00:00.000Z', '3', '0', '0', '0', '0', '0'],
+        ],
+        chartRange: 'A1:G3',
+      });
+    });
+
+    it('returns the trends of a child publisher', () => {
+      expect(createImportTrends(history, '123', '1234')?.rows.slice(1)).toEqual(
+        [['2024-03-05T06:00:00.000Z', '0', '1', '0', '0', '0', '0']],
+      );
+    });
+
+    it('returns null if there are no snapshots', () => {
+      expect(createImportTrends(history, '123', '5678')).toBeNull();
+    });
+
+    it('throws an error if a column is missing', () => {
+      expect(() => createImportTrends([['Timestamp']], '123', '')).toThrowError(
+        'History sheet has no "Network Code" column.',
+      );
+    });
+  });
+
+  describe('getImportSnapshots', () => {
+    const history = [
+      IMPORT_HISTORY_HEADERS,
+      ['2024-03-05T06:00:00.000Z', 123, 'q1', '', 3, 2, 1, 0, 0, 0, 0],
+      ['2024-03-05T06:00:00.000Z', 123, 'q1', 1234, 1, 0, 1, 0, 0, 0, 0],
+      ['2024-03-05T06:00:00.000Z', 456, '', '', 9, 9, 0, 0, 0, 0, 0],
+      ['2024-03-06T06:00:00.000Z', 123, 'q2', '', 3, 3, 0, 0, 0, 0, 0],
+    ];
+
+    it('returns the snapshots of the network', () => {
+      expect(getImportSnapshots(history, '123')).toEqual([
+        {
+          timestamp: '2024-03-05T06:00:00.000Z',
+          query: 'q1',
+          counts: [2, 1, 0, 0, 0, 0],
+          children: {'1234': [0, 1, 0, 0, 0, 0]},
+        },
+        {
+          timestamp: '2024-03-06T06:00:00.000Z',
+          query: 'q2',
+          counts: [3, 0, 0, 0, 0, 0],
+          children: {},
+        },
+      ]);
+    });
+
+    it('returns no snapshots for a network without imports', () => {
+      expect(getImportSnapshots(history, '789')).toEqual([]);
+    });
+
+    it('throws an error if a column is missing', () => {
+      expect(() => getImportSnapshots([['Timestamp']], '123')).toThrowError(
+        'History sheet has no "Network Code" column.',
+      );
+    });
+  });
+
+  describe('compareImportSnapshots', () => {
+    /**
+     * Returns a snapshot with the given counts.
+     */
+    function createSnapshot(
+      counts: number[],
+      children: ImportSnapshot['children'] = {},
+    ): ImportSnapshot {
+      return {timestamp: '', query: '', counts, children};
+    }
+
+    it('returns the counts that changed', () => {
+      expect(
+        compareImportSnapshots(
+          createSnapshot([2, 1, 0, 0, 0, 0]),
+          createSnapshot([3, 0, 0, 0, 0, 0]),
+        ),
+      ).toEqual([
+        {
+          childNetworkCode: '',
+          approvalStatus: 'Approved',
+          previousCount: 2,
+          count: 3,
+        },
+        {
+          childNetworkCode: '',
+          approvalStatus: 'Disapproved',
+          previousCount: 1,
+          count: 0,
+        },
+      ]);
+    });
+
+    it('returns no changes for equal counts', () => {
+      expect(
+        compareImportSnapshots(
+          createSnapshot([2, 1, 0, 0, 0, 0]),
+          createSnapshot([2, 1, 0, 0, 0, 0]),
+        ),
+      ).toEqual([]);
+    });
+
+    it('compares the counts of the child publishers', () => {
+      expect(
+        compareImportSnapshots(
+          createSnapshot([1, 0, 0, 0, 0, 0], {'5678': [1, 0, 0, 0, 0, 0]}),
+          createSnapshot([1, 0, 0, 0, 0, 0], {'1234': [1, 0, 0, 0, 0, 0]}),
+        ),
+      ).toEqual([
+        {
+          childNetworkCode: '1234',
+          approvalStatus: 'Approved',
+          previousCount: 0,
+          count: 1,
+        },
+        {
+          childNetworkCode: '5678',
+          approvalStatus: 'Approved',
+          previousCount: 1,
+          count: 0,
+        },
+      ]);
+    });
+
+    it('ignores child publishers unless both snapshots have them', () => {
+      expect(
+        compareImportSnapshots(
+          createSnapshot([1, 0, 0, 0, 0, 0]),
+          createSnapshot([1, 0, 0, 0, 0, 0], {'1234': [1, 0, 0, 0, 0, 0]}),
+        ),
+      ).toEqual([]);
+    });
+  });
+});
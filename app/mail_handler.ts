@@ -0,0 +1,40 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview A handler for sending emails.
+ */
+
+/**
+ * A handler for sending emails to the current user.
+ */
+export class MailHandler {
+  constructor(
+    private readonly mailApp: GoogleAppsScript.Mail.MailApp = MailApp,
+    private readonly recipient = Session.getEffectiveUser().getEmail(),
+  ) {}
+
+  /**
+   * Sends a plain text email to the current user.
+   *
+   * @param subject The subject of the email.
+   * @param body The plain text body of the email.
+   */
+  sendEmail(subject: string, body: string) {
+    this.mailApp.sendEmail(this.recipient, subject, body);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Retries Ad Manager API requests that fail with transient
+ * errors, waiting longer after each failure.
+ */
+
+import {AdManagerServerFault} from 'gam_apps_script/ad_manager_error';
+
+/**
+ * Whether a failed request can be retried.
+ */
+export type ErrorClassification = 'RETRYABLE' | 'FATAL';
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+export type Sleeper = (milliseconds: number) => void;
+
+/**
+ * The number of retries and the delays between them.
+ */
+export interface RetryOptions {
+  maxRetries: number;
+  // The maximum delay before the first retry, which doubles for each retry.
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * The default retry options, which keep the total delay well below the
+ * execution time limit of Apps Script.
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  initialDelayMs: 1000,
+  maxDelayMs: 16000,
+};
+
+/**
+ * The Ad Manager API errors that may succeed when retried, e.g. because a
+ * quota is replenished or a server recovers.
+ */
+const RETRYABLE_API_ERRORS = ['QuotaError', 'ServerError', 'InternalApiError'];
+
+/**
+ * The messages of `UrlFetchApp` and Apps Script errors that are transient,
+ * e.g. timeouts, network failures and rate limits.
+ */
+const RETRYABLE_MESSAGE_PATTERN =
+  /timed? ?out|address unavailable|dns error|service invoked too many times|bandwidth quota exceeded|returned code (429|5\d\d)|service unavailable/i;
+
+/**
+ * Returns the types of the Ad Manager API errors of a server fault, e.g.
+ * "QuotaError" for "QuotaError.EXCEEDED_QUOTA".
+ * @param fault The server fault.
+ */
+function getApiErrorTypes(fault: AdManagerServerFault): string[] {
+  return fault.errors.map(({errorString}) => errorString.split('.')[0]);
+}
+
+/**
+ * Classifies an error thrown by an Ad Manager API request. Server faults are
+ * retryable if all of their API errors are retryable, e.g. `QuotaError`, while
+ * e.g. `PermissionError` and query syntax errors are fatal. Faults without API
+ * errors are server failures and thus retryable. Other errors are retryable if
+ * they are transient failures of `UrlFetchApp`.
+ * @param e The error that was thrown.
+ */
+export function classifyError(e: unknown): ErrorClassification {
+  if (e instanceof AdManagerServerFault) {
+    return getApiErrorTypes(e).every((type) =>
+      RETRYABLE_API_ERRORS.includes(type),
+    )
+      ? 'RETRYABLE'
+      : 'FATAL';
+  }
+  const message = e instanceof Error ? e.message : String(e);
+  return RETRYABLE_MESSAGE_PATTERN.test(message) ? 'RETRYABLE' : 'FATAL';
+}
+
+/**
+ * Runs operations and retries them with exponential backoff and jitter while
+ * they fail with retryable errors.
+ */
+export class RetryPolicy {
+  constructor(
+    private readonly options = DEFAULT_RETRY_OPTIONS,
+    private readonly sleep: Sleeper = (milliseconds) =>
+      Utilities.sleep(milliseconds),
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  /**
+   * Returns the delay before a retry. The delay is chosen at random up to an
+   * exponentially growing maximum, so that concurrent executions don't retry
+   * at the same time.
+   * @param retry The number of the retry, starting at 0.
+   */
+  getDelay(retry: number): number {
+    const maxDelay = Math.min(
+      this.options.maxDelayMs,
+      this.options.initialDelayMs * 2 ** retry,
+    );
+    return Math.round(this.random() * maxDelay);
+  }
+
+  /**
+   * Runs an operation, retrying it while it fails with retryable errors.
+   * @param operation The operation to run.
+   * @return The result of the operation.
+   * @throws The error of the last attempt, or the first fatal error.
+   */
+  run<T>(operation: () => T): T {
+    for (let retry = 0; ; retry++) {
+      try {
+        return operation();
+      } catch (e) {
+        if (retry >= this.options.maxRetries || classifyError(e) === 'FATAL') {
+          throw e;
+        }
+        this.sleep(this.getDelay(retry));
+      }
+    }
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {AdManagerServerFault} from 'gam_apps_script/ad_manager_error';
+import {classifyError, RetryPolicy} from './retry_policy';
+
+describe('retry policy', () => {
+  const createFault = (...errorStrings: string[]) =>
+    new AdManagerServerFault({
+      message: 'fault',
+      errors: errorStrings.map((errorString) => ({errorString})),
+    });
+
+  describe('classifyError', () => {
+    it('retries quota and server errors', () => {
+      expect(classifyError(createFault('QuotaError.EXCEEDED_QUOTA'))).toBe(
+        'RETRYABLE',
+      );
+      expect(
+        classifyError(
+          createFault('ServerError.SERVER_BUSY', 'InternalApiError.UNKNOWN'),
+        ),
+      ).toBe('RETRYABLE');
+    });
+
+    it('retries server faults without API errors', () => {
+      expect(classifyError(createFault())).toBe('RETRYABLE');
+    });
+
+    it("doesn't retry permission and query errors", () => {
+      expect(
+        classifyError(createFault('PermissionError.PERMISSION_DENIED')),
+      ).toBe('FATAL');
+      expect(
+        classifyError(
+          createFault(
+            'QuotaError.EXCEEDED_QUOTA',
+            'PublisherQueryLanguageSyntaxError.UNPARSABLE',
+          ),
+        ),
+      ).toBe('FATAL');
+    });
+
+    it('retries transient fetch errors', () => {
+      expect(classifyError(new Error('Address unavailable: https://x'))).toBe(
+        'RETRYABLE',
+      );
+      expect(
+        classifyError(new Error('Request failed: returned code 503')),
+      ).toBe('RETRYABLE');
+    });
+
+    it("doesn't retry other errors", () => {
+      expect(classifyError(new Error('Site IDs must be integers'))).toBe(
+        'FATAL',
+      );
+    });
+  });
+
+  describe('RetryPolicy', () => {
+    const options = {maxRetries: 3, initialDelayMs: 100, maxDelayMs: 250};
+    let sleeper: jasmine.Spy<(milliseconds: number) => void>;
+    let policy: RetryPolicy;
+
+    beforeEach(() => {
+      sleeper = jasmine.createSpy('sleeper');
+      policy = new RetryPolicy(options, sleeper, () => 1);
+    });
+
+    it('returns the result without retrying', () => {
+      expect(policy.run(() => 42)).toBe(42);
+      expect(sleeper).not.toHaveBeenCalled();
+    });
+
+    it('retries retryable errors with exponential backoff', () => {
+      let attempts = 0;
+      const result = policy.run(() => {
+        attempts++;
+        if (attempts < 3) {
+          throw createFault('QuotaError.EXCEEDED_QUOTA');
+        }
+        return 42;
+      });
+      expect(result).toBe(42);
+      expect(attempts).toBe(3);
+      expect(sleeper.calls.allArgs()).toEqual([[100], [200]]);
+    });
+
+    it('caps the delay', () => {
+      expect(policy.getDelay(5)).toBe(250);
+    });
+
+    it('adds jitter to the delay', () => {
+      expect(new RetryPolicy(options, sleeper, () => 0.5).getDelay(1)).toBe(
+        100,
+      );
+    });
+
+    it('throws the error once the retries are exhausted', () => {
+      const fault = createFault('ServerError.SERVER_ERROR');
+      const operation = jasmine.createSpy('operation').and.throwError(fault);
+      expect(() => policy.run(operation)).toThrow(fault);
+      expect(operation).toHaveBeenCalledTimes(4);
+      expect(sleeper).toHaveBeenCalledTimes(3);
+    });
+
+    it('throws fatal errors without retrying', () => {
+      const fault = createFault('PermissionError.PERMISSION_DENIED');
+      const operation = jasmine.createSpy('operation').and.throwError(fault);
+      expect(() => policy.run(operation)).toThrow(fault);
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(sleeper).not.toHaveBeenCalled();
+    });
+  });
+});
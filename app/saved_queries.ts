@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Validates and updates the saved queries, which are named site
+ * imports that are shared by all users of the spreadsheet and can be run from
+ * the menu.
+ */
+
+import {SiteImportOutputFormat} from './app';
+import {SiteColumnId, validateSiteColumns} from './site_columns';
+import {createSiteQuery, SiteQueryFilters} from './site_query';
+
+/**
+ * A named site import with its filters, output format and columns.
+ */
+export interface SavedQuery {
+  name: string;
+  filters: SiteQueryFilters;
+  outputFormat: SiteImportOutputFormat;
+  // The columns of the import, or null to use the columns chosen by the user
+  // who runs it.
+  columns: SiteColumnId[] | null;
+}
+
+/**
+ * The maximum number of saved queries. Each saved query needs a menu function,
+ * so the number of them is fixed.
+ */
+export const MAX_SAVED_QUERIES = 20;
+
+/**
+ * The name of the menu item to manage the saved queries, which saved queries
+ * can't use as their name.
+ */
+export const MANAGE_SAVED_QUERIES_MENU_ITEM = 'Manage Saved Queries';
+
+/**
+ * Returns the output formats that saved queries can use, with the labels shown
+ * in the saved queries dialog. Disapproval reasons need their own columns, so
+ * they can't be imported by saved queries.
+ *
+ * This is a function rather than a constant because `app.ts` imports this
+ * module before it defines `SiteImportOutputFormat`.
+ */
+export function getSavedQueryOutputFormats(): Array<{
+  value: SiteImportOutputFormat;
+  label: string;
+}> {
+  return [
+    {value: SiteImportOutputFormat.COMBINED, label: 'All sites'},
+    {value: SiteImportOutputFormat.FIRST_PARTY, label: 'First party sites'},
+    {value: SiteImportOutputFormat.CHILD, label: 'Child sites'},
+    {
+      value: SiteImportOutputFormat.CHILD_ACCOUNT_HEALTH,
+      label: 'Child sites with account health',
+    },
+  ];
+}
+
+/**
+ * Checks that a saved query can be stored and run.
+ * @param savedQuery The saved query, e.g. as entered by the user.
+ * @return The saved query with its name trimmed.
+ * @throws An error if the name, a filter, the output format or a column is
+ *     invalid.
+ */
+export function validateSavedQuery(savedQuery: SavedQuery): SavedQuery {
+  const name = savedQuery.name.trim();
+  if (!name) {
+    throw new Error('The name is required.');
+  }
+  if (name === MANAGE_SAVED_QUERIES_MENU_ITEM) {
+    throw new Error(`"${name}" can't be used as a name.`);
+  }
+  createSiteQuery(savedQuery.filters);
+  if (
+    !getSavedQueryOutputFormats().some(
+      ({value}) => value === savedQuery.outputFormat,
+    )
+  ) {
+    throw new Error(`Unknown output format: ${savedQuery.outputFormat}`);
+  }
+  return {
+    ...savedQuery,
+    name,
+    columns: savedQuery.columns && validateSiteColumns(savedQuery.columns),
+  };
+}
+
+/**
+ * Adds a saved query, or replaces the saved query with the given name.
+ * @param savedQueries The saved queries.
+ * @param previousName The name of the saved query to replace, which differs
+ *     from the name of the new saved query if it's renamed, or null to add the
+ *     saved query.
+ * @param savedQuery The saved query to add.
+ * @return The updated saved queries, which keep their order.
+ * @throws An error if the saved query is invalid, if its name is already
+ *     used, or if there would be too many saved queries.
+ */
+export function putSavedQuery(
+  savedQueries: SavedQuery[],
+  previousName: string | null,
+  savedQuery: SavedQuery,
+): SavedQuery[] {
+  const validSavedQuery = validateSavedQuery(savedQuery);
+  const index =
+    previousName === null
+      ? -1
+      : savedQueries.findIndex(({name}) => name === previousName);
+  if (previousName !== null && index === -1) {
+    throw new Error(`The saved query "${previousName}" no longer exists.`);
+  }
+  if (
+    savedQueries.some(
+      ({name}, i) => i !== index && name === validSavedQuery.name,
+    )
+  ) {
+    throw new Error(
+      `A saved query named "${validSavedQuery.name}" already exists.`,
+    );
+  }
+  if (index === -1) {
+    if (savedQueries.length >= MAX_SAVED_QUERIES) {
+      throw new Error(
+        `There can be at most ${MAX_SAVED_QUERIES} saved queries.`,
+      );
+    }
+    return [...savedQueries, validSavedQuery];
+  }
+  return savedQueries.map((existingSavedQuery, i) =>
+    i === index ? validSavedQuery : existingSavedQuery,
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {SiteImportOutputFormat} from './app';
+import {
+  MAX_SAVED_QUERIES,
+  putSavedQuery,
+  SavedQuery,
+  validateSavedQuery,
+} from './saved_queries';
+
+describe('saved queries', () => {
+  const createSavedQuery = (name: string): SavedQuery => ({
+    name,
+    filters: {
+      approvalStatuses: ['DISAPPROVED'],
+      childNetworkCodes: [],
+      urlContains: '',
+      approvalStatusDateFrom: '',
+      approvalStatusDateTo: '',
+    },
+    outputFormat: SiteImportOutputFormat.COMBINED,
+    columns: null,
+  });
+
+  describe('validateSavedQuery', () => {
+    it('trims the name', () => {
+      expect(validateSavedQuery(createSavedQuery(' Disapproved '))).toEqual(
+        createSavedQuery('Disapproved'),
+      );
+    });
+
+    it('throws an error without a name', () => {
+      expect(() => validateSavedQuery(createSavedQuery(' '))).toThrowError(
+        'The name is required.',
+      );
+    });
+
+    it('throws an error for the name of the manage menu item', () => {
+      expect(() =>
+        validateSavedQuery(createSavedQuery('Manage Saved Queries')),
+      ).toThrowError(`"Manage Saved Queries" can't be used as a name.`);
+    });
+
+    it('throws an error for invalid filters', () => {
+      const savedQuery = createSavedQuery('Invalid');
+      savedQuery.filters.childNetworkCodes = ['abc'];
+      expect(() => validateSavedQuery(savedQuery)).toThrowError(
+        'Invalid child network code: abc',
+      );
+    });
+
+    it('throws an error for the disapproval reasons format', () => {
+      expect(() =>
+        validateSavedQuery({
+          ...createSavedQuery('Reasons'),
+          outputFormat: SiteImportOutputFormat.REASONS,
+        }),
+      ).toThrowError('Unknown output format: reasons');
+    });
+
+    it('throws an error without the site ID column', () => {
+      expect(() =>
+        validateSavedQuery({
+          ...createSavedQuery('Columns'),
+          columns: ['url'],
+        }),
+      ).toThrowError('The "Site ID" column is required.');
+    });
+  });
+
+  describe('putSavedQuery', () => {
+    const savedQueries = [createSavedQuery('A'), createSavedQuery('B')];
+
+    it('adds a saved query', () => {
+      expect(putSavedQuery(savedQueries, null, createSavedQuery('C'))).toEqual([
+        ...savedQueries,
+        createSavedQuery('C'),
+      ]);
+    });
+
+    it('renames a saved query in place', () => {
+      expect(putSavedQuery(savedQueries, 'A', createSavedQuery('C'))).toEqual([
+        createSavedQuery('C'),
+        createSavedQuery('B'),
+      ]);
+    });
+
+    it('throws an error if the name is already used', () => {
+      expect(() =>
+        putSavedQuery(savedQueries, 'A', createSavedQuery('B')),
+      ).toThrowError('A saved query named "B" already exists.');
+    });
+
+    it('throws an error if the replaced saved query was deleted', () => {
+      expect(() =>
+        putSavedQuery(savedQueries, 'C', createSavedQuery('C')),
+      ).toThrowError('The saved query "C" no longer exists.');
+    });
+
+    it('throws an error if there are too many saved queries', () => {
+      const fullSavedQueries = Array.from({length: MAX_SAVED_QUERIES}, (_, i) =>
+        createSavedQuery(`${i}`),
+      );
+      expect(() =>
+        putSavedQuery(fullSavedQueries, null, createSavedQuery('New')),
+      ).toThrowError(
+        `There can be at most ${MAX_SAVED_QUERIES} saved queries.`,
+      );
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Merges the rows of a re-import into the rows of an existing
+ * import sheet.
+ */
+
+/**
+ * The result of merging re-imported site rows into existing site rows.
+ */
+export interface SiteRowsMergeResult {
+  /**
+   * The merged rows: the existing rows in their original order, followed by
+   * the rows of sites that weren't in the sheet before.
+   */
+  rows: string[][];
+  /**
+   * Whether each merged row belongs to a site that the re-import no longer
+   * returned.
+   */
+  removed: boolean[];
+  addedCount: number;
+  updatedCount: number;
+  removedCount: number;
+}
+
+/**
+ * Merges re-imported site rows into existing site rows, keyed by site ID.
+ * Existing rows are updated in place, rows of new sites are appended and rows
+ * of sites that are no longer returned are kept and flagged as removed. Rows
+ * without a site ID are kept as they are.
+ * @param existingRows The existing rows, without the header row.
+ * @param importedRows The re-imported rows, without the header row.
+ * @param siteIdColumnIndex The 0-based index of the site ID column.
+ * @return The merged rows and statistics about the merge.
+ */
+export function mergeSiteRows(
+  existingRows: unknown[][],
+  importedRows: unknown[][],
+  siteIdColumnIndex: number,
+): SiteRowsMergeResult {
+  const toStrings = (row: unknown[]) => row.map((value) => String(value ?? ''));
+  const importedRowsById = new Map<string, string[]>();
+  for (const row of importedRows) {
+    const siteId = String(row[siteIdColumnIndex] ?? '');
+    if (siteId) {
+      importedRowsById.set(siteId, toStrings(row));
+    }
+  }
+  const result: SiteRowsMergeResult = {
+    rows: [],
+    removed: [],
+    addedCount: 0,
+    updatedCount: 0,
+    removedCount: 0,
+  };
+  for (const row of existingRows) {
+    const siteId = String(row[siteIdColumnIndex] ?? '');
+    const importedRow = importedRowsById.get(siteId);
+    if (importedRow) {
+      result.rows.push(importedRow);
+      result.removed.push(false);
+      result.updatedCount++;
+      importedRowsById.delete(siteId);
+    } else {
+      result.rows.push(toStrings(row));
+      result.removed.push(Boolean(siteId));
+      if (siteId) {
+        result.removedCount++;
+      }
+    }
+  }
+  for (const importedRow of importedRowsById.values()) {
+    result.rows.push(importedRow);
+    result.removed.push(false);
+    result.addedCount++;
+  }
+  return result;
+}
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {mergeSiteRows} from './sheet_sync';
+
+describe('mergeSiteRows', () => {
+  it('updates existing rows in place', () => {
+    const result = mergeSiteRows(
+      [
+        ['url1', 'Ready', 1],
+        ['url2', 'Ready', 2],
+      ],
+      [
+        ['url2', 'Needs attention', 2],
+        ['url1', 'Ready', 1],
+      ],
+      2,
+    );
+    expect(result.rows).toEqual([
+      ['url1', 'Ready', '1'],
+      ['url2', 'Needs attention', '2'],
+    ]);
+    expect(result.removed).toEqual([false, false]);
+    expect(result.updatedCount).toBe(2);
+  });
+
+  it('appends new sites', () => {
+    const result = mergeSiteRows(
+      [['url1', 'Ready', 1]],
+      [
+        ['url1', 'Ready', 1],
+        ['url3', 'Getting ready', 3],
+      ],
+      2,
+    );
+    expect(result.rows).toEqual([
+      ['url1', 'Ready', '1'],
+      ['url3', 'Getting ready', '3'],
+    ]);
+    expect(result.addedCount).toBe(1);
+  });
+
+  it('keeps and flags rows of removed sites', () => {
+    const result = mergeSiteRows(
+      [
+        ['url1', 'Ready', 1],
+        ['url2', 'Ready', 2],
+      ],
+      [['url2', 'Ready', 2]],
+      2,
+    );
+    expect(result.rows).toEqual([
+      ['url1', 'Ready', '1'],
+      ['url2', 'Ready', '2'],
+    ]);
+    expect(result.removed).toEqual([true, false]);
+    expect(result.removedCount).toBe(1);
+  });
+
+  it('keeps rows without a site ID as they are', () => {
+    const result = mergeSiteRows([['note', '', '']], [], 2);
+    expect(result.rows).toEqual([['note', '', '']]);
+    expect(result.removed).toEqual([false]);
+    expect(result.removedCount).toBe(0);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Defines the columns that site imports can write. Both the
+ * headers and the rows of an import sheet are generated from these
+ * definitions.
+ */
+
+import {
+  formatAccountStatus,
+  formatDelegationType,
+  formatOnboardingTasks,
+} from './child_publishers';
+import {
+  AdManagerDateTime,
+  DisapprovalReason,
+  Site,
+} from './typings/ad_manager_api';
+import {ChildPublisherMap} from './user_settings';
+
+/**
+ * The header of the site URL column.
+ */
+export const SITE_URL_HEADER = 'Site URL';
+
+/**
+ * The header of the site ID column, which identifies the sites of a sheet.
+ */
+export const SITE_ID_HEADER = 'Site ID';
+
+/**
+ * The header of the child publisher column.
+ */
+export const CHILD_PUBLISHER_HEADER = 'Child Publisher';
+
+/**
+ * The header of the friendly approval status column.
+ */
+export const APPROVAL_STATUS_HEADER = 'Approval Status';
+
+/**
+ * The header of the column listing the disapproval reason types of a site.
+ */
+export const REASON_TYPES_HEADER = 'Reason Types';
+
+/**
+ * The friendly approval statuses, as shown in Ad Manager.
+ */
+export const APPROVAL_STATUS_LABELS = [
+  'Ready',
+  'Getting ready',
+  'Requires review',
+  'Not sent for review',
+  'Needs attention',
+  'Unknown',
+];
+
+/**
+ * The child publisher column value of first party sites.
+ */
+export const FIRST_PARTY_LABEL = '[First Party]';
+
+/**
+ * The header of the disapproval reason type column.
+ */
+export const REASON_TYPE_HEADER = 'Reason Type';
+
+/**
+ * The header of the disapproval reason column.
+ */
+export const REASON_HEADER = 'Reason';
+
+/**
+ * The IDs of the columns that site imports can write.
+ */
+export type SiteColumnId =
+  | 'url'
+  | 'siteId'
+  | 'siteCode'
+  | 'childPublisher'
+  | 'childNetworkCode'
+  | 'approvalStatus'
+  | 'rawApprovalStatus'
+  | 'approvalStatusDateTime'
+  | 'disapprovalReasonTypes'
+  | 'statusDetails'
+  | 'reasonType'
+  | 'reason'
+  | 'childAccountStatus'
+  | 'childDelegationType'
+  | 'childSellerId'
+  | 'childOnboardingTasks';
+
+/**
+ * A column of a site import sheet.
+ */
+interface SiteColumn {
+  header: string;
+  // Returns the value of the column for a site. The reason is only set for
+  // rows of a single disapproval reason.
+  getValue: (
+    site: Site,
+    childPublishers: ChildPublisherMap,
+    reason: DisapprovalReason | undefined,
+  ) => string;
+  // Whether the column holds a single disapproval reason, so that each reason
+  // of a site is written to its own row.
+  perReason?: boolean;
+}
+
+/**
+ * The labels of the disapproval reason types.
+ */
+export const DISAPPROVAL_REASON_TYPE_LABELS: {
+  [type in DisapprovalReason['type']]: string;
+} = {
+  'CONTENT': 'Content',
+  'OWNERSHIP': 'Ownership',
+  'OTHER': 'Other',
+  'UNKNOWN': 'Unknown',
+};
+
+/**
+ * The columns that site imports can write, in the order in which they are
+ * offered to the user.
+ */
+const SITE_COLUMNS: {[id in SiteColumnId]: SiteColumn} = {
+  'url': {
+    header: SITE_URL_HEADER,
+    getValue: (site) => site.url,
+  },
+  'siteId': {
+    header: SITE_ID_HEADER,
+    getValue: (site) => String(site.id),
+  },
+  'siteCode': {
+    header: 'Site Code',
+    getValue: (site) => site.code ?? '',
+  },
+  'childPublisher': {
+    header: CHILD_PUBLISHER_HEADER,
+    getValue: (site, childPublishers) =>
+      formatChildPublisher(site.childNetworkCode, childPublishers),
+  },
+  'childNetworkCode': {
+    header: 'Child Network Code',
+    getValue: (site) => site.childNetworkCode ?? '',
+  },
+  'approvalStatus': {
+    header: APPROVAL_STATUS_HEADER,
+    getValue: (site) => formatApprovalStatus(site),
+  },
+  'rawApprovalStatus': {
+    header: 'Approval Status (API)',
+    getValue: (site) => site.approvalStatus ?? '',
+  },
+  'approvalStatusDateTime': {
+    header: 'Approval Status Updated',
+    getValue: (site) => formatDateTime(site.approvalStatusDateTime),
+  },
+  'disapprovalReasonTypes': {
+    header: REASON_TYPES_HEADER,
+    getValue: (site) =>
+      [
+        ...new Set(
+          (site.disapprovalReasons ?? []).map(
+            (r) => DISAPPROVAL_REASON_TYPE_LABELS[r.type] ?? r.type,
+          ),
+        ),
+      ].join(', '),
+  },
+  'statusDetails': {
+    header: 'Status Details',
+    getValue: (site) =>
+      (site.disapprovalReasons ?? [])
+        // only keep non-empty strings
+        .filter((r) => r.details && r.details.trim())
+        .map((r) => r.details.trim())
+        .join(', '),
+  },
+  'reasonType': {
+    header: REASON_TYPE_HEADER,
+    getValue: (site, childPublishers, reason) =>
+      reason
+        ? (DISAPPROVAL_REASON_TYPE_LABELS[reason.type] ?? reason.type)
+        : '',
+    perReason: true,
+  },
+  'reason': {
+    header: REASON_HEADER,
+    getValue: (site, childPublishers, reason) => reason?.details?.trim() ?? '',
+    perReason: true,
+  },
+  'childAccountStatus': {
+    header: 'Account Status',
+    getValue: (site, childPublishers) =>
+      formatAccountStatus(
+        childPublishers[site.childNetworkCode]?.accountStatus,
+      ),
+  },
+  'childDelegationType': {
+    header: 'Delegation Type',
+    getValue: (site, childPublishers) =>
+      formatDelegationType(
+        childPublishers[site.childNetworkCode]?.approvedDelegationType,
+      ),
+  },
+  'childSellerId': {
+    header: 'Seller ID',
+    getValue: (site, childPublishers) =>
+      childPublishers[site.childNetworkCode]?.sellerId ?? '',
+  },
+  'childOnboardingTasks': {
+    header: 'Onboarding Tasks',
+    getValue: (site, childPublishers) =>
+      formatOnboardingTasks(
+        childPublishers[site.childNetworkCode]?.onboardingTasks,
+      ),
+  },
+};
+
+/**
+ * The IDs of all columns, in the order in which they are offered to the user.
+ */
+export const SITE_COLUMN_IDS = Object.keys(SITE_COLUMNS) as SiteColumnId[];
+
+/**
+ * Returns the header of a column.
+ * @param columnId The ID of the column.
+ */
+export function getSiteColumnHeader(columnId: SiteColumnId): string {
+  return SITE_COLUMNS[columnId].header;
+}
+
+/**
+ * Returns the headers of an import sheet with the given columns.
+ * @param columnIds The IDs of the columns of the sheet.
+ */
+export function getSiteColumnHeaders(columnIds: SiteColumnId[]): string[] {
+  return columnIds.map(getSiteColumnHeader);
+}
+
+/**
+ * Checks that a list of column IDs can be used for site imports.
+ * @param columnIds The column IDs, e.g. as chosen by the user.
+ * @return The validated column IDs.
+ * @throws An error if a column is unknown or repeated, or if the site ID column
+ *     is missing. Imported sheets are refreshed and acted on by site ID, so
+ *     the column is required.
+ */
+export function validateSiteColumns(columnIds: string[]): SiteColumnId[] {
+  for (const columnId of columnIds) {
+    if (!SITE_COLUMN_IDS.includes(columnId as SiteColumnId)) {
+      throw new Error(`Unknown column: ${columnId}`);
+    }
+  }
+  if (new Set(columnIds).size !== columnIds.length) {
+    throw new Error('Each column can only be selected once.');
+  }
+  if (!columnIds.includes('siteId')) {
+    throw new Error(`The "${SITE_ID_HEADER}" column is required.`);
+  }
+  return columnIds as SiteColumnId[];
+}
+
+/**
+ * Formats the child publisher of a site for display.
+ * @param childNetworkCode The child network code of the site, if any.
+ * @param childPublishers A map of child publishers.
+ * @return The name and network code of the child publisher, or a placeholder
+ *     for first party sites.
+ */
+export function formatChildPublisher(
+  childNetworkCode: string,
+  childPublishers: ChildPublisherMap,
+): string {
+  if (!childNetworkCode) {
+    return FIRST_PARTY_LABEL;
+  }
+  const childPublisher = childPublishers[childNetworkCode];
+  const childPublisherName =
+    childPublisher?.name ?? '[Child Publisher Name Not Found]';
+  return `${childPublisherName} (${childNetworkCode})`;
+}
+
+/**
+ * Returns whether the child publisher of a site isn't in the map, so that its
+ * name is shown as a placeholder. First party sites have no child publisher.
+ * @param site The site.
+ * @param childPublishers A map of child publishers.
+ */
+export function hasUnresolvedChildPublisher(
+  site: Site,
+  childPublishers: ChildPublisherMap,
+): boolean {
+  return Boolean(
+    site.childNetworkCode && !childPublishers[site.childNetworkCode],
+  );
+}
+
+/**
+ * Returns the child network codes of sites whose child publisher isn't in the
+ * map.
+ * @param sites The sites.
+ * @param childPublishers A map of child publishers.
+ * @param previousCodes The codes found so far, e.g. in earlier pages of an
+ *     import.
+ * @param maxCodes The maximum number of codes to return. Codes beyond it are
+ *     dropped, so that the codes found by large imports can still be stored.
+ * @return The previous and the new codes, without duplicates.
+ */
+export function findUnresolvedChildNetworkCodes(
+  sites: Site[],
+  childPublishers: ChildPublisherMap,
+  previousCodes: string[] = [],
+  maxCodes = Infinity,
+): string[] {
+  const codes = new Set(previousCodes);
+  for (const site of sites) {
+    if (codes.size >= maxCodes) {
+      break;
+    }
+    if (hasUnresolvedChildPublisher(site, childPublishers)) {
+      codes.add(site.childNetworkCode);
+    }
+  }
+  return [...codes];
+}
+
+/**
+ * Formats the approval status of a site the way it is shown in Ad Manager.
+ * @param site The site.
+ */
+function formatApprovalStatus(site: Site): string {
+  switch (site.approvalStatus) {
+    case 'DRAFT':
+      return site.childNetworkCode ? 'Requires review' : 'Not sent for review';
+    case 'APPROVED':
+      return 'Ready';
+    case 'DISAPPROVED':
+      return 'Needs attention';
+    case 'UNCHECKED':
+    case 'REQUIRES_REVIEW':
+      return 'Getting ready';
+    default:
+      return 'Unknown';
+  }
+}
+
+/**
+ * Formats an Ad Manager date time, e.g. as "2024-03-05 14:07:09
+ * America/New_York".
+ * @param dateTime The date time, if any.
+ */
+function formatDateTime(dateTime: AdManagerDateTime | undefined): string {
+  if (!dateTime?.date) {
+    return '';
+  }
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const {year, month, day} = dateTime.date;
+  return (
+    `${year}-${pad(month)}-${pad(day)} ` +
+    `${pad(dateTime.hour)}:${pad(dateTime.minute)}:${pad(dateTime.second)} ` +
+    dateTime.timeZoneId
+  ).trim();
+}
+
+/**
+ * Returns whether the columns write one row per disapproval reason.
+ * @param columnIds The IDs of the columns.
+ */
+export function hasReasonColumns(columnIds: SiteColumnId[]): boolean {
+  return columnIds.some((columnId) => SITE_COLUMNS[columnId].perReason);
+}
+
+/**
+ * Creates the rows for a site. If the columns include a disapproval reason
+ * column, each reason of the site is written to its own row. Sites without
+ * reasons still get a row, with empty reason columns.
+ * @param site The site to create the rows for.
+ * @param childPublishers A map of child publishers.
+ * @param columnIds The IDs of the columns of the rows.
+ * @return An array of rows, each an array of strings.
+ */
+export function createRowsForSite(
+  site: Site,
+  childPublishers: ChildPublisherMap,
+  columnIds: SiteColumnId[],
+): string[][] {
+  const reasons = site.disapprovalReasons ?? [];
+  const rowReasons =
+    hasReasonColumns(columnIds) && reasons.length ? reasons : [undefined];
+  return rowReasons.map((reason) =>
+    columnIds.map((columnId) =>
+      SITE_COLUMNS[columnId].getValue(site, childPublishers, reason),
+    ),
+  );
+}
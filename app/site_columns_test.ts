@@ -0,0 +1,225 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createRowsForSite,
+  findUnresolvedChildNetworkCodes,
+  hasUnresolvedChildPublisher,
+  getSiteColumnHeaders,
+  hasReasonColumns,
+  SITE_COLUMN_IDS,
+  validateSiteColumns,
+} from './site_columns';
+import {Site} from './typings/ad_manager_api';
+import {ChildPublisherMap} from './user_settings';
+
+describe('site columns', () => {
+  const site: Site = {
+    id: 101,
+    url: 'example.com',
+    childNetworkCode: '1234',
+    approvalStatus: 'DISAPPROVED',
+    code: 'abc',
+    approvalStatusDateTime: {
+      date: {year: 2024, month: 3, day: 5},
+      hour: 14,
+      minute: 7,
+      second: 9,
+      timeZoneId: 'America/New_York',
+    },
+    disapprovalReasons: [
+      {type: 'CONTENT', details: 'reason 1'},
+      {type: 'CONTENT', details: ' '},
+      {type: 'OWNERSHIP', details: 'reason 2'},
+    ],
+  };
+  const childPublishers: ChildPublisherMap = {
+    '1234': {
+      id: '1',
+      name: 'Child Publisher',
+      childNetworkCode: '1234',
+      accountStatus: 'PENDING_GOOGLE_APPROVAL',
+      approvedDelegationType: 'MANAGE_ACCOUNT',
+      sellerId: 'pub-1234',
+      onboardingTasks: ['PHONE_PIN_VERIFICATION'],
+    },
+  };
+
+  describe('getSiteColumnHeaders', () => {
+    it('returns the headers in the order of the columns', () => {
+      expect(getSiteColumnHeaders(['siteId', 'url', 'childPublisher'])).toEqual(
+        ['Site ID', 'Site URL', 'Child Publisher'],
+      );
+    });
+
+    it('has a unique header for each column', () => {
+      const headers = getSiteColumnHeaders(SITE_COLUMN_IDS);
+      expect(new Set(headers).size).toBe(SITE_COLUMN_IDS.length);
+    });
+  });
+
+  describe('createRowsForSite', () => {
+    it('creates a row with the values of all site columns', () => {
+      const columnIds = SITE_COLUMN_IDS.filter(
+        (columnId) => !hasReasonColumns([columnId]),
+      );
+      expect(createRowsForSite(site, childPublishers, columnIds)).toEqual([
+        [
+          'example.com',
+          '101',
+          'abc',
+          'Child Publisher (1234)',
+          '1234',
+          'Needs attention',
+          'DISAPPROVED',
+          '2024-03-05 14:07:09 America/New_York',
+          'Content, Ownership',
+          'reason 1, reason 2',
+          'Pending Google approval',
+          'Manage Account',
+          'pub-1234',
+          'Verify phone PIN',
+        ],
+      ]);
+    });
+
+    it('creates a row in the order of the columns', () => {
+      expect(
+        createRowsForSite(site, childPublishers, ['siteId', 'url']),
+      ).toEqual([['101', 'example.com']]);
+    });
+
+    it('shows the friendly approval status of first party drafts', () => {
+      expect(
+        createRowsForSite(
+          {...site, childNetworkCode: '', approvalStatus: 'DRAFT'},
+          childPublishers,
+          ['childPublisher', 'approvalStatus', 'childAccountStatus'],
+        ),
+      ).toEqual([['[First Party]', 'Not sent for review', '']]);
+    });
+
+    it('leaves the child publisher fields empty if it is not found', () => {
+      expect(
+        createRowsForSite(site, {}, [
+          'childPublisher',
+          'childAccountStatus',
+          'childSellerId',
+        ]),
+      ).toEqual([['[Child Publisher Name Not Found] (1234)', '', '']]);
+    });
+
+    it('creates a row per disapproval reason', () => {
+      expect(
+        createRowsForSite(site, childPublishers, [
+          'siteId',
+          'reasonType',
+          'reason',
+        ]),
+      ).toEqual([
+        ['101', 'Content', 'reason 1'],
+        ['101', 'Content', ''],
+        ['101', 'Ownership', 'reason 2'],
+      ]);
+    });
+
+    it('creates a single row for a site without disapproval reasons', () => {
+      expect(
+        createRowsForSite({...site, disapprovalReasons: []}, childPublishers, [
+          'siteId',
+          'reasonType',
+          'reason',
+        ]),
+      ).toEqual([['101', '', '']]);
+    });
+  });
+
+  describe('findUnresolvedChildNetworkCodes', () => {
+    it('returns the codes of unknown child publishers once', () => {
+      const sites = [
+        site,
+        {...site, childNetworkCode: '5678'},
+        {...site, childNetworkCode: ''},
+        {...site, childNetworkCode: '9012'},
+        {...site, childNetworkCode: '5678'},
+      ];
+      expect(
+        findUnresolvedChildNetworkCodes(sites, childPublishers, ['9012']),
+      ).toEqual(['9012', '5678']);
+    });
+
+    it('returns at most the given number of codes', () => {
+      const sites = [
+        {...site, childNetworkCode: '5678'},
+        {...site, childNetworkCode: '9012'},
+        {...site, childNetworkCode: '3456'},
+      ];
+      expect(
+        findUnresolvedChildNetworkCodes(sites, childPublishers, ['7890'], 2),
+      ).toEqual(['7890', '5678']);
+    });
+  });
+
+  describe('hasUnresolvedChildPublisher', () => {
+    it('returns whether the child publisher of a site is unknown', () => {
+      expect(hasUnresolvedChildPublisher(site, childPublishers)).toBeFalse();
+      expect(
+        hasUnresolvedChildPublisher(
+          {...site, childNetworkCode: '5678'},
+          childPublishers,
+        ),
+      ).toBeTrue();
+      expect(
+        hasUnresolvedChildPublisher(
+          {...site, childNetworkCode: ''},
+          childPublishers,
+        ),
+      ).toBeFalse();
+    });
+  });
+
+  describe('hasReasonColumns', () => {
+    it('returns whether a disapproval reason column is included', () => {
+      expect(hasReasonColumns(['siteId', 'reason'])).toBeTrue();
+      expect(hasReasonColumns(['siteId', 'statusDetails'])).toBeFalse();
+    });
+  });
+
+  describe('validateSiteColumns', () => {
+    it('returns valid columns', () => {
+      expect(validateSiteColumns(['url', 'siteId'])).toEqual(['url', 'siteId']);
+    });
+
+    it('throws an error for unknown columns', () => {
+      expect(() => validateSiteColumns(['siteId', 'unknown'])).toThrowError(
+        'Unknown column: unknown',
+      );
+    });
+
+    it('throws an error for repeated columns', () => {
+      expect(() => validateSiteColumns(['siteId', 'siteId'])).toThrowError(
+        'Each column can only be selected once.',
+      );
+    });
+
+    it('throws an error if the site ID column is missing', () => {
+      expect(() => validateSiteColumns(['url'])).toThrowError(
+        'The "Site ID" column is required.',
+      );
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Builds PQL queries for site imports from the filters chosen in
+ * the query builder dialog or entered for the import by status, so that users
+ * don't have to write PQL.
+ */
+
+import {BoundStatement, StatementBuilder} from './statement_builder';
+import {Site} from './typings/ad_manager_api';
+
+/**
+ * The filters of the query builder. Empty filters match all sites.
+ */
+export interface SiteQueryFilters {
+  approvalStatuses: Array<Site['approvalStatus']>;
+  childNetworkCodes: string[];
+  urlContains: string;
+  // Dates in "yyyy-mm-dd" format, both inclusive and in UTC. Empty if not
+  // set.
+  approvalStatusDateFrom: string;
+  approvalStatusDateTo: string;
+}
+
+/**
+ * The approval statuses that can be filtered by, with the labels shown in the
+ * query builder.
+ */
+export const SITE_QUERY_APPROVAL_STATUSES: Array<{
+  value: Site['approvalStatus'];
+  label: string;
+}> = [
+  {value: 'APPROVED', label: 'Ready'},
+  {value: 'DISAPPROVED', label: 'Needs attention'},
+  {value: 'REQUIRES_REVIEW', label: 'Getting ready (requires review)'},
+  {value: 'UNCHECKED', label: 'Getting ready (unchecked)'},
+  {value: 'DRAFT', label: 'Draft'},
+];
+
+const VALID_CHILD_NETWORK_CODE_PATTERN = /^[0-9]+$/;
+const VALID_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses a date of the query builder.
+ * @param date The date in "yyyy-mm-dd" format.
+ * @return The date at midnight UTC.
+ */
+function parseDate(date: string): Date {
+  const parsedDate = new Date(`${date}T00:00:00Z`);
+  if (
+    !VALID_DATE_PATTERN.test(date) ||
+    isNaN(parsedDate.getTime()) ||
+    parsedDate.toISOString().slice(0, 10) !== date
+  ) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  return parsedDate;
+}
+
+/**
+ * Creates the statement of a site import from the filters of the query
+ * builder.
+ * @param filters The filters.
+ * @return The statement, which has an empty query if no filter is set.
+ * @throws An error if a filter is invalid.
+ */
+export function createSiteQuery(filters: SiteQueryFilters): BoundStatement {
+  const allowedStatuses = SITE_QUERY_APPROVAL_STATUSES.map(({value}) => value);
+  for (const status of filters.approvalStatuses) {
+    if (!allowedStatuses.includes(status)) {
+      throw new Error(`Invalid approval status: ${status}`);
+    }
+  }
+  const childNetworkCodes = filters.childNetworkCodes
+    .map((code) => code.trim())
+    .filter((code) => code);
+  for (const code of childNetworkCodes) {
+    if (!VALID_CHILD_NETWORK_CODE_PATTERN.test(code)) {
+      throw new Error(`Invalid child network code: ${code}`);
+    }
+  }
+  const dateFrom = filters.approvalStatusDateFrom
+    ? parseDate(filters.approvalStatusDateFrom)
+    : null;
+  const dateTo = filters.approvalStatusDateTo
+    ? parseDate(filters.approvalStatusDateTo)
+    : null;
+  if (dateFrom && dateTo && dateFrom > dateTo) {
+    throw new Error('The start date is after the end date.');
+  }
+  const builder = new StatementBuilder()
+    .whereIn('approvalStatus', filters.approvalStatuses)
+    .whereIn('childNetworkCode', childNetworkCodes);
+  const urlContains = filters.urlContains.trim();
+  if (urlContains) {
+    builder.where('url', 'LIKE', `%${urlContains}%`);
+  }
+  if (dateFrom) {
+    builder.where('lastModifiedApprovalStatusDateTime', '>=', dateFrom);
+  }
+  if (dateTo) {
+    // The end date is inclusive, so sites are matched until the next day.
+    const nextDay = new Date(dateTo.getTime() + 24 * 60 * 60 * 1000);
+    builder.where('lastModifiedApprovalStatusDateTime', '<', nextDay);
+  }
+  return builder.build();
+}
+
+/**
+ * Parses the approval statuses entered in the prompt of the import by status.
+ * @param input The approval statuses separated by commas or whitespace, e.g.
+ *     "DISAPPROVED, requires_review".
+ * @return The approval statuses without duplicates, in the order entered.
+ * @throws An error if a status is invalid or if no status is entered.
+ */
+export function parseApprovalStatuses(
+  input: string,
+): Array<Site['approvalStatus']> {
+  const allowedStatuses = SITE_QUERY_APPROVAL_STATUSES.map(({value}) => value);
+  const statuses = new Set<Site['approvalStatus']>();
+  for (const status of input.toUpperCase().split(/[\s,]+/)) {
+    if (!status) {
+      continue;
+    }
+    const allowedStatus = allowedStatuses.find((value) => value === status);
+    if (!allowedStatus) {
+      throw new Error(`Invalid approval status: ${status}`);
+    }
+    statuses.add(allowedStatus);
+  }
+  if (!statuses.size) {
+    throw new Error('No approval status entered.');
+  }
+  return [...statuses];
+}
+
+/**
+ * Parses the window of the last approval status change entered in the prompt
+ * of the import by status.
+ * @param input A number of days, e.g. "30" for changes since 30 days ago, a
+ *     start date in "yyyy-mm-dd" format, two dates separated by "to", or an
+ *     empty string to match any date.
+ * @param now The current time, whose date in UTC is used for numbers of days.
+ * @return The date filters, which are validated by `createSiteQuery`.
+ * @throws An error if the input has none of the supported formats.
+ */
+export function parseApprovalStatusDateRange(
+  input: string,
+  now = new Date(),
+): Pick<SiteQueryFilters, 'approvalStatusDateFrom' | 'approvalStatusDateTo'> {
+  const trimmedInput = input.trim();
+  if (!trimmedInput) {
+    return {approvalStatusDateFrom: '', approvalStatusDateTo: ''};
+  }
+  if (/^[0-9]+$/.test(trimmedInput)) {
+    const from = new Date(
+      now.getTime() - Number(trimmedInput) * 24 * 60 * 60 * 1000,
+    );
+    return {
+      approvalStatusDateFrom: from.toISOString().slice(0, 10),
+      approvalStatusDateTo: '',
+    };
+  }
+  const match = trimmedInput.match(/^(\S+)(?:\s+to\s+(\S+))?$/i);
+  if (!match) {
+    throw new Error(`Invalid date range: ${trimmedInput}`);
+  }
+  return {
+    approvalStatusDateFrom: match[1],
+    approvalStatusDateTo: match[2] ?? '',
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createSiteQuery,
+  parseApprovalStatusDateRange,
+  parseApprovalStatuses,
+  SiteQueryFilters,
+} from './site_query';
+import {describeStatement} from './statement_builder';
+
+describe('createSiteQuery', () => {
+  const noFilters: SiteQueryFilters = {
+    approvalStatuses: [],
+    childNetworkCodes: [],
+    urlContains: '',
+    approvalStatusDateFrom: '',
+    approvalStatusDateTo: '',
+  };
+
+  it('returns an empty query without filters', () => {
+    expect(createSiteQuery(noFilters)).toEqual({query: '', values: []});
+  });
+
+  it('combines all filters', () => {
+    const statement = createSiteQuery({
+      approvalStatuses: ['APPROVED', 'DISAPPROVED'],
+      childNetworkCodes: ['1234', ' 5678 ', ''],
+      urlContains: 'example',
+      approvalStatusDateFrom: '2024-03-01',
+      approvalStatusDateTo: '2024-03-31',
+    });
+    expect(statement.query).toBe(
+      'WHERE approvalStatus IN (:approvalStatus, :approvalStatus2) AND ' +
+        'childNetworkCode IN (:childNetworkCode, :childNetworkCode2) AND ' +
+        'url LIKE :url AND ' +
+        'lastModifiedApprovalStatusDateTime >= ' +
+        ':lastModifiedApprovalStatusDateTime AND ' +
+        'lastModifiedApprovalStatusDateTime < ' +
+        ':lastModifiedApprovalStatusDateTime2',
+    );
+    expect(describeStatement(statement)).toBe(
+      "WHERE approvalStatus IN ('APPROVED', 'DISAPPROVED') AND " +
+        "childNetworkCode IN ('1234', '5678') AND " +
+        "url LIKE '%example%' AND " +
+        "lastModifiedApprovalStatusDateTime >= '2024-03-01T00:00:00' AND " +
+        "lastModifiedApprovalStatusDateTime < '2024-04-01T00:00:00'",
+    );
+  });
+
+  it('binds the URL filter', () => {
+    expect(createSiteQuery({...noFilters, urlContains: "it's"})).toEqual({
+      query: 'WHERE url LIKE :url',
+      values: [{key: 'url', value: {'xsi:type': 'TextValue', value: "%it's%"}}],
+    });
+  });
+
+  it('throws an error for an invalid child network code', () => {
+    expect(() =>
+      createSiteQuery({...noFilters, childNetworkCodes: ["1' OR 1=1"]}),
+    ).toThrowError("Invalid child network code: 1' OR 1=1");
+  });
+
+  it('throws an error for an invalid date', () => {
+    expect(() =>
+      createSiteQuery({...noFilters, approvalStatusDateFrom: '2024-02-30'}),
+    ).toThrowError('Invalid date: 2024-02-30');
+  });
+
+  it('throws an error if the start date is after the end date', () => {
+    expect(() =>
+      createSiteQuery({
+        ...noFilters,
+        approvalStatusDateFrom: '2024-03-02',
+        approvalStatusDateTo: '2024-03-01',
+      }),
+    ).toThrowError('The start date is after the end date.');
+  });
+});
+
+describe('parseApprovalStatuses', () => {
+  it('parses statuses in any case without duplicates', () => {
+    expect(
+      parseApprovalStatuses('DISAPPROVED, requires_review disapproved'),
+    ).toEqual(['DISAPPROVED', 'REQUIRES_REVIEW']);
+  });
+
+  it('throws an error for an invalid status', () => {
+    expect(() => parseApprovalStatuses('APPROVED, REJECTED')).toThrowError(
+      'Invalid approval status: REJECTED',
+    );
+  });
+
+  it('throws an error without statuses', () => {
+    expect(() => parseApprovalStatuses(' , ')).toThrowError(
+      'No approval status entered.',
+    );
+  });
+});
+
+describe('parseApprovalStatusDateRange', () => {
+  const now = new Date('2024-03-31T12:00:00Z');
+
+  it('matches any date without input', () => {
+    expect(parseApprovalStatusDateRange(' ', now)).toEqual({
+      approvalStatusDateFrom: '',
+      approvalStatusDateTo: '',
+    });
+  });
+
+  it('parses a number of days', () => {
+    expect(parseApprovalStatusDateRange('30', now)).toEqual({
+      approvalStatusDateFrom: '2024-03-01',
+      approvalStatusDateTo: '',
+    });
+  });
+
+  it('parses a start date', () => {
+    expect(parseApprovalStatusDateRange('2024-03-01', now)).toEqual({
+      approvalStatusDateFrom: '2024-03-01',
+      approvalStatusDateTo: '',
+    });
+  });
+
+  it('parses two dates', () => {
+    expect(
+      parseApprovalStatusDateRange('2024-03-01 to 2024-03-15', now),
+    ).toEqual({
+      approvalStatusDateFrom: '2024-03-01',
+      approvalStatusDateTo: '2024-03-15',
+    });
+  });
+
+  it('throws an error for an invalid range', () => {
+    expect(() =>
+      parseApprovalStatusDateRange('since last week', now),
+    ).toThrowError('Invalid date range: since last week');
+  });
+});
@@ -46,6 +46,25 @@ export class SpreadsheetHandler {
     }
   }
 
+  /**
+   * Returns whether a sheet with the given name exists.
+   *
+   * @param name The name of the sheet.
+   */
+  hasSheet(name: string): boolean {
+    return this.spreadsheet.getSheetByName(name) !== null;
+  }
+
+  /**
+   * Clears the contents and formatting of a sheet.
+   *
+   * @param sheetName The name of the sheet to clear.
+   */
+  clearSheet(sheetName: string) {
+    const sheet = this.getSheet(sheetName);
+    sheet.clear();
+  }
+
   /**
    * Inserts values into a sheet.
    *
@@ -53,11 +72,13 @@ export class SpreadsheetHandler {
    * @param values The values to insert.
    * @param The row to start inserting at. If undefined, the next available row
    * is used.
+   * @param column The column to start inserting at. Defaults to 1.
    */
   insertValuesIntoSheet(
     sheetName: string,
     values: string[][],
     row: number | undefined = undefined,
+    column: number = 1,
   ) {
     const sheet = this.getSheet(sheetName);
     if (row === undefined) {
@@ -68,10 +89,188 @@ export class SpreadsheetHandler {
       throw new Error('No values provided');
     }
     const columns = values[0].length;
-    const range = sheet.getRange(row, 1, rows, columns);
+    const range = sheet.getRange(row, column, rows, columns);
+    range.setValues(values);
+  }
+
+  /**
+   * Returns all values within the data range of a sheet.
+   *
+   * @param sheetName The name of the sheet to read.
+   * @return The values of the sheet, indexed by row and then column.
+   */
+  getSheetValues(sheetName: string): unknown[][] {
+    const sheet = this.getSheet(sheetName);
+    return sheet.getDataRange().getValues();
+  }
+
+  /**
+   * Returns all values within a named range or a range in A1 notation.
+   *
+   * @param range The name of the range, or its A1 notation, e.g. "Sheet1!A2:A".
+   *     A1 notation without a sheet name refers to the active sheet.
+   * @return The values of the range, indexed by row and then column.
+   */
+  getRangeValues(range: string): unknown[][] {
+    const namedRange = this.spreadsheet.getRangeByName(range);
+    if (namedRange) {
+      return namedRange.getValues();
+    }
+    try {
+      return this.spreadsheet.getRange(range).getValues();
+    } catch (e) {
+      throw new Error(`Range ${range} not found.`);
+    }
+  }
+
+  /**
+   * Returns the names of all sheets in the spreadsheet.
+   */
+  getSheetNames(): string[] {
+    return this.spreadsheet.getSheets().map((sheet) => sheet.getName());
+  }
+
+  /**
+   * Returns the name of the active sheet.
+   */
+  getActiveSheetName(): string {
+    return this.spreadsheet.getActiveSheet().getName();
+  }
+
+  /**
+   * Returns the row numbers covered by the current selection in the active
+   * sheet, in ascending order and without duplicates.
+   */
+  getSelectedRowNumbers(): number[] {
+    const rangeList = this.spreadsheet.getActiveRangeList();
+    if (!rangeList) {
+      return [];
+    }
+    const rowNumbers = new Set<number>();
+    for (const range of rangeList.getRanges()) {
+      const firstRow = range.getRow();
+      for (let i = 0; i < range.getNumRows(); i++) {
+        rowNumbers.add(firstRow + i);
+      }
+    }
+    return [...rowNumbers].sort((a, b) => a - b);
+  }
+
+  /**
+   * Stores a value in the developer metadata of a sheet, replacing any
+   * existing value for the same key.
+   *
+   * @param sheetName The name of the sheet.
+   * @param key The metadata key.
+   * @param value The value to store.
+   */
+  setSheetMetadata(sheetName: string, key: string, value: string) {
+    const sheet = this.getSheet(sheetName);
+    const existingMetadata = sheet
+      .getDeveloperMetadata()
+      .find((metadata) => metadata.getKey() === key);
+    if (existingMetadata) {
+      existingMetadata.setValue(value);
+    } else {
+      sheet.addDeveloperMetadata(key, value);
+    }
+  }
+
+  /**
+   * Retrieves a value from the developer metadata of a sheet.
+   *
+   * @param sheetName The name of the sheet.
+   * @param key The metadata key.
+   * @return The stored value, or null if the key isn't set.
+   */
+  getSheetMetadata(sheetName: string, key: string): string | null {
+    const sheet = this.getSheet(sheetName);
+    const metadata = sheet
+      .getDeveloperMetadata()
+      .find((metadata) => metadata.getKey() === key);
+    return metadata ? metadata.getValue() : null;
+  }
+
+  /**
+   * Marks rows as removed by striking through their first columns and adding a
+   * note to their first cell. Rows that aren't removed have both cleared.
+   *
+   * @param sheetName The name of the sheet.
+   * @param firstRow The first row to update.
+   * @param numColumns The number of columns to strike through.
+   * @param removedNotes The note for each row, or an empty string for rows
+   * that aren't removed.
+   */
+  markRemovedRows(
+    sheetName: string,
+    firstRow: number,
+    numColumns: number,
+    removedNotes: string[],
+  ) {
+    if (!removedNotes.length) {
+      return;
+    }
+    const sheet = this.getSheet(sheetName);
+    const range = sheet.getRange(firstRow, 1, removedNotes.length, numColumns);
+    range.setFontLines(
+      removedNotes.map((note) =>
+        new Array(numColumns).fill(note ? 'line-through' : 'none'),
+      ),
+    );
+    range
+      .offset(0, 0, removedNotes.length, 1)
+      .setNotes(removedNotes.map((note) => [note]));
+  }
+
+  /**
+   * Sets the values of some rows of a column with a single write. The values
+   * of the other rows between the first and the last given row are kept.
+   *
+   * @param sheetName The name of the sheet.
+   * @param column The column to write to.
+   * @param valuesByRow The value to write to each row.
+   */
+  setColumnValues(
+    sheetName: string,
+    column: number,
+    valuesByRow: Map<number, string>,
+  ) {
+    if (!valuesByRow.size) {
+      return;
+    }
+    const rows = [...valuesByRow.keys()];
+    const firstRow = Math.min(...rows);
+    const lastRow = Math.max(...rows);
+    const sheet = this.getSheet(sheetName);
+    const range = sheet.getRange(firstRow, column, lastRow - firstRow + 1, 1);
+    const values = range
+      .getValues()
+      .map(([value], i) => [valuesByRow.get(firstRow + i) ?? value]);
     range.setValues(values);
   }
 
+  /**
+   * Sets the note of a cell.
+   *
+   * @param sheetName The name of the sheet.
+   * @param row The row of the cell.
+   * @param column The column of the cell.
+   * @param note The note to set.
+   */
+  setNote(sheetName: string, row: number, column: number, note: string) {
+    const sheet = this.getSheet(sheetName);
+    sheet.getRange(row, column).setNote(note);
+  }
+
+  /**
+   * Shows a short message in the lower right corner of the spreadsheet.
+   *
+   * @param message The message to show.
+   */
+  showToast(message: string) {
+    this.spreadsheet.toast(message);
+  }
+
   /**
    * Renames a sheet.
    *
@@ -94,6 +293,38 @@ export class SpreadsheetHandler {
     sheet.activate();
   }
 
+  /**
+   * Shows a hidden sheet without activating it.
+   *
+   * @param sheetName The name of the sheet to show.
+   */
+  showSheet(sheetName: string) {
+    this.getSheet(sheetName).showSheet();
+  }
+
+  /**
+   * Copies a sheet, including its values and formatting, into a new hidden
+   * sheet.
+   *
+   * @param sheetName The name of the sheet to copy.
+   * @param newName The name of the copy.
+   */
+  copySheet(sheetName: string, newName: string) {
+    const copy = this.getSheet(sheetName).copyTo(this.spreadsheet);
+    copy.setName(newName);
+    copy.hideSheet();
+  }
+
+  /**
+   * Returns the URL that opens a sheet of the spreadsheet.
+   *
+   * @param sheetName The name of the sheet.
+   */
+  getSheetUrl(sheetName: string): string {
+    const sheetId = this.getSheet(sheetName).getSheetId();
+    return `${this.spreadsheet.getUrl()}#gid=${sheetId}`;
+  }
+
   /**
    * Deletes a sheet.
    *
@@ -103,4 +334,34 @@ export class SpreadsheetHandler {
     const sheet = this.getSheet(sheetName);
     this.spreadsheet.deleteSheet(sheet);
   }
+
+  /**
+   * Inserts a chart of a range into a sheet.
+   *
+   * @param sheetName The name of the sheet with the chart data.
+   * @param chartType The type of the chart.
+   * @param range The A1 notation of the chart data, including the header row.
+   * @param title The title of the chart.
+   * @param row The row to anchor the top left corner of the chart at.
+   * @param column The column to anchor the top left corner of the chart at.
+   */
+  insertChart(
+    sheetName: string,
+    chartType: 'PIE' | 'BAR' | 'COLUMN' | 'LINE',
+    range: string,
+    title: string,
+    row: number,
+    column: number,
+  ) {
+    const sheet = this.getSheet(sheetName);
+    const chart = sheet
+      .newChart()
+      .setChartType(Charts.ChartType[chartType])
+      .addRange(sheet.getRange(range))
+      .setNumHeaders(1)
+      .setOption('title', title)
+      .setPosition(row, column, 0, 0)
+      .build();
+    sheet.insertChart(chart);
+  }
 }
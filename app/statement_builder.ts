@@ -0,0 +1,174 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Builds PQL statements whose values are bound to named
+ * parameters rather than written into the query, so that they don't need to
+ * be quoted or escaped.
+ */
+
+import {AdManagerDateTime} from './typings/ad_manager_api';
+
+/**
+ * A value that can be bound to a statement. Dates are bound as date times in
+ * UTC.
+ */
+export type PqlValue = string | number | Date;
+
+/**
+ * A value bound to a named parameter of a statement.
+ */
+export interface BoundValue {
+  key: string;
+  value:
+    | {'xsi:type': 'TextValue' | 'NumberValue'; value: string}
+    | {'xsi:type': 'DateTimeValue'; value: AdManagerDateTime};
+}
+
+/**
+ * A PQL statement with bound values.
+ */
+export interface BoundStatement {
+  query: string;
+  values: BoundValue[];
+}
+
+/**
+ * The operators that compare a field with a single value.
+ */
+export type PqlOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'LIKE';
+
+/**
+ * Converts a value into the value type of the Ad Manager API.
+ * @param value The value.
+ */
+function toBoundValue(value: PqlValue): BoundValue['value'] {
+  if (typeof value === 'string') {
+    return {'xsi:type': 'TextValue', value};
+  } else if (typeof value === 'number') {
+    return {'xsi:type': 'NumberValue', value: String(value)};
+  }
+  return {
+    'xsi:type': 'DateTimeValue',
+    value: {
+      date: {
+        year: value.getUTCFullYear(),
+        month: value.getUTCMonth() + 1,
+        day: value.getUTCDate(),
+      },
+      hour: value.getUTCHours(),
+      minute: value.getUTCMinutes(),
+      second: value.getUTCSeconds(),
+      timeZoneId: 'UTC',
+    },
+  };
+}
+
+/**
+ * Builds the WHERE clause of a statement from conditions that are combined
+ * with AND. Each value is bound to a parameter named after its field.
+ */
+export class StatementBuilder {
+  private readonly conditions: string[] = [];
+  private readonly values: BoundValue[] = [];
+
+  /**
+   * Adds a condition that compares a field with a value.
+   *
+   * @param field The name of the field.
+   * @param operator The comparison operator.
+   * @param value The value to compare with.
+   */
+  where(field: string, operator: PqlOperator, value: PqlValue): this {
+    this.conditions.push(`${field} ${operator} ${this.bind(field, value)}`);
+    return this;
+  }
+
+  /**
+   * Adds a condition that matches a field against a list of values. An empty
+   * list adds no condition.
+   *
+   * @param field The name of the field.
+   * @param values The values to match.
+   */
+  whereIn(field: string, values: PqlValue[]): this {
+    if (values.length) {
+      const parameters = values.map((value) => this.bind(field, value));
+      this.conditions.push(`${field} IN (${parameters.join(', ')})`);
+    }
+    return this;
+  }
+
+  /**
+   * Returns the statement with all conditions, which has an empty query if
+   * there are no conditions.
+   */
+  build(): BoundStatement {
+    return {
+      query: this.conditions.length
+        ? `WHERE ${this.conditions.join(' AND ')}`
+        : '',
+      values: [...this.values],
+    };
+  }
+
+  /**
+   * Binds a value to a new parameter and returns the parameter.
+   *
+   * @param field The name of the field, which the parameter is named after.
+   * @param value The value to bind.
+   */
+  private bind(field: string, value: PqlValue): string {
+    const keys = new Set(this.values.map(({key}) => key));
+    let key = field;
+    for (let i = 2; keys.has(key); i++) {
+      key = `${field}${i}`;
+    }
+    this.values.push({key, value: toBoundValue(value)});
+    return `:${key}`;
+  }
+}
+
+/**
+ * Returns a readable version of a statement with its values written into the
+ * query, e.g. for display. The result is not meant to be sent to the API.
+ * @param statement The statement.
+ */
+export function describeStatement(statement: {
+  query: string;
+  values?: BoundValue[];
+}): string {
+  const valuesByKey = new Map(
+    (statement.values ?? []).map(({key, value}) => [key, value]),
+  );
+  return statement.query.replace(/:(\w+)/g, (parameter, key: string) => {
+    const value = valuesByKey.get(key);
+    if (!value) {
+      return parameter;
+    } else if (value['xsi:type'] === 'DateTimeValue') {
+      const {date, hour, minute, second} = value.value;
+      const pad = (n: number) => String(n).padStart(2, '0');
+      return (
+        `'${date.year}-${pad(date.month)}-${pad(date.day)}T` +
+        `${pad(hour)}:${pad(minute)}:${pad(second)}'`
+      );
+    } else if (value['xsi:type'] === 'NumberValue') {
+      return value.value;
+    }
+    return `'${value.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {describeStatement, StatementBuilder} from './statement_builder';
+
+describe('StatementBuilder', () => {
+  it('returns an empty query without conditions', () => {
+    expect(new StatementBuilder().build()).toEqual({query: '', values: []});
+  });
+
+  it('binds each value to a parameter', () => {
+    expect(
+      new StatementBuilder()
+        .where('childNetworkCode', '!=', '')
+        .whereIn('id', [1, 2])
+        .build(),
+    ).toEqual({
+      query:
+        'WHERE childNetworkCode != :childNetworkCode AND id IN (:id, :id2)',
+      values: [
+        {key: 'childNetworkCode', value: {'xsi:type': 'TextValue', value: ''}},
+        {key: 'id', value: {'xsi:type': 'NumberValue', value: '1'}},
+        {key: 'id2', value: {'xsi:type': 'NumberValue', value: '2'}},
+      ],
+    });
+  });
+
+  it('binds dates in UTC', () => {
+    expect(
+      new StatementBuilder()
+        .where('lastModifiedDateTime', '>=', new Date(Date.UTC(2024, 2, 1, 13)))
+        .build().values,
+    ).toEqual([
+      {
+        key: 'lastModifiedDateTime',
+        value: {
+          'xsi:type': 'DateTimeValue',
+          value: {
+            date: {year: 2024, month: 3, day: 1},
+            hour: 13,
+            minute: 0,
+            second: 0,
+            timeZoneId: 'UTC',
+          },
+        },
+      },
+    ]);
+  });
+
+  it('adds no condition for an empty list', () => {
+    expect(new StatementBuilder().whereIn('id', []).build()).toEqual({
+      query: '',
+      values: [],
+    });
+  });
+});
+
+describe('describeStatement', () => {
+  it('writes the values into the query', () => {
+    expect(
+      describeStatement(
+        new StatementBuilder()
+          .where('url', 'LIKE', "%it's%")
+          .whereIn('id', [1])
+          .where('lastModifiedDateTime', '<', new Date(Date.UTC(2024, 3, 1)))
+          .build(),
+      ),
+    ).toBe(
+      "WHERE url LIKE '%it\\'s%' AND id IN (1) AND " +
+        "lastModifiedDateTime < '2024-04-01T00:00:00'",
+    );
+  });
+
+  it('keeps queries without values', () => {
+    expect(describeStatement({query: "WHERE name = 'Test'"})).toBe(
+      "WHERE name = 'Test'",
+    );
+  });
+});
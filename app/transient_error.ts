@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Marks errors of callable functions that are worth retrying.
+ * Dialogs only receive the message of an error thrown on the server, so the
+ * mark is a prefix of the message.
+ */
+
+const TRANSIENT_ERROR_PREFIX = 'Temporary failure: ';
+
+/**
+ * Returns an error with the message of the given error, marked as transient.
+ * @param e The error that was thrown.
+ */
+export function createTransientError(e: unknown): Error {
+  const message = e instanceof Error ? e.message : String(e);
+  return new Error(`${TRANSIENT_ERROR_PREFIX}${message}`);
+}
+
+/**
+ * Returns whether an error received from the server is marked as transient.
+ * @param error The error passed to the failure handler of a dialog.
+ */
+export function isTransientError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes(TRANSIENT_ERROR_PREFIX);
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {createTransientError, isTransientError} from './transient_error';
+
+describe('transient error', () => {
+  it('marks errors as transient', () => {
+    const error = createTransientError(new Error('Service unavailable'));
+
+    expect(error.message).toContain('Service unavailable');
+    expect(isTransientError(error)).toBeTrue();
+  });
+
+  it('recognizes marked errors by their message', () => {
+    const error = createTransientError('Timed out');
+
+    expect(isTransientError(`Error: ${error.message}`)).toBeTrue();
+  });
+
+  it('does not mark other errors as transient', () => {
+    expect(isTransientError(new Error('Permission denied'))).toBeFalse();
+  });
+});
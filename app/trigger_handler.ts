@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview A handler for managing time-driven triggers.
+ */
+
+/**
+ * A handler for managing the time-driven triggers of the current user.
+ */
+export class TriggerHandler {
+  constructor(private readonly scriptApp = ScriptApp) {}
+
+  /**
+   * Schedules a function to run every day.
+   *
+   * @param functionName The name of the global function to run.
+   * @param hour The hour of the day (0-23) to run the function at.
+   */
+  scheduleDaily(functionName: string, hour: number) {
+    this.scriptApp
+      .newTrigger(functionName)
+      .timeBased()
+      .everyDays(1)
+      .atHour(hour)
+      .create();
+  }
+
+  /**
+   * Schedules a function to run every Monday.
+   *
+   * @param functionName The name of the global function to run.
+   * @param hour The hour of the day (0-23) to run the function at.
+   */
+  scheduleWeekly(functionName: string, hour: number) {
+    this.scriptApp
+      .newTrigger(functionName)
+      .timeBased()
+      .onWeekDay(this.scriptApp.WeekDay.MONDAY)
+      .atHour(hour)
+      .create();
+  }
+
+  /**
+   * Schedules a function to run once after a delay.
+   *
+   * @param functionName The name of the global function to run.
+   * @param delayMs The delay in milliseconds.
+   */
+  scheduleAfter(functionName: string, delayMs: number) {
+    this.scriptApp.newTrigger(functionName).timeBased().after(delayMs).create();
+  }
+
+  /**
+   * Deletes all triggers that run the given function.
+   *
+   * @param functionName The name of the global function.
+   */
+  deleteTriggers(functionName: string) {
+    for (const trigger of this.scriptApp.getProjectTriggers()) {
+      if (trigger.getHandlerFunction() === functionName) {
+        this.scriptApp.deleteTrigger(trigger);
+      }
+    }
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {TriggerHandler} from './trigger_handler';
+
+describe('TriggerHandler', () => {
+  let mockScriptApp: jasmine.SpyObj<GoogleAppsScript.Script.ScriptApp>;
+  let mockClockTriggerBuilder: jasmine.SpyObj<GoogleAppsScript.Script.ClockTriggerBuilder>;
+
+  beforeEach(() => {
+    mockClockTriggerBuilder = jasmine.createSpyObj('ClockTriggerBuilder', [
+      'everyDays',
+      'onWeekDay',
+      'atHour',
+      'after',
+      'create',
+    ]);
+    mockClockTriggerBuilder.everyDays.and.returnValue(mockClockTriggerBuilder);
+    mockClockTriggerBuilder.onWeekDay.and.returnValue(mockClockTriggerBuilder);
+    mockClockTriggerBuilder.atHour.and.returnValue(mockClockTriggerBuilder);
+    mockClockTriggerBuilder.after.and.returnValue(mockClockTriggerBuilder);
+    const mockTriggerBuilder = jasmine.createSpyObj('TriggerBuilder', [
+      'timeBased',
+    ]);
+    mockTriggerBuilder.timeBased.and.returnValue(mockClockTriggerBuilder);
+    mockScriptApp = {
+      WeekDay: {MONDAY: 'MONDAY'},
+      newTrigger: jasmine.createSpy('newTrigger'),
+      getProjectTriggers: jasmine.createSpy('getProjectTriggers'),
+      deleteTrigger: jasmine.createSpy('deleteTrigger'),
+    } as unknown as jasmine.SpyObj<GoogleAppsScript.Script.ScriptApp>;
+    mockScriptApp.newTrigger.and.returnValue(mockTriggerBuilder);
+  });
+
+  describe('scheduleDaily', () => {
+    it('creates a daily trigger', () => {
+      const handler = new TriggerHandler(mockScriptApp);
+      handler.scheduleDaily('myFunction', 6);
+      expect(mockScriptApp.newTrigger).toHaveBeenCalledOnceWith('myFunction');
+      expect(mockClockTriggerBuilder.everyDays).toHaveBeenCalledOnceWith(1);
+      expect(mockClockTriggerBuilder.atHour).toHaveBeenCalledOnceWith(6);
+      expect(mockClockTriggerBuilder.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scheduleWeekly', () => {
+    it('creates a weekly trigger', () => {
+      const handler = new TriggerHandler(mockScriptApp);
+      handler.scheduleWeekly('myFunction', 6);
+      expect(mockScriptApp.newTrigger).toHaveBeenCalledOnceWith('myFunction');
+      expect(mockClockTriggerBuilder.onWeekDay).toHaveBeenCalledOnceWith(
+        mockScriptApp.WeekDay.MONDAY,
+      );
+      expect(mockClockTriggerBuilder.atHour).toHaveBeenCalledOnceWith(6);
+      expect(mockClockTriggerBuilder.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('scheduleAfter', () => {
+    it('creates a one-off trigger', () => {
+      const handler = new TriggerHandler(mockScriptApp);
+      handler.scheduleAfter('myFunction', 60_000);
+      expect(mockScriptApp.newTrigger).toHaveBeenCalledOnceWith('myFunction');
+      expect(mockClockTriggerBuilder.after).toHaveBeenCalledOnceWith(60_000);
+      expect(mockClockTriggerBuilder.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deleteTriggers', () => {
+    it('deletes the triggers of the given function', () => {
+      const createMockTrigger = (functionName: string) =>
+        ({
+          getHandlerFunction: () => functionName,
+        }) as unknown as GoogleAppsScript.Script.Trigger;
+      const triggers = [
+        createMockTrigger('myFunction'),
+        createMockTrigger('otherFunction'),
+      ];
+      mockScriptApp.getProjectTriggers.and.returnValue(triggers);
+      const handler = new TriggerHandler(mockScriptApp);
+      handler.deleteTriggers('myFunction');
+      expect(mockScriptApp.deleteTrigger).toHaveBeenCalledOnceWith(triggers[0]);
+    });
+  });
+});
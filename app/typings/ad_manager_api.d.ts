@@ -113,6 +113,14 @@ export declare interface Company {
   // viewabilityProvider: ViewabilityProvider;
 }
 
+export declare interface SiteAction {
+  'xsi:type': 'SubmitSiteForApproval' | 'DeactivateSite';
+}
+
+export declare interface UpdateResult {
+  numChanges: number;
+}
+
 export declare interface StatementResult<T> {
   totalResultSetSize: number;
   startIndex: number;
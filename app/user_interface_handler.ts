@@ -18,9 +18,8 @@
 /**
  * @fileoverview Handles user interface interactions.
  */
-import {Statement} from 'gam_apps_script/typings/statement';
+import {SavedQuery} from './saved_queries';
 import {UserSettings} from './user_settings';
-import {SiteImportOutputFormat} from './app'
 
 /**
  * Represents a menu item, which can be a string (representing a function) or a
@@ -30,6 +29,31 @@ export interface Menu {
   [name: string]: string | Menu;
 }
 
+/**
+ * The callable functions that the import dialog calls with the ID of the
+ * import.
+ */
+export interface ImportFunctionNames {
+  // Imports the next pages and returns the number of results loaded and
+  // whether the import is done.
+  importPage: string;
+  finish: string;
+  // Ends an import that failed, keeping the results imported so far.
+  keepPartial: string;
+  // Reports an import as failed once the dialog stopped retrying a page.
+  reportFailure?: string;
+}
+
+/**
+ * The callable functions of site imports.
+ */
+export const SITE_IMPORT_FUNCTION_NAMES: ImportFunctionNames = {
+  importPage: 'importSitesPage',
+  finish: 'finishSitesImport',
+  keepPartial: 'keepPartialSitesImport',
+  reportFailure: 'reportFailedSitesImport',
+};
+
 /**
  * Handles user interface interactions.
  */
@@ -93,29 +117,159 @@ export class UserInterfaceHandler {
 
   /**
    * Shows the import sites dialog.
-   * @param importId The ID of the import.
    * @param title The title of the dialog
-   * @param statements The statements to import
+   * @param outputSheetTitle The title of the sheet, which identifies the import.
+   * @param loadedResults The number of results that were already imported
    * @param totalResults The total number of results
    * @param details Additional details that should be displayed in the dialog.
    */
   showImportSitesDialog(
     title: string,
     outputSheetTitle: string,
-    outputSheetFormat: SiteImportOutputFormat,
-    statements: Statement[],
+    loadedResults: number,
     totalResults: number,
     details: string = '',
   ): void {
-    var htmlTemplate = this.createHtmlTemplateFn('import_dialog');
+    this.showImportDialog(
+      title,
+      outputSheetTitle,
+      SITE_IMPORT_FUNCTION_NAMES,
+      loadedResults,
+      totalResults,
+      details,
+    );
+  }
+
+  /**
+   * Shows the import dialog, which imports the results page by page by
+   * calling the given functions.
+   * @param title The title of the dialog.
+   * @param outputSheetTitle The title of the sheet, which identifies the import.
+   * @param functionNames The callable functions of the import.
+   * @param loadedResults The number of results that were already imported.
+   * @param totalResults The total number of results.
+   * @param details Additional details that should be displayed in the dialog.
+   */
+  showImportDialog(
+    title: string,
+    outputSheetTitle: string,
+    functionNames: ImportFunctionNames,
+    loadedResults: number,
+    totalResults: number,
+    details: string = '',
+  ): void {
+    const htmlTemplate = this.createHtmlTemplateFn('import_dialog');
     htmlTemplate['importId'] = outputSheetTitle;
-    htmlTemplate['outputSheetFormat'] = outputSheetFormat;
-    htmlTemplate['statements'] = JSON.stringify(statements);
+    htmlTemplate['functionNames'] = JSON.stringify(functionNames);
+    htmlTemplate['loadedResults'] = loadedResults;
     htmlTemplate['totalResults'] = totalResults;
     htmlTemplate['details'] = details;
+    this.ui.showModalDialog(htmlTemplate.evaluate().setHeight(300), title);
+  }
+
+  /**
+   * Shows the batch operation dialog, which calls a server-side function once
+   * for each batch and reports the progress to the user.
+   * @param title The title of the dialog.
+   * @param operationId The ID of the operation, passed to each function call.
+   * @param functionName The name of the callable function to run per batch.
+   * @param batches The arguments to pass to each function call.
+   * @param totalItems The total number of items across all batches.
+   * @param details Additional details that should be displayed in the dialog.
+   */
+  showBatchOperationDialog(
+    title: string,
+    operationId: string,
+    functionName: string,
+    batches: unknown[],
+    totalItems: number,
+    details: string = '',
+  ): void {
+    const htmlTemplate = this.createHtmlTemplateFn('batch_operation_dialog');
+    htmlTemplate['operationId'] = operationId;
+    htmlTemplate['functionName'] = functionName;
+    htmlTemplate['batches'] = JSON.stringify(batches);
+    htmlTemplate['totalItems'] = totalItems;
+    htmlTemplate['details'] = details;
     this.ui.showModalDialog(htmlTemplate.evaluate().setHeight(210), title);
   }
 
+  /**
+   * Shows the compare imports dialog.
+   * @param sheetNames The names of the import sheets that can be compared.
+   * @param snapshots The recorded snapshots that can be compared, oldest
+   *     first.
+   */
+  showCompareImportsDialog(
+    sheetNames: string[],
+    snapshots: Array<{timestamp: string; query: string}>,
+  ): void {
+    const htmlTemplate = this.createHtmlTemplateFn('compare_imports_dialog');
+    htmlTemplate['sheetNames'] = JSON.stringify(sheetNames);
+    htmlTemplate['snapshots'] = JSON.stringify(snapshots);
+    this.ui.showModalDialog(
+      htmlTemplate.evaluate().setHeight(330),
+      'Compare Imports',
+    );
+  }
+
+  /**
+   * Shows the dialog to choose and order the columns of site imports.
+   * @param columns The columns that can be chosen, in their default order.
+   * @param selectedColumnIds The IDs of the currently chosen columns in order.
+   */
+  showSiteColumnsDialog(
+    columns: Array<{id: string; header: string}>,
+    selectedColumnIds: string[],
+  ): void {
+    const htmlTemplate = this.createHtmlTemplateFn('site_columns_dialog');
+    htmlTemplate['columns'] = JSON.stringify(columns);
+    htmlTemplate['selectedColumnIds'] = JSON.stringify(selectedColumnIds);
+    this.ui.showModalDialog(
+      htmlTemplate.evaluate().setHeight(520),
+      'Site Columns',
+    );
+  }
+
+  /**
+   * Shows the dialog to build the query of a site import from filters.
+   * @param approvalStatuses The approval statuses that can be filtered by.
+   */
+  showQueryBuilderDialog(
+    approvalStatuses: Array<{value: string; label: string}>,
+  ): void {
+    const htmlTemplate = this.createHtmlTemplateFn('query_builder_dialog');
+    htmlTemplate['approvalStatuses'] = JSON.stringify(approvalStatuses);
+    this.ui.showModalDialog(
+      htmlTemplate.evaluate().setHeight(560),
+      'Import Sites by Query',
+    );
+  }
+
+  /**
+   * Shows the dialog to create, edit, rename and delete saved queries.
+   * @param savedQueries The saved queries.
+   * @param approvalStatuses The approval statuses that can be filtered by.
+   * @param outputFormats The output formats that can be chosen.
+   * @param columns The columns that can be chosen, in their default order.
+   */
+  showSavedQueriesDialog(
+    savedQueries: SavedQuery[],
+    approvalStatuses: Array<{value: string; label: string}>,
+    outputFormats: Array<{value: string; label: string}>,
+    columns: Array<{id: string; header: string}>,
+  ): void {
+    const htmlTemplate = this.createHtmlTemplateFn('saved_queries_dialog');
+    htmlTemplate['savedQueries'] = JSON.stringify(savedQueries);
+    htmlTemplate['approvalStatuses'] = JSON.stringify(approvalStatuses);
+    htmlTemplate['outputFormats'] = JSON.stringify(outputFormats);
+    htmlTemplate['columns'] = JSON.stringify(columns);
+    this.ui.showModalDialog(
+      htmlTemplate.evaluate().setHeight(600),
+      'Saved Queries',
+    );
+  }
+
   /**
    * Shows a prompt to the user to input a value.
    *
@@ -15,6 +15,18 @@
  * limitations under the License.
  */
 
+import {AlertRule} from './alert_rules';
+import {SiteImportOutputFormat} from './app';
+import {
+  getChunkedValue,
+  putChunkedValue,
+  removeChunkedValue,
+} from './chunked_cache';
+import {ChildSiteCounts, StatusCounts} from './import_history';
+import {SiteColumnId} from './site_columns';
+import {BoundValue} from './statement_builder';
+import {ChildPublisher} from './typings/ad_manager_api';
+
 /**
  * A map of child publishers indexed by child network code.
  */
@@ -23,9 +35,84 @@ export interface ChildPublisherMap {
     id: string;
     name: string;
     childNetworkCode: string;
+    // The account health fields are missing from maps cached by older
+    // versions.
+    accountStatus?: ChildPublisher['accountStatus'];
+    approvedDelegationType?: ChildPublisher['approvedDelegationType'];
+    sellerId?: string;
+    onboardingTasks?: ChildPublisher['onboardingTasks'];
   };
 }
 
+/**
+ * A site import that runs unattended from a time-driven trigger.
+ */
+export interface ScheduledImport {
+  frequency: 'DAILY' | 'WEEKLY';
+  query: string;
+  // The values bound to the query. Missing for schedules created by older
+  // versions, whose query was entered by the user.
+  values?: BoundValue[];
+  outputFormat: SiteImportOutputFormat;
+  // The columns of the saved query that is imported, or null to use the
+  // columns chosen by the user. Missing for schedules created by older
+  // versions.
+  columns?: SiteColumnId[] | null;
+  // The sheet that is overwritten by each import.
+  sheetTitle: string;
+}
+
+/**
+ * The progress of a site import that runs across multiple executions.
+ */
+export interface ImportJob {
+  query: string;
+  // The values bound to the query. Missing for jobs started by older versions.
+  values?: BoundValue[];
+  outputFormat: SiteImportOutputFormat;
+  sheetTitle: string;
+  batchSize: number;
+  // The number of results when the import started, used to report progress.
+  totalResults: number;
+  // The ID of the last imported site. Sites are imported in order of their ID.
+  lastId: number;
+  importedResults: number;
+  // Missing for jobs started by older versions, which use the default columns
+  // of the output format.
+  columns?: SiteColumnId[];
+  // The number of rows written to the current sheet, which exceeds the number
+  // of sites if each disapproval reason has its own row.
+  rowsInPart?: number;
+  // The sites imported so far per approval status, for the import history.
+  // Missing for jobs started by older versions, which add no snapshot. The
+  // counts per child publisher are cached, see `getChildSiteCounts`.
+  statusCounts?: StatusCounts;
+  // The child network codes of imported sites whose child publisher wasn't
+  // found, which are reported once the import finishes. Only the first codes
+  // are kept, as the job is stored in a single user property.
+  unresolvedChildNetworkCodes?: string[];
+  // The number of imported sites whose child publisher wasn't found.
+  unresolvedChildSiteCount?: number;
+  // The requested child network codes that no site has been imported for yet,
+  // which are reported once the import finishes. Only set for imports of a
+  // list of child network codes.
+  childNetworkCodesWithoutSites?: string[];
+}
+
+/**
+ * The progress of a child publisher import that runs across multiple
+ * executions.
+ */
+export interface ChildPublisherImportJob {
+  sheetTitle: string;
+  // The number of child publishers when the import started.
+  totalResults: number;
+  // The ID of the last imported company. Companies are imported in order of
+  // their ID.
+  lastId: number;
+  importedResults: number;
+}
+
 /**
  * Manages user settings for the Child Sites Toolkit.
  */
@@ -33,16 +120,47 @@ export class UserSettings {
   private readonly networkCodeKey: string;
   private readonly apiVersionKey: string;
   private readonly childPublishersKey: string;
+  private readonly scheduledImportKey: string;
+  private readonly scheduledImportJobKey: string;
+  private readonly importJobKey: string;
+  private readonly childPublisherImportJobKey: string;
+  private readonly siteColumnsKey: string;
+  private readonly importDashboardKey: string;
+  private readonly childTrendsKey: string;
+  private readonly alertRulesKey: string;
+  private readonly savedQueryMenuKey: string;
 
   static readonly DEFAULT_API_VERSION = 'v202411';
 
+  /**
+   * The time after which the cached child publishers are fetched again. This
+   * is the maximum expiration time of `CacheService`.
+   */
+  static readonly CHILD_PUBLISHERS_EXPIRATION_IN_SECONDS = 6 * 60 * 60;
+
+  /**
+   * The time after which the cached counts of an unfinished import expire. An
+   * import whose counts expire records no counts per child publisher.
+   */
+  static readonly CHILD_SITE_COUNTS_EXPIRATION_IN_SECONDS = 6 * 60 * 60;
+
   constructor(
     private readonly sheetId: string = SpreadsheetApp.getActiveSpreadsheet().getId(),
     private readonly userProperties = PropertiesService.getUserProperties(),
+    private readonly userCache = CacheService.getUserCache(),
   ) {
     this.networkCodeKey = `${this.sheetId}_networkCode`;
     this.apiVersionKey = `${this.sheetId}_apiVersion`;
     this.childPublishersKey = `${this.sheetId}_childPublishers`;
+    this.scheduledImportKey = `${this.sheetId}_scheduledImport`;
+    this.scheduledImportJobKey = `${this.sheetId}_scheduledImportJob`;
+    this.importJobKey = `${this.sheetId}_importJob`;
+    this.childPublisherImportJobKey = `${this.sheetId}_childPublisherImportJob`;
+    this.siteColumnsKey = `${this.sheetId}_siteColumns`;
+    this.importDashboardKey = `${this.sheetId}_importDashboard`;
+    this.childTrendsKey = `${this.sheetId}_childTrends`;
+    this.alertRulesKey = `${this.sheetId}_alertRules`;
+    this.savedQueryMenuKey = `${this.sheetId}_savedQueryMenu`;
   }
 
   /**
@@ -59,6 +177,8 @@ export class UserSettings {
    */
   set networkCode(networkCode: string) {
     this.userProperties.setProperty(this.networkCodeKey, networkCode);
+    // The cached child publishers belong to the previous network.
+    this.childPublishers = null;
   }
 
   /**
@@ -81,27 +201,254 @@ export class UserSettings {
   }
 
   /**
-   * Retrieves the cached child publishers for the current user's network.
+   * Retrieves the cached child publishers for the current user's network, or
+   * null if they aren't cached or have expired.
    */
   get childPublishers(): ChildPublisherMap | null {
-    const childPublishers = this.userProperties.getProperty(
+    return getChunkedValue<ChildPublisherMap>(
+      this.userCache,
       this.childPublishersKey,
     );
-    if (!childPublishers) {
-      return null;
+  }
+
+  /**
+   * Caches the child publishers for the current user's network. They are
+   * stored in the user cache rather than in user properties, whose size limits
+   * large networks would exceed.
+   *
+   * @param childPublishers The child publishers, or null to clear the cache.
+   */
+  set childPublishers(childPublishers: ChildPublisherMap | null) {
+    if (childPublishers === null) {
+      removeChunkedValue(this.userCache, this.childPublishersKey);
+    } else {
+      putChunkedValue(
+        this.userCache,
+        this.childPublishersKey,
+        childPublishers,
+        UserSettings.CHILD_PUBLISHERS_EXPIRATION_IN_SECONDS,
+      );
     }
-    return JSON.parse(childPublishers) as ChildPublisherMap;
   }
 
   /**
-   * Configures the cached child publishers for the current user's network.
+   * Retrieves a JSON encoded property.
    *
-   * @param childPublishers The child publishers to value to set.
+   * @param key The key of the property.
    */
-  set childPublishers(childPublishers: ChildPublisherMap) {
-    this.userProperties.setProperty(
-      this.childPublishersKey,
-      JSON.stringify(childPublishers),
+  private getJsonProperty<T>(key: string): T | null {
+    const value = this.userProperties.getProperty(key);
+    return value ? (JSON.parse(value) as T) : null;
+  }
+
+  /**
+   * Stores a property as JSON, or deletes it if the value is null.
+   *
+   * @param key The key of the property.
+   * @param value The value to store.
+   */
+  private setJsonProperty<T>(key: string, value: T | null) {
+    if (value === null) {
+      this.userProperties.deleteProperty(key);
+    } else {
+      this.userProperties.setProperty(key, JSON.stringify(value));
+    }
+  }
+
+  /**
+   * Retrieves the scheduled import for the current user.
+   */
+  get scheduledImport(): ScheduledImport | null {
+    return this.getJsonProperty<ScheduledImport>(this.scheduledImportKey);
+  }
+
+  /**
+   * Configures the scheduled import for the current user.
+   *
+   * @param scheduledImport The scheduled import, or null to remove it.
+   */
+  set scheduledImport(scheduledImport: ScheduledImport | null) {
+    this.setJsonProperty(this.scheduledImportKey, scheduledImport);
+  }
+
+  /**
+   * Retrieves the progress of the scheduled import that is currently running.
+   */
+  get scheduledImportJob(): ImportJob | null {
+    return this.getJsonProperty<ImportJob>(this.scheduledImportJobKey);
+  }
+
+  /**
+   * Stores the progress of the scheduled import that is currently running.
+   *
+   * @param job The import job, or null once the import has finished.
+   */
+  set scheduledImportJob(job: ImportJob | null) {
+    this.setJsonProperty(this.scheduledImportJobKey, job);
+  }
+
+  /**
+   * Retrieves the progress of the import started from the menu, if it hasn't
+   * finished yet.
+   */
+  get importJob(): ImportJob | null {
+    return this.getJsonProperty<ImportJob>(this.importJobKey);
+  }
+
+  /**
+   * Stores the progress of the import started from the menu.
+   *
+   * @param job The import job, or null once the import has finished.
+   */
+  set importJob(job: ImportJob | null) {
+    this.setJsonProperty(this.importJobKey, job);
+  }
+
+  /**
+   * Retrieves the progress of the child publisher import, if it hasn't
+   * finished yet.
+   */
+  get childPublisherImportJob(): ChildPublisherImportJob | null {
+    return this.getJsonProperty<ChildPublisherImportJob>(
+      this.childPublisherImportJobKey,
     );
   }
+
+  /**
+   * Stores the progress of the child publisher import.
+   *
+   * @param job The import job, or null once the import has finished.
+   */
+  set childPublisherImportJob(job: ChildPublisherImportJob | null) {
+    this.setJsonProperty(this.childPublisherImportJobKey, job);
+  }
+
+  /**
+   * Retrieves the columns chosen by the user for site imports, or null if the
+   * default columns of each import are used.
+   */
+  get siteColumns(): SiteColumnId[] | null {
+    return this.getJsonProperty<SiteColumnId[]>(this.siteColumnsKey);
+  }
+
+  /**
+   * Configures the columns of site imports.
+   *
+   * @param columns The IDs of the columns in order, or null to use the
+   *     default columns.
+   */
+  set siteColumns(columns: SiteColumnId[] | null) {
+    this.setJsonProperty(this.siteColumnsKey, columns);
+  }
+
+  /**
+   * Retrieves whether a dashboard sheet is created after each import.
+   */
+  get importDashboard(): boolean {
+    return this.userProperties.getProperty(this.importDashboardKey) === 'true';
+  }
+
+  /**
+   * Configures whether a dashboard sheet is created after each import.
+   *
+   * @param enabled Whether to create the dashboard.
+   */
+  set importDashboard(enabled: boolean) {
+    this.userProperties.setProperty(this.importDashboardKey, String(enabled));
+  }
+
+  /**
+   * Retrieves whether each import records the counts of its sites per child
+   * publisher in the import history.
+   */
+  get childTrends(): boolean {
+    return this.userProperties.getProperty(this.childTrendsKey) === 'true';
+  }
+
+  /**
+   * Configures whether imports record their counts per child publisher.
+   *
+   * @param enabled Whether to record the counts.
+   */
+  set childTrends(enabled: boolean) {
+    this.userProperties.setProperty(this.childTrendsKey, String(enabled));
+  }
+
+  /**
+   * Retrieves the cached counts per child publisher of an import, or null if
+   * they aren't cached or have expired.
+   *
+   * @param sheetTitle The title of the first sheet of the import.
+   */
+  getChildSiteCounts(sheetTitle: string): ChildSiteCounts | null {
+    return getChunkedValue<ChildSiteCounts>(
+      this.userCache,
+      this.getChildSiteCountsKey(sheetTitle),
+    );
+  }
+
+  /**
+   * Caches the counts per child publisher of an unfinished import. They are
+   * stored in the user cache rather than with the import job, whose property
+   * networks with many child publishers would exceed.
+   *
+   * @param sheetTitle The title of the first sheet of the import.
+   * @param counts The counts, or null to clear the cache.
+   */
+  setChildSiteCounts(sheetTitle: string, counts: ChildSiteCounts | null) {
+    const key = this.getChildSiteCountsKey(sheetTitle);
+    if (counts === null) {
+      removeChunkedValue(this.userCache, key);
+    } else {
+      putChunkedValue(
+        this.userCache,
+        key,
+        counts,
+        UserSettings.CHILD_SITE_COUNTS_EXPIRATION_IN_SECONDS,
+      );
+    }
+  }
+
+  /**
+   * Returns the cache key of the counts per child publisher of an import.
+   *
+   * @param sheetTitle The title of the first sheet of the import.
+   */
+  private getChildSiteCountsKey(sheetTitle: string): string {
+    return `${this.sheetId}_childSiteCounts_${sheetTitle}`;
+  }
+
+  /**
+   * Retrieves the rules that are checked after each scheduled import, or null
+   * if no rules have been added.
+   */
+  get alertRules(): AlertRule[] | null {
+    return this.getJsonProperty<AlertRule[]>(this.alertRulesKey);
+  }
+
+  /**
+   * Configures the rules that are checked after each scheduled import.
+   *
+   * @param rules The rules, or null to remove all rules.
+   */
+  set alertRules(rules: AlertRule[] | null) {
+    this.setJsonProperty(this.alertRulesKey, rules);
+  }
+
+  /**
+   * Retrieves the names of the saved queries in the menu of the user, in the
+   * order of their menu functions, or null if the menu has no saved queries.
+   */
+  get savedQueryMenu(): string[] | null {
+    return this.getJsonProperty<string[]>(this.savedQueryMenuKey);
+  }
+
+  /**
+   * Records the names of the saved queries when the menu is built.
+   *
+   * @param names The names in the order of their menu functions.
+   */
+  set savedQueryMenu(names: string[] | null) {
+    this.setJsonProperty(this.savedQueryMenuKey, names);
+  }
 }
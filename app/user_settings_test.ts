@@ -15,47 +15,84 @@
  * limitations under the License.
  */
 
+import {SiteImportOutputFormat} from './app';
 import {UserSettings} from './user_settings';
 
 describe('UserSettings', () => {
   let mockUserProperties: jasmine.SpyObj<GoogleAppsScript.Properties.Properties>;
+  let mockUserCache: jasmine.SpyObj<GoogleAppsScript.Cache.Cache>;
 
   beforeEach(() => {
     mockUserProperties = jasmine.createSpyObj('UserProperties', [
       'getProperty',
       'setProperty',
+      'deleteProperty',
     ]);
-    
+    mockUserCache = jasmine.createSpyObj('UserCache', [
+      'get',
+      'getAll',
+      'putAll',
+      'removeAll',
+    ]);
+    mockUserCache.get.and.returnValue(null);
   });
 
   describe('networkCode', () => {
     it('returns null when no property is set', () => {
       mockUserProperties.getProperty.and.returnValue(null);
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
       expect(settings.networkCode).toBeNull();
     });
 
     it('saves property when set', () => {
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
       settings.networkCode = '1234567890';
       expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
         'spreadsheetId_networkCode',
         '1234567890',
       );
     });
+
+    it('clears the cached child publishers when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.networkCode = '1234567890';
+      expect(mockUserCache.removeAll).toHaveBeenCalledOnceWith([
+        'spreadsheetId_childPublishers_chunks',
+      ]);
+    });
   });
 
   describe('adManagerApiVersion', () => {
     it('returns default API version when no property is set', () => {
       mockUserProperties.getProperty.and.returnValue(null);
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
       expect(settings.adManagerApiVersion).toEqual(
         UserSettings.DEFAULT_API_VERSION,
       );
     });
 
     it('saves property when set', () => {
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
       settings.adManagerApiVersion = 'v202411';
       expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
         'spreadsheetId_apiVersion',
@@ -65,9 +102,12 @@ describe('UserSettings', () => {
   });
 
   describe('childPublishers', () => {
-    it('returns null when no property is set', () => {
-      mockUserProperties.getProperty.and.returnValue(null);
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
+    it('returns null when nothing is cached', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
       expect(settings.childPublishers).toEqual(null);
     });
 
@@ -77,20 +117,427 @@ describe('UserSettings', () => {
       '789': {id: '3', name: 'Child Publisher 3', childNetworkCode: '789'},
     };
 
-    it('returns the child publishers map when set', () => {
-      mockUserProperties.getProperty.and.returnValue(
-        JSON.stringify(publishers),
+    it('returns the cached child publishers map', () => {
+      mockUserCache.get.and.returnValue('1');
+      mockUserCache.getAll.and.returnValue({
+        'spreadsheetId_childPublishers_0': JSON.stringify(publishers),
+      });
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
       );
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
       expect(settings.childPublishers).toEqual(publishers);
     });
 
-    it('saves property when set', () => {
-      const settings = new UserSettings('spreadsheetId', mockUserProperties);
+    it('caches the child publishers when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
       settings.childPublishers = publishers;
+      expect(mockUserCache.putAll).toHaveBeenCalledOnceWith(
+        {
+          'spreadsheetId_childPublishers_chunks': '1',
+          'spreadsheetId_childPublishers_0': JSON.stringify(publishers),
+        },
+        UserSettings.CHILD_PUBLISHERS_EXPIRATION_IN_SECONDS,
+      );
+      expect(mockUserProperties.setProperty).not.toHaveBeenCalled();
+    });
+
+    it('clears the cache when set to null', () => {
+      mockUserCache.get.and.returnValue('2');
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.childPublishers = null;
+      expect(mockUserCache.removeAll).toHaveBeenCalledOnceWith([
+        'spreadsheetId_childPublishers_chunks',
+        'spreadsheetId_childPublishers_0',
+        'spreadsheetId_childPublishers_1',
+      ]);
+    });
+  });
+
+  describe('scheduledImport', () => {
+    const scheduledImport = {
+      frequency: 'DAILY' as const,
+      query: '',
+      outputFormat: SiteImportOutputFormat.COMBINED,
+      sheetTitle: 'Scheduled Import',
+    };
+
+    it('returns null when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.scheduledImport).toBeNull();
+    });
+
+    it('returns the scheduled import when set', () => {
+      mockUserProperties.getProperty.and.returnValue(
+        JSON.stringify(scheduledImport),
+      );
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.scheduledImport).toEqual(scheduledImport);
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.scheduledImport = scheduledImport;
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_scheduledImport',
+        JSON.stringify(scheduledImport),
+      );
+    });
+
+    it('deletes property when set to null', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.scheduledImport = null;
+      expect(mockUserProperties.deleteProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_scheduledImport',
+      );
+    });
+  });
+
+  describe('scheduledImportJob', () => {
+    const job = {
+      query: '',
+      outputFormat: SiteImportOutputFormat.COMBINED,
+      sheetTitle: 'Scheduled Import',
+      batchSize: 500,
+      totalResults: 1000,
+      lastId: 12345,
+      importedResults: 500,
+    };
+
+    it('returns the job when set', () => {
+      mockUserProperties.getProperty.and.returnValue(JSON.stringify(job));
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.scheduledImportJob).toEqual(job);
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.scheduledImportJob = job;
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_scheduledImportJob',
+        JSON.stringify(job),
+      );
+    });
+  });
+
+  describe('importJob', () => {
+    const job = {
+      query: '',
+      outputFormat: SiteImportOutputFormat.COMBINED,
+      sheetTitle: 'All Sites',
+      batchSize: 100,
+      totalResults: 1000,
+      lastId: 12345,
+      importedResults: 200,
+    };
+
+    it('returns null when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.importJob).toBeNull();
+    });
+
+    it('returns the job when set', () => {
+      mockUserProperties.getProperty.and.returnValue(JSON.stringify(job));
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.importJob).toEqual(job);
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.importJob = job;
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_importJob',
+        JSON.stringify(job),
+      );
+    });
+
+    it('deletes property when set to null', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.importJob = null;
+      expect(mockUserProperties.deleteProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_importJob',
+      );
+    });
+  });
+
+  describe('childPublisherImportJob', () => {
+    const job = {
+      sheetTitle: 'Child Publishers',
+      totalResults: 1000,
+      lastId: 12345,
+      importedResults: 500,
+    };
+
+    it('returns the job when set', () => {
+      mockUserProperties.getProperty.and.returnValue(JSON.stringify(job));
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.childPublisherImportJob).toEqual(job);
+      expect(mockUserProperties.getProperty).toHaveBeenCalledWith(
+        'spreadsheetId_childPublisherImportJob',
+      );
+    });
+
+    it('deletes property when set to null', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.childPublisherImportJob = null;
+      expect(mockUserProperties.deleteProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_childPublisherImportJob',
+      );
+    });
+  });
+
+  describe('siteColumns', () => {
+    it('returns null when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.siteColumns).toBeNull();
+    });
+
+    it('returns the columns when set', () => {
+      mockUserProperties.getProperty.and.returnValue('["url","siteId"]');
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.siteColumns).toEqual(['url', 'siteId']);
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.siteColumns = ['url', 'siteId'];
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_siteColumns',
+        '["url","siteId"]',
+      );
+    });
+
+    it('deletes property when set to null', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.siteColumns = null;
+      expect(mockUserProperties.deleteProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_siteColumns',
+      );
+    });
+  });
+  describe('importDashboard', () => {
+    it('returns false when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.importDashboard).toBeFalse();
+    });
+
+    it('returns true when enabled', () => {
+      mockUserProperties.getProperty.and.returnValue('true');
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.importDashboard).toBeTrue();
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.importDashboard = true;
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_importDashboard',
+        'true',
+      );
+    });
+  });
+  describe('childTrends', () => {
+    it('returns false when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.childTrends).toBeFalse();
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.childTrends = true;
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_childTrends',
+        'true',
+      );
+    });
+  });
+  describe('childSiteCounts', () => {
+    const counts = {children: {'1234': [1, 0, 0, 0, 0, 0]}, countedResults: 1};
+
+    it('returns null when nothing is cached', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.getChildSiteCounts('sheetTitle')).toBeNull();
+    });
+
+    it('caches the counts of an import', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.setChildSiteCounts('sheetTitle', counts);
+      expect(mockUserCache.putAll).toHaveBeenCalledOnceWith(
+        {
+          'spreadsheetId_childSiteCounts_sheetTitle_chunks': '1',
+          'spreadsheetId_childSiteCounts_sheetTitle_0': JSON.stringify(counts),
+        },
+        UserSettings.CHILD_SITE_COUNTS_EXPIRATION_IN_SECONDS,
+      );
+      expect(mockUserProperties.setProperty).not.toHaveBeenCalled();
+    });
+
+    it('clears the cache when set to null', () => {
+      mockUserCache.get.and.returnValue('1');
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.setChildSiteCounts('sheetTitle', null);
+      expect(mockUserCache.removeAll).toHaveBeenCalledOnceWith([
+        'spreadsheetId_childSiteCounts_sheetTitle_chunks',
+        'spreadsheetId_childSiteCounts_sheetTitle_0',
+      ]);
+    });
+  });
+  describe('alertRules', () => {
+    it('returns null when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.alertRules).toBeNull();
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.alertRules = [{type: 'SITE_DISAPPROVED'}];
+      expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
+        'spreadsheetId_alertRules',
+        '[{"type":"SITE_DISAPPROVED"}]',
+      );
+    });
+  });
+
+  describe('savedQueryMenu', () => {
+    it('returns null when no property is set', () => {
+      mockUserProperties.getProperty.and.returnValue(null);
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      expect(settings.savedQueryMenu).toBeNull();
+    });
+
+    it('saves property when set', () => {
+      const settings = new UserSettings(
+        'spreadsheetId',
+        mockUserProperties,
+        mockUserCache,
+      );
+      settings.savedQueryMenu = ['Disapproved'];
       expect(mockUserProperties.setProperty).toHaveBeenCalledOnceWith(
-        'spreadsheetId_childPublishers',
-        JSON.stringify(publishers),
+        'spreadsheetId_savedQueryMenu',
+        '["Disapproved"]',
       );
     });
   });
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * @fileoverview Notifies external services about imports by posting JSON
+ * messages to webhooks, e.g. those of Google Chat spaces.
+ */
+
+/**
+ * The events that are notified.
+ */
+export type ImportEvent = 'IMPORT_FINISHED' | 'IMPORT_FAILED' | 'ALERT';
+
+/**
+ * A notification about an import.
+ */
+export interface ImportNotification {
+  event: ImportEvent;
+  sheetTitle: string;
+  sheetUrl: string;
+  query: string;
+  // The number of sites imported, in total and per approval status.
+  counts: {total: number; [approvalStatus: string]: number};
+  // The alert rules that matched, for alerts.
+  alerts?: Array<{description: string; sites: number}>;
+  // The error message, for failed imports.
+  error?: string;
+}
+
+/**
+ * Sends notifications about imports.
+ */
+export interface Notifier {
+  notify(notification: ImportNotification): void;
+}
+
+/**
+ * The subset of `UrlFetchApp` used to post to webhooks.
+ */
+export type Fetcher = Pick<GoogleAppsScript.URL_Fetch.UrlFetchApp, 'fetch'>;
+
+/**
+ * Google Chat only accepts messages without unknown fields, so they are sent
+ * the text of a notification only.
+ */
+const GOOGLE_CHAT_WEBHOOK_PATTERN = /^https:\/\/chat\.googleapis\.com\//;
+
+/**
+ * The summaries of the events in the text of a notification.
+ */
+const EVENT_SUMMARIES: {[event in ImportEvent]: string} = {
+  'IMPORT_FINISHED': 'Import finished',
+  'IMPORT_FAILED': 'Import failed',
+  'ALERT': 'Alert',
+};
+
+/**
+ * Returns the human readable text of a notification.
+ * @param notification The notification.
+ */
+export function createNotificationText(
+  notification: ImportNotification,
+): string {
+  const {event, sheetTitle, sheetUrl, query, counts, alerts, error} =
+    notification;
+  const countLines = Object.entries(counts)
+    .filter(([status, count]) => status === 'total' || count > 0)
+    .map(([status, count]) => `${status}: ${count}`);
+  const lines = [
+    `GAM Sites Toolkit: ${EVENT_SUMMARIES[event]} for "${sheetTitle}"`,
+    sheetUrl,
+    `Query: ${query || '(all sites)'}`,
+    `Sites: ${countLines.join(', ')}`,
+  ];
+  for (const {description, sites} of alerts ?? []) {
+    lines.push(`- ${description}: ${sites} site(s)`);
+  }
+  if (error) {
+    lines.push(`Error: ${error}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * A notifier that posts each notification to a list of webhooks.
+ */
+export class WebhookNotifier implements Notifier {
+  constructor(
+    private readonly webhookUrls: string[],
+    private readonly fetcher: Fetcher = UrlFetchApp,
+  ) {}
+
+  /**
+   * Posts a notification to all webhooks. A failing webhook doesn't prevent
+   * the notification from being posted to the others.
+   *
+   * @param notification The notification to post.
+   * @throws An error listing the webhooks that failed.
+   */
+  notify(notification: ImportNotification) {
+    const text = createNotificationText(notification);
+    const failures: string[] = [];
+    for (const url of this.webhookUrls) {
+      const message = GOOGLE_CHAT_WEBHOOK_PATTERN.test(url)
+        ? {text}
+        : {text, ...notification};
+      try {
+        const response = this.fetcher.fetch(url, {
+          method: 'post',
+          contentType: 'application/json',
+          payload: JSON.stringify(message),
+          muteHttpExceptions: true,
+        });
+        const code = response.getResponseCode();
+        if (code < 200 || code >= 300) {
+          failures.push(`${url} (HTTP ${code})`);
+        }
+      } catch (e) {
+        failures.push(`${url} (${e instanceof Error ? e.message : e})`);
+      }
+    }
+    if (failures.length) {
+      throw new Error(`Failed to notify webhooks: ${failures.join(', ')}`);
+    }
+  }
+}
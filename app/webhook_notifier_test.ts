@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2024 Google LLC.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  createNotificationText,
+  Fetcher,
+  ImportNotification,
+  WebhookNotifier,
+} from './webhook_notifier';
+
+describe('webhook notifier', () => {
+  const notification: ImportNotification = {
+    event: 'IMPORT_FINISHED',
+    sheetTitle: 'All Sites',
+    sheetUrl: 'https://docs.google.com/spreadsheets/d/1#gid=2',
+    query: '',
+    counts: {total: 3, APPROVED: 2, DISAPPROVED: 1, DRAFT: 0},
+  };
+
+  /**
+   * A fetcher that records the requests and responds with the given status.
+   */
+  class FakeFetcher implements Fetcher {
+    readonly requests: Array<{
+      url: string;
+      params: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions;
+    }> = [];
+
+    constructor(private readonly responseCodes: {[url: string]: number} = {}) {}
+
+    fetch(
+      url: string,
+      params: GoogleAppsScript.URL_Fetch.URLFetchRequestOptions = {},
+    ) {
+      this.requests.push({url, params});
+      return {
+        getResponseCode: () => this.responseCodes[url] ?? 200,
+      } as GoogleAppsScript.URL_Fetch.HTTPResponse;
+    }
+  }
+
+  describe('createNotificationText', () => {
+    it('summarizes the notification', () => {
+      expect(createNotificationText(notification)).toEqual(
+        'GAM Sites Toolkit: Import finished for "All Sites"\n' +
+          'https://docs.google.com/spreadsheets/d/1#gid=2\n' +
+          'Query: (all sites)\n' +
+          'Sites: total: 3, APPROVED: 2, DISAPPROVED: 1',
+      );
+    });
+
+    it('lists the alerts and the error', () => {
+      const text = createNotificationText({
+        ...notification,
+        event: 'ALERT',
+        alerts: [{description: 'A site moves to "Needs attention"', sites: 1}],
+        error: 'Quota exceeded',
+      });
+      expect(text).toContain(
+        '- A site moves to "Needs attention": 1 site(s)\nError: Quota exceeded',
+      );
+    });
+  });
+
+  describe('WebhookNotifier', () => {
+    it('posts the notification as JSON', () => {
+      const fetcher = new FakeFetcher();
+      new WebhookNotifier(['https://example.com/hook'], fetcher).notify(
+        notification,
+      );
+      expect(fetcher.requests.length).toBe(1);
+      const {url, params} = fetcher.requests[0];
+      expect(url).toBe('https://example.com/hook');
+      expect(params.method).toBe('post');
+      expect(params.contentType).toBe('application/json');
+      expect(JSON.parse(params.payload as string)).toEqual({
+        text: createNotificationText(notification),
+        ...notification,
+      });
+    });
+
+    it('posts only the text to Google Chat', () => {
+      const fetcher = new FakeFetcher();
+      new WebhookNotifier(
+        ['https://chat.googleapis.com/v1/spaces/1/messages?key=2'],
+        fetcher,
+      ).notify(notification);
+      expect(JSON.parse(fetcher.requests[0].params.payload as string)).toEqual({
+        text: createNotificationText(notification),
+      });
+    });
+
+    it('notifies the remaining webhooks if one fails', () => {
+      const fetcher = new FakeFetcher({'https://example.com/1': 500});
+      const notifier = new WebhookNotifier(
+        ['https://example.com/1', 'https://example.com/2'],
+        fetcher,
+      );
+      expect(() => notifier.notify(notification)).toThrowError(
+        'Failed to notify webhooks: https://example.com/1 (HTTP 500)',
+      );
+      expect(fetcher.requests.length).toBe(2);
+    });
+  });
+});
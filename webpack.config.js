@@ -25,6 +25,16 @@ module.exports = {
   mode : 'production',
   entry : {
     import_dialog : path.resolve(__dirname, 'app/assets/import_dialog.ts'),
+    batch_operation_dialog :
+        path.resolve(__dirname, 'app/assets/batch_operation_dialog.ts'),
+    compare_imports_dialog :
+        path.resolve(__dirname, 'app/assets/compare_imports_dialog.ts'),
+    site_columns_dialog :
+        path.resolve(__dirname, 'app/assets/site_columns_dialog.ts'),
+    query_builder_dialog :
+        path.resolve(__dirname, 'app/assets/query_builder_dialog.ts'),
+    saved_queries_dialog :
+        path.resolve(__dirname, 'app/assets/saved_queries_dialog.ts'),
     app : path.resolve(__dirname, 'app/app.ts')
   },
   module : {
@@ -67,6 +77,43 @@ module.exports = {
       chunks : ['import_dialog'],
       inlineSource : '.(js|css)$'
     }),
+    new HtmlWebpackPlugin({
+      template :
+          path.resolve(__dirname, 'app/assets/batch_operation_dialog.html'),
+      filename : 'batch_operation_dialog.html',
+      inject : 'body',
+      chunks : ['batch_operation_dialog'],
+      inlineSource : '.(js|css)$'
+    }),
+    new HtmlWebpackPlugin({
+      template :
+          path.resolve(__dirname, 'app/assets/compare_imports_dialog.html'),
+      filename : 'compare_imports_dialog.html',
+      inject : 'body',
+      chunks : ['compare_imports_dialog'],
+      inlineSource : '.(js|css)$'
+    }),
+    new HtmlWebpackPlugin({
+      template : path.resolve(__dirname, 'app/assets/site_columns_dialog.html'),
+      filename : 'site_columns_dialog.html',
+      inject : 'body',
+      chunks : ['site_columns_dialog'],
+      inlineSource : '.(js|css)$'
+    }),
+    new HtmlWebpackPlugin({
+      template : path.resolve(__dirname, 'app/assets/query_builder_dialog.html'),
+      filename : 'query_builder_dialog.html',
+      inject : 'body',
+      chunks : ['query_builder_dialog'],
+      inlineSource : '.(js|css)$'
+    }),
+    new HtmlWebpackPlugin({
+      template : path.resolve(__dirname, 'app/assets/saved_queries_dialog.html'),
+      filename : 'saved_queries_dialog.html',
+      inject : 'body',
+      chunks : ['saved_queries_dialog'],
+      inlineSource : '.(js|css)$'
+    }),
     new HtmlInlineScriptPlugin({
       htmlMatchPattern : [/\.html$/],
     }),